@@ -7,11 +7,19 @@ import Sidebar from "@/components/layout/Sidebar";
 import Header from "@/components/layout/Header";
 import Dashboard from "@/pages/dashboard";
 import Students from "@/pages/students";
+import StudentStatement from "@/pages/student-statement";
 import Classes from "@/pages/classes";
 import FeeManagement from "@/pages/fee-management";
+import FeeHeads from "@/pages/fee-heads";
+import Concessions from "@/pages/concessions";
+import WriteOffs from "@/pages/write-offs";
+import Deposits from "@/pages/deposits";
+import Families from "@/pages/families";
+import YearRollover from "@/pages/year-rollover";
 import Transport from "@/pages/transport";
 import Payments from "@/pages/payments";
 import Dues from "@/pages/dues";
+import Cheques from "@/pages/cheques";
 import ExcelImport from "@/pages/excel-import";
 import Reports from "@/pages/reports";
 import NotFound from "@/pages/not-found";
@@ -36,11 +44,19 @@ function Router() {
     <Switch>
       <Route path="/" component={() => <Layout><Dashboard /></Layout>} />
       <Route path="/students" component={() => <Layout><Students /></Layout>} />
+      <Route path="/students/:id" component={() => <Layout><StudentStatement /></Layout>} />
       <Route path="/classes" component={() => <Layout><Classes /></Layout>} />
       <Route path="/fee-management" component={() => <Layout><FeeManagement /></Layout>} />
+      <Route path="/fee-heads" component={() => <Layout><FeeHeads /></Layout>} />
+      <Route path="/concessions" component={() => <Layout><Concessions /></Layout>} />
+      <Route path="/write-offs" component={() => <Layout><WriteOffs /></Layout>} />
+      <Route path="/deposits" component={() => <Layout><Deposits /></Layout>} />
+      <Route path="/families" component={() => <Layout><Families /></Layout>} />
+      <Route path="/year-rollover" component={() => <Layout><YearRollover /></Layout>} />
       <Route path="/transport" component={() => <Layout><Transport /></Layout>} />
       <Route path="/payments" component={() => <Layout><Payments /></Layout>} />
       <Route path="/dues" component={() => <Layout><Dues /></Layout>} />
+      <Route path="/cheques" component={() => <Layout><Cheques /></Layout>} />
       <Route path="/excel-import" component={() => <Layout><ExcelImport /></Layout>} />
       <Route path="/reports" component={() => <Layout><Reports /></Layout>} />
       <Route component={NotFound} />
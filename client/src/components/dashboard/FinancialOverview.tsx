@@ -5,6 +5,9 @@ interface FinancialStats {
   totalHostellers: number;
   totalDayScholars: number;
   monthlyCollection: number;
+  grossCollection?: number;
+  monthlyRefunds?: number;
+  monthlyDeposits?: number;
   expectedMonthly: number;
   vanCollection: number;
   vanStudents: number;
@@ -69,6 +72,16 @@ export default function FinancialOverview({ stats }: FinancialOverviewProps) {
                   {Math.abs(stats.collectionGrowth)}% vs last month
                 </span>
               </div>
+              {stats.monthlyRefunds ? (
+                <p className="text-xs text-muted-foreground mt-1" data-testid="text-monthly-refunds">
+                  Net of {formatCurrency(stats.monthlyRefunds)} refunded
+                </p>
+              ) : null}
+              {stats.monthlyDeposits ? (
+                <p className="text-xs text-muted-foreground mt-1" data-testid="text-monthly-deposits">
+                  Excludes {formatCurrency(stats.monthlyDeposits)} in caution deposits
+                </p>
+              ) : null}
             </div>
             <div className="w-12 h-12 bg-secondary/10 rounded-lg flex items-center justify-center">
               <i className="fas fa-chart-line text-secondary text-xl"></i>
@@ -36,6 +36,15 @@ export default function PendingActions({ actions }: PendingActionsProps) {
       color: "accent",
       action: "/payments?filter=pending"
     },
+    {
+      type: "cheques",
+      title: "Cheques Pending Clearance",
+      description: "Awaiting deposit or clearance",
+      count: 0,
+      icon: "fas fa-money-check",
+      color: "accent",
+      action: "/cheques"
+    },
     {
       type: "import",
       title: "Excel Import Ready",
@@ -1,6 +1,7 @@
 import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import type { FeeStructureBulkUpsertResult, FeeStructureComponent, FeeStructureDiffEntry, FeeStructureDiffField } from "@/lib/types";
 
 type ClassKey = "NUR" | "LKG" | "UKG" | "I" | "II" | "III" | "IV" | "V" | "VI" | "VII" | "VIII";
 type Mode = "hosteller" | "dayScholar";
@@ -187,6 +188,74 @@ function resolveClassId(klass: ClassKey, lookup: Map<string, any>): number | nul
   return null;
 }
 
+// Editor columns and the fee component each one is stored as.
+const COMPONENT_FIELDS: Array<{ field: "admission" | "monthly" | "uniform" | "hstDress" | "copy" | "book"; code: string; label: string }> = [
+  { field: "admission", code: "admission", label: "Admission" },
+  { field: "monthly", code: "monthly", label: "Monthly" },
+  { field: "uniform", code: "uniform", label: "Uniform" },
+  { field: "hstDress", code: "hst_dress", label: "HST Dress" },
+  { field: "copy", code: "copy", label: "Copy" },
+  { field: "book", code: "book", label: "Book" },
+];
+
+const DIFF_FIELD_LABELS: Record<FeeStructureDiffField, string> = {
+  hostellerAmount: "Hosteller",
+  dayScholarAmount: "Day Scholar",
+  description: "Description",
+  isActive: "Active",
+  frequency: "Frequency",
+};
+
+// Components for fee heads added on the Fee Heads page have no editor column; they are
+// kept as loaded and sent back unchanged so saving here does not drop them.
+function isEditorComponent(code: string) {
+  return COMPONENT_FIELDS.some((item) => item.code === code);
+}
+
+function rowFromComponents(
+  components: Array<{ componentCode: string; hostellerAmount: string; dayScholarAmount: string }>,
+  audience: "hostellerAmount" | "dayScholarAmount",
+  structureTotal: number,
+): FeeRow {
+  const row: Partial<FeeRow> = {};
+  COMPONENT_FIELDS.forEach(({ field, code }) => {
+    row[field] = sanitizeNumber(components.find((component) => component.componentCode === code)?.[audience]);
+  });
+  const otherHeads = components
+    .filter((component) => !isEditorComponent(component.componentCode))
+    .reduce((total, component) => total + sanitizeNumber(component[audience]), 0);
+  // The structure total still carries any School Fees Total override made in the editor.
+  const extras = (row.uniform ?? 0) + (row.hstDress ?? 0) + (row.copy ?? 0) + (row.book ?? 0) + otherHeads;
+  const schoolFeesTotal = structureTotal - extras;
+  if (schoolFeesTotal !== (row.admission ?? 0) + (row.monthly ?? 0)) {
+    row.schoolFeesTotal = schoolFeesTotal;
+  }
+  return normalizeRow(row);
+}
+
+function describeChanges(entry?: FeeStructureDiffEntry): string {
+  if (!entry) return "";
+  if (entry.action === "unchanged") return "No change";
+  if (entry.action === "created") return "New";
+  return entry.changes
+    .map((change) => {
+      if (!change.component && (change.field === "hostellerAmount" || change.field === "dayScholarAmount")) {
+        const before = Number(change.before ?? 0).toLocaleString("en-IN");
+        const after = Number(change.after ?? 0).toLocaleString("en-IN");
+        return `${DIFF_FIELD_LABELS[change.field]} ₹${before} → ₹${after}`;
+      }
+      if (change.component) {
+        const label = COMPONENT_FIELDS.find((item) => item.code === change.component)?.label ?? change.component;
+        if (change.field === "frequency") {
+          return `${label} ${change.after ? `billed ${String(change.after).replace("_", "-")}` : "removed"}`;
+        }
+        return `${label} (${DIFF_FIELD_LABELS[change.field]}) ₹${Number(change.before ?? 0).toLocaleString("en-IN")} → ₹${Number(change.after ?? 0).toLocaleString("en-IN")}`;
+      }
+      return `${DIFF_FIELD_LABELS[change.field]} changed`;
+    })
+    .join(", ");
+}
+
 type FeeStructureEditorProps = {
   selectedYear: string;
   onSelectedYearChange: (year: string, years: string[]) => void;
@@ -198,8 +267,11 @@ export default function FeeStructureEditor({ selectedYear, onSelectedYearChange,
   const [state, setState] = useState<PersistedState>(() => normalizeState(loadLS(selectedYear) ?? PRESET[selectedYear]));
   const [classLookup, setClassLookup] = useState<Map<string, any>>(new Map());
   const [idToKey, setIdToKey] = useState<Map<number, ClassKey>>(new Map());
+  const [otherComponents, setOtherComponents] = useState<Map<number, FeeStructureComponent[]>>(new Map());
   const [isPushing, setIsPushing] = useState(false);
   const [isModifyOpen, setIsModifyOpen] = useState(false);
+  const [diff, setDiff] = useState<FeeStructureBulkUpsertResult | null>(null);
+  const [isDiffLoading, setIsDiffLoading] = useState(false);
 
   const syncYears = useCallback(() => {
     const yearsList = gatherInitialYears();
@@ -281,6 +353,7 @@ export default function FeeStructureEditor({ selectedYear, onSelectedYearChange,
     const loadFromServer = async () => {
       try {
         if (!idToKey.size) return; // wait until classes loaded
+        setOtherComponents(new Map());
         const res = await fetch(`/api/fee-structures?academicYear=${encodeURIComponent(selectedYear)}`);
         if (!res.ok) return;
         const items = await res.json();
@@ -288,38 +361,19 @@ export default function FeeStructureEditor({ selectedYear, onSelectedYearChange,
 
         const hosteller: any = {};
         const dayScholar: any = {};
-
-        const coerce = (obj: any): FeeRow => {
-          // accept both new and legacy shapes
-          const h = obj?.components ? obj.components : obj;
-          const row: Partial<FeeRow> = {
-            admission: sanitizeNumber(h?.admission),
-            monthly: sanitizeNumber(h?.monthly),
-            schoolFeesTotal: h?.schoolFeesTotal !== undefined ? sanitizeNumber(h.schoolFeesTotal) : undefined,
-            uniform: sanitizeNumber(h?.uniform),
-            hstDress: sanitizeNumber(h?.hstDress ?? h?.extra),
-            copy: sanitizeNumber(h?.copy),
-            book: sanitizeNumber(h?.book),
-          };
-          return normalizeRow(row);
-        };
+        const others = new Map<number, FeeStructureComponent[]>();
 
         for (const item of items) {
           const key = idToKey.get(item.classId);
-          if (!key) continue;
-          try {
-            const parsed = item.description ? JSON.parse(item.description) : null;
-            if (parsed?.hosteller && parsed?.dayScholar) {
-              hosteller[key] = coerce(parsed.hosteller);
-              dayScholar[key] = coerce(parsed.dayScholar);
-            }
-          } catch (_) {
-            // if description not parsable, skip and fallback
-          }
+          if (!key || !Array.isArray(item.components) || item.components.length === 0) continue;
+          hosteller[key] = rowFromComponents(item.components, "hostellerAmount", sanitizeNumber(item.hostellerAmount));
+          dayScholar[key] = rowFromComponents(item.components, "dayScholarAmount", sanitizeNumber(item.dayScholarAmount));
+          others.set(item.classId, item.components.filter((component: FeeStructureComponent) => !isEditorComponent(component.componentCode)));
         }
 
         const merged: PersistedState = normalizeState({ hosteller, dayScholar });
         setState(merged);
+        setOtherComponents(others);
       } catch (e) {
         console.warn('Unable to load server fee structures for year', selectedYear);
       }
@@ -337,9 +391,9 @@ export default function FeeStructureEditor({ selectedYear, onSelectedYearChange,
     if (confirmDb) {
       // fire and handle result; modal not required for this quick path
       (async () => {
-        const ok = await handlePushToDB();
-        if (ok) {
-          window.alert("Saved to database.");
+        const result = await handlePushToDB();
+        if (result) {
+          window.alert(`Saved to database: ${result.created} new, ${result.updated} updated, ${result.unchanged} unchanged.`);
         }
       })();
     }
@@ -408,94 +462,115 @@ export default function FeeStructureEditor({ selectedYear, onSelectedYearChange,
     window.alert(`Added academic year ${newYear}`);
   };
 
-  const handlePushToDB = async (): Promise<boolean> => {
-    try {
-      setIsPushing(true);
-      let lookup = classLookup;
-      if (!lookup.size) {
-        lookup = await fetchClasses();
-        if (lookup.size) {
-          setClassLookup(lookup);
-        }
+  const buildItems = async () => {
+    let lookup = classLookup;
+    if (!lookup.size) {
+      lookup = await fetchClasses();
+      if (lookup.size) {
+        setClassLookup(lookup);
       }
+    }
 
-      const missing: ClassKey[] = [];
-      const items = CLASS_KEYS.map((klass) => {
-        const classId = resolveClassId(klass, lookup);
-        if (!classId) {
-          missing.push(klass);
-          return null;
-        }
-        const hostellerRow = normalizeRow(state.hosteller[klass]);
-        const dayScholarRow = normalizeRow(state.dayScholar[klass]);
-        const payload = {
-          classId,
-          academicYear: selectedYear,
-          feeType: "tuition",
-          hostellerAmount: computeTotal(hostellerRow).toFixed(2),
-          dayScholarAmount: computeTotal(dayScholarRow).toFixed(2),
-          description: JSON.stringify({
-            hosteller: {
-              ...hostellerRow,
-              components: {
-                admission: hostellerRow.admission,
-                monthly: hostellerRow.monthly,
-                schoolFeesTotal: hostellerRow.schoolFeesTotal ?? hostellerRow.admission + hostellerRow.monthly,
-                uniform: hostellerRow.uniform ?? 0,
-                hstDress: hostellerRow.hstDress ?? 0,
-                copy: hostellerRow.copy ?? 0,
-                book: hostellerRow.book ?? 0,
-              },
-            },
-            dayScholar: {
-              ...dayScholarRow,
-              components: {
-                admission: dayScholarRow.admission,
-                monthly: dayScholarRow.monthly,
-                schoolFeesTotal: dayScholarRow.schoolFeesTotal ?? dayScholarRow.admission + dayScholarRow.monthly,
-                uniform: dayScholarRow.uniform ?? 0,
-                hstDress: dayScholarRow.hstDress ?? 0,
-                copy: dayScholarRow.copy ?? 0,
-                book: dayScholarRow.book ?? 0,
-              },
-            },
-          }),
-        };
-        return payload;
-      }).filter(Boolean);
-
-      if (missing.length > 0) {
-        throw new Error(`Missing class mapping for: ${missing.join(", ")}`);
+    const missing: ClassKey[] = [];
+    const items = CLASS_KEYS.map((klass) => {
+      const classId = resolveClassId(klass, lookup);
+      if (!classId) {
+        missing.push(klass);
+        return null;
       }
+      const hostellerRow = normalizeRow(state.hosteller[klass]);
+      const dayScholarRow = normalizeRow(state.dayScholar[klass]);
+      const others = otherComponents.get(classId) ?? [];
+      const otherTotal = (audience: "hostellerAmount" | "dayScholarAmount") =>
+        others.reduce((total, component) => total + sanitizeNumber(component[audience]), 0);
+      const payload = {
+        classId,
+        academicYear: selectedYear,
+        feeType: "tuition",
+        hostellerAmount: (computeTotal(hostellerRow) + otherTotal("hostellerAmount")).toFixed(2),
+        dayScholarAmount: (computeTotal(dayScholarRow) + otherTotal("dayScholarAmount")).toFixed(2),
+        components: [
+          ...COMPONENT_FIELDS.map(({ field, code }) => ({
+            code,
+            hostellerAmount: hostellerRow[field] ?? 0,
+            dayScholarAmount: dayScholarRow[field] ?? 0,
+          })),
+          ...others.map((component) => ({
+            code: component.componentCode,
+            hostellerAmount: component.hostellerAmount,
+            dayScholarAmount: component.dayScholarAmount,
+            frequency: component.frequency,
+          })),
+        ],
+      };
+      return payload;
+    }).filter(Boolean);
 
-      if (items.length === 0) {
-        throw new Error("No fee structure data to push");
-      }
+    if (missing.length > 0) {
+      throw new Error(`Missing class mapping for: ${missing.join(", ")}`);
+    }
 
-      const response = await fetch("/api/fee-structures/bulk-upsert", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ items }),
-      });
+    if (items.length === 0) {
+      throw new Error("No fee structure data to push");
+    }
 
-      if (!response.ok) {
-        const body = await response.json().catch(() => ({}));
-        throw new Error(body?.message || "Failed to push to database");
-      }
+    return items;
+  };
+
+  // dryRun returns the same per-class diff without writing, so the dialog can show it first.
+  const submitItems = async (dryRun: boolean): Promise<FeeStructureBulkUpsertResult> => {
+    const items = await buildItems();
+    const response = await fetch("/api/fee-structures/bulk-upsert", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ items, dryRun }),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body?.message || "Failed to push to database");
+    }
+
+    return response.json();
+  };
+
+  const handlePushToDB = async (): Promise<FeeStructureBulkUpsertResult | null> => {
+    try {
+      setIsPushing(true);
+      const result = await submitItems(false);
+      setDiff(result);
 
       saveLS(selectedYear, cloneState(state));
       const yearsList = syncYears();
       onSelectedYearChange(selectedYear, yearsList);
-      window.alert("Fee structures saved to database");
-      return true;
+      return result;
     } catch (error) {
       window.alert(`Push failed: ${(error as Error).message}`);
-      return false;
+      return null;
     } finally {
       setIsPushing(false);
     }
   };
 
+  const openModifyDialog = async () => {
+    setDiff(null);
+    setIsModifyOpen(true);
+    try {
+      setIsDiffLoading(true);
+      setDiff(await submitItems(true));
+    } catch (error) {
+      console.warn("Unable to preview fee structure changes", error);
+    } finally {
+      setIsDiffLoading(false);
+    }
+  };
+
+  const diffByClassId = useMemo(
+    () => new Map((diff?.items ?? []).map((entry) => [entry.classId, entry])),
+    [diff],
+  );
+  const diffSummary = diff ? `${diff.created} new · ${diff.updated} updated · ${diff.unchanged} unchanged` : null;
+
   const totals = useMemo(() => {
     const hostellerTotal = CLASS_KEYS.reduce((sum, klass) => sum + computeTotal(state.hosteller[klass]), 0);
     const dayScholarTotal = CLASS_KEYS.reduce((sum, klass) => sum + computeTotal(state.dayScholar[klass]), 0);
@@ -555,7 +630,7 @@ export default function FeeStructureEditor({ selectedYear, onSelectedYearChange,
             onChange={handleImport}
           />
         </label>
-        <Button type="button" variant="default" onClick={() => setIsModifyOpen(true)} disabled={isPushing}>
+        <Button type="button" variant="default" onClick={() => void openModifyDialog()} disabled={isPushing}>
           Modify Fee Structure
         </Button>
       </div>
@@ -643,8 +718,13 @@ export default function FeeStructureEditor({ selectedYear, onSelectedYearChange,
       <Dialog open={isModifyOpen} onOpenChange={setIsModifyOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Save changes for {selectedYear}</DialogTitle>
+            <DialogTitle>
+              {diff && !diff.dryRun ? `Saved changes for ${selectedYear}` : `Save changes for ${selectedYear}`}
+            </DialogTitle>
           </DialogHeader>
+          <div className="text-sm text-muted-foreground">
+            {isDiffLoading ? "Comparing with the database…" : diffSummary ?? "Could not compare with the database."}
+          </div>
           <div className="max-h-[50vh] overflow-auto mt-2 border border-border rounded">
             <table className="w-full text-sm">
               <thead className="bg-muted">
@@ -652,24 +732,38 @@ export default function FeeStructureEditor({ selectedYear, onSelectedYearChange,
                   <th className="p-2 text-left">Class</th>
                   <th className="p-2 text-right">Hosteller Total</th>
                   <th className="p-2 text-right">Day Scholar Total</th>
+                  <th className="p-2 text-left">Change</th>
                 </tr>
               </thead>
               <tbody>
-                {CLASS_KEYS.map((klass) => (
-                  <tr key={klass} className="border-t border-border">
-                    <td className="p-2 font-medium">{klass}</td>
-                    <td className="p-2 text-right">{computeTotal(state.hosteller[klass]).toLocaleString('en-IN')}</td>
-                    <td className="p-2 text-right">{computeTotal(state.dayScholar[klass]).toLocaleString('en-IN')}</td>
-                  </tr>
-                ))}
+                {CLASS_KEYS.map((klass) => {
+                  const classId = resolveClassId(klass, classLookup);
+                  const entry = classId ? diffByClassId.get(classId) : undefined;
+                  return (
+                    <tr key={klass} className="border-t border-border">
+                      <td className="p-2 font-medium">{klass}</td>
+                      <td className="p-2 text-right">{computeTotal(state.hosteller[klass]).toLocaleString('en-IN')}</td>
+                      <td className="p-2 text-right">{computeTotal(state.dayScholar[klass]).toLocaleString('en-IN')}</td>
+                      <td className={`p-2 ${entry?.action === "unchanged" ? "text-muted-foreground" : "text-foreground"}`}>
+                        {describeChanges(entry)}
+                      </td>
+                    </tr>
+                  );
+                })}
               </tbody>
             </table>
           </div>
           <DialogFooter>
-            <Button type="button" variant="outline" onClick={() => setIsModifyOpen(false)}>Cancel</Button>
-            <Button type="button" onClick={async () => { const ok = await handlePushToDB(); if (ok) setIsModifyOpen(false); }}>
-              Save Changes
-            </Button>
+            {diff && !diff.dryRun ? (
+              <Button type="button" onClick={() => setIsModifyOpen(false)}>Close</Button>
+            ) : (
+              <>
+                <Button type="button" variant="outline" onClick={() => setIsModifyOpen(false)}>Cancel</Button>
+                <Button type="button" onClick={() => void handlePushToDB()} disabled={isPushing || isDiffLoading}>
+                  {isPushing ? "Saving…" : "Save Changes"}
+                </Button>
+              </>
+            )}
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import type { InstallmentPlanResponse } from "@/lib/types";
+
+const currencyFormatter = new Intl.NumberFormat("en-IN", {
+  style: "currency",
+  currency: "INR",
+  maximumFractionDigits: 2,
+});
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Same day of the month `months` later, pulled back to the month's last day when it is shorter.
+const addMonths = (value: string, months: number) => {
+  const [year, month, day] = value.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10);
+};
+
+type InstallmentRow = { dueDate: string; amount: string };
+
+// Equal parts in paise, with any remainder on the last installment.
+const buildSchedule = (balance: number, count: number, firstDate: string, gapMonths: number): InstallmentRow[] => {
+  const totalPaise = Math.round(balance * 100);
+  const basePaise = Math.floor(totalPaise / count);
+  return Array.from({ length: count }, (_, index) => ({
+    dueDate: addMonths(firstDate, index * gapMonths),
+    amount: ((index === count - 1 ? totalPaise - basePaise * (count - 1) : basePaise) / 100).toFixed(2),
+  }));
+};
+
+export type InstallmentPlanTarget = {
+  id: number;
+  label: string;
+  balance: number;
+  dueDate?: string | null;
+};
+
+interface InstallmentPlanDialogProps {
+  due: InstallmentPlanTarget | null;
+  onClose: () => void;
+  onCreated?: (result: InstallmentPlanResponse) => void;
+}
+
+export default function InstallmentPlanDialog({ due, onClose, onCreated }: InstallmentPlanDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [count, setCount] = useState("3");
+  const [firstDate, setFirstDate] = useState(today());
+  const [gapMonths, setGapMonths] = useState("1");
+  const [rows, setRows] = useState<InstallmentRow[]>([]);
+
+  useEffect(() => {
+    if (!due) return;
+    setCount("3");
+    setGapMonths("1");
+    setFirstDate(due.dueDate && due.dueDate > today() ? due.dueDate : today());
+  }, [due]);
+
+  useEffect(() => {
+    const parts = Number(count);
+    const gap = Number(gapMonths);
+    if (!due || !Number.isInteger(parts) || parts < 2 || parts > 12 || !firstDate || !Number.isInteger(gap) || gap < 1) {
+      return;
+    }
+    setRows(buildSchedule(due.balance, parts, firstDate, gap));
+  }, [due, count, firstDate, gapMonths]);
+
+  const plannedPaise = rows.reduce((sum, row) => sum + Math.round((Number(row.amount) || 0) * 100), 0);
+  const balancePaise = due ? Math.round(due.balance * 100) : 0;
+  const datesInOrder = rows.every((row, index) => Boolean(row.dueDate) && (index === 0 || row.dueDate >= rows[index - 1].dueDate));
+  const canSave = rows.length >= 2
+    && plannedPaise === balancePaise
+    && datesInOrder
+    && rows.every((row) => Number(row.amount) > 0);
+
+  const updateRow = (index: number, patch: Partial<InstallmentRow>) => {
+    setRows((current) => current.map((row, position) => (position === index ? { ...row, ...patch } : row)));
+  };
+
+  const planMutation = useMutation({
+    mutationFn: async (): Promise<InstallmentPlanResponse> => {
+      const response = await apiRequest("POST", `/api/dues/${due!.id}/installments`, {
+        installments: rows.map((row) => ({ dueDate: row.dueDate, amount: Number(row.amount) })),
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dues"] });
+      queryClient.invalidateQueries({ queryKey: ["student-finance", result.due.studentId] });
+      toast({
+        title: "Installment plan created",
+        description: `${due?.label} split into ${result.installments.length} installments.`,
+      });
+      onCreated?.(result);
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create installment plan",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={Boolean(due)} onOpenChange={(open) => !open && !planMutation.isPending && onClose()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Pay in installments</DialogTitle>
+          <DialogDescription>
+            {due
+              ? `Split the unpaid ${currencyFormatter.format(due.balance)} of ${due.label} into installments, each with its own due date.`
+              : null}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-foreground">Installments</p>
+              <Input
+                type="number"
+                min={2}
+                max={12}
+                step="1"
+                value={count}
+                onChange={(event) => setCount(event.target.value)}
+                data-testid="input-installment-count"
+              />
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-foreground">First due</p>
+              <Input
+                type="date"
+                value={firstDate}
+                onChange={(event) => setFirstDate(event.target.value)}
+                data-testid="input-installment-first-date"
+              />
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-foreground">Months apart</p>
+              <Input
+                type="number"
+                min={1}
+                step="1"
+                value={gapMonths}
+                onChange={(event) => setGapMonths(event.target.value)}
+                data-testid="input-installment-gap"
+              />
+            </div>
+          </div>
+          <div className="rounded-lg border divide-y">
+            {rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-[6rem_1fr_1fr] items-center gap-3 p-3">
+                <span className="text-sm text-muted-foreground">Installment {index + 1}</span>
+                <Input
+                  type="date"
+                  value={row.dueDate}
+                  onChange={(event) => updateRow(index, { dueDate: event.target.value })}
+                  data-testid={`input-installment-date-${index}`}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={row.amount}
+                  onChange={(event) => updateRow(index, { amount: event.target.value })}
+                  data-testid={`input-installment-amount-${index}`}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">
+              {datesInOrder ? "Total" : "Dates must be in order"}
+            </span>
+            <span className={cn("font-semibold", plannedPaise === balancePaise ? "text-foreground" : "text-destructive")}>
+              {currencyFormatter.format(plannedPaise / 100)} of {currencyFormatter.format(balancePaise / 100)}
+            </span>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={planMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            disabled={!canSave || planMutation.isPending}
+            onClick={() => planMutation.mutate()}
+            data-testid="button-save-installment-plan"
+          >
+            {planMutation.isPending ? "Saving…" : "Create Plan"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
@@ -32,6 +32,7 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -46,13 +47,19 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
 import { useFinancePeriod } from "@/context/FinancePeriodContext";
+import InstallmentPlanDialog from "@/components/forms/InstallmentPlanDialog";
 import type {
   Class,
+  Family,
+  FamilyMember,
   Student,
   StudentFinanceSummary,
   StudentFinanceDue,
   RecordPaymentPayload,
   RecordPaymentResponse,
+  AllocationPreview,
+  AllocationStrategy,
+  DuplicatePaymentSuspect,
 } from "@/lib/types";
 import { Check, ChevronsUpDown, CircleDollarSign, Printer, Receipt, X } from "lucide-react";
 
@@ -67,6 +74,12 @@ const paymentMethodOptions = [
 
 type PaymentMethodOption = (typeof paymentMethodOptions)[number];
 
+const allocationStrategyLabels: Record<AllocationStrategy, string> = {
+  oldest_month_first: "Oldest month first",
+  one_time_first: "One-time fees first",
+  monthly_only: "Monthly fees only",
+};
+
 const paymentMethodLabels: Record<PaymentMethodOption, string> = {
   cash: "Cash",
   upi: "UPI",
@@ -94,6 +107,18 @@ const statusClassMap: Record<string, string> = {
   paid: "bg-emerald-100 text-emerald-700 border border-emerald-200",
   partial: "bg-amber-100 text-amber-700 border border-amber-200",
   due: "bg-red-100 text-red-700 border border-red-200",
+  overdue: "bg-red-600 text-white border border-red-700",
+  waived: "bg-slate-100 text-slate-600 border border-slate-200",
+  written_off: "bg-slate-100 text-slate-600 border border-slate-200",
+  carried_forward: "bg-slate-100 text-slate-600 border border-slate-200",
+};
+
+const formatDueDate = (value?: string | null) => {
+  if (!value) return "";
+  const date = new Date(`${value}T00:00:00`);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" });
 };
 
 const toTitleCase = (value?: string | null) => {
@@ -104,6 +129,25 @@ const toTitleCase = (value?: string | null) => {
     .replace(/\b\w/g, (match) => match.toUpperCase());
 };
 
+const createIdempotencyKey = () => {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+};
+
+// apiRequest folds the response body into the error message as "<status>: <body>".
+const parseDuplicateConflict = (error: unknown): DuplicatePaymentSuspect[] | null => {
+  const message = error instanceof Error ? error.message : "";
+  if (!message.startsWith("409:")) return null;
+  try {
+    const body = JSON.parse(message.slice(4).trim());
+    return body?.code === "DUPLICATE_SUSPECT" && Array.isArray(body.duplicates) ? body.duplicates : null;
+  } catch {
+    return null;
+  }
+};
+
 const paymentSchema = z.object({
   studentId: z.coerce.number().int().positive({ message: "Select a student" }),
   paymentMethod: z.enum(paymentMethodOptions, { message: "Choose a payment method" }),
@@ -114,7 +158,8 @@ const paymentSchema = z.object({
 
 type PaymentFormValues = z.infer<typeof paymentSchema>;
 
-type DueAllocationState = Record<number, { due: StudentFinanceDue; amount: number }>;
+// owner is set for a sibling's due settled on this student's receipt.
+type DueAllocationState = Record<number, { due: StudentFinanceDue; amount: number; owner?: FamilyMember }>;
 
 type CustomCharge = {
   id: string;
@@ -124,6 +169,24 @@ type CustomCharge = {
   notes?: string;
 };
 
+type TenderLine = {
+  id: string;
+  method: PaymentMethodOption;
+  amount: number;
+  referenceNumber: string;
+  chequeNumber: string;
+  bankName: string;
+};
+
+const createTenderLine = (method: PaymentMethodOption = "cash"): TenderLine => ({
+  id: `tender-${Date.now()}-${Math.round(Math.random() * 1000)}`,
+  method,
+  amount: 0,
+  referenceNumber: "",
+  chequeNumber: "",
+  bankName: "",
+});
+
 type AllocationDisplayItem = {
   key: string;
   label: string;
@@ -145,6 +208,55 @@ interface PaymentFormProps {
   onClose: () => void;
 }
 
+interface SiblingDuesProps {
+  sibling: FamilyMember;
+  renderDueCard: (due: StudentFinanceDue, owner?: FamilyMember) => JSX.Element;
+}
+
+function SiblingDues({ sibling, renderDueCard }: SiblingDuesProps) {
+  const { data: summary, isFetching, isError } = useQuery<StudentFinanceSummary | null>({
+    queryKey: ["student-finance", sibling.studentId],
+    staleTime: 0,
+    retry: false,
+    queryFn: async () => {
+      const res = await fetch(`/api/students/${sibling.studentId}/finance`, {
+        credentials: "include",
+      });
+      if (!res.ok) {
+        throw new Error(`Unable to load dues (status ${res.status})`);
+      }
+      return res.json();
+    },
+  });
+
+  const openDues = summary
+    ? [...summary.buckets.oneTime, ...summary.buckets.monthly, ...summary.buckets.misc]
+        .filter((due) => Number(due.balance ?? 0) > 0.01 && due.status !== "split")
+    : [];
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-foreground">
+        {sibling.name}
+        {sibling.className ? <span className="text-xs text-muted-foreground"> · {sibling.className}</span> : null}
+      </p>
+      {isFetching && !summary ? (
+        <Skeleton className="h-28 w-full" />
+      ) : isError ? (
+        <p className="text-xs text-destructive">Could not load dues for {sibling.name}.</p>
+      ) : openDues.length ? (
+        <div className="max-h-80 overflow-y-auto pr-2">
+          <div className="grid gap-3 md:grid-cols-2">
+            {openDues.map((due) => renderDueCard(due, sibling))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">No open dues for {sibling.name}.</p>
+      )}
+    </div>
+  );
+}
+
 export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -159,10 +271,24 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
   const [activeTab, setActiveTab] = useState<string>("oneTime");
   const [dueAllocations, setDueAllocations] = useState<DueAllocationState>({});
   const [customCharges, setCustomCharges] = useState<CustomCharge[]>([]);
+  const [advanceAmount, setAdvanceAmount] = useState<number>(0);
+  const [depositAmount, setDepositAmount] = useState<number>(0);
+  const [lumpSumAmount, setLumpSumAmount] = useState<number>(0);
+  const [splitTender, setSplitTender] = useState(false);
+  const [tenderLines, setTenderLines] = useState<TenderLine[]>([]);
+  const [allocationStrategy, setAllocationStrategy] = useState<AllocationStrategy>("oldest_month_first");
   const [confirmDialogOpen, setConfirmDialogOpen] = useState(false);
   const [pendingPayload, setPendingPayload] = useState<RecordPaymentPayload | null>(null);
   const [pendingStudent, setPendingStudent] = useState<Student | undefined>(undefined);
   const [pendingAmount, setPendingAmount] = useState<number>(0);
+  const [duplicateSuspects, setDuplicateSuspects] = useState<DuplicatePaymentSuspect[]>([]);
+  const [waiveTarget, setWaiveTarget] = useState<StudentFinanceDue | null>(null);
+  const [waiveReason, setWaiveReason] = useState("");
+  const [installmentTarget, setInstallmentTarget] = useState<StudentFinanceDue | null>(null);
+  const [openSiblingIds, setOpenSiblingIds] = useState<number[]>([]);
+  // Resubmitting the same payload reuses its key, so a retry after a lost response
+  // returns the payment that was already saved instead of recording it again.
+  const lastAttemptRef = useRef<{ signature: string; key: string } | null>(null);
   const { year: activeAcademicYear } = useFinancePeriod();
 
   const { data: students } = useQuery<Student[]>({
@@ -243,6 +369,31 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
     },
   });
 
+  // A student in a family can settle their siblings' dues on the same receipt.
+  const { data: family } = useQuery<Family | null>({
+    queryKey: ["student-family", activeStudentId ?? "idle"],
+    enabled: Boolean(activeStudentId),
+    retry: false,
+    queryFn: async ({ queryKey }) => {
+      const [, studentId] = queryKey as ["student-family", number];
+      const res = await fetch(`/api/students/${studentId}/family`, {
+        credentials: "include",
+      });
+      if (res.status === 404) {
+        return null;
+      }
+      if (!res.ok) {
+        throw new Error(`Unable to load family (status ${res.status})`);
+      }
+      return res.json();
+    },
+  });
+
+  const siblings = useMemo(
+    () => family?.members.filter((member) => member.studentId !== activeStudentId) ?? [],
+    [family, activeStudentId],
+  );
+
   useEffect(() => {
     if (!activeStudentId) {
       return;
@@ -283,7 +434,13 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
       form.reset({ studentId: undefined as unknown as number, ...createDefaultFormValues() });
       setDueAllocations({});
       setCustomCharges([]);
+      setAdvanceAmount(0);
+      setDepositAmount(0);
+      setLumpSumAmount(0);
+      setSplitTender(false);
+      setTenderLines([]);
       setActiveTab("oneTime");
+      setOpenSiblingIds([]);
       setStudentPopoverOpen(false);
     }
   }, [isOpen, form]);
@@ -294,10 +451,27 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
     setStudentPopoverOpen(false);
     setDueAllocations({});
     setCustomCharges([]);
+    setAdvanceAmount(0);
+    setDepositAmount(0);
+    setLumpSumAmount(0);
+    setSplitTender(false);
+    setTenderLines([]);
     setActiveTab("oneTime");
+    setOpenSiblingIds([]);
+  };
+
+  const toggleSibling = (studentId: number) => {
+    if (openSiblingIds.includes(studentId)) {
+      setOpenSiblingIds((current) => current.filter((id) => id !== studentId));
+      setDueAllocations((current) => Object.fromEntries(
+        Object.entries(current).filter(([, entry]) => entry.owner?.studentId !== studentId),
+      ));
+      return;
+    }
+    setOpenSiblingIds((current) => [...current, studentId]);
   };
 
-  const toggleDueSelection = (due: StudentFinanceDue) => {
+  const toggleDueSelection = (due: StudentFinanceDue, owner?: FamilyMember) => {
     setDueAllocations((current) => {
       if (current[due.id]) {
         const { [due.id]: _removed, ...rest } = current;
@@ -309,19 +483,19 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
       }
       return {
         ...current,
-        [due.id]: { due, amount: balance },
+        [due.id]: { due, amount: balance, owner },
       };
     });
   };
 
-  const updateDueAmount = (due: StudentFinanceDue, amount: number) => {
+  const updateDueAmount = (due: StudentFinanceDue, amount: number, owner?: FamilyMember) => {
     const safeAmount = Math.max(0, Math.min(amount, Math.max(0, Number(due.balance ?? 0))));
     setDueAllocations((current) => {
       if (!current[due.id]) {
         if (safeAmount <= 0) return current;
         return {
           ...current,
-          [due.id]: { due, amount: safeAmount },
+          [due.id]: { due, amount: safeAmount, owner },
         };
       }
       if (safeAmount <= 0) {
@@ -330,7 +504,7 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
       }
       return {
         ...current,
-        [due.id]: { due, amount: safeAmount },
+        [due.id]: { due, amount: safeAmount, owner },
       };
     });
   };
@@ -358,10 +532,34 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
     setCustomCharges((prev) => prev.filter((charge) => charge.id !== id));
   };
 
+  const toggleSplitTender = (enabled: boolean) => {
+    setSplitTender(enabled);
+    if (enabled && tenderLines.length === 0) {
+      const method = form.getValues("paymentMethod") ?? "cash";
+      setTenderLines([
+        createTenderLine(method),
+        createTenderLine(method === "upi" ? "cash" : "upi"),
+      ]);
+    }
+  };
+
+  const updateTenderLine = (id: string, updates: Partial<TenderLine>) => {
+    setTenderLines((prev) => prev.map((line) => (line.id === id ? { ...line, ...updates } : line)));
+  };
+
+  const removeTenderLine = (id: string) => {
+    setTenderLines((prev) => prev.filter((line) => line.id !== id));
+  };
+
+  const tenderTotal = useMemo(
+    () => tenderLines.reduce((sum, line) => sum + (Number(line.amount) || 0), 0),
+    [tenderLines],
+  );
+
   const allocationEntries: AllocationDisplayItem[] = useMemo(() => {
     const dueEntries = Object.values(dueAllocations).map((entry) => ({
       key: `due-${entry.due.id}`,
-      label: entry.due.label,
+      label: entry.owner ? `${entry.owner.name}: ${entry.due.label}` : entry.due.label,
       amount: Number(entry.amount ?? 0),
       type: "due" as const,
       status: entry.due.status,
@@ -382,8 +580,8 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
   }, [customCharges, dueAllocations]);
 
   const totalAmount = useMemo(
-    () => allocationEntries.reduce((sum, entry) => sum + (Number(entry.amount) || 0), 0),
-    [allocationEntries],
+    () => allocationEntries.reduce((sum, entry) => sum + (Number(entry.amount) || 0), 0) + advanceAmount + depositAmount,
+    [allocationEntries, advanceAmount, depositAmount],
   );
 
   const { mutateAsync: recordPayment, isPending: recording } = useMutation<
@@ -397,124 +595,114 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
     },
   });
 
-  const resetConfirmation = () => {
-    setConfirmDialogOpen(false);
-    setPendingPayload(null);
-    setPendingStudent(undefined);
-    setPendingAmount(0);
+  const { mutateAsync: previewAllocation, isPending: previewingAllocation } = useMutation<
+    AllocationPreview,
+    Error,
+    { studentId: number; amount: number; strategy: AllocationStrategy; academicYear: string }
+  >({
+    mutationFn: async (payload) => {
+      const response = await apiRequest("POST", "/api/payments/preview-allocation", payload);
+      return response.json();
+    },
+  });
+
+  const { mutateAsync: waiveDue, isPending: waiving } = useMutation<
+    { summary: StudentFinanceSummary | null },
+    Error,
+    { dueId: number; reason: string }
+  >({
+    mutationFn: async ({ dueId, reason }) => {
+      const response = await apiRequest("POST", `/api/dues/${dueId}/waive`, { reason });
+      return response.json();
+    },
+  });
+
+  const closeWaiveDialog = () => {
+    setWaiveTarget(null);
+    setWaiveReason("");
   };
 
-  const openReceiptWindow = (data: RecordPaymentResponse, student?: Student) => {
-    if (typeof window === "undefined") return;
-    const receiptWindow = window.open("", "_blank", "width=720,height=900");
-    if (!receiptWindow) return;
+  const handleConfirmWaive = async () => {
+    if (!waiveTarget || !activeStudentId || !waiveReason.trim()) return;
 
-    const paymentDate = data.payment.paymentDate
-      ? new Date(data.payment.paymentDate).toLocaleString("en-IN", {
-          dateStyle: "medium",
-          timeStyle: "short",
-        })
-      : new Date().toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" });
+    try {
+      await waiveDue({ dueId: waiveTarget.id, reason: waiveReason.trim() });
+      toast({
+        title: "Late fee waived",
+        description: `${waiveTarget.label}: ${formatCurrency(waiveTarget.balance)} waived.`,
+      });
+      setDueAllocations((current) => {
+        const { [waiveTarget.id]: _removed, ...rest } = current;
+        return rest;
+      });
+      queryClient.invalidateQueries({ queryKey: ["student-finance", activeStudentId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dues"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/pending-actions"] });
+      closeWaiveDialog();
+    } catch (error: any) {
+      toast({
+        title: "Failed to waive late fee",
+        description: error?.message ?? "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
 
-    const reference = data.payment.transactionId ?? data.payment.referenceNumber ?? "N/A";
+  const handleAutoAllocate = async () => {
+    if (!activeStudentId || !financeSummary || lumpSumAmount <= 0) return;
 
-    const classLabel = getClassLabel(student);
-    const formattedClassLabel = classLabel === "No class assigned" ? "" : classLabel;
-    const typeLabel = getStudentTypeLabel(student);
-    const guardianLine = student?.guardianName ? `Parent: ${student.guardianName}` : "";
-
-    const studentDetailsHtml = [
-      student?.name ?? "",
-      formattedClassLabel,
-      typeLabel,
-      student?.admissionNumber ? `Admission #${student.admissionNumber}` : "",
-      guardianLine,
-    ]
-      .filter(Boolean)
-      .map((line) => `<div>${line}</div>`)
-      .join("");
-
-    const allocationRows = data.allocations
-      .map(
-        (allocation, index) => `
-          <tr>
-            <td style="padding:8px;border-bottom:1px solid #e5e7eb;text-align:center;">${index + 1}</td>
-            <td style="padding:8px;border-bottom:1px solid #e5e7eb;">${allocation.label ?? "Fee"}</td>
-            <td style="padding:8px;border-bottom:1px solid #e5e7eb;text-align:right;">${formatCurrency(allocation.amount)}</td>
-          </tr>
-        `,
-      )
-      .join("");
-
-    const receiptHtml = `<!doctype html>
-<html>
-  <head>
-    <meta charset="utf-8" />
-    <title>Meed Public School - Payment Receipt #${data.payment.id}</title>
-    <style>
-      body { font-family: 'Segoe UI', Tahoma, sans-serif; margin: 24px; color: #111827; }
-      h1 { font-size: 20px; margin-bottom: 4px; }
-      .muted { color: #6b7280; font-size: 12px; }
-      .section { margin-top: 24px; }
-      table { width: 100%; border-collapse: collapse; margin-top: 12px; }
-      th { text-align: left; padding: 8px; border-bottom: 1px solid #d1d5db; background: #f9fafb; font-size: 12px; }
-      td { font-size: 13px; }
-      .total { font-size: 16px; font-weight: 600; text-align: right; padding-top: 16px; }
-      .stamp { border: 2px solid #1f2937; padding: 16px 32px; border-radius: 12px; display: inline-block; text-transform: uppercase; letter-spacing: 1px; font-weight: 600; }
-      .stamp span { display: block; font-size: 12px; font-weight: 400; margin-top: 4px; letter-spacing: normal; }
-    </style>
-  </head>
-  <body>
-    <div>
-      <h1>Meed Public School - Payment Receipt</h1>
-      <div class="muted">Receipt #: ${data.payment.id} - Generated on ${new Date().toLocaleString("en-IN")}</div>
-    </div>
+    try {
+      const preview = await previewAllocation({
+        studentId: activeStudentId,
+        amount: Math.round(lumpSumAmount * 100) / 100,
+        strategy: allocationStrategy,
+        academicYear: activeAcademicYear,
+      });
 
-    <div class="section">
-      <h2 style="font-size:16px;margin-bottom:4px;">Student Details</h2>
-      <div class="muted">${studentDetailsHtml}</div>
-    </div>
+      const dueLookup = new Map<number, StudentFinanceDue>();
+      [...financeSummary.buckets.oneTime, ...financeSummary.buckets.monthly, ...financeSummary.buckets.misc]
+        .forEach((due) => dueLookup.set(due.id, due));
 
-    <div class="section">
-      <h2 style="font-size:16px;margin-bottom:4px;">Payment Information</h2>
-      <div class="muted">
-        <div>Amount Paid: <strong>${formatCurrency(data.payment.amount)}</strong></div>
-        <div>Payment Method: ${toTitleCase(data.payment.paymentMethod)}</div>
-        <div>Payment Date: ${paymentDate}</div>
-        <div>Reference: ${reference}</div>
-        <div>Remarks: ${data.payment.remarks ?? "N/A"}</div>
-      </div>
-      <table>
-        <thead>
-          <tr>
-            <th style="width:60px;text-align:center;">S/N</th>
-            <th>Fee Component</th>
-            <th style="text-align:right;">Amount</th>
-          </tr>
-        </thead>
-        <tbody>
-          ${allocationRows}
-        </tbody>
-      </table>
-      <div class="total">Total Paid: ${formatCurrency(data.payment.amount)}</div>
-    </div>
+      const next: DueAllocationState = {};
+      preview.allocations.forEach((line) => {
+        const due = dueLookup.get(line.dueId);
+        if (due) {
+          next[due.id] = { due, amount: line.amount };
+        }
+      });
 
-    <div class="section" style="display:flex;justify-content:flex-end;">
-      <div class="stamp">
-        Meed Public School
-        <span>Authorised Stamp</span>
-      </div>
-    </div>
-  </body>
-</html>`;
-
-    receiptWindow.document.write(receiptHtml);
-    receiptWindow.document.close();
-    receiptWindow.focus();
-    setTimeout(() => {
-      receiptWindow.print();
-      receiptWindow.close();
-    }, 400);
+      setDueAllocations(next);
+      setCustomCharges([]);
+      setAdvanceAmount(preview.remainder > 0 ? preview.remainder : 0);
+
+      toast({
+        title: "Amount allocated",
+        description: preview.remainder > 0
+          ? `${formatCurrency(preview.allocatedTotal)} applied to ${preview.allocations.length} dues; ${formatCurrency(preview.remainder)} will be held as advance.`
+          : `${formatCurrency(preview.allocatedTotal)} applied to ${preview.allocations.length} dues.`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Could not allocate amount",
+        description: error?.message || "An unexpected error occurred.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const resetConfirmation = () => {
+    setConfirmDialogOpen(false);
+    setPendingPayload(null);
+    setPendingStudent(undefined);
+    setPendingAmount(0);
+    setDuplicateSuspects([]);
+  };
+
+  // Receipts are rendered server-side so every print matches the stored original.
+  const openReceiptWindow = (data: RecordPaymentResponse) => {
+    if (typeof window === "undefined") return;
+    window.open(`/api/payments/${data.payment.id}/receipt.pdf`, "_blank", "noopener");
   };
 
   const handleConfirmPayment = async () => {
@@ -524,33 +712,55 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
     }
 
     try {
-      const data = await recordPayment(pendingPayload);
+      const data = await recordPayment(
+        duplicateSuspects.length ? { ...pendingPayload, confirmDuplicate: true } : pendingPayload,
+      );
+      lastAttemptRef.current = null;
 
       toast({
-        title: "Payment recorded",
-        description: `Receipt #${data.payment.id} generated successfully.`,
+        title: data.replayed ? "Payment already recorded" : "Payment recorded",
+        description: data.replayed
+          ? `Receipt ${data.payment.receiptNumber ?? `#${data.payment.id}`} was saved by an earlier attempt.`
+          : `Receipt ${data.payment.receiptNumber ?? `#${data.payment.id}`} generated successfully.`,
       });
 
-      openReceiptWindow(data, pendingStudent);
+      openReceiptWindow(data);
 
       queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dues"] });
       queryClient.invalidateQueries({ queryKey: ["student-finance", pendingStudent.id] });
+      Object.values(dueAllocations).forEach((entry) => {
+        if (entry.owner) {
+          queryClient.invalidateQueries({ queryKey: ["student-finance", entry.owner.studentId] });
+        }
+      });
 
       setActiveStudentId(undefined);
       form.reset({ studentId: undefined as unknown as number, ...createDefaultFormValues() });
       setDueAllocations({});
       setCustomCharges([]);
+      setAdvanceAmount(0);
+      setDepositAmount(0);
+      setLumpSumAmount(0);
+      setSplitTender(false);
+      setTenderLines([]);
       setActiveTab("oneTime");
+      setOpenSiblingIds([]);
+      resetConfirmation();
       onClose();
     } catch (error: any) {
+      const duplicates = parseDuplicateConflict(error);
+      if (duplicates?.length) {
+        // Keep the dialog open so the cashier can compare and decide.
+        setDuplicateSuspects(duplicates);
+        return;
+      }
       toast({
         title: "Failed to record payment",
         description: error?.message || "An unexpected error occurred.",
         variant: "destructive",
       });
-    } finally {
       resetConfirmation();
     }
   };
@@ -565,7 +775,7 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
       return;
     }
 
-    if (!allocationEntries.length || totalAmount <= 0) {
+    if ((!allocationEntries.length && advanceAmount <= 0 && depositAmount <= 0) || totalAmount <= 0) {
       toast({
         title: "Add fee components",
         description: "Select at least one fee and enter a valid amount before continuing.",
@@ -574,10 +784,52 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
       return;
     }
 
+    const activeTenders = splitTender ? tenderLines.filter((line) => line.amount > 0) : [];
+    if (splitTender) {
+      if (activeTenders.length < 2) {
+        toast({
+          title: "Add tender lines",
+          description: "Enter amounts for at least two payment methods, or turn off split payment.",
+          variant: "destructive",
+        });
+        return;
+      }
+      if (Math.abs(tenderTotal - totalAmount) > 0.01) {
+        toast({
+          title: "Tenders do not match",
+          description: `Tendered ${formatCurrency(tenderTotal)} but the payment total is ${formatCurrency(totalAmount)}.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      if (activeTenders.some((line) => line.method === "cheque" && !line.chequeNumber.trim())) {
+        toast({
+          title: "Cheque number missing",
+          description: "Enter the cheque number for each cheque tender.",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    const primaryTender = activeTenders.reduce<TenderLine | undefined>(
+      (top, line) => (!top || line.amount > top.amount ? line : top),
+      undefined,
+    );
+
     const payload: RecordPaymentPayload = {
       studentId: values.studentId,
       paymentDate: values.paymentDate,
-      paymentMethod: values.paymentMethod,
+      paymentMethod: primaryTender?.method ?? values.paymentMethod,
+      tenders: activeTenders.length
+        ? activeTenders.map((line) => ({
+            method: line.method,
+            amount: Math.round(line.amount * 100) / 100,
+            referenceNumber: line.referenceNumber.trim() || undefined,
+            chequeNumber: line.chequeNumber.trim() || undefined,
+            bankName: line.bankName.trim() || undefined,
+          }))
+        : undefined,
       referenceNumber: values.referenceNumber?.trim() || undefined,
       remarks: values.remarks?.trim() || undefined,
       allocations: [
@@ -594,13 +846,18 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
             notes: charge.notes?.trim() || undefined,
           })),
       ],
+      advanceAmount: advanceAmount > 0 ? Math.round(advanceAmount * 100) / 100 : undefined,
+      depositAmount: depositAmount > 0 ? Math.round(depositAmount * 100) / 100 : undefined,
+      familyId: Object.values(dueAllocations).some((entry) => entry.owner) ? family?.id : undefined,
       academicYear: activeAcademicYear,
       verify: true,
       createdBy: 1,
     };
 
-    const totalRecordedAmount = payload.allocations.reduce((sum, item) => sum + (item.amount || 0), 0);
-    if (!payload.allocations.length || totalRecordedAmount <= 0) {
+    const totalRecordedAmount = payload.allocations.reduce((sum, item) => sum + (item.amount || 0), 0)
+      + (payload.advanceAmount ?? 0)
+      + (payload.depositAmount ?? 0);
+    if (totalRecordedAmount <= 0) {
       toast({
         title: "Enter valid amounts",
         description: "Allocation amounts must add up to more than zero.",
@@ -609,13 +866,18 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
       return;
     }
 
-    setPendingPayload(payload);
+    const signature = JSON.stringify(payload);
+    if (lastAttemptRef.current?.signature !== signature) {
+      lastAttemptRef.current = { signature, key: createIdempotencyKey() };
+    }
+
+    setPendingPayload({ ...payload, idempotencyKey: lastAttemptRef.current.key });
     setPendingStudent(selectedStudent);
     setPendingAmount(totalRecordedAmount);
     setConfirmDialogOpen(true);
   };
 
-  const renderDueCard = (due: StudentFinanceDue) => {
+  const renderDueCard = (due: StudentFinanceDue, owner?: FamilyMember) => {
     const balance = Math.max(0, Number(due.balance ?? 0));
     const isSelected = Boolean(dueAllocations[due.id]);
     const disabled = balance <= 0.01;
@@ -626,11 +888,11 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
         key={due.id}
         role="button"
         tabIndex={0}
-        onClick={() => (!disabled ? toggleDueSelection(due) : undefined)}
+        onClick={() => (!disabled ? toggleDueSelection(due, owner) : undefined)}
         onKeyDown={(event) => {
           if ((event.key === "Enter" || event.key === " ") && !disabled) {
             event.preventDefault();
-            toggleDueSelection(due);
+            toggleDueSelection(due, owner);
           }
         }}
         className={cn(
@@ -646,8 +908,21 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
             {due.notes ? (
               <p className="mt-1 text-xs text-muted-foreground">{due.notes}</p>
             ) : null}
+            {due.dueDate ? (
+              <p className={cn("mt-1 text-xs", due.status === "overdue" ? "text-destructive" : "text-muted-foreground")}>
+                Due {formatDueDate(due.dueDate)}
+              </p>
+            ) : null}
+            {due.status === "split" ? (
+              <p className="mt-1 text-xs text-muted-foreground">Paid in installments</p>
+            ) : null}
+            {Number(due.concessionAmount ?? 0) > 0 ? (
+              <p className="mt-1 text-xs text-secondary">
+                {formatCurrency(Number(due.grossAmount ?? 0))} less {formatCurrency(Number(due.concessionAmount))} concession
+              </p>
+            ) : null}
           </div>
-          <Badge className={cn("capitalize", statusClassMap[due.status] ?? "bg-muted text-muted-foreground border")}>{due.status}</Badge>
+          <Badge className={cn("capitalize", statusClassMap[due.status] ?? "bg-muted text-muted-foreground border")}>{due.status.replace(/_/g, " ")}</Badge>
         </div>
         <div className="mt-3 grid grid-cols-3 gap-3 text-xs text-muted-foreground">
           <div>
@@ -671,11 +946,37 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
               size="sm"
               onClick={(event) => {
                 event.stopPropagation();
-                updateDueAmount(due, balance);
+                updateDueAmount(due, balance, owner);
               }}
             >
               Pay In Full
             </Button>
+            {!owner && due.dueType === "one_time" && !due.lateFeeForDueId && !due.installmentOfDueId ? (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  setInstallmentTarget(due);
+                }}
+              >
+                Installments
+              </Button>
+            ) : null}
+            {!owner && due.lateFeeForDueId ? (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  setWaiveTarget(due);
+                }}
+              >
+                Waive
+              </Button>
+            ) : null}
             <div className="flex items-center gap-2 text-xs">
               <span className="text-muted-foreground">Amount</span>
               <Input
@@ -684,7 +985,7 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
                 step="0.01"
                 max={balance}
                 value={selectedAmount}
-                onChange={(event) => updateDueAmount(due, parseFloat(event.target.value) || 0)}
+                onChange={(event) => updateDueAmount(due, parseFloat(event.target.value) || 0, owner)}
                 onClick={(event) => event.stopPropagation()}
                 className="h-8 w-28"
               />
@@ -697,6 +998,20 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
 
   const buckets = financeSummary?.buckets ?? { oneTime: [], monthly: [], misc: [] };
 
+  // Installments are listed right after the due they were split from, in plan order.
+  const oneTimeDues = useMemo(() => {
+    const list = financeSummary?.buckets.oneTime ?? [];
+    const installments = list
+      .filter((due) => due.installmentOfDueId)
+      .sort((a, b) => (a.installmentNumber ?? 0) - (b.installmentNumber ?? 0));
+    const parents = list.filter((due) => !due.installmentOfDueId);
+    const parentIds = new Set(parents.map((due) => due.id));
+    return [
+      ...parents.flatMap((due) => [due, ...installments.filter((item) => item.installmentOfDueId === due.id)]),
+      ...installments.filter((item) => !parentIds.has(item.installmentOfDueId!)),
+    ];
+  }, [financeSummary]);
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="w-[min(96vw,900px)] max-h-[90vh] overflow-hidden p-0 sm:p-6">
@@ -822,6 +1137,38 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
                           {financeSummary?.totals.dueCount ?? 0}
                         </span>
                       </div>
+                      {financeSummary?.totals.overdueCount ? (
+                        <div>
+                          <span className="block text-[11px] uppercase tracking-wide">Overdue</span>
+                          <span className="text-sm font-semibold text-destructive">
+                            {financeSummary.totals.overdueCount}
+                          </span>
+                        </div>
+                      ) : null}
+                      {financeSummary?.totals.writtenOff ? (
+                        <div>
+                          <span className="block text-[11px] uppercase tracking-wide">Written Off</span>
+                          <span className="text-sm font-semibold text-muted-foreground">
+                            {formatCurrency(financeSummary.totals.writtenOff)}
+                          </span>
+                        </div>
+                      ) : null}
+                      {financeSummary?.totals.creditBalance ? (
+                        <div>
+                          <span className="block text-[11px] uppercase tracking-wide">Available Credit</span>
+                          <span className="text-sm font-semibold text-emerald-600">
+                            {formatCurrency(financeSummary.totals.creditBalance)}
+                          </span>
+                        </div>
+                      ) : null}
+                      {financeSummary?.totals.refunded ? (
+                        <div>
+                          <span className="block text-[11px] uppercase tracking-wide">Refunded</span>
+                          <span className="text-sm font-semibold text-foreground">
+                            {formatCurrency(financeSummary.totals.refunded)}
+                          </span>
+                        </div>
+                      ) : null}
                     </div>
                   </div>
                 </div>
@@ -834,6 +1181,43 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
                     <span className="text-xs text-muted-foreground">Loading fee status...</span>
                   )}
                 </div>
+                {activeStudentId && financeSummary ? (
+                  <div className="flex flex-wrap items-center gap-3 rounded-lg border bg-muted/20 p-3">
+                    <span className="text-sm font-medium text-foreground">Quick allocate</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      placeholder="Amount received"
+                      value={lumpSumAmount || ""}
+                      onChange={(event) => setLumpSumAmount(Math.max(0, parseFloat(event.target.value) || 0))}
+                      className="h-9 w-36"
+                      data-testid="input-lump-sum-amount"
+                    />
+                    <Select value={allocationStrategy} onValueChange={(value) => setAllocationStrategy(value as AllocationStrategy)}>
+                      <SelectTrigger className="h-9 w-48" data-testid="select-allocation-strategy">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(allocationStrategyLabels) as AllocationStrategy[]).map((strategy) => (
+                          <SelectItem key={strategy} value={strategy}>
+                            {allocationStrategyLabels[strategy]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={handleAutoAllocate}
+                      disabled={lumpSumAmount <= 0 || previewingAllocation}
+                      data-testid="button-auto-allocate"
+                    >
+                      {previewingAllocation ? "Allocating…" : "Auto-allocate"}
+                    </Button>
+                  </div>
+                ) : null}
                 {activeStudentId ? (
                   financeSummaryError ? (
                     <div className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
@@ -846,7 +1230,7 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
                     <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
                       <TabsList>
                         <TabsTrigger value="oneTime">One-Time</TabsTrigger>
-                        <TabsTrigger value="monthly">Monthly</TabsTrigger>
+                        <TabsTrigger value="monthly">Recurring</TabsTrigger>
                         <TabsTrigger value="misc">Other Fees</TabsTrigger>
                       </TabsList>
                       <TabsContent value="oneTime" className="mt-4">
@@ -859,7 +1243,7 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
                         ) : buckets.oneTime.length ? (
                           <div className="max-h-80 overflow-y-auto pr-2">
                             <div className="grid gap-3 md:grid-cols-2">
-                              {buckets.oneTime.map(renderDueCard)}
+                              {oneTimeDues.map((due) => renderDueCard(due))}
                             </div>
                           </div>
                         ) : (
@@ -878,12 +1262,12 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
                         ) : buckets.monthly.length ? (
                           <div className="max-h-80 overflow-y-auto pr-2">
                             <div className="grid gap-3 md:grid-cols-2">
-                              {buckets.monthly.map(renderDueCard)}
+                              {buckets.monthly.map((due) => renderDueCard(due))}
                             </div>
                           </div>
                         ) : (
                           <div className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
-                            Monthly fees are clear for this academic year.
+                            Monthly and other recurring fees are clear for this academic year.
                           </div>
                         )}
                       </TabsContent>
@@ -892,7 +1276,7 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
                           <Skeleton className="h-28 w-full" />
                         ) : buckets.misc.length ? (
                           <div className="space-y-3">
-                            {buckets.misc.map(renderDueCard)}
+                            {buckets.misc.map((due) => renderDueCard(due))}
                           </div>
                         ) : (
                           <div className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
@@ -965,6 +1349,35 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
                     Select a student to view fee buckets and outstanding dues.
                   </div>
                 )}
+                {siblings.length ? (
+                  <div className="space-y-3 rounded-lg border bg-muted/20 p-3">
+                    <div>
+                      <p className="text-sm font-medium text-foreground">Siblings in {family?.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Add their dues to this payment to give the guardian a single receipt.
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {siblings.map((sibling) => (
+                        <Button
+                          key={sibling.studentId}
+                          type="button"
+                          variant={openSiblingIds.includes(sibling.studentId) ? "secondary" : "outline"}
+                          size="sm"
+                          onClick={() => toggleSibling(sibling.studentId)}
+                          data-testid={`button-sibling-${sibling.studentId}`}
+                        >
+                          {sibling.name}
+                        </Button>
+                      ))}
+                    </div>
+                    {siblings
+                      .filter((sibling) => openSiblingIds.includes(sibling.studentId))
+                      .map((sibling) => (
+                        <SiblingDues key={sibling.studentId} sibling={sibling} renderDueCard={renderDueCard} />
+                      ))}
+                  </div>
+                ) : null}
               </div>
 
               <div className="grid gap-6 md:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
@@ -1035,6 +1448,100 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
                       )}
                     />
                   </div>
+                  <div className="rounded-lg border bg-muted/20 p-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-foreground">Split payment</p>
+                        <p className="text-xs text-muted-foreground">Record part cash, part UPI or cheque on one receipt.</p>
+                      </div>
+                      <Switch
+                        checked={splitTender}
+                        onCheckedChange={toggleSplitTender}
+                        data-testid="switch-split-tender"
+                      />
+                    </div>
+                    {splitTender ? (
+                      <div className="space-y-3">
+                        {tenderLines.map((line) => (
+                          <div key={line.id} className="grid gap-2 rounded-lg border bg-background p-3 md:grid-cols-[140px_110px_1fr_auto]">
+                            <Select
+                              value={line.method}
+                              onValueChange={(value) => updateTenderLine(line.id, { method: value as PaymentMethodOption })}
+                            >
+                              <SelectTrigger className="h-9">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {paymentMethodOptions.map((method) => (
+                                  <SelectItem key={method} value={method}>
+                                    {paymentMethodLabels[method]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Input
+                              type="number"
+                              min={0}
+                              step="0.01"
+                              placeholder="Amount"
+                              value={line.amount || ""}
+                              onChange={(event) => updateTenderLine(line.id, { amount: parseFloat(event.target.value) || 0 })}
+                              className="h-9"
+                            />
+                            {line.method === "cheque" ? (
+                              <div className="grid grid-cols-2 gap-2">
+                                <Input
+                                  placeholder="Cheque no."
+                                  value={line.chequeNumber}
+                                  onChange={(event) => updateTenderLine(line.id, { chequeNumber: event.target.value })}
+                                  className="h-9"
+                                />
+                                <Input
+                                  placeholder="Bank"
+                                  value={line.bankName}
+                                  onChange={(event) => updateTenderLine(line.id, { bankName: event.target.value })}
+                                  className="h-9"
+                                />
+                              </div>
+                            ) : (
+                              <Input
+                                placeholder="Reference"
+                                value={line.referenceNumber}
+                                onChange={(event) => updateTenderLine(line.id, { referenceNumber: event.target.value })}
+                                className="h-9"
+                              />
+                            )}
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => removeTenderLine(line.id)}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+                        <div className="flex items-center justify-between text-xs">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setTenderLines((prev) => [...prev, createTenderLine()])}
+                          >
+                            + Add Tender
+                          </Button>
+                          <span
+                            className={cn(
+                              "font-medium",
+                              Math.abs(tenderTotal - totalAmount) > 0.01 ? "text-destructive" : "text-emerald-600",
+                            )}
+                          >
+                            Tendered {formatCurrency(tenderTotal)} of {formatCurrency(totalAmount)}
+                          </span>
+                        </div>
+                      </div>
+                    ) : null}
+                  </div>
                 </div>
 
                 <div className="space-y-4">
@@ -1073,6 +1580,48 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
                       </p>
                     )}
                   </div>
+                  <div className="rounded-lg border bg-background p-4">
+                    <div className="flex items-center justify-between gap-3">
+                      <div>
+                        <p className="text-sm font-medium text-foreground">Advance / Excess</p>
+                        <p className="text-xs text-muted-foreground">
+                          Held as credit and applied automatically to upcoming dues.
+                        </p>
+                      </div>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        placeholder="0"
+                        value={advanceAmount || ""}
+                        onChange={(event) => setAdvanceAmount(Math.max(0, parseFloat(event.target.value) || 0))}
+                        className="h-9 w-32"
+                        disabled={!activeStudentId}
+                        data-testid="input-advance-amount"
+                      />
+                    </div>
+                  </div>
+                  <div className="rounded-lg border bg-background p-4">
+                    <div className="flex items-center justify-between gap-3">
+                      <div>
+                        <p className="text-sm font-medium text-foreground">Caution Deposit</p>
+                        <p className="text-xs text-muted-foreground">
+                          Refundable; held separately and returned when the student leaves.
+                        </p>
+                      </div>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        placeholder="0"
+                        value={depositAmount || ""}
+                        onChange={(event) => setDepositAmount(Math.max(0, parseFloat(event.target.value) || 0))}
+                        className="h-9 w-32"
+                        disabled={!activeStudentId}
+                        data-testid="input-deposit-amount"
+                      />
+                    </div>
+                  </div>
                   {selectedStudent && financeSummary ? (
                     <div className="rounded-lg border bg-background p-4 text-xs text-muted-foreground">
                       <p className="font-semibold text-foreground">Post-payment outlook</p>
@@ -1130,9 +1679,27 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
           </AlertDialogHeader>
           <div className="rounded-md border bg-muted/20 p-3 text-sm text-muted-foreground">
             <div>Components: {pendingPayload?.allocations.length ?? 0}</div>
+            {pendingPayload?.familyId ? <div>Includes siblings' dues on one family receipt</div> : null}
             <div>Payment method: {toTitleCase(pendingPayload?.paymentMethod)}</div>
             {pendingPayload?.remarks ? <div>Remarks: {pendingPayload.remarks}</div> : null}
           </div>
+          {duplicateSuspects.length ? (
+            <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+              <div className="font-medium">Possible duplicate</div>
+              <div className="mt-1">
+                A payment with the same amount and method was recorded for this student a few minutes ago:
+              </div>
+              <ul className="mt-2 space-y-1">
+                {duplicateSuspects.map((suspect) => (
+                  <li key={suspect.id}>
+                    {suspect.receiptNumber ?? `#${suspect.id}`} · {formatCurrency(Number(suspect.amount))} ·{" "}
+                    {toTitleCase(suspect.paymentMethod)} ·{" "}
+                    {new Date(suspect.createdAt).toLocaleTimeString("en-IN", { hour: "2-digit", minute: "2-digit" })}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
           <AlertDialogFooter>
             <AlertDialogCancel
               disabled={recording}
@@ -1155,11 +1722,60 @@ export default function PaymentForm({ isOpen, onClose }: PaymentFormProps) {
                 }
               }}
             >
-              {recording ? "Recording..." : "Confirm Payment"}
+              {recording ? "Recording..." : duplicateSuspects.length ? "Record Anyway" : "Confirm Payment"}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+      <AlertDialog
+        open={Boolean(waiveTarget)}
+        onOpenChange={(open) => {
+          if (!open && !waiving) {
+            closeWaiveDialog();
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Waive late fee</AlertDialogTitle>
+            <AlertDialogDescription>
+              {waiveTarget
+                ? `Waive the unpaid ${formatCurrency(waiveTarget.balance)} of ${waiveTarget.label}? This cannot be undone.`
+                : ""}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            placeholder="Reason for the waiver"
+            value={waiveReason}
+            onChange={(event) => setWaiveReason(event.target.value)}
+            disabled={waiving}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={waiving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={waiving || !waiveReason.trim()}
+              onClick={(event) => {
+                event.preventDefault();
+                if (!waiving) {
+                  void handleConfirmWaive();
+                }
+              }}
+            >
+              {waiving ? "Waiving..." : "Waive"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <InstallmentPlanDialog
+        due={installmentTarget}
+        onClose={() => setInstallmentTarget(null)}
+        onCreated={(result) => {
+          setDueAllocations((current) => {
+            const { [result.due.id]: _removed, ...rest } = current;
+            return rest;
+          });
+        }}
+      />
     </Dialog>
   );
 }
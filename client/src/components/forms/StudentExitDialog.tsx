@@ -0,0 +1,302 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import type { StudentExitLine, StudentExitRecord, StudentExitResult, StudentExitSettlement } from "@/lib/types";
+
+const currencyFormatter = new Intl.NumberFormat("en-IN", {
+  style: "currency",
+  currency: "INR",
+  maximumFractionDigits: 2,
+});
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const actionLabels: Record<StudentExitLine["action"], string> = {
+  cancelled: "Cancelled",
+  adjusted: "Reduced to paid",
+};
+
+export type StudentExitTarget = {
+  id: number;
+  name: string;
+};
+
+interface StudentExitDialogProps {
+  student: StudentExitTarget | null;
+  onClose: () => void;
+}
+
+function SettlementSummary({ settlement }: { settlement: StudentExitSettlement }) {
+  const rows: Array<[string, number]> = [
+    ["Outstanding dues", settlement.outstanding],
+    ["Credit held", settlement.creditBalance],
+  ];
+  if (settlement.depositHeld > 0) {
+    rows.push(["Caution deposit held", settlement.depositHeld]);
+  }
+  if (settlement.prepaidAfterLeaving > 0) {
+    rows.push(["Collected for months after leaving", settlement.prepaidAfterLeaving]);
+  }
+
+  return (
+    <div className="rounded-lg border divide-y text-sm">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex items-center justify-between p-3">
+          <span className="text-muted-foreground">{label}</span>
+          <span className="font-medium text-foreground">{currencyFormatter.format(value)}</span>
+        </div>
+      ))}
+      <div className="flex items-center justify-between p-3">
+        <span className="font-medium text-foreground">
+          {settlement.balance > 0 ? "To collect" : settlement.balance < 0 ? "To refund" : "Settled"}
+        </span>
+        <span className={cn("font-semibold", settlement.balance > 0 ? "text-destructive" : "text-foreground")}>
+          {currencyFormatter.format(Math.abs(settlement.balance))}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export default function StudentExitDialog({ student, onClose }: StudentExitDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [leavingDate, setLeavingDate] = useState(today());
+  const [reason, setReason] = useState("");
+  const [preview, setPreview] = useState<StudentExitResult | null>(null);
+
+  const exitQueryKey = ["student-exit", student?.id];
+
+  // A 404 only means no exit has been recorded yet.
+  const { data: record, isLoading } = useQuery<StudentExitRecord | null>({
+    queryKey: exitQueryKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/students/${student!.id}/exit`, { credentials: "include" });
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        const message = await response.text().catch(() => response.statusText);
+        throw new Error(message || "Failed to load student exit");
+      }
+      return response.json();
+    },
+    enabled: Boolean(student),
+  });
+
+  useEffect(() => {
+    if (!student) return;
+    setLeavingDate(today());
+    setReason("");
+    setPreview(null);
+  }, [student]);
+
+  useEffect(() => {
+    setPreview(null);
+  }, [leavingDate]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dues"] });
+    queryClient.invalidateQueries({ queryKey: ["student-finance", student?.id] });
+    queryClient.invalidateQueries({ queryKey: exitQueryKey });
+  };
+
+  const showError = (error: any, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const exitMutation = useMutation({
+    mutationFn: async (dryRun: boolean): Promise<StudentExitResult> => {
+      const response = await apiRequest("POST", `/api/students/${student!.id}/exit`, {
+        leavingDate,
+        reason: reason.trim() || undefined,
+        dryRun,
+      });
+      return response.json();
+    },
+    onSuccess: (result, dryRun) => {
+      if (dryRun) {
+        setPreview(result);
+        return;
+      }
+      setPreview(null);
+      refresh();
+      toast({
+        title: "Exit recorded",
+        description: result.settlement.balance === 0
+          ? `${student?.name}'s account is settled; the no-dues certificate can be issued.`
+          : `${student?.name} marked as left. ${currencyFormatter.format(Math.abs(result.settlement.balance))} ${result.settlement.balance > 0 ? "to collect" : "to refund"} before clearance.`,
+      });
+    },
+    onError: (error: any) => showError(error, "Failed to record student exit"),
+  });
+
+  const clearanceMutation = useMutation({
+    mutationFn: async (): Promise<StudentExitRecord> => {
+      const response = await apiRequest("POST", `/api/students/${student!.id}/clearance`, {});
+      return response.json();
+    },
+    onSuccess: (result) => {
+      refresh();
+      toast({
+        title: "No-dues certificate issued",
+        description: `Certificate ${result.exit.certificateNumber} issued for ${student?.name}.`,
+      });
+    },
+    onError: (error: any) => showError(error, "Failed to issue no-dues certificate"),
+  });
+
+  const openCertificate = () => {
+    if (typeof window === "undefined" || !student) return;
+    window.open(`/api/students/${student.id}/clearance.pdf`, "_blank", "noopener");
+  };
+
+  const isPending = exitMutation.isPending || clearanceMutation.isPending;
+  const settlement = record?.settlement;
+  const canClear = Boolean(settlement) && settlement!.outstanding <= 0.009 && settlement!.creditBalance <= 0.009
+    && settlement!.depositHeld <= 0.009 && settlement!.prepaidAfterLeaving <= 0.009;
+
+  return (
+    <Dialog open={Boolean(student)} onOpenChange={(open) => !open && !isPending && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Exit and clearance</DialogTitle>
+          <DialogDescription>
+            {record
+              ? `${student?.name} left on ${record.exit.leavingDate}.`
+              : student
+                ? `Record ${student.name}'s leaving date. Monthly dues after that month are cancelled and the final settlement is worked out.`
+                : null}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : record ? (
+          <div className="space-y-4">
+            <SettlementSummary settlement={record.settlement} />
+            {record.exit.clearedAt ? (
+              <p className="text-sm text-foreground">
+                No-dues certificate <span className="font-mono">{record.exit.certificateNumber}</span> issued on{" "}
+                {new Date(record.exit.clearedAt).toLocaleDateString("en-IN")}. The account is closed.
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {record.settlement.outstanding > 0.009
+                  ? "Collect the outstanding dues from the Payments page before issuing the certificate."
+                  : record.settlement.creditBalance > 0.009
+                    ? "Refund the credit held against its payment before issuing the certificate."
+                    : record.settlement.depositHeld > 0.009
+                      ? "Refund or deduct the caution deposit from the Deposits page before issuing the certificate."
+                    : record.settlement.prepaidAfterLeaving > 0.009
+                      ? "Refund the fees collected for months after leaving before issuing the certificate."
+                    : "The account is settled and can be cleared."}
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-foreground">Leaving date</p>
+                <Input
+                  type="date"
+                  value={leavingDate}
+                  onChange={(event) => setLeavingDate(event.target.value)}
+                  data-testid="input-exit-leaving-date"
+                />
+              </div>
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-foreground">Reason</p>
+                <Input
+                  value={reason}
+                  onChange={(event) => setReason(event.target.value)}
+                  placeholder="Optional"
+                  data-testid="input-exit-reason"
+                />
+              </div>
+            </div>
+
+            {preview && (
+              <>
+                {preview.lines.length > 0 ? (
+                  <div className="rounded-lg border">
+                    <table className="data-table w-full">
+                      <thead>
+                        <tr className="border-b border-border">
+                          <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Due</th>
+                          <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Change</th>
+                          <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Was</th>
+                          <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Now</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.lines.map((line) => (
+                          <tr key={line.dueId} className="border-b border-border text-sm">
+                            <td className="py-2 px-4 text-foreground">{line.label}</td>
+                            <td className="py-2 px-4 text-muted-foreground">{actionLabels[line.action]}</td>
+                            <td className="py-2 px-4">{currencyFormatter.format(Number(line.previousAmount))}</td>
+                            <td className="py-2 px-4">{currencyFormatter.format(Number(line.amount))}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No dues fall after the leaving month.</p>
+                )}
+                <SettlementSummary settlement={preview.settlement} />
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isPending}>
+            Close
+          </Button>
+          {record ? (
+            record.exit.clearedAt ? (
+              <Button onClick={openCertificate} data-testid="button-print-clearance">
+                Print Certificate
+              </Button>
+            ) : (
+              <Button
+                disabled={!canClear || isPending}
+                onClick={() => clearanceMutation.mutate()}
+                data-testid="button-issue-clearance"
+              >
+                {clearanceMutation.isPending ? "Issuing…" : "Issue No-Dues Certificate"}
+              </Button>
+            )
+          ) : preview ? (
+            <Button
+              variant="destructive"
+              disabled={isPending}
+              onClick={() => exitMutation.mutate(false)}
+              data-testid="button-confirm-exit"
+            >
+              {exitMutation.isPending ? "Saving…" : "Record Exit"}
+            </Button>
+          ) : (
+            <Button
+              disabled={!leavingDate || isPending || isLoading}
+              onClick={() => exitMutation.mutate(true)}
+              data-testid="button-preview-exit"
+            >
+              {exitMutation.isPending ? "Checking…" : "Preview Settlement"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
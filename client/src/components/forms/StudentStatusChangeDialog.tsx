@@ -0,0 +1,264 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { buildAcademicYearMonths, cn, formatAcademicMonth, getCurrentMonthKey } from "@/lib/utils";
+import type { Class, StudentStatusChange, StudentStatusChangeLine, StudentStatusChangeResult } from "@/lib/types";
+
+const currencyFormatter = new Intl.NumberFormat("en-IN", {
+  style: "currency",
+  currency: "INR",
+  maximumFractionDigits: 2,
+});
+
+const actionLabels: Record<StudentStatusChangeLine["action"], string> = {
+  cancelled: "Cancelled",
+  adjusted: "Repriced",
+  created: "Added",
+};
+
+const actionClasses: Record<StudentStatusChangeLine["action"], string> = {
+  cancelled: "text-muted-foreground",
+  adjusted: "text-amber-600",
+  created: "text-green-600",
+};
+
+export type StudentStatusChangeTarget = {
+  id: number;
+  name: string;
+  classId: number;
+  isHosteller: boolean;
+};
+
+interface StudentStatusChangeDialogProps {
+  student: StudentStatusChangeTarget | null;
+  academicYear?: string | null;
+  onClose: () => void;
+}
+
+export default function StudentStatusChangeDialog({ student, academicYear, onClose }: StudentStatusChangeDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [classId, setClassId] = useState("");
+  const [isHosteller, setIsHosteller] = useState(false);
+  const [effectiveMonth, setEffectiveMonth] = useState("");
+  const [reason, setReason] = useState("");
+  const [preview, setPreview] = useState<StudentStatusChangeResult | null>(null);
+
+  const months = buildAcademicYearMonths(academicYear);
+
+  const { data: classes } = useQuery<Class[]>({
+    queryKey: ["/api/classes"],
+    enabled: Boolean(student),
+  });
+
+  const { data: history } = useQuery<StudentStatusChange[]>({
+    queryKey: [`/api/students/${student?.id}/status-changes`],
+    enabled: Boolean(student),
+  });
+
+  useEffect(() => {
+    if (!student) return;
+    const currentMonth = getCurrentMonthKey();
+    const yearMonths = buildAcademicYearMonths(academicYear);
+    setClassId(String(student.classId));
+    setIsHosteller(student.isHosteller);
+    setEffectiveMonth(yearMonths.includes(currentMonth) ? currentMonth : yearMonths[0] ?? "");
+    setReason("");
+    setPreview(null);
+  }, [student, academicYear]);
+
+  // Any edit invalidates the preview so the applied change is always the one shown.
+  useEffect(() => {
+    setPreview(null);
+  }, [classId, isHosteller, effectiveMonth]);
+
+  const classLabel = (id: number) => {
+    const match = classes?.find((cls) => cls.id === id);
+    return match ? `${match.name}${match.section ? ` - ${match.section}` : ""}` : `Class ${id}`;
+  };
+
+  const classChanged = Boolean(student) && Number(classId) !== student?.classId;
+  const boardingChanged = Boolean(student) && isHosteller !== student?.isHosteller;
+  const hasChange = classChanged || boardingChanged;
+
+  const changeMutation = useMutation({
+    mutationFn: async (dryRun: boolean): Promise<StudentStatusChangeResult> => {
+      const response = await apiRequest("POST", `/api/students/${student!.id}/status-change`, {
+        ...(classChanged ? { classId: Number(classId) } : {}),
+        ...(boardingChanged ? { isHosteller } : {}),
+        effectiveMonth,
+        reason: reason.trim() || undefined,
+        dryRun,
+      });
+      return response.json();
+    },
+    onSuccess: (result, dryRun) => {
+      if (dryRun) {
+        setPreview(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dues"] });
+      queryClient.invalidateQueries({ queryKey: ["student-finance", student?.id] });
+      queryClient.invalidateQueries({ queryKey: [`/api/students/${student?.id}/status-changes`] });
+      toast({
+        title: "Status changed",
+        description: `${student?.name}'s dues were repriced from ${formatAcademicMonth(effectiveMonth)} (${result.amountChange >= 0 ? "+" : "−"}${currencyFormatter.format(Math.abs(result.amountChange))}).`,
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change student status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={Boolean(student)} onOpenChange={(open) => !open && !changeMutation.isPending && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Change class or boarding</DialogTitle>
+          <DialogDescription>
+            {student
+              ? `Move ${student.name} mid-year. Dues from the effective month onward are repriced to the new fee structure; paid amounts are kept.`
+              : null}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-foreground">Class</p>
+              <Select value={classId} onValueChange={setClassId}>
+                <SelectTrigger data-testid="select-status-change-class">
+                  <SelectValue placeholder="Select a class" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(classes ?? []).map((cls) => (
+                    <SelectItem key={cls.id} value={cls.id.toString()}>
+                      {cls.name} {cls.section ? `- ${cls.section}` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-foreground">Effective from</p>
+              <Select value={effectiveMonth} onValueChange={setEffectiveMonth}>
+                <SelectTrigger data-testid="select-status-change-month">
+                  <SelectValue placeholder="Month" />
+                </SelectTrigger>
+                <SelectContent>
+                  {months.map((month) => (
+                    <SelectItem key={month} value={month}>{formatAcademicMonth(month)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-foreground">Hosteller</p>
+              <div className="flex h-10 items-center gap-2">
+                <Switch
+                  checked={isHosteller}
+                  onCheckedChange={setIsHosteller}
+                  data-testid="switch-status-change-hosteller"
+                />
+                <span className="text-sm text-muted-foreground">{isHosteller ? "Hosteller" : "Day Scholar"}</span>
+              </div>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm font-medium text-foreground">Reason</p>
+            <Input
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              placeholder="Optional"
+              data-testid="input-status-change-reason"
+            />
+          </div>
+
+          {preview && (
+            <div className="rounded-lg border">
+              {preview.lines.length === 0 ? (
+                <p className="p-3 text-sm text-muted-foreground">No dues change for this move.</p>
+              ) : (
+                <table className="data-table w-full">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Due</th>
+                      <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Change</th>
+                      <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Was</th>
+                      <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Now</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.lines.map((line, index) => (
+                      <tr key={`${line.dueId ?? "new"}-${index}`} className="border-b border-border text-sm">
+                        <td className="py-2 px-4 text-foreground">{line.label}</td>
+                        <td className={cn("py-2 px-4 font-medium", actionClasses[line.action])}>{actionLabels[line.action]}</td>
+                        <td className="py-2 px-4">{currencyFormatter.format(Number(line.previousAmount))}</td>
+                        <td className="py-2 px-4">{currencyFormatter.format(Number(line.amount))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              <div className="flex items-center justify-between border-t p-3 text-sm">
+                <span className="text-muted-foreground">Net change to dues</span>
+                <span className={cn("font-semibold", preview.amountChange > 0 ? "text-destructive" : "text-foreground")}>
+                  {preview.amountChange >= 0 ? "+" : "−"}{currencyFormatter.format(Math.abs(preview.amountChange))}
+                </span>
+              </div>
+            </div>
+          )}
+
+          {history && history.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-foreground">Earlier changes</p>
+              <ul className="space-y-1 text-xs text-muted-foreground">
+                {history.map((change) => (
+                  <li key={change.id}>
+                    {formatAcademicMonth(change.effectiveMonth)}: {classLabel(change.fromClassId)}
+                    {change.fromHosteller ? " (Hosteller)" : ""} → {classLabel(change.toClassId)}
+                    {change.toHosteller ? " (Hosteller)" : ""}, {currencyFormatter.format(Number(change.amountChange))}
+                    {change.reason ? ` — ${change.reason}` : ""}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={changeMutation.isPending}>
+            Cancel
+          </Button>
+          {preview ? (
+            <Button
+              disabled={changeMutation.isPending}
+              onClick={() => changeMutation.mutate(false)}
+              data-testid="button-apply-status-change"
+            >
+              {changeMutation.isPending ? "Saving…" : "Apply Change"}
+            </Button>
+          ) : (
+            <Button
+              disabled={!hasChange || !effectiveMonth || changeMutation.isPending}
+              onClick={() => changeMutation.mutate(true)}
+              data-testid="button-preview-status-change"
+            >
+              {changeMutation.isPending ? "Checking…" : "Preview"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
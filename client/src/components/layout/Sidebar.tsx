@@ -5,10 +5,17 @@ const navigation = [
   { name: "Dashboard", href: "/", icon: "fas fa-chart-line" },
   { name: "Dues", href: "/dues", icon: "fas fa-list-check" },
   { name: "Payments", href: "/payments", icon: "fas fa-credit-card" },
+  { name: "Cheques", href: "/cheques", icon: "fas fa-money-check" },
   { name: "Students", href: "/students", icon: "fas fa-users" },
+  { name: "Families", href: "/families", icon: "fas fa-people-roof" },
   { name: "Classes", href: "/classes", icon: "fas fa-graduation-cap" },
   { name: "Reports", href: "/reports", icon: "fas fa-chart-bar" },
   { name: "Fee Management", href: "/fee-management", icon: "fas fa-receipt" },
+  { name: "Fee Heads", href: "/fee-heads", icon: "fas fa-tags" },
+  { name: "Concessions", href: "/concessions", icon: "fas fa-percent" },
+  { name: "Write-offs", href: "/write-offs", icon: "fas fa-file-signature" },
+  { name: "Deposits", href: "/deposits", icon: "fas fa-vault" },
+  { name: "Year Rollover", href: "/year-rollover", icon: "fas fa-forward" },
   { name: "Transport", href: "/transport", icon: "fas fa-bus" },
   { name: "Excel Import", href: "/excel-import", icon: "fas fa-file-excel" },
 ];
@@ -7,10 +7,45 @@ export interface AcademicYear {
   endDate?: string | null;
   isActive: boolean;
   isCurrent: boolean;
+  closedAt?: string | null;
+  closedBy?: number | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export type RolloverAction = 'promote' | 'detain' | 'graduate' | 'leave' | 'skip';
+
+export interface YearRolloverRow {
+  studentId: number;
+  studentName: string;
+  fromClass: string | null;
+  toClass: string | null;
+  action: RolloverAction;
+  ledgerNumber: string | null;
+  arrears: number;
+  creditCarried: number;
+  duesCreated: number;
+  note?: string;
+  error?: string;
+}
+
+export interface YearRolloverResult {
+  fromYear: string;
+  toYear: string;
+  dryRun: boolean;
+  rows: YearRolloverRow[];
+  totals: {
+    promoted: number;
+    detained: number;
+    graduated: number;
+    left: number;
+    skipped: number;
+    failed: number;
+    arrears: number;
+    creditCarried: number;
+  };
+}
+
 export interface User {
   id: number;
   name: string;
@@ -74,6 +109,159 @@ export interface FeeStructure {
   createdAt: string;
   updatedAt: string;
   class?: Class;
+  components?: FeeStructureComponent[];
+}
+
+export type FeeHeadFrequency = 'one_time' | 'monthly' | 'termly' | 'quarterly' | 'half_yearly' | 'annual' | 'custom';
+
+export type LateFeeType = 'none' | 'flat' | 'per_day';
+
+export interface FeeHead {
+  id: number;
+  code: string;
+  label: string;
+  frequency: FeeHeadFrequency;
+  billingMonths?: number[] | null;
+  dueDay: number;
+  lateFeeType: LateFeeType;
+  lateFeeAmount: string;
+  lateFeeCap?: string | null;
+  lateFeeGraceDays: number;
+  appliesToHostellers: boolean;
+  appliesToDayScholars: boolean;
+  sortOrder: number;
+  glAccount?: string | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ConcessionKind = 'percentage' | 'fixed';
+
+export type ConcessionStatus = 'pending' | 'approved' | 'rejected' | 'revoked';
+
+export interface ConcessionType {
+  id: number;
+  code: string;
+  name: string;
+  kind: ConcessionKind;
+  value: string;
+  feeHeadCodes?: string[] | null;
+  validFrom?: string | null;
+  validTo?: string | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StudentConcession {
+  id: number;
+  studentId: number;
+  concessionTypeId: number;
+  academicYear: string;
+  status: ConcessionStatus;
+  reason?: string | null;
+  requestedBy?: number | null;
+  decidedBy?: number | null;
+  decidedAt?: string | null;
+  decisionNote?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  concessionCode: string;
+  concessionName: string;
+  kind: ConcessionKind;
+  value: string;
+  studentName?: string;
+  className?: string;
+}
+
+export interface ConcessionRegisterRow {
+  studentConcessionId: number;
+  studentId: number;
+  studentName?: string;
+  className?: string;
+  concessionCode: string;
+  concessionName: string;
+  kind: ConcessionKind;
+  value: number;
+  status: ConcessionStatus;
+  dues: number;
+  amount: number;
+}
+
+export interface ConcessionRegisterReport {
+  academicYear: string;
+  rows: ConcessionRegisterRow[];
+  byType: Array<{ code: string; name: string; students: number; amount: number }>;
+  totalAmount: number;
+}
+
+export type WriteOffStatus = 'pending' | 'approved' | 'rejected';
+
+export interface WriteOff {
+  id: number;
+  studentId: number;
+  accountId: number;
+  scope: 'due' | 'account';
+  dueId?: number | null;
+  academicYear?: string | null;
+  requestedAmount: string;
+  writtenOffAmount: string;
+  reason: string;
+  status: WriteOffStatus;
+  requestedBy: number;
+  decidedBy?: number | null;
+  decidedAt?: string | null;
+  decisionNote?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  studentName?: string;
+  className?: string;
+  dueLabel?: string;
+  requestedByName?: string;
+  decidedByName?: string;
+}
+
+export interface WriteOffRegisterReport {
+  academicYear: string;
+  rows: Array<WriteOff & { dues: number; amount: number }>;
+  totalAmount: number;
+  pendingCount: number;
+  pendingAmount: number;
+}
+
+export interface StaffUser {
+  id: number;
+  name: string;
+  role: string;
+}
+
+export interface FeeStructureComponent {
+  id: number;
+  feeStructureId: number;
+  componentCode: string;
+  hostellerAmount: string;
+  dayScholarAmount: string;
+  frequency: FeeHeadFrequency;
+}
+
+export type FeeStructureDiffField = 'hostellerAmount' | 'dayScholarAmount' | 'description' | 'isActive' | 'frequency';
+
+export interface FeeStructureDiffEntry {
+  id: number | null;
+  classId: number;
+  academicYear: string;
+  feeType: string;
+  action: 'created' | 'updated' | 'unchanged';
+  changes: Array<{ field: FeeStructureDiffField; component?: string; before: string | boolean | null; after: string | boolean | null }>;
+}
+
+export interface FeeStructureBulkUpsertResult {
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  unchanged: number;
+  items: FeeStructureDiffEntry[];
 }
 
 export interface StudentFee {
@@ -102,9 +290,13 @@ export interface Payment {
   referenceNumber?: string;
   transactionId?: string;
   remarks?: string;
-  status: 'pending' | 'verified' | 'rejected' | 'partial';
+  status: 'pending' | 'verified' | 'rejected' | 'partial' | 'paid' | 'voided' | 'failed';
   verifiedBy?: number;
   verifiedAt?: string;
+  voidedAt?: string | null;
+  voidedBy?: number | null;
+  voidReason?: string | null;
+  receiptNumber?: string | null;
   createdBy: number;
   createdAt: string;
   studentName?: string;
@@ -115,7 +307,7 @@ export interface Payment {
   verifiedByUser?: User;
 }
 
-export type DueStatus = 'due' | 'partial' | 'paid' | string;
+export type DueStatus = 'due' | 'partial' | 'overdue' | 'paid' | 'waived' | 'written_off' | 'split' | 'carried_forward' | string;
 
 export interface StudentFinanceDue {
   id: number;
@@ -123,10 +315,19 @@ export interface StudentFinanceDue {
   itemType: string;
   label: string;
   dueMonth?: string | null;
+  periodEndMonth?: string | null;
+  dueDate?: string | null;
   amount: number;
   paidAmount: number;
   balance: number;
+  grossAmount?: number | null;
+  concessionAmount?: number;
   status: DueStatus;
+  lateFeeForDueId?: number | null;
+  installmentOfDueId?: number | null;
+  installmentNumber?: number | null;
+  waivedAmount?: number;
+  writtenOffAmount?: number;
   notes?: string | null;
 }
 
@@ -151,6 +352,10 @@ export interface StudentFinanceSummary {
     fullyPaid: number;
     partialCount: number;
     dueCount: number;
+    overdueCount: number;
+    writtenOff: number;
+    refunded: number;
+    creditBalance: number;
   };
   buckets: {
     oneTime: StudentFinanceDue[];
@@ -159,6 +364,252 @@ export interface StudentFinanceSummary {
   };
 }
 
+export interface InstallmentPlanResponse {
+  due: { id: number; studentId: number; status: DueStatus; amount: string; paidAmount: string };
+  installments: Array<{ id: number; installmentNumber: number; dueDate: string; amount: string; status: DueStatus }>;
+  summary: StudentFinanceSummary | null;
+}
+
+export interface StudentStatusChangeLine {
+  dueId: number | null;
+  label: string;
+  action: 'cancelled' | 'adjusted' | 'created';
+  previousAmount: string;
+  amount: string;
+}
+
+export interface StudentStatusChange {
+  id: number;
+  studentId: number;
+  accountId: number;
+  academicYear: string | null;
+  effectiveMonth: string;
+  fromClassId: number;
+  toClassId: number;
+  fromHosteller: boolean;
+  toHosteller: boolean;
+  reason: string | null;
+  changedBy: number | null;
+  amountChange: string;
+  lines: StudentStatusChangeLine[];
+  createdAt: string;
+}
+
+export interface StudentStatusChangeResult {
+  change: StudentStatusChange | null;
+  lines: StudentStatusChangeLine[];
+  amountChange: number;
+  summary: StudentFinanceSummary | null;
+}
+
+export interface StudentExitLine {
+  dueId: number;
+  label: string;
+  action: 'cancelled' | 'adjusted';
+  previousAmount: string;
+  amount: string;
+}
+
+export interface StudentExit {
+  id: number;
+  studentId: number;
+  accountId: number;
+  academicYear: string | null;
+  leavingDate: string;
+  reason: string | null;
+  processedBy: number | null;
+  cancelledAmount: string;
+  lines: StudentExitLine[];
+  certificateNumber: string | null;
+  clearedAt: string | null;
+  clearedBy: number | null;
+  createdAt: string;
+}
+
+export interface StudentExitSettlement {
+  outstanding: number;
+  creditBalance: number;
+  prepaidAfterLeaving: number;
+  depositHeld: number;
+  balance: number;
+  cleared: boolean;
+}
+
+export interface StudentExitResult {
+  exit: StudentExit | null;
+  lines: StudentExitLine[];
+  settlement: StudentExitSettlement;
+  summary: StudentFinanceSummary | null;
+}
+
+export interface StudentExitRecord {
+  exit: StudentExit;
+  settlement: StudentExitSettlement;
+  student: {
+    id: number;
+    name: string;
+    admissionNumber?: string | null;
+    guardianName?: string | null;
+    isHosteller?: boolean | null;
+    className?: string | null;
+    classSection?: string | null;
+  };
+}
+
+export interface DepositEntry {
+  id: number;
+  studentId: number;
+  paymentId: number | null;
+  academicYear: string | null;
+  entryType: 'collected' | 'deducted' | 'refunded' | 'reversed';
+  amount: string;
+  reason: string | null;
+  refundMethod: RefundMethod | null;
+  referenceNumber: string | null;
+  recordedBy: number | null;
+  createdAt: string;
+}
+
+export interface StudentDepositSummary {
+  studentId: number;
+  collected: number;
+  deducted: number;
+  refunded: number;
+  reversed: number;
+  held: number;
+  entries: DepositEntry[];
+}
+
+export interface DepositsHeldRow {
+  studentId: number;
+  studentName?: string;
+  className?: string;
+  collected: number;
+  deducted: number;
+  refunded: number;
+  held: number;
+  lastCollectedAt: string | null;
+}
+
+export interface DepositsHeldReport {
+  rows: DepositsHeldRow[];
+  totalHeld: number;
+  totalCollected: number;
+  totalDeducted: number;
+  totalRefunded: number;
+}
+
+export interface FamilyMember {
+  studentId: number;
+  name: string;
+  className?: string;
+}
+
+export interface Family {
+  id: number;
+  name: string;
+  guardianName: string | null;
+  guardianPhone: string | null;
+  notes: string | null;
+  createdBy: number | null;
+  createdAt: string;
+  updatedAt: string;
+  members: FamilyMember[];
+}
+
+export interface FamilyPayload {
+  name?: string;
+  guardianName?: string | null;
+  guardianPhone?: string | null;
+  notes?: string | null;
+  studentIds: number[];
+}
+
+export interface FamilyStatementPayment {
+  id: number;
+  receiptNumber: string | null;
+  studentId: number;
+  studentName?: string;
+  paymentDate: string;
+  amount: number;
+  status: string;
+}
+
+export interface FamilyStatement {
+  family: Family;
+  children: StudentFinanceSummary[];
+  totals: {
+    outstanding: number;
+    overdueCount: number;
+    writtenOff: number;
+    refunded: number;
+    creditBalance: number;
+  };
+  payments: FamilyStatementPayment[];
+}
+
+export interface FamilySuggestion {
+  matchedOn: 'guardian_phone' | 'guardian_name';
+  guardianName: string | null;
+  guardianPhone: string | null;
+  students: Array<FamilyMember & { familyId: number | null }>;
+  familyId: number | null;
+}
+
+export type StudentStatementEntryType =
+  | 'due'
+  | 'payment'
+  | 'waiver'
+  | 'write_off'
+  | 'carried_forward'
+  | 'refund'
+  | 'reversal';
+
+export interface StudentStatementEntry {
+  date: string;
+  type: StudentStatementEntryType;
+  description: string;
+  reference: string | null;
+  dueId?: number;
+  paymentId?: number;
+  debit: number;
+  credit: number;
+  balance: number;
+  allocations?: Array<{ dueId: number | null; label: string; amount: number }>;
+}
+
+export interface StudentStatement {
+  student: StudentFinanceSummary['student'];
+  from: string | null;
+  to: string;
+  openingBalance: number;
+  entries: StudentStatementEntry[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+}
+
+export interface LateFeeLine {
+  dueId: number;
+  lateFeeDueId: number | null;
+  studentId: number;
+  label: string;
+  dueDate: string;
+  daysLate: number;
+  amount: number;
+  action: 'created' | 'updated' | 'unchanged';
+}
+
+export interface LevyLateFeesResult {
+  asOf: string;
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  unchanged: number;
+  total: number;
+  items: LateFeeLine[];
+}
+
 export interface PaymentAllocationInput {
   dueId?: number;
   amount: number;
@@ -177,6 +628,92 @@ export interface PaymentAllocationSummary {
   notes?: string | null;
 }
 
+export interface PaymentTenderInput {
+  method: Payment['paymentMethod'];
+  amount: number;
+  referenceNumber?: string;
+  bankName?: string;
+  chequeNumber?: string;
+  chequeDate?: string;
+}
+
+export interface PaymentTenderSummary {
+  id: number;
+  paymentId: number;
+  method: Payment['paymentMethod'] | string;
+  amount: string;
+  referenceNumber?: string | null;
+  bankName?: string | null;
+  chequeNumber?: string | null;
+  chequeDate?: string | null;
+  chequeStatus?: ChequeStatus | null;
+  depositDate?: string | null;
+  clearanceDate?: string | null;
+  bouncedAt?: string | null;
+  bounceReason?: string | null;
+}
+
+export type ChequeStatus = 'received' | 'deposited' | 'cleared' | 'bounced';
+
+export interface ChequeRecord extends PaymentTenderSummary {
+  studentId: number;
+  studentName: string;
+  className: string;
+  paymentDate: string;
+  paymentStatus: Payment['status'];
+  receiptNumber?: string | null;
+  academicYear?: string | null;
+}
+
+export interface BounceChequePayload {
+  reason: string;
+  bounceCharge?: number;
+  date?: string;
+}
+
+export type RefundMethod = 'cash' | 'bank' | 'upi';
+
+export interface PaymentRefundSummary {
+  id: number;
+  paymentId: number;
+  allocationId?: number | null;
+  amount: string;
+  refundMethod: RefundMethod | string;
+  referenceNumber?: string | null;
+  reason?: string | null;
+  refundedAt: string;
+}
+
+export interface RefundPaymentPayload {
+  amount: number;
+  refundMethod: RefundMethod;
+  allocationId?: number;
+  referenceNumber?: string;
+  reason?: string;
+}
+
+export type AllocationStrategy = 'oldest_month_first' | 'one_time_first' | 'monthly_only';
+
+export interface AllocationPreviewLine {
+  dueId: number;
+  label: string;
+  category: string;
+  dueType: string;
+  dueMonth?: string | null;
+  balance: number;
+  amount: number;
+}
+
+export interface AllocationPreview {
+  studentId: number;
+  academicYear: string;
+  strategy: AllocationStrategy;
+  amount: number;
+  allocations: AllocationPreviewLine[];
+  allocatedTotal: number;
+  remainder: number;
+}
+
 export interface RecordPaymentPayload {
   studentId: number;
   paymentDate: string;
@@ -184,15 +721,38 @@ export interface RecordPaymentPayload {
   referenceNumber?: string | null;
   remarks?: string | null;
   allocations: PaymentAllocationInput[];
+  tenders?: PaymentTenderInput[];
+  advanceAmount?: number;
+  depositAmount?: number;
+  familyId?: number;
+  autoAllocate?: boolean;
+  amount?: number;
+  strategy?: AllocationStrategy;
   academicYear: string;
   verify?: boolean;
   createdBy?: number;
+  idempotencyKey?: string;
+  confirmDuplicate?: boolean;
 }
 
 export interface RecordPaymentResponse {
   payment: Payment;
   allocations: PaymentAllocationSummary[];
+  tenders?: PaymentTenderSummary[];
+  refunds?: PaymentRefundSummary[];
+  advance?: string;
   summary: StudentFinanceSummary | null;
+  replayed?: boolean;
+}
+
+export interface DuplicatePaymentSuspect {
+  id: number;
+  receiptNumber: string | null;
+  amount: string;
+  paymentMethod: Payment['paymentMethod'];
+  paymentDate: string;
+  status: Payment['status'];
+  createdAt: string;
 }
 
 export interface TransportFee {
@@ -244,6 +804,9 @@ export interface DashboardStats {
   totalHostellers: number;
   totalDayScholars: number;
   monthlyCollection: number;
+  grossCollection?: number;
+  monthlyRefunds?: number;
+  monthlyDeposits?: number;
   expectedMonthly: number;
   vanCollection: number;
   vanStudents: number;
@@ -286,6 +849,13 @@ export interface FeeStructureOverview {
   };
 }
 
+export interface TenderCollectionReport {
+  academicYear: string;
+  totals: Array<{ method: string; amount: number; payments: number }>;
+  monthly: Array<{ month: string; method: string; amount: number }>;
+  grandTotal: number;
+}
+
 export interface PendingAction {
   type: string;
   title: string;
@@ -0,0 +1,400 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useFinancePeriod } from "@/context/FinancePeriodContext";
+import type { BounceChequePayload, ChequeRecord } from "@/lib/types";
+
+function formatCurrency(amount: number | string) {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(Number(amount) || 0);
+}
+
+const formatDate = (value?: string | null) => {
+  if (!value) return '-';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const statusBadge: Record<string, string> = {
+  received: 'bg-accent/10 text-accent',
+  deposited: 'bg-primary/10 text-primary',
+  cleared: 'bg-secondary/10 text-secondary',
+  bounced: 'bg-destructive/10 text-destructive',
+};
+
+type ChequeAction = { cheque: ChequeRecord; action: 'deposit' | 'clear' };
+
+export default function ChequesPage() {
+  const [statusFilter, setStatusFilter] = useState<string>("pending");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [transition, setTransition] = useState<ChequeAction | null>(null);
+  const [transitionDate, setTransitionDate] = useState(today());
+  const [bounceTarget, setBounceTarget] = useState<ChequeRecord | null>(null);
+  const [bounceForm, setBounceForm] = useState({ reason: "", bounceCharge: "", date: today() });
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { year: activeYear } = useFinancePeriod();
+
+  const { data: cheques, isLoading } = useQuery<ChequeRecord[]>({
+    queryKey: ["/api/cheques", { statusFilter, activeYear }],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      if (activeYear) params.set("academicYear", activeYear);
+      const response = await apiRequest("GET", `/api/cheques?${params.toString()}`);
+      return response.json();
+    },
+    enabled: Boolean(activeYear),
+  });
+
+  const invalidateFinance = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/cheques"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dues"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/pending-actions"] });
+  };
+
+  const transitionMutation = useMutation({
+    mutationFn: async ({ cheque, action, date }: ChequeAction & { date: string }) => {
+      const response = await apiRequest("POST", `/api/cheques/${cheque.id}/${action}`, { date });
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      invalidateFinance();
+      setTransition(null);
+      toast({
+        title: variables.action === 'deposit' ? "Cheque deposited" : "Cheque cleared",
+        description: variables.action === 'deposit'
+          ? "The cheque is now awaiting clearance."
+          : "The payment is confirmed once all of its cheques clear.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update cheque",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const bounceMutation = useMutation({
+    mutationFn: async ({ chequeId, payload }: { chequeId: number; payload: BounceChequePayload }) => {
+      const response = await apiRequest("POST", `/api/cheques/${chequeId}/bounce`, payload);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      invalidateFinance();
+      setBounceTarget(null);
+      toast({
+        title: "Cheque bounced",
+        description: data?.bounceCharge
+          ? `Allocations were reversed and a ${formatCurrency(data.bounceCharge.amount)} bounce charge was added.`
+          : "Allocations were reversed and the dues reopened.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to bounce cheque",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const displayed = useMemo(() => {
+    const list = cheques ?? [];
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return list;
+    return list.filter((cheque) => (
+      cheque.studentName?.toLowerCase().includes(query)
+      || cheque.chequeNumber?.toLowerCase().includes(query)
+      || cheque.bankName?.toLowerCase().includes(query)
+    ));
+  }, [cheques, searchQuery]);
+
+  const summary = useMemo(() => {
+    const sumFor = (status: string) => displayed
+      .filter((cheque) => cheque.chequeStatus === status)
+      .reduce((total, cheque) => total + Number(cheque.amount || 0), 0);
+    return {
+      received: sumFor('received'),
+      deposited: sumFor('deposited'),
+      cleared: sumFor('cleared'),
+      bounced: sumFor('bounced'),
+    };
+  }, [displayed]);
+
+  const openTransition = (cheque: ChequeRecord, action: ChequeAction['action']) => {
+    setTransitionDate(today());
+    setTransition({ cheque, action });
+  };
+
+  const openBounce = (cheque: ChequeRecord) => {
+    setBounceForm({ reason: "", bounceCharge: "", date: today() });
+    setBounceTarget(cheque);
+  };
+
+  const submitBounce = () => {
+    if (!bounceTarget) return;
+    const charge = Number(bounceForm.bounceCharge || 0);
+    if (charge < 0) {
+      toast({ title: "Invalid charge", description: "Bounce charge cannot be negative.", variant: "destructive" });
+      return;
+    }
+    bounceMutation.mutate({
+      chequeId: bounceTarget.id,
+      payload: {
+        reason: bounceForm.reason.trim(),
+        bounceCharge: charge > 0 ? charge : undefined,
+        date: bounceForm.date || undefined,
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Cheques</h2>
+          <p className="text-muted-foreground">Track cheques from receipt through deposit and clearance.</p>
+        </div>
+        <Input
+          value={searchQuery}
+          onChange={(event) => setSearchQuery(event.target.value)}
+          placeholder="Search student, cheque no, bank..."
+          className="w-72"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm text-muted-foreground">In Hand</CardTitle>
+          </CardHeader>
+          <CardContent className="text-2xl font-semibold">{formatCurrency(summary.received)}</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm text-muted-foreground">Deposited</CardTitle>
+          </CardHeader>
+          <CardContent className="text-2xl font-semibold">{formatCurrency(summary.deposited)}</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm text-muted-foreground">Cleared</CardTitle>
+          </CardHeader>
+          <CardContent className="text-2xl font-semibold">{formatCurrency(summary.cleared)}</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm text-muted-foreground">Bounced</CardTitle>
+          </CardHeader>
+          <CardContent className="text-2xl font-semibold text-destructive">{formatCurrency(summary.bounced)}</CardContent>
+        </Card>
+      </div>
+
+      <Card className="finance-card">
+        <CardHeader>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-52" data-testid="select-cheque-status"><SelectValue placeholder="Status" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Pending Clearance</SelectItem>
+              <SelectItem value="received">Received</SelectItem>
+              <SelectItem value="deposited">Deposited</SelectItem>
+              <SelectItem value="cleared">Cleared</SelectItem>
+              <SelectItem value="bounced">Bounced</SelectItem>
+              <SelectItem value="all">All Cheques</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 5 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : displayed.length === 0 ? (
+            <p className="py-10 text-center text-muted-foreground">No cheques match the current filters.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full data-table">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Student</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Cheque</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Cheque Date</th>
+                    <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Amount</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Status</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Deposited</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Cleared / Bounced</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {displayed.map((cheque) => {
+                    const isOpen = cheque.chequeStatus === 'received' || cheque.chequeStatus === 'deposited';
+                    return (
+                      <tr key={cheque.id} className="border-b border-border" data-testid={`row-cheque-${cheque.id}`}>
+                        <td className="py-3 px-4">
+                          <div className="font-medium text-foreground">{cheque.studentName}</div>
+                          <div className="text-xs text-muted-foreground">{cheque.className} · Receipt {cheque.receiptNumber ?? `#${cheque.paymentId}`}</div>
+                        </td>
+                        <td className="py-3 px-4">
+                          <div className="font-mono">{cheque.chequeNumber || '-'}</div>
+                          <div className="text-xs text-muted-foreground">{cheque.bankName || 'Bank not recorded'}</div>
+                        </td>
+                        <td className="py-3 px-4 text-muted-foreground">{formatDate(cheque.chequeDate)}</td>
+                        <td className="py-3 px-4 text-right font-mono font-semibold">{formatCurrency(cheque.amount)}</td>
+                        <td className="py-3 px-4">
+                          <Badge className={statusBadge[cheque.chequeStatus ?? ''] ?? 'bg-muted text-muted-foreground'}>
+                            {cheque.chequeStatus ?? 'untracked'}
+                          </Badge>
+                        </td>
+                        <td className="py-3 px-4 text-muted-foreground">{formatDate(cheque.depositDate)}</td>
+                        <td className="py-3 px-4 text-muted-foreground" title={cheque.bounceReason ?? undefined}>
+                          {cheque.chequeStatus === 'bounced' ? formatDate(cheque.bouncedAt) : formatDate(cheque.clearanceDate)}
+                        </td>
+                        <td className="py-3 px-4">
+                          {isOpen && (
+                            <div className="flex flex-wrap items-center gap-2">
+                              {cheque.chequeStatus === 'received' && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => openTransition(cheque, 'deposit')}
+                                  data-testid={`button-deposit-cheque-${cheque.id}`}
+                                >
+                                  Deposit
+                                </Button>
+                              )}
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => openTransition(cheque, 'clear')}
+                                data-testid={`button-clear-cheque-${cheque.id}`}
+                              >
+                                Clear
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="text-destructive"
+                                onClick={() => openBounce(cheque)}
+                                data-testid={`button-bounce-cheque-${cheque.id}`}
+                              >
+                                Bounce
+                              </Button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={Boolean(transition)} onOpenChange={(open) => !open && setTransition(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{transition?.action === 'deposit' ? 'Deposit cheque' : 'Mark cheque cleared'}</DialogTitle>
+            <DialogDescription>
+              {transition
+                ? `Cheque ${transition.cheque.chequeNumber ?? `#${transition.cheque.id}`} · ${formatCurrency(transition.cheque.amount)} from ${transition.cheque.studentName}`
+                : null}
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            type="date"
+            value={transitionDate}
+            onChange={(event) => setTransitionDate(event.target.value)}
+            data-testid="input-cheque-transition-date"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTransition(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!transitionDate || transitionMutation.isPending}
+              onClick={() => transition && transitionMutation.mutate({ ...transition, date: transitionDate })}
+              data-testid="button-confirm-cheque-transition"
+            >
+              {transitionMutation.isPending ? 'Saving…' : transition?.action === 'deposit' ? 'Record Deposit' : 'Mark Cleared'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(bounceTarget)} onOpenChange={(open) => !open && setBounceTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Bounce cheque</DialogTitle>
+            <DialogDescription>
+              {bounceTarget
+                ? `${formatCurrency(bounceTarget.amount)} from ${bounceTarget.studentName} will be taken back off the dues it paid.`
+                : null}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Input
+              type="date"
+              value={bounceForm.date}
+              onChange={(event) => setBounceForm((prev) => ({ ...prev, date: event.target.value }))}
+              data-testid="input-bounce-date"
+            />
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Bounce charge (optional)"
+              value={bounceForm.bounceCharge}
+              onChange={(event) => setBounceForm((prev) => ({ ...prev, bounceCharge: event.target.value }))}
+              data-testid="input-bounce-charge"
+            />
+            <Textarea
+              placeholder="Reason given by the bank (required)"
+              value={bounceForm.reason}
+              onChange={(event) => setBounceForm((prev) => ({ ...prev, reason: event.target.value }))}
+              data-testid="input-bounce-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBounceTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!bounceForm.reason.trim() || bounceMutation.isPending}
+              onClick={submitBounce}
+              data-testid="button-confirm-bounce"
+            >
+              {bounceMutation.isPending ? 'Saving…' : 'Bounce Cheque'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
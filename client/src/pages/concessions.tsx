@@ -0,0 +1,706 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useFinancePeriod } from "@/context/FinancePeriodContext";
+import type {
+  ConcessionKind,
+  ConcessionRegisterReport,
+  ConcessionStatus,
+  ConcessionType,
+  FeeHead,
+  Student,
+  StudentConcession,
+} from "@/lib/types";
+
+function formatCurrency(amount: number | string) {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(Number(amount) || 0);
+}
+
+const formatDate = (value?: string | null) => {
+  if (!value) return '-';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+const describeValue = (kind: ConcessionKind, value: number | string) =>
+  kind === 'percentage' ? `${Number(value)}%` : formatCurrency(value);
+
+const describeValidity = (type: ConcessionType) => {
+  if (!type.validFrom && !type.validTo) return 'Always';
+  if (!type.validTo) return `From ${formatDate(type.validFrom)}`;
+  if (!type.validFrom) return `Until ${formatDate(type.validTo)}`;
+  return `${formatDate(type.validFrom)} – ${formatDate(type.validTo)}`;
+};
+
+const statusBadge: Record<ConcessionStatus, string> = {
+  pending: 'bg-accent/10 text-accent',
+  approved: 'bg-secondary/10 text-secondary',
+  rejected: 'bg-destructive/10 text-destructive',
+  revoked: 'bg-muted text-muted-foreground',
+};
+
+type ConcessionTypeForm = {
+  code: string;
+  name: string;
+  kind: ConcessionKind;
+  value: string;
+  feeHeadCodes: string[];
+  validFrom: string;
+  validTo: string;
+  isActive: boolean;
+};
+
+const emptyTypeForm = (): ConcessionTypeForm => ({
+  code: "",
+  name: "",
+  kind: "percentage",
+  value: "",
+  feeHeadCodes: [],
+  validFrom: "",
+  validTo: "",
+  isActive: true,
+});
+
+type GrantForm = { studentId: string; concessionTypeId: string; reason: string };
+
+type Decision = { grant: StudentConcession; decision: 'approve' | 'reject' | 'revoke' };
+
+const decisionLabels: Record<Decision['decision'], string> = {
+  approve: 'Approve',
+  reject: 'Reject',
+  revoke: 'Revoke',
+};
+
+export default function ConcessionsPage() {
+  const [tab, setTab] = useState("grants");
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [editing, setEditing] = useState<ConcessionType | null>(null);
+  const [typeDialogOpen, setTypeDialogOpen] = useState(false);
+  const [typeForm, setTypeForm] = useState<ConcessionTypeForm>(emptyTypeForm());
+  const [grantDialogOpen, setGrantDialogOpen] = useState(false);
+  const [grantForm, setGrantForm] = useState<GrantForm>({ studentId: "", concessionTypeId: "", reason: "" });
+  const [pendingDecision, setPendingDecision] = useState<Decision | null>(null);
+  const [decisionNote, setDecisionNote] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { year: activeYear } = useFinancePeriod();
+
+  const { data: types, isLoading: typesLoading } = useQuery<ConcessionType[]>({
+    queryKey: ["/api/concession-types", { includeInactive: true }],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/concession-types?includeInactive=true");
+      return response.json();
+    },
+  });
+
+  const { data: grants, isLoading: grantsLoading } = useQuery<StudentConcession[]>({
+    queryKey: ["/api/student-concessions", { statusFilter, activeYear }],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      if (activeYear) params.set("academicYear", activeYear);
+      const response = await apiRequest("GET", `/api/student-concessions?${params.toString()}`);
+      return response.json();
+    },
+  });
+
+  const { data: register, isLoading: registerLoading } = useQuery<ConcessionRegisterReport>({
+    queryKey: ["/api/reports/concessions", { activeYear }],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/reports/concessions?academicYear=${encodeURIComponent(activeYear)}`);
+      return response.json();
+    },
+    enabled: Boolean(activeYear) && tab === "register",
+  });
+
+  const { data: students } = useQuery<Student[]>({
+    queryKey: ["/api/students"],
+    enabled: grantDialogOpen,
+  });
+
+  const { data: heads } = useQuery<FeeHead[]>({
+    queryKey: ["/api/fee-heads"],
+  });
+
+  const showError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const saveTypeMutation = useMutation({
+    mutationFn: async ({ id, form }: { id?: number; form: ConcessionTypeForm }) => {
+      const payload = {
+        name: form.name.trim(),
+        kind: form.kind,
+        value: Number(form.value),
+        feeHeadCodes: form.feeHeadCodes.length ? form.feeHeadCodes : null,
+        validFrom: form.validFrom || null,
+        validTo: form.validTo || null,
+        isActive: form.isActive,
+      };
+      const response = id
+        ? await apiRequest("PATCH", `/api/concession-types/${id}`, payload)
+        : await apiRequest("POST", "/api/concession-types", { ...payload, code: form.code.trim() });
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/concession-types"] });
+      setTypeDialogOpen(false);
+      toast({
+        title: variables.id ? "Concession type updated" : "Concession type added",
+        description: "Dues already raised keep the concession they were created with.",
+      });
+    },
+    onError: showError("Failed to save concession type"),
+  });
+
+  const grantMutation = useMutation({
+    mutationFn: async (form: GrantForm) => {
+      const response = await apiRequest("POST", "/api/student-concessions", {
+        studentId: Number(form.studentId),
+        concessionTypeId: Number(form.concessionTypeId),
+        academicYear: activeYear || undefined,
+        reason: form.reason.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/student-concessions"] });
+      setGrantDialogOpen(false);
+      toast({ title: "Concession requested", description: "It applies to new dues once approved." });
+    },
+    onError: showError("Failed to grant concession"),
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async ({ grant, decision, note }: Decision & { note: string }) => {
+      const response = await apiRequest("POST", `/api/student-concessions/${grant.id}/${decision}`, {
+        note: note.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (grant: StudentConcession) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/student-concessions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/concessions"] });
+      setPendingDecision(null);
+      toast({ title: `Concession ${grant.status}` });
+    },
+    onError: (error: any) => {
+      setPendingDecision(null);
+      showError("Failed to update concession")(error);
+    },
+  });
+
+  const openCreateType = () => {
+    setEditing(null);
+    setTypeForm(emptyTypeForm());
+    setTypeDialogOpen(true);
+  };
+
+  const openEditType = (type: ConcessionType) => {
+    setEditing(type);
+    setTypeForm({
+      code: type.code,
+      name: type.name,
+      kind: type.kind,
+      value: String(Number(type.value)),
+      feeHeadCodes: type.feeHeadCodes ?? [],
+      validFrom: type.validFrom ?? "",
+      validTo: type.validTo ?? "",
+      isActive: type.isActive,
+    });
+    setTypeDialogOpen(true);
+  };
+
+  const openGrant = () => {
+    setGrantForm({ studentId: "", concessionTypeId: "", reason: "" });
+    setGrantDialogOpen(true);
+  };
+
+  const openDecision = (grant: StudentConcession, decision: Decision['decision']) => {
+    setDecisionNote("");
+    setPendingDecision({ grant, decision });
+  };
+
+  const headLabels = new Map((heads ?? []).map((head) => [head.code, head.label]));
+  const describeHeads = (codes?: string[] | null) =>
+    codes?.length ? codes.map((code) => headLabels.get(code) ?? code).join(', ') : 'All heads';
+
+  const canSaveType = Boolean(
+    typeForm.name.trim()
+    && (editing || typeForm.code.trim())
+    && Number(typeForm.value) > 0
+    && (typeForm.kind !== "percentage" || Number(typeForm.value) <= 100)
+    && (!typeForm.validFrom || !typeForm.validTo || typeForm.validFrom <= typeForm.validTo),
+  );
+
+  const activeTypes = (types ?? []).filter((type) => type.isActive);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Concessions</h2>
+          <p className="text-muted-foreground">Scholarships, sibling discounts and other concessions taken off new dues.</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={openCreateType} data-testid="button-add-concession-type">
+            <i className="fas fa-plus mr-2"></i>
+            Add Type
+          </Button>
+          <Button onClick={openGrant} data-testid="button-grant-concession">
+            <i className="fas fa-user-tag mr-2"></i>
+            Grant Concession
+          </Button>
+        </div>
+      </div>
+
+      <Tabs value={tab} onValueChange={setTab}>
+        <TabsList>
+          <TabsTrigger value="grants" data-testid="tab-concession-grants">Grants</TabsTrigger>
+          <TabsTrigger value="types" data-testid="tab-concession-types">Types</TabsTrigger>
+          <TabsTrigger value="register" data-testid="tab-concession-register">Register</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="grants">
+          <Card className="finance-card">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Student Concessions {activeYear ? `(${activeYear})` : ''}</CardTitle>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-40" data-testid="select-concession-status"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="approved">Approved</SelectItem>
+                  <SelectItem value="rejected">Rejected</SelectItem>
+                  <SelectItem value="revoked">Revoked</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              {grantsLoading ? (
+                <div className="space-y-3">
+                  {Array.from({ length: 5 }).map((_, index) => (
+                    <Skeleton key={index} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : !grants?.length ? (
+                <p className="py-10 text-center text-muted-foreground">No concessions for this year.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full data-table">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Student</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Concession</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Value</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Reason</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Status</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Decided</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {grants.map((grant) => (
+                        <tr key={grant.id} className="border-b border-border" data-testid={`row-student-concession-${grant.id}`}>
+                          <td className="py-3 px-4">
+                            <p className="font-medium text-foreground">{grant.studentName ?? `Student #${grant.studentId}`}</p>
+                            {grant.className && <p className="text-xs text-muted-foreground">{grant.className}</p>}
+                          </td>
+                          <td className="py-3 px-4">{grant.concessionName}</td>
+                          <td className="py-3 px-4">{describeValue(grant.kind, grant.value)}</td>
+                          <td className="py-3 px-4 text-muted-foreground">{grant.reason || '-'}</td>
+                          <td className="py-3 px-4">
+                            <Badge className={statusBadge[grant.status]}>
+                              {grant.status.charAt(0).toUpperCase() + grant.status.slice(1)}
+                            </Badge>
+                          </td>
+                          <td className="py-3 px-4 text-muted-foreground">
+                            <p>{formatDate(grant.decidedAt)}</p>
+                            {grant.decisionNote && <p className="text-xs">{grant.decisionNote}</p>}
+                          </td>
+                          <td className="py-3 px-4">
+                            <div className="flex flex-wrap items-center gap-2">
+                              {grant.status === 'pending' && (
+                                <>
+                                  <Button size="sm" onClick={() => openDecision(grant, 'approve')} data-testid={`button-approve-concession-${grant.id}`}>
+                                    Approve
+                                  </Button>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="text-destructive"
+                                    onClick={() => openDecision(grant, 'reject')}
+                                    data-testid={`button-reject-concession-${grant.id}`}
+                                  >
+                                    Reject
+                                  </Button>
+                                </>
+                              )}
+                              {grant.status === 'approved' && (
+                                <Button variant="outline" size="sm" onClick={() => openDecision(grant, 'revoke')} data-testid={`button-revoke-concession-${grant.id}`}>
+                                  Revoke
+                                </Button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="types">
+          <Card className="finance-card">
+            <CardHeader>
+              <CardTitle>Concession Types</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {typesLoading ? (
+                <div className="space-y-3">
+                  {Array.from({ length: 4 }).map((_, index) => (
+                    <Skeleton key={index} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : !types?.length ? (
+                <p className="py-10 text-center text-muted-foreground">No concession types yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full data-table">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Name</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Code</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Value</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Fee Heads</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Valid</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Status</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {types.map((type) => (
+                        <tr key={type.id} className="border-b border-border" data-testid={`row-concession-type-${type.id}`}>
+                          <td className="py-3 px-4 font-medium text-foreground">{type.name}</td>
+                          <td className="py-3 px-4 font-mono text-sm">{type.code}</td>
+                          <td className="py-3 px-4">{describeValue(type.kind, type.value)}</td>
+                          <td className="py-3 px-4 text-muted-foreground">{describeHeads(type.feeHeadCodes)}</td>
+                          <td className="py-3 px-4 text-muted-foreground">{describeValidity(type)}</td>
+                          <td className="py-3 px-4">
+                            <Badge className={type.isActive ? 'bg-secondary/10 text-secondary' : 'bg-muted text-muted-foreground'}>
+                              {type.isActive ? 'Active' : 'Inactive'}
+                            </Badge>
+                          </td>
+                          <td className="py-3 px-4">
+                            <Button variant="outline" size="sm" onClick={() => openEditType(type)} data-testid={`button-edit-concession-type-${type.id}`}>
+                              Edit
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="register" className="space-y-6">
+          {registerLoading || !register ? (
+            <div className="space-y-3">
+              {Array.from({ length: 4 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <Card className="finance-card">
+                  <CardContent className="p-4">
+                    <p className="text-sm text-muted-foreground">Total concessions</p>
+                    <p className="text-2xl font-bold text-foreground" data-testid="text-concession-total">{formatCurrency(register.totalAmount)}</p>
+                  </CardContent>
+                </Card>
+                {register.byType.map((entry) => (
+                  <Card key={entry.code} className="finance-card">
+                    <CardContent className="p-4">
+                      <p className="text-sm text-muted-foreground">{entry.name}</p>
+                      <p className="text-2xl font-bold text-foreground">{formatCurrency(entry.amount)}</p>
+                      <p className="text-xs text-muted-foreground">{entry.students} student{entry.students === 1 ? '' : 's'}</p>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+
+              <Card className="finance-card">
+                <CardHeader>
+                  <CardTitle>Concession Register ({register.academicYear})</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {!register.rows.length ? (
+                    <p className="py-10 text-center text-muted-foreground">No concessions were applied to dues this year.</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full data-table">
+                        <thead>
+                          <tr className="border-b border-border">
+                            <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Student</th>
+                            <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Class</th>
+                            <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Concession</th>
+                            <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Value</th>
+                            <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Status</th>
+                            <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Dues</th>
+                            <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Amount</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {register.rows.map((row) => (
+                            <tr key={row.studentConcessionId} className="border-b border-border">
+                              <td className="py-3 px-4 font-medium text-foreground">{row.studentName ?? `Student #${row.studentId}`}</td>
+                              <td className="py-3 px-4 text-muted-foreground">{row.className ?? '-'}</td>
+                              <td className="py-3 px-4">{row.concessionName}</td>
+                              <td className="py-3 px-4">{describeValue(row.kind, row.value)}</td>
+                              <td className="py-3 px-4">
+                                <Badge className={statusBadge[row.status]}>
+                                  {row.status.charAt(0).toUpperCase() + row.status.slice(1)}
+                                </Badge>
+                              </td>
+                              <td className="py-3 px-4 text-muted-foreground">{row.dues}</td>
+                              <td className="py-3 px-4 font-medium">{formatCurrency(row.amount)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={typeDialogOpen} onOpenChange={setTypeDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.name}` : 'Add concession type'}</DialogTitle>
+            <DialogDescription>
+              Changes apply to dues raised from now on; existing dues keep their concession.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                placeholder="Code (e.g. sibling)"
+                value={typeForm.code}
+                disabled={Boolean(editing)}
+                onChange={(event) => setTypeForm((prev) => ({ ...prev, code: event.target.value }))}
+                data-testid="input-concession-type-code"
+              />
+              <Input
+                placeholder="Name (e.g. Sibling Discount)"
+                value={typeForm.name}
+                onChange={(event) => setTypeForm((prev) => ({ ...prev, name: event.target.value }))}
+                data-testid="input-concession-type-name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <Select
+                value={typeForm.kind}
+                onValueChange={(value) => setTypeForm((prev) => ({ ...prev, kind: value as ConcessionKind }))}
+              >
+                <SelectTrigger data-testid="select-concession-type-kind"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percentage">Percentage of fee</SelectItem>
+                  <SelectItem value="fixed">Fixed amount per due</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder={typeForm.kind === "percentage" ? "Percent" : "Amount"}
+                value={typeForm.value}
+                onChange={(event) => setTypeForm((prev) => ({ ...prev, value: event.target.value }))}
+                data-testid="input-concession-type-value"
+              />
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Fee heads it applies to. Leave all unselected to apply to every head.</p>
+              <ToggleGroup
+                type="multiple"
+                value={typeForm.feeHeadCodes}
+                onValueChange={(values) => setTypeForm((prev) => ({ ...prev, feeHeadCodes: values }))}
+                className="flex flex-wrap justify-start gap-1"
+                data-testid="toggle-concession-type-heads"
+              >
+                {(heads ?? []).map((head) => (
+                  <ToggleGroupItem key={head.code} value={head.code} className="px-3 py-1 text-sm border border-border">
+                    {head.label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-foreground">Valid from</p>
+                <Input
+                  type="date"
+                  value={typeForm.validFrom}
+                  onChange={(event) => setTypeForm((prev) => ({ ...prev, validFrom: event.target.value }))}
+                  data-testid="input-concession-type-valid-from"
+                />
+              </div>
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-foreground">Valid to</p>
+                <Input
+                  type="date"
+                  value={typeForm.validTo}
+                  onChange={(event) => setTypeForm((prev) => ({ ...prev, validTo: event.target.value }))}
+                  data-testid="input-concession-type-valid-to"
+                />
+              </div>
+            </div>
+            <div className="rounded-lg border bg-muted/20 p-4 flex items-center justify-between">
+              <p className="text-sm font-medium text-foreground">Active</p>
+              <Switch
+                checked={typeForm.isActive}
+                onCheckedChange={(checked) => setTypeForm((prev) => ({ ...prev, isActive: checked }))}
+                data-testid="switch-concession-type-active"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTypeDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!canSaveType || saveTypeMutation.isPending}
+              onClick={() => saveTypeMutation.mutate({ id: editing?.id, form: typeForm })}
+              data-testid="button-save-concession-type"
+            >
+              {saveTypeMutation.isPending ? 'Saving…' : editing ? 'Save Changes' : 'Add Type'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={grantDialogOpen} onOpenChange={setGrantDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Grant concession</DialogTitle>
+            <DialogDescription>
+              The request stays pending until approved, and only dues raised after approval are reduced.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Select
+              value={grantForm.studentId}
+              onValueChange={(value) => setGrantForm((prev) => ({ ...prev, studentId: value }))}
+            >
+              <SelectTrigger data-testid="select-concession-student"><SelectValue placeholder="Select student" /></SelectTrigger>
+              <SelectContent>
+                {(students ?? []).map((student) => (
+                  <SelectItem key={student.id} value={String(student.id)}>
+                    {student.name}{student.admissionNumber ? ` (${student.admissionNumber})` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={grantForm.concessionTypeId}
+              onValueChange={(value) => setGrantForm((prev) => ({ ...prev, concessionTypeId: value }))}
+            >
+              <SelectTrigger data-testid="select-concession-type"><SelectValue placeholder="Select concession" /></SelectTrigger>
+              <SelectContent>
+                {activeTypes.map((type) => (
+                  <SelectItem key={type.id} value={String(type.id)}>
+                    {type.name} ({describeValue(type.kind, type.value)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Reason (e.g. second child enrolled)"
+              value={grantForm.reason}
+              onChange={(event) => setGrantForm((prev) => ({ ...prev, reason: event.target.value }))}
+              data-testid="input-concession-reason"
+            />
+            <p className="text-xs text-muted-foreground">Academic year: {activeYear || 'current'}</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setGrantDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!grantForm.studentId || !grantForm.concessionTypeId || grantMutation.isPending}
+              onClick={() => grantMutation.mutate(grantForm)}
+              data-testid="button-save-concession-grant"
+            >
+              {grantMutation.isPending ? 'Saving…' : 'Request Concession'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(pendingDecision)} onOpenChange={(open) => !open && setPendingDecision(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{pendingDecision ? `${decisionLabels[pendingDecision.decision]} concession` : null}</DialogTitle>
+            <DialogDescription>
+              {pendingDecision?.decision === 'revoke'
+                ? 'Dues already raised keep their concession; adjust them separately if needed.'
+                : pendingDecision
+                  ? `${pendingDecision.grant.concessionName} for ${pendingDecision.grant.studentName ?? `student #${pendingDecision.grant.studentId}`}.`
+                  : null}
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            placeholder="Note (optional)"
+            value={decisionNote}
+            onChange={(event) => setDecisionNote(event.target.value)}
+            data-testid="input-concession-decision-note"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingDecision(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={pendingDecision?.decision === 'approve' ? 'default' : 'destructive'}
+              disabled={decisionMutation.isPending}
+              onClick={() => pendingDecision && decisionMutation.mutate({ ...pendingDecision, note: decisionNote })}
+              data-testid="button-confirm-concession-decision"
+            >
+              {decisionMutation.isPending ? 'Saving…' : pendingDecision ? decisionLabels[pendingDecision.decision] : ''}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -15,6 +15,9 @@ interface FinancialStats {
   totalHostellers: number;
   totalDayScholars: number;
   monthlyCollection: number;
+  grossCollection?: number;
+  monthlyRefunds?: number;
+  monthlyDeposits?: number;
   expectedMonthly: number;
   vanCollection: number;
   vanStudents: number;
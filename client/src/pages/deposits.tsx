@@ -0,0 +1,315 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { DepositEntry, DepositsHeldReport, DepositsHeldRow, RefundMethod, StaffUser, StudentDepositSummary } from "@/lib/types";
+
+function formatCurrency(amount: number | string) {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 2,
+  }).format(Number(amount) || 0);
+}
+
+const formatDate = (value?: string | null) => {
+  if (!value) return '-';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+const entryLabels: Record<DepositEntry['entryType'], string> = {
+  collected: 'Collected',
+  deducted: 'Deducted',
+  refunded: 'Refunded',
+  reversed: 'Reversed',
+};
+
+type DepositAction = { row: DepositsHeldRow; action: 'deduct' | 'refund' };
+
+type ActionForm = {
+  amount: string;
+  reason: string;
+  refundMethod: RefundMethod;
+  referenceNumber: string;
+  recordedBy: string;
+};
+
+const emptyForm = (action: DepositAction, recordedBy = ""): ActionForm => ({
+  amount: action.action === 'refund' ? action.row.held.toFixed(2) : "",
+  reason: "",
+  refundMethod: "cash",
+  referenceNumber: "",
+  recordedBy,
+});
+
+export default function DepositsPage() {
+  const [pendingAction, setPendingAction] = useState<DepositAction | null>(null);
+  const [form, setForm] = useState<ActionForm | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: report, isLoading } = useQuery<DepositsHeldReport>({
+    queryKey: ["/api/reports/deposits-held"],
+  });
+
+  const { data: users } = useQuery<StaffUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: ledger } = useQuery<StudentDepositSummary>({
+    queryKey: [`/api/students/${pendingAction?.row.studentId}/deposit`],
+    enabled: Boolean(pendingAction),
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ row, action }: DepositAction) => {
+      const response = await apiRequest("POST", `/api/students/${row.studentId}/deposit/${action}`, action === 'deduct'
+        ? {
+            amount: Number(form!.amount),
+            reason: form!.reason.trim(),
+            recordedBy: form!.recordedBy ? Number(form!.recordedBy) : undefined,
+          }
+        : {
+            amount: Number(form!.amount),
+            refundMethod: form!.refundMethod,
+            referenceNumber: form!.referenceNumber.trim() || undefined,
+            reason: form!.reason.trim() || undefined,
+            recordedBy: form!.recordedBy ? Number(form!.recordedBy) : undefined,
+          });
+      return response.json();
+    },
+    onSuccess: (deposit: StudentDepositSummary, { row, action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/deposits-held"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/students/${row.studentId}/deposit`] });
+      queryClient.invalidateQueries({ queryKey: ["student-exit", row.studentId] });
+      setPendingAction(null);
+      toast({
+        title: action === 'deduct' ? "Deduction recorded" : "Deposit refunded",
+        description: `${formatCurrency(deposit.held)} now held for ${row.studentName ?? `student #${row.studentId}`}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update deposit",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openAction = (row: DepositsHeldRow, action: DepositAction['action']) => {
+    const next = { row, action };
+    setForm(emptyForm(next, form?.recordedBy));
+    setPendingAction(next);
+  };
+
+  const updateForm = (patch: Partial<ActionForm>) => {
+    setForm((current) => (current ? { ...current, ...patch } : current));
+  };
+
+  const amount = Number(form?.amount);
+  const canSave = Boolean(pendingAction && form)
+    && amount > 0
+    && amount <= (pendingAction?.row.held ?? 0) + 0.001
+    && (pendingAction?.action !== 'deduct' || Boolean(form?.reason.trim()));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-foreground">Caution Deposits</h2>
+        <p className="text-muted-foreground">
+          Refundable deposits held for students. They are kept out of fee income and returned, less any deductions, when a student leaves.
+        </p>
+      </div>
+
+      {isLoading || !report ? (
+        <div className="space-y-3">
+          {Array.from({ length: 4 }).map((_, index) => (
+            <Skeleton key={index} className="h-12 w-full" />
+          ))}
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Card className="finance-card">
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Held (liability)</p>
+                <p className="text-2xl font-bold text-foreground" data-testid="text-deposits-held">{formatCurrency(report.totalHeld)}</p>
+                <p className="text-xs text-muted-foreground">{report.rows.length} student{report.rows.length === 1 ? '' : 's'}</p>
+              </CardContent>
+            </Card>
+            <Card className="finance-card">
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Collected</p>
+                <p className="text-2xl font-bold text-foreground">{formatCurrency(report.totalCollected)}</p>
+              </CardContent>
+            </Card>
+            <Card className="finance-card">
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Deducted</p>
+                <p className="text-2xl font-bold text-foreground">{formatCurrency(report.totalDeducted)}</p>
+              </CardContent>
+            </Card>
+            <Card className="finance-card">
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Refunded</p>
+                <p className="text-2xl font-bold text-foreground">{formatCurrency(report.totalRefunded)}</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="finance-card">
+            <CardHeader>
+              <CardTitle>Deposits Held</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {!report.rows.length ? (
+                <p className="py-10 text-center text-muted-foreground">No deposits are held.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full data-table">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Student</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Class</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Collected</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Deducted</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Refunded</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Held</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Last Collected</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.rows.map((row) => (
+                        <tr key={row.studentId} className="border-b border-border" data-testid={`row-deposit-${row.studentId}`}>
+                          <td className="py-3 px-4 font-medium text-foreground">{row.studentName ?? `Student #${row.studentId}`}</td>
+                          <td className="py-3 px-4 text-muted-foreground">{row.className ?? '-'}</td>
+                          <td className="py-3 px-4">{formatCurrency(row.collected)}</td>
+                          <td className="py-3 px-4">{formatCurrency(row.deducted)}</td>
+                          <td className="py-3 px-4">{formatCurrency(row.refunded)}</td>
+                          <td className="py-3 px-4 font-medium">{formatCurrency(row.held)}</td>
+                          <td className="py-3 px-4 text-muted-foreground">{formatDate(row.lastCollectedAt)}</td>
+                          <td className="py-3 px-4">
+                            <div className="flex flex-wrap items-center gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => openAction(row, 'deduct')}
+                                data-testid={`button-deduct-deposit-${row.studentId}`}
+                              >
+                                Deduct
+                              </Button>
+                              <Button size="sm" onClick={() => openAction(row, 'refund')} data-testid={`button-refund-deposit-${row.studentId}`}>
+                                Refund
+                              </Button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Dialog open={Boolean(pendingAction)} onOpenChange={(open) => !open && !actionMutation.isPending && setPendingAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{pendingAction?.action === 'deduct' ? 'Deduct from deposit' : 'Refund deposit'}</DialogTitle>
+            <DialogDescription>
+              {pendingAction
+                ? `${formatCurrency(pendingAction.row.held)} is held for ${pendingAction.row.studentName ?? `student #${pendingAction.row.studentId}`}.`
+                : null}
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-3">
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="Amount"
+                value={form.amount}
+                onChange={(event) => updateForm({ amount: event.target.value })}
+                data-testid="input-deposit-action-amount"
+              />
+              {pendingAction?.action === 'refund' && (
+                <div className="grid grid-cols-2 gap-3">
+                  <Select value={form.refundMethod} onValueChange={(value) => updateForm({ refundMethod: value as RefundMethod })}>
+                    <SelectTrigger data-testid="select-deposit-refund-method"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="cash">Cash</SelectItem>
+                      <SelectItem value="bank">Bank transfer</SelectItem>
+                      <SelectItem value="upi">UPI</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder="Reference (optional)"
+                    value={form.referenceNumber}
+                    onChange={(event) => updateForm({ referenceNumber: event.target.value })}
+                    data-testid="input-deposit-refund-reference"
+                  />
+                </div>
+              )}
+              <Input
+                placeholder={pendingAction?.action === 'deduct' ? 'Reason (e.g. broken furniture)' : 'Note (optional)'}
+                value={form.reason}
+                onChange={(event) => updateForm({ reason: event.target.value })}
+                data-testid="input-deposit-action-reason"
+              />
+              <Select value={form.recordedBy} onValueChange={(value) => updateForm({ recordedBy: value })}>
+                <SelectTrigger data-testid="select-deposit-recorded-by"><SelectValue placeholder="Recorded by (optional)" /></SelectTrigger>
+                <SelectContent>
+                  {(users ?? []).map((user) => (
+                    <SelectItem key={user.id} value={String(user.id)}>{user.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {ledger?.entries.length ? (
+                <div className="rounded-lg border divide-y text-xs">
+                  {ledger.entries.map((entry) => (
+                    <div key={entry.id} className="flex items-center justify-between gap-3 p-2">
+                      <span className="text-muted-foreground">
+                        {formatDate(entry.createdAt)} · {entryLabels[entry.entryType]}
+                        {entry.reason ? ` · ${entry.reason}` : ''}
+                      </span>
+                      <span className="font-medium text-foreground">
+                        {entry.entryType === 'collected' ? '' : '−'}{formatCurrency(entry.amount)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingAction(null)} disabled={actionMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              variant={pendingAction?.action === 'deduct' ? 'destructive' : 'default'}
+              disabled={!canSave || actionMutation.isPending}
+              onClick={() => pendingAction && actionMutation.mutate(pendingAction)}
+              data-testid="button-confirm-deposit-action"
+            >
+              {actionMutation.isPending ? 'Saving…' : pendingAction?.action === 'deduct' ? 'Deduct' : 'Refund'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,13 +1,44 @@
 import { useEffect, useMemo, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { buildAcademicYearMonths, getCurrentAcademicYear, getCurrentMonthKey, formatAcademicMonth } from "@/lib/utils";
 import { useFinancePeriod } from "@/context/FinancePeriodContext";
+import InstallmentPlanDialog, { type InstallmentPlanTarget } from "@/components/forms/InstallmentPlanDialog";
+import type { LevyLateFeesResult } from "@/lib/types";
+
+const scheduleLabels: Record<string, string> = {
+  one_time: 'One Time',
+  monthly: 'Monthly',
+  termly: 'Termly',
+  quarterly: 'Quarterly',
+  half_yearly: 'Half-Yearly',
+  annual: 'Annual',
+  custom: 'Custom',
+};
+
+// A recurring due covers every month from its dueMonth through its periodEndMonth.
+const coversMonth = (due: any, month: string) => {
+  if (!due?.dueMonth) return false;
+  const end = due.periodEndMonth || due.dueMonth;
+  return due.dueMonth <= month && end >= month;
+};
+
+const formatDueDate = (value?: string | null) => {
+  if (!value) return '—';
+  const date = new Date(`${value}T00:00:00`);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+};
 
 function formatCurrency(amount: number) {
   return new Intl.NumberFormat('en-IN', {
@@ -20,22 +51,31 @@ function formatCurrency(amount: number) {
 export default function DuesPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("due");
-  const [viewMode, setViewMode] = useState<"monthly" | "yearly">("monthly");
+  const [viewMode, setViewMode] = useState<"recurring" | "one_time">("recurring");
+  const [scheduleFilter, setScheduleFilter] = useState<string>("all");
   const [classFilter, setClassFilter] = useState<string>("all");
   const [monthFilter, setMonthFilter] = useState<string>(() => getCurrentMonthKey());
   const [monthManuallyChosen, setMonthManuallyChosen] = useState(false);
+  const [levyPreview, setLevyPreview] = useState<LevyLateFeesResult | null>(null);
+  const [installmentTarget, setInstallmentTarget] = useState<InstallmentPlanTarget | null>(null);
   const { year: activeYear, years, setYear: setActiveYear } = useFinancePeriod();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
 
   const { data: classes } = useQuery({ queryKey: ["/api/classes"] });
 
   const { data: dues, isLoading } = useQuery({
-    queryKey: ["/api/dues", { statusFilter, viewMode, classFilter, monthFilter, activeYear }],
+    queryKey: ["/api/dues", { statusFilter, viewMode, scheduleFilter, classFilter, monthFilter, activeYear }],
     queryFn: async () => {
       const params = new URLSearchParams();
       if (statusFilter !== "all") params.set("status", statusFilter);
-      params.set("dueType", viewMode === "monthly" ? "monthly" : "one_time");
+      if (viewMode === "recurring") {
+        params.set("dueType", scheduleFilter === "all" ? "recurring" : scheduleFilter);
+      } else {
+        params.set("dueType", "one_time");
+      }
       if (classFilter !== "all") params.set("classId", classFilter);
-      if (viewMode === "monthly" && monthFilter !== "all") params.set("month", monthFilter);
+      if (viewMode === "recurring" && monthFilter !== "all") params.set("month", monthFilter);
       if (activeYear) params.set("academicYear", activeYear);
       const res = await fetch(`/api/dues?${params.toString()}`);
       if (!res.ok) {
@@ -46,13 +86,66 @@ export default function DuesPage() {
     enabled: Boolean(activeYear),
   });
 
+  const { data: installmentDues } = useQuery({
+    queryKey: ["/api/dues", { installmentsOnly: true, activeYear }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ installmentsOnly: "true" });
+      if (activeYear) params.set("academicYear", activeYear);
+      const res = await fetch(`/api/dues?${params.toString()}`);
+      if (!res.ok) {
+        throw new Error('Failed to load installments');
+      }
+      return res.json();
+    },
+    enabled: Boolean(activeYear),
+  });
+
+  const upcomingInstallments = useMemo(() => {
+    const list = Array.isArray(installmentDues) ? installmentDues : [];
+    const todayKey = new Date().toISOString().slice(0, 10);
+    return list
+      .filter((due: any) => ['due', 'partial'].includes(due.status) && due.dueDate && due.dueDate >= todayKey)
+      .sort((a: any, b: any) => String(a.dueDate).localeCompare(String(b.dueDate)));
+  }, [installmentDues]);
+
+  // A dry run first, so the preview shows what confirming will charge.
+  const levyMutation = useMutation({
+    mutationFn: async (dryRun: boolean): Promise<LevyLateFeesResult> => {
+      const response = await apiRequest("POST", "/api/late-fees/run", { dryRun });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      if (result.dryRun) {
+        setLevyPreview(result);
+        return;
+      }
+      setLevyPreview(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/dues"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/pending-actions"] });
+      toast({
+        title: "Late fees levied",
+        description: `${result.created} created and ${result.updated} updated, ${formatCurrency(result.total)} in total.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to levy late fees",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pendingLateFees = levyPreview?.items.filter((item) => item.action !== 'unchanged') ?? [];
+
   useEffect(() => {
     setMonthManuallyChosen(false);
     setMonthFilter(getCurrentMonthKey());
   }, [activeYear]);
 
   useEffect(() => {
-    if (viewMode !== 'monthly') {
+    if (viewMode !== 'recurring') {
       setMonthFilter('all');
       setMonthManuallyChosen(false);
     }
@@ -80,7 +173,7 @@ export default function DuesPage() {
   }, [dues, activeYear]);
 
   useEffect(() => {
-    if (viewMode !== 'monthly') {
+    if (viewMode !== 'recurring') {
       return;
     }
 
@@ -125,7 +218,8 @@ export default function DuesPage() {
         || (due.studentName || '').toLowerCase().includes(q)
         || (due.ledgerNumber || '').toLowerCase().includes(q)
         || (due.className || '').toLowerCase().includes(q)
-        || (due.itemType || '').toLowerCase().includes(q);
+        || (due.itemType || '').toLowerCase().includes(q)
+        || (due.label || '').toLowerCase().includes(q);
 
       if (!matchesSearch) {
         return false;
@@ -151,10 +245,10 @@ export default function DuesPage() {
 
   const displayedDues = useMemo(() => {
     const list = Array.isArray(filteredDues) ? filteredDues : [];
-    if (viewMode !== 'monthly' || monthFilter === 'all') {
+    if (viewMode !== 'recurring' || monthFilter === 'all') {
       return list;
     }
-    return list.filter((due: any) => due.dueMonth === monthFilter);
+    return list.filter((due: any) => coversMonth(due, monthFilter));
   }, [filteredDues, viewMode, monthFilter]);
 
   const summary = useMemo(() => {
@@ -212,13 +306,20 @@ export default function DuesPage() {
   }
 
   const formatDueMonth = (month?: string | null) => formatAcademicMonth(month);
+  const formatBillingPeriod = (due: any) => {
+    if (!due?.dueMonth) return '—';
+    const start = formatDueMonth(due.dueMonth);
+    return due.periodEndMonth && due.periodEndMonth !== due.dueMonth
+      ? `${start} – ${formatDueMonth(due.periodEndMonth)}`
+      : start;
+  };
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold text-foreground">Student Dues</h2>
-          <p className="text-muted-foreground">Review outstanding one-time and monthly dues.</p>
+          <p className="text-muted-foreground">Review outstanding one-time and recurring dues by billing period.</p>
         </div>
         <div className="flex items-center gap-4">
           <Select value={activeYear} onValueChange={handleYearChange}>
@@ -239,6 +340,15 @@ export default function DuesPage() {
             placeholder="Search students, ledger, class..."
             className="w-72"
           />
+          <Button
+            variant="outline"
+            disabled={levyMutation.isPending}
+            onClick={() => levyMutation.mutate(true)}
+            data-testid="button-levy-late-fees"
+          >
+            <i className="fas fa-hourglass-end mr-2"></i>
+            Levy Late Fees
+          </Button>
         </div>
       </div>
 
@@ -278,12 +388,18 @@ export default function DuesPage() {
                 <SelectItem value="all">All Statuses</SelectItem>
                 <SelectItem value="due">Due</SelectItem>
                 <SelectItem value="partial">Partial</SelectItem>
+                <SelectItem value="overdue">Overdue</SelectItem>
                 <SelectItem value="paid">Paid</SelectItem>
+                <SelectItem value="waived">Waived</SelectItem>
+                <SelectItem value="written_off">Written Off</SelectItem>
+                <SelectItem value="split">Split</SelectItem>
+                <SelectItem value="carried_forward">Carried Forward</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
               </SelectContent>
             </Select>
             <ToggleGroup type="single" value={viewMode} onValueChange={(value) => value && setViewMode(value as typeof viewMode)} className="rounded-md border border-border">
-              <ToggleGroupItem value="monthly" className="px-3 py-1 text-sm" aria-label="Monthly dues">Monthly</ToggleGroupItem>
-              <ToggleGroupItem value="yearly" className="px-3 py-1 text-sm" aria-label="Yearly dues">Yearly</ToggleGroupItem>
+              <ToggleGroupItem value="recurring" className="px-3 py-1 text-sm" aria-label="Recurring dues">Recurring</ToggleGroupItem>
+              <ToggleGroupItem value="one_time" className="px-3 py-1 text-sm" aria-label="One-time dues">One Time</ToggleGroupItem>
             </ToggleGroup>
             <Select value={classFilter} onValueChange={setClassFilter}>
               <SelectTrigger className="w-44"><SelectValue placeholder="Class" /></SelectTrigger>
@@ -296,7 +412,20 @@ export default function DuesPage() {
                 ))}
               </SelectContent>
             </Select>
-            {viewMode === 'monthly' && (
+            {viewMode === 'recurring' && (
+              <Select value={scheduleFilter} onValueChange={setScheduleFilter}>
+                <SelectTrigger className="w-44"><SelectValue placeholder="Schedule" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Schedules</SelectItem>
+                  {Object.entries(scheduleLabels)
+                    .filter(([value]) => value !== 'one_time')
+                    .map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            )}
+            {viewMode === 'recurring' && (
               <Select
                 value={monthFilter}
                 onValueChange={(value) => {
@@ -304,9 +433,9 @@ export default function DuesPage() {
                   setMonthFilter(value);
                 }}
               >
-                <SelectTrigger className="w-44"><SelectValue placeholder="Month" /></SelectTrigger>
+                <SelectTrigger className="w-44"><SelectValue placeholder="Billing period" /></SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Months</SelectItem>
+                  <SelectItem value="all">All Periods</SelectItem>
                   {availableMonths.map((month) => (
                     <SelectItem key={month} value={month}>{formatDueMonth(month)}</SelectItem>
                   ))}
@@ -333,11 +462,15 @@ export default function DuesPage() {
                     <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Class</th>
                     <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Type</th>
                     <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Item</th>
-                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Due Month</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Billing Period</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Due Date</th>
                     <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Amount</th>
                     <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Paid</th>
                     <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Pending</th>
                     <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Status</th>
+                    {viewMode === 'one_time' ? (
+                      <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Actions</th>
+                    ) : null}
                   </tr>
                 </thead>
                 <tbody>
@@ -348,7 +481,13 @@ export default function DuesPage() {
                     const statusClasses: Record<string, string> = {
                       due: 'bg-destructive/10 text-destructive',
                       partial: 'bg-amber-100 text-amber-700',
+                      overdue: 'bg-destructive text-destructive-foreground',
                       paid: 'bg-emerald-100 text-emerald-700',
+                      waived: 'bg-muted text-muted-foreground',
+                      written_off: 'bg-muted text-muted-foreground',
+                      split: 'bg-primary/10 text-primary',
+                      carried_forward: 'bg-muted text-muted-foreground',
+                      cancelled: 'bg-muted text-muted-foreground line-through',
                     };
                     const statusMeta = statusClasses[due.status as keyof typeof statusClasses] || 'bg-muted text-muted-foreground';
 
@@ -362,17 +501,39 @@ export default function DuesPage() {
                         <td className="py-3 px-4 text-foreground">{due.className || '—'}</td>
                         <td className="py-3 px-4">
                           <Badge className={due.dueType === 'one_time' ? 'bg-primary/10 text-primary' : 'bg-secondary/10 text-secondary'}>
-                            {due.dueType === 'one_time' ? 'One Time' : 'Monthly'}
+                            {scheduleLabels[due.dueType] ?? due.dueType}
                           </Badge>
                         </td>
-                        <td className="py-3 px-4 text-foreground uppercase">{due.itemType}</td>
-                        <td className="py-3 px-4 text-foreground">{viewMode === 'monthly' ? formatDueMonth(due.dueMonth) : '—'}</td>
+                        <td className="py-3 px-4 text-foreground">{due.label || due.itemType}</td>
+                        <td className="py-3 px-4 text-foreground">{formatBillingPeriod(due)}</td>
+                        <td className={due.status === 'overdue' ? 'py-3 px-4 text-destructive' : 'py-3 px-4 text-foreground'}>
+                          {formatDueDate(due.dueDate)}
+                        </td>
                         <td className="py-3 px-4 text-foreground">{formatCurrency(amount)}</td>
                         <td className="py-3 px-4 text-foreground">{formatCurrency(paid)}</td>
                         <td className="py-3 px-4 text-foreground font-medium">{formatCurrency(pending)}</td>
                         <td className="py-3 px-4">
-                          <Badge className={statusMeta}>{due.status}</Badge>
+                          <Badge className={statusMeta}>{String(due.status).replace(/_/g, ' ')}</Badge>
                         </td>
+                        {viewMode === 'one_time' ? (
+                          <td className="py-3 px-4">
+                            {['due', 'partial', 'overdue'].includes(due.status) && !due.lateFeeForDueId && !due.installmentOfDueId ? (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setInstallmentTarget({
+                                  id: due.id,
+                                  label: `${due.studentName || 'Student'} · ${due.label || due.itemType}`,
+                                  balance: pending,
+                                  dueDate: due.dueDate,
+                                })}
+                                data-testid={`button-installments-${due.id}`}
+                              >
+                                Installments
+                              </Button>
+                            ) : null}
+                          </td>
+                        ) : null}
                       </tr>
                     );
                   })}
@@ -382,6 +543,96 @@ export default function DuesPage() {
           )}
         </CardContent>
       </Card>
+
+      {upcomingInstallments.length ? (
+        <Card className="finance-card">
+          <CardHeader>
+            <CardTitle>Upcoming Installments</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full data-table">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Student</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Class</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Installment</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Due Date</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Pending</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {upcomingInstallments.map((due: any) => (
+                    <tr key={due.id} className="border-b border-border hover:bg-muted/50">
+                      <td className="py-3 px-4 text-foreground font-medium">{due.studentName || 'Unknown Student'}</td>
+                      <td className="py-3 px-4 text-foreground">{due.className || '—'}</td>
+                      <td className="py-3 px-4 text-foreground">{due.label || due.itemType}</td>
+                      <td className="py-3 px-4 text-foreground">{formatDueDate(due.dueDate)}</td>
+                      <td className="py-3 px-4 text-foreground font-medium">
+                        {formatCurrency(Math.max(Number(due.amount ?? 0) - Number(due.paidAmount ?? 0), 0))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      ) : null}
+
+      <InstallmentPlanDialog due={installmentTarget} onClose={() => setInstallmentTarget(null)} />
+
+      <Dialog open={Boolean(levyPreview)} onOpenChange={(open) => !open && !levyMutation.isPending && setLevyPreview(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Levy late fees</DialogTitle>
+            <DialogDescription>
+              {pendingLateFees.length
+                ? `As of ${formatDueDate(levyPreview?.asOf)}, ${levyPreview?.created ?? 0} late fees will be added and ${levyPreview?.updated ?? 0} raised, ${formatCurrency(levyPreview?.total ?? 0)} in total.`
+                : 'No dues are past their grace period without a late fee already charged.'}
+            </DialogDescription>
+          </DialogHeader>
+          {pendingLateFees.length ? (
+            <div className="max-h-72 overflow-y-auto">
+              <table className="w-full data-table">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Due</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Due Date</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Days Late</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Late Fee</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pendingLateFees.map((item) => (
+                    <tr key={item.dueId} className="border-b border-border">
+                      <td className="py-3 px-4 text-foreground">{item.label}</td>
+                      <td className="py-3 px-4 text-muted-foreground">{formatDueDate(item.dueDate)}</td>
+                      <td className="py-3 px-4 text-muted-foreground">{item.daysLate}</td>
+                      <td className="py-3 px-4 text-foreground">
+                        {formatCurrency(item.amount)}
+                        {item.action === 'updated' ? <span className="ml-1 text-xs text-muted-foreground">(raised)</span> : null}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+          <DialogFooter>
+            <Button variant="outline" disabled={levyMutation.isPending} onClick={() => setLevyPreview(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!pendingLateFees.length || levyMutation.isPending}
+              onClick={() => levyMutation.mutate(false)}
+              data-testid="button-confirm-levy-late-fees"
+            >
+              {levyMutation.isPending ? 'Levying…' : 'Levy Late Fees'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
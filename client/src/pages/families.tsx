@@ -0,0 +1,529 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { useFinancePeriod } from "@/context/FinancePeriodContext";
+import type { Family, FamilyPayload, FamilyStatement, FamilySuggestion, Student } from "@/lib/types";
+
+function formatCurrency(amount: number | string) {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 2,
+  }).format(Number(amount) || 0);
+}
+
+const formatDate = (value?: string | null) => {
+  if (!value) return '-';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+type FamilyForm = {
+  id?: number;
+  name: string;
+  guardianName: string;
+  guardianPhone: string;
+  notes: string;
+  studentIds: number[];
+};
+
+const emptyForm = (): FamilyForm => ({
+  name: "",
+  guardianName: "",
+  guardianPhone: "",
+  notes: "",
+  studentIds: [],
+});
+
+function FamilyStatementDialog({ familyId, onClose }: { familyId: number | null; onClose: () => void }) {
+  const { year: activeYear } = useFinancePeriod();
+
+  const { data: statement, isLoading } = useQuery<FamilyStatement>({
+    queryKey: ["/api/families", familyId, "statement", { activeYear }],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (activeYear) params.set("academicYear", activeYear);
+      const response = await apiRequest("GET", `/api/families/${familyId}/statement?${params.toString()}`);
+      return response.json();
+    },
+    enabled: Boolean(familyId),
+  });
+
+  return (
+    <Dialog open={Boolean(familyId)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{statement ? `${statement.family.name} statement` : 'Family statement'}</DialogTitle>
+          <DialogDescription>
+            {statement
+              ? `${activeYear} · ${statement.family.guardianName ?? 'No guardian recorded'}${statement.family.guardianPhone ? ` · ${statement.family.guardianPhone}` : ''}`
+              : null}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !statement ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <Skeleton key={index} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Outstanding</p>
+                <p className={cn("text-lg font-semibold", statement.totals.outstanding > 0 ? "text-destructive" : "text-foreground")}>
+                  {formatCurrency(statement.totals.outstanding)}
+                </p>
+                {statement.totals.overdueCount ? (
+                  <p className="text-xs text-destructive">{statement.totals.overdueCount} overdue</p>
+                ) : null}
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Credit held</p>
+                <p className="text-lg font-semibold text-foreground">{formatCurrency(statement.totals.creditBalance)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Written off / refunded</p>
+                <p className="text-lg font-semibold text-foreground">
+                  {formatCurrency(statement.totals.writtenOff)} / {formatCurrency(statement.totals.refunded)}
+                </p>
+              </div>
+            </div>
+
+            <table className="w-full data-table">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Child</th>
+                  <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Class</th>
+                  <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Outstanding</th>
+                  <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Overdue</th>
+                  <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Credit</th>
+                </tr>
+              </thead>
+              <tbody>
+                {statement.children.map((child) => (
+                  <tr key={child.student.id} className="border-b border-border text-sm">
+                    <td className="py-2 px-4 font-medium text-foreground">{child.student.name}</td>
+                    <td className="py-2 px-4 text-muted-foreground">{child.student.className ?? '-'}</td>
+                    <td className="py-2 px-4">{formatCurrency(child.totals.outstanding)}</td>
+                    <td className="py-2 px-4">{child.totals.overdueCount}</td>
+                    <td className="py-2 px-4">{formatCurrency(child.totals.creditBalance)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-foreground">Receipts</p>
+              {statement.payments.length ? (
+                <div className="rounded-lg border divide-y text-sm">
+                  {statement.payments.map((payment) => (
+                    <div key={payment.id} className="flex items-center justify-between gap-3 p-3">
+                      <div>
+                        <a
+                          href={`/api/payments/${payment.id}/receipt.pdf`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-mono text-primary hover:underline"
+                        >
+                          {payment.receiptNumber ?? `#${payment.id}`}
+                        </a>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDate(payment.paymentDate)} · recorded for {payment.studentName ?? `student #${payment.studentId}`}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-medium text-foreground">{formatCurrency(payment.amount)}</p>
+                        <p className="text-[11px] uppercase tracking-wide text-muted-foreground">{payment.status}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No receipts this year.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function FamiliesPage() {
+  const [form, setForm] = useState<FamilyForm | null>(null);
+  const [studentSearch, setStudentSearch] = useState("");
+  const [statementFamilyId, setStatementFamilyId] = useState<number | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<Family | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: families, isLoading } = useQuery<Family[]>({
+    queryKey: ["/api/families"],
+  });
+
+  const { data: suggestions } = useQuery<FamilySuggestion[]>({
+    queryKey: ["/api/families/suggestions"],
+  });
+
+  const { data: students } = useQuery<Student[]>({
+    queryKey: ["/api/students"],
+    enabled: Boolean(form),
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/families"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/families/suggestions"] });
+    queryClient.invalidateQueries({ queryKey: ["student-family"] });
+  };
+
+  const showError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, payload }: { id?: number; payload: Partial<FamilyPayload> }): Promise<Family> => {
+      const response = id
+        ? await apiRequest("PATCH", `/api/families/${id}`, payload)
+        : await apiRequest("POST", "/api/families", payload);
+      return response.json();
+    },
+    onSuccess: (family, { id }) => {
+      refresh();
+      setForm(null);
+      toast({
+        title: id ? "Family updated" : "Family created",
+        description: `${family.name}: ${family.members.map((member) => member.name).join(', ')}.`,
+      });
+    },
+    onError: showError("Failed to save family"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (family: Family) => {
+      await apiRequest("DELETE", `/api/families/${family.id}`);
+      return family;
+    },
+    onSuccess: (family) => {
+      refresh();
+      setPendingDelete(null);
+      toast({ title: "Family removed", description: `${family.name} was ungrouped; receipts are unchanged.` });
+    },
+    onError: showError("Failed to delete family"),
+  });
+
+  const familyById = useMemo(() => new Map((families ?? []).map((family) => [family.id, family])), [families]);
+
+  // Unassigned children join the suggested family, or form a new one when there is none.
+  const acceptSuggestion = (suggestion: FamilySuggestion) => {
+    const unassigned = suggestion.students.filter((student) => student.familyId === null).map((student) => student.studentId);
+    const existing = suggestion.familyId ? familyById.get(suggestion.familyId) : undefined;
+    if (existing) {
+      saveMutation.mutate({
+        id: existing.id,
+        payload: { studentIds: [...existing.members.map((member) => member.studentId), ...unassigned] },
+      });
+      return;
+    }
+    saveMutation.mutate({
+      payload: {
+        guardianName: suggestion.guardianName,
+        guardianPhone: suggestion.guardianPhone,
+        studentIds: unassigned,
+      },
+    });
+  };
+
+  const openEdit = (family: Family) => {
+    setStudentSearch("");
+    setForm({
+      id: family.id,
+      name: family.name,
+      guardianName: family.guardianName ?? "",
+      guardianPhone: family.guardianPhone ?? "",
+      notes: family.notes ?? "",
+      studentIds: family.members.map((member) => member.studentId),
+    });
+  };
+
+  const toggleStudent = (studentId: number) => {
+    setForm((current) => current && ({
+      ...current,
+      studentIds: current.studentIds.includes(studentId)
+        ? current.studentIds.filter((id) => id !== studentId)
+        : [...current.studentIds, studentId],
+    }));
+  };
+
+  const submitForm = () => {
+    if (!form) return;
+    saveMutation.mutate({
+      id: form.id,
+      payload: {
+        name: form.name.trim() || undefined,
+        guardianName: form.guardianName.trim() || null,
+        guardianPhone: form.guardianPhone.trim() || null,
+        notes: form.notes.trim() || null,
+        studentIds: form.studentIds,
+      },
+    });
+  };
+
+  const pickerStudents = useMemo(() => {
+    const query = studentSearch.trim().toLowerCase();
+    const list = [...(students ?? [])].sort((a, b) => a.name.localeCompare(b.name));
+    const selected = new Set(form?.studentIds ?? []);
+    return list
+      .filter((student) => selected.has(student.id) || !query || [student.name, student.admissionNumber, student.guardianName, student.guardianPhone]
+        .some((value) => value?.toLowerCase().includes(query)))
+      .slice(0, 50);
+  }, [students, studentSearch, form?.studentIds]);
+
+  const matchLabels: Record<FamilySuggestion['matchedOn'], string> = {
+    guardian_phone: 'Same guardian phone',
+    guardian_name: 'Same guardian name',
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Families</h2>
+          <p className="text-muted-foreground">
+            Group siblings under one guardian to see their fees together and collect them on a single receipt.
+          </p>
+        </div>
+        <Button
+          onClick={() => {
+            setStudentSearch("");
+            setForm(emptyForm());
+          }}
+          data-testid="button-new-family"
+        >
+          New Family
+        </Button>
+      </div>
+
+      {suggestions?.length ? (
+        <Card className="finance-card">
+          <CardHeader>
+            <CardTitle>Possible Siblings</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {suggestions.map((suggestion) => (
+              <div
+                key={`${suggestion.matchedOn}-${suggestion.students.map((student) => student.studentId).join('-')}`}
+                className="flex flex-wrap items-center justify-between gap-3 rounded-lg border p-3"
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={suggestion.matchedOn === 'guardian_phone' ? 'secondary' : 'outline'}>
+                      {matchLabels[suggestion.matchedOn]}
+                    </Badge>
+                    <span className="text-sm text-muted-foreground">
+                      {suggestion.guardianName ?? 'No guardian name'}{suggestion.guardianPhone ? ` · ${suggestion.guardianPhone}` : ''}
+                    </span>
+                  </div>
+                  <p className="text-sm text-foreground">
+                    {suggestion.students.map((student) => (
+                      `${student.name}${student.className ? ` (${student.className})` : ''}${student.familyId ? ` – in ${familyById.get(student.familyId)?.name ?? 'a family'}` : ''}`
+                    )).join(', ')}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={saveMutation.isPending || suggestion.students.every((student) => student.familyId !== null)}
+                  onClick={() => acceptSuggestion(suggestion)}
+                >
+                  {suggestion.familyId ? `Add to ${familyById.get(suggestion.familyId)?.name ?? 'family'}` : 'Create Family'}
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ) : null}
+
+      <Card className="finance-card">
+        <CardHeader>
+          <CardTitle>Families</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 4 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !families?.length ? (
+            <p className="py-10 text-center text-muted-foreground">No families yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full data-table">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Family</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Guardian</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Children</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {families.map((family) => (
+                    <tr key={family.id} className="border-b border-border" data-testid={`row-family-${family.id}`}>
+                      <td className="py-3 px-4 font-medium text-foreground">{family.name}</td>
+                      <td className="py-3 px-4 text-muted-foreground">
+                        {family.guardianName ?? '-'}
+                        {family.guardianPhone ? <span className="block text-xs">{family.guardianPhone}</span> : null}
+                      </td>
+                      <td className="py-3 px-4 text-sm">
+                        {family.members.map((member) => (
+                          <span key={member.studentId} className="block">
+                            {member.name}
+                            {member.className ? <span className="text-muted-foreground"> · {member.className}</span> : null}
+                          </span>
+                        ))}
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Button size="sm" onClick={() => setStatementFamilyId(family.id)} data-testid={`button-family-statement-${family.id}`}>
+                            Statement
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => openEdit(family)}>
+                            Edit
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setPendingDelete(family)}>
+                            Remove
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={Boolean(form)} onOpenChange={(open) => !open && !saveMutation.isPending && setForm(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? 'Edit family' : 'New family'}</DialogTitle>
+            <DialogDescription>
+              A student can belong to one family. Guardian details default to the first child's.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  placeholder="Family name (optional)"
+                  value={form.name}
+                  onChange={(event) => setForm({ ...form, name: event.target.value })}
+                  data-testid="input-family-name"
+                />
+                <Input
+                  placeholder="Notes (optional)"
+                  value={form.notes}
+                  onChange={(event) => setForm({ ...form, notes: event.target.value })}
+                />
+                <Input
+                  placeholder="Guardian name"
+                  value={form.guardianName}
+                  onChange={(event) => setForm({ ...form, guardianName: event.target.value })}
+                />
+                <Input
+                  placeholder="Guardian phone"
+                  value={form.guardianPhone}
+                  onChange={(event) => setForm({ ...form, guardianPhone: event.target.value })}
+                />
+              </div>
+              <Input
+                placeholder="Search students by name, admission number or guardian"
+                value={studentSearch}
+                onChange={(event) => setStudentSearch(event.target.value)}
+                data-testid="input-family-student-search"
+              />
+              <div className="max-h-64 overflow-y-auto rounded-lg border divide-y">
+                {pickerStudents.map((student) => (
+                  <label key={student.id} className="flex cursor-pointer items-center gap-3 p-2 text-sm">
+                    <Checkbox
+                      checked={form.studentIds.includes(student.id)}
+                      onCheckedChange={() => toggleStudent(student.id)}
+                    />
+                    <span className="font-medium text-foreground">{student.name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {student.admissionNumber ? `Adm. #${student.admissionNumber}` : 'No admission #'}
+                      {student.guardianName ? ` · ${student.guardianName}` : ''}
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">{form.studentIds.length} selected</p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)} disabled={saveMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!form?.studentIds.length || saveMutation.isPending}
+              onClick={submitForm}
+              data-testid="button-save-family"
+            >
+              {saveMutation.isPending ? 'Saving…' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(pendingDelete)} onOpenChange={(open) => !open && !deleteMutation.isPending && setPendingDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remove family</DialogTitle>
+            <DialogDescription>
+              {pendingDelete
+                ? `Ungroup ${pendingDelete.members.map((member) => member.name).join(', ')}? Their dues and receipts are not changed.`
+                : null}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingDelete(null)} disabled={deleteMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={deleteMutation.isPending}
+              onClick={() => pendingDelete && deleteMutation.mutate(pendingDelete)}
+            >
+              {deleteMutation.isPending ? 'Removing…' : 'Remove'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <FamilyStatementDialog familyId={statementFamilyId} onClose={() => setStatementFamilyId(null)} />
+    </div>
+  );
+}
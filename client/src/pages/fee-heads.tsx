@@ -0,0 +1,516 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { FeeHead, FeeHeadFrequency, LateFeeType } from "@/lib/types";
+
+const frequencyLabels: Record<FeeHeadFrequency, string> = {
+  one_time: "One Time",
+  monthly: "Monthly",
+  termly: "Termly",
+  quarterly: "Quarterly",
+  half_yearly: "Half-Yearly",
+  annual: "Annual",
+  custom: "Custom Months",
+};
+
+const lateFeeTypeLabels: Record<LateFeeType, string> = {
+  none: "No late fee",
+  flat: "Flat amount",
+  per_day: "Per day late",
+};
+
+const formatAmount = (value?: string | null) => `₹${Number(value ?? 0).toLocaleString('en-IN')}`;
+
+const describeLateFee = (head: FeeHead) => {
+  if (head.lateFeeType === 'none') return '-';
+  const base = head.lateFeeType === 'per_day'
+    ? `${formatAmount(head.lateFeeAmount)}/day`
+    : formatAmount(head.lateFeeAmount);
+  const cap = head.lateFeeCap ? `, max ${formatAmount(head.lateFeeCap)}` : '';
+  const grace = head.lateFeeGraceDays ? ` after ${head.lateFeeGraceDays} days` : '';
+  return `${base}${cap}${grace}`;
+};
+
+// Calendar months in academic-year order, April first.
+const academicMonthOrder = [4, 5, 6, 7, 8, 9, 10, 11, 12, 1, 2, 3];
+
+const monthName = (month: number) =>
+  new Date(2000, month - 1, 1).toLocaleDateString('en-IN', { month: 'short' });
+
+const describeSchedule = (head: FeeHead) => {
+  if (head.frequency !== 'custom') {
+    return frequencyLabels[head.frequency] ?? head.frequency;
+  }
+  const months = academicMonthOrder.filter((month) => head.billingMonths?.includes(month));
+  return months.length ? months.map(monthName).join(', ') : 'Custom (no months)';
+};
+
+type FeeHeadForm = {
+  code: string;
+  label: string;
+  frequency: FeeHeadFrequency;
+  billingMonths: number[];
+  appliesToHostellers: boolean;
+  appliesToDayScholars: boolean;
+  sortOrder: string;
+  dueDay: string;
+  lateFeeType: LateFeeType;
+  lateFeeAmount: string;
+  lateFeeCap: string;
+  lateFeeGraceDays: string;
+  glAccount: string;
+  isActive: boolean;
+};
+
+const emptyForm = (sortOrder = 0): FeeHeadForm => ({
+  code: "",
+  label: "",
+  frequency: "one_time",
+  billingMonths: [],
+  appliesToHostellers: true,
+  appliesToDayScholars: true,
+  sortOrder: String(sortOrder),
+  dueDay: "1",
+  lateFeeType: "none",
+  lateFeeAmount: "0",
+  lateFeeCap: "",
+  lateFeeGraceDays: "0",
+  glAccount: "",
+  isActive: true,
+});
+
+const appliesToLabel = (head: FeeHead) => {
+  if (head.appliesToHostellers && head.appliesToDayScholars) return "All students";
+  return head.appliesToHostellers ? "Hostellers" : "Day scholars";
+};
+
+export default function FeeHeadsPage() {
+  const [editing, setEditing] = useState<FeeHead | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<FeeHeadForm>(emptyForm());
+  const [deleteTarget, setDeleteTarget] = useState<FeeHead | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: heads, isLoading } = useQuery<FeeHead[]>({
+    queryKey: ["/api/fee-heads", { includeInactive: true }],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/fee-heads?includeInactive=true");
+      return response.json();
+    },
+  });
+
+  const showError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, form: values }: { id?: number; form: FeeHeadForm }) => {
+      const payload = {
+        label: values.label.trim(),
+        frequency: values.frequency,
+        billingMonths: values.frequency === "custom" ? values.billingMonths : null,
+        appliesToHostellers: values.appliesToHostellers,
+        appliesToDayScholars: values.appliesToDayScholars,
+        sortOrder: Number(values.sortOrder || 0),
+        dueDay: Number(values.dueDay || 1),
+        lateFeeType: values.lateFeeType,
+        lateFeeAmount: values.lateFeeType === "none" ? 0 : Number(values.lateFeeAmount || 0),
+        lateFeeCap: values.lateFeeType === "none" || !values.lateFeeCap.trim() ? null : Number(values.lateFeeCap),
+        lateFeeGraceDays: Number(values.lateFeeGraceDays || 0),
+        glAccount: values.glAccount.trim() || null,
+        isActive: values.isActive,
+      };
+      const response = id
+        ? await apiRequest("PATCH", `/api/fee-heads/${id}`, payload)
+        : await apiRequest("POST", "/api/fee-heads", { ...payload, code: values.code.trim() });
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/fee-heads"] });
+      setDialogOpen(false);
+      toast({
+        title: variables.id ? "Fee head updated" : "Fee head added",
+        description: "Fee structures and new dues pick up the change.",
+      });
+    },
+    onError: showError("Failed to save fee head"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (head: FeeHead) => {
+      const response = await apiRequest("PATCH", `/api/fee-heads/${head.id}`, { isActive: !head.isActive });
+      return response.json();
+    },
+    onSuccess: (head: FeeHead) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/fee-heads"] });
+      toast({
+        title: head.isActive ? "Fee head activated" : "Fee head deactivated",
+        description: head.isActive ? `${head.label} will be charged again.` : `${head.label} is no longer charged on new dues.`,
+      });
+    },
+    onError: showError("Failed to update fee head"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (head: FeeHead) => {
+      const response = await apiRequest("DELETE", `/api/fee-heads/${head.id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/fee-heads"] });
+      setDeleteTarget(null);
+      toast({ title: "Fee head deleted" });
+    },
+    onError: (error: any) => {
+      setDeleteTarget(null);
+      showError("Failed to delete fee head")(error);
+    },
+  });
+
+  const openCreate = () => {
+    const nextSort = (heads ?? []).reduce((max, head) => Math.max(max, head.sortOrder), 0) + 10;
+    setEditing(null);
+    setForm(emptyForm(nextSort));
+    setDialogOpen(true);
+  };
+
+  const openEdit = (head: FeeHead) => {
+    setEditing(head);
+    setForm({
+      code: head.code,
+      label: head.label,
+      frequency: head.frequency,
+      billingMonths: head.billingMonths ?? [],
+      appliesToHostellers: head.appliesToHostellers,
+      appliesToDayScholars: head.appliesToDayScholars,
+      sortOrder: String(head.sortOrder),
+      dueDay: String(head.dueDay ?? 1),
+      lateFeeType: head.lateFeeType ?? "none",
+      lateFeeAmount: String(Number(head.lateFeeAmount ?? 0)),
+      lateFeeCap: head.lateFeeCap ? String(Number(head.lateFeeCap)) : "",
+      lateFeeGraceDays: String(head.lateFeeGraceDays ?? 0),
+      glAccount: head.glAccount ?? "",
+      isActive: head.isActive,
+    });
+    setDialogOpen(true);
+  };
+
+  const canSave = Boolean(
+    form.label.trim()
+    && (editing || form.code.trim())
+    && (form.appliesToHostellers || form.appliesToDayScholars)
+    && (form.frequency !== "custom" || form.billingMonths.length)
+    && Number(form.dueDay) >= 1 && Number(form.dueDay) <= 28
+    && (form.lateFeeType === "none" || Number(form.lateFeeAmount) > 0),
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Fee Heads</h2>
+          <p className="text-muted-foreground">The charges fee structures and dues are built from.</p>
+        </div>
+        <Button onClick={openCreate} data-testid="button-add-fee-head">
+          <i className="fas fa-plus mr-2"></i>
+          Add Fee Head
+        </Button>
+      </div>
+
+      <Card className="finance-card">
+        <CardHeader>
+          <CardTitle>Configured Heads</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 5 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !heads?.length ? (
+            <p className="py-10 text-center text-muted-foreground">No fee heads yet. Run the fee heads migration or add one.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full data-table">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Order</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Label</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Code</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Schedule</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Due Day</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Late Fee</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Applies To</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">GL Account</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Status</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {heads.map((head) => (
+                    <tr key={head.id} className="border-b border-border" data-testid={`row-fee-head-${head.id}`}>
+                      <td className="py-3 px-4 text-muted-foreground">{head.sortOrder}</td>
+                      <td className="py-3 px-4 font-medium text-foreground">{head.label}</td>
+                      <td className="py-3 px-4 font-mono text-sm">{head.code}</td>
+                      <td className="py-3 px-4">{describeSchedule(head)}</td>
+                      <td className="py-3 px-4 text-muted-foreground">{head.dueDay}</td>
+                      <td className="py-3 px-4 text-muted-foreground">{describeLateFee(head)}</td>
+                      <td className="py-3 px-4 text-muted-foreground">{appliesToLabel(head)}</td>
+                      <td className="py-3 px-4 font-mono text-sm">{head.glAccount || '-'}</td>
+                      <td className="py-3 px-4">
+                        <Badge className={head.isActive ? 'bg-secondary/10 text-secondary' : 'bg-muted text-muted-foreground'}>
+                          {head.isActive ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Button variant="outline" size="sm" onClick={() => openEdit(head)} data-testid={`button-edit-fee-head-${head.id}`}>
+                            Edit
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={toggleMutation.isPending}
+                            onClick={() => toggleMutation.mutate(head)}
+                            data-testid={`button-toggle-fee-head-${head.id}`}
+                          >
+                            {head.isActive ? 'Deactivate' : 'Activate'}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-destructive"
+                            onClick={() => setDeleteTarget(head)}
+                            data-testid={`button-delete-fee-head-${head.id}`}
+                          >
+                            Delete
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.label}` : 'Add fee head'}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? 'The code is fixed once created because fee structures and dues refer to it.'
+                : 'Use a short code such as lab or activity; it cannot be changed later.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                placeholder="Code (e.g. lab)"
+                value={form.code}
+                disabled={Boolean(editing)}
+                onChange={(event) => setForm((prev) => ({ ...prev, code: event.target.value }))}
+                data-testid="input-fee-head-code"
+              />
+              <Input
+                placeholder="Label (e.g. Lab Fee)"
+                value={form.label}
+                onChange={(event) => setForm((prev) => ({ ...prev, label: event.target.value }))}
+                data-testid="input-fee-head-label"
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <Select
+                value={form.frequency}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, frequency: value as FeeHeadFrequency }))}
+              >
+                <SelectTrigger data-testid="select-fee-head-frequency"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(frequencyLabels) as FeeHeadFrequency[]).map((frequency) => (
+                    <SelectItem key={frequency} value={frequency}>{frequencyLabels[frequency]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                step="1"
+                placeholder="Sort order"
+                value={form.sortOrder}
+                onChange={(event) => setForm((prev) => ({ ...prev, sortOrder: event.target.value }))}
+                data-testid="input-fee-head-sort-order"
+              />
+              <Input
+                placeholder="GL account"
+                value={form.glAccount}
+                onChange={(event) => setForm((prev) => ({ ...prev, glAccount: event.target.value }))}
+                data-testid="input-fee-head-gl-account"
+              />
+            </div>
+            {form.frequency === "custom" && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">Bill in these months, each falling due on the due day.</p>
+                <ToggleGroup
+                  type="multiple"
+                  value={form.billingMonths.map(String)}
+                  onValueChange={(values) => setForm((prev) => ({ ...prev, billingMonths: values.map(Number) }))}
+                  className="flex flex-wrap justify-start gap-1"
+                  data-testid="toggle-fee-head-billing-months"
+                >
+                  {academicMonthOrder.map((month) => (
+                    <ToggleGroupItem key={month} value={String(month)} className="px-3 py-1 text-sm border border-border">
+                      {monthName(month)}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </div>
+            )}
+            <div className="rounded-lg border bg-muted/20 p-4 space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <p className="text-sm font-medium text-foreground">Due day of month</p>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={28}
+                    step="1"
+                    value={form.dueDay}
+                    onChange={(event) => setForm((prev) => ({ ...prev, dueDay: event.target.value }))}
+                    data-testid="input-fee-head-due-day"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <p className="text-sm font-medium text-foreground">Late fee</p>
+                  <Select
+                    value={form.lateFeeType}
+                    onValueChange={(value) => setForm((prev) => ({ ...prev, lateFeeType: value as LateFeeType }))}
+                  >
+                    <SelectTrigger data-testid="select-fee-head-late-fee-type"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(lateFeeTypeLabels) as LateFeeType[]).map((type) => (
+                        <SelectItem key={type} value={type}>{lateFeeTypeLabels[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {form.lateFeeType !== "none" && (
+                <div className="grid grid-cols-3 gap-3">
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder={form.lateFeeType === "per_day" ? "Amount per day" : "Amount"}
+                    value={form.lateFeeAmount}
+                    onChange={(event) => setForm((prev) => ({ ...prev, lateFeeAmount: event.target.value }))}
+                    data-testid="input-fee-head-late-fee-amount"
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="Cap (optional)"
+                    value={form.lateFeeCap}
+                    onChange={(event) => setForm((prev) => ({ ...prev, lateFeeCap: event.target.value }))}
+                    data-testid="input-fee-head-late-fee-cap"
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    step="1"
+                    placeholder="Grace days"
+                    value={form.lateFeeGraceDays}
+                    onChange={(event) => setForm((prev) => ({ ...prev, lateFeeGraceDays: event.target.value }))}
+                    data-testid="input-fee-head-late-fee-grace"
+                  />
+                </div>
+              )}
+            </div>
+            <div className="rounded-lg border bg-muted/20 p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium text-foreground">Charge hostellers</p>
+                <Switch
+                  checked={form.appliesToHostellers}
+                  onCheckedChange={(checked) => setForm((prev) => ({ ...prev, appliesToHostellers: checked }))}
+                  data-testid="switch-fee-head-hostellers"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium text-foreground">Charge day scholars</p>
+                <Switch
+                  checked={form.appliesToDayScholars}
+                  onCheckedChange={(checked) => setForm((prev) => ({ ...prev, appliesToDayScholars: checked }))}
+                  data-testid="switch-fee-head-day-scholars"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium text-foreground">Active</p>
+                <Switch
+                  checked={form.isActive}
+                  onCheckedChange={(checked) => setForm((prev) => ({ ...prev, isActive: checked }))}
+                  data-testid="switch-fee-head-active"
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!canSave || saveMutation.isPending}
+              onClick={() => saveMutation.mutate({ id: editing?.id, form })}
+              data-testid="button-save-fee-head"
+            >
+              {saveMutation.isPending ? 'Saving…' : editing ? 'Save Changes' : 'Add Fee Head'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(deleteTarget)} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete fee head</DialogTitle>
+            <DialogDescription>
+              {deleteTarget
+                ? `${deleteTarget.label} can only be deleted if no fee structure or due uses it; otherwise deactivate it.`
+                : null}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={deleteMutation.isPending}
+              onClick={() => deleteTarget && deleteMutation.mutate(deleteTarget)}
+              data-testid="button-confirm-delete-fee-head"
+            >
+              {deleteMutation.isPending ? 'Deleting…' : 'Delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -7,12 +7,14 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import PaymentForm from "@/components/forms/PaymentForm";
 import { cn } from "@/lib/utils";
 import { useFinancePeriod } from "@/context/FinancePeriodContext";
-import type { RecordPaymentResponse } from "@/lib/types";
+import type { RecordPaymentResponse, RefundMethod, RefundPaymentPayload } from "@/lib/types";
 
 type PaymentReceiptStudent = {
   id: number;
@@ -33,7 +35,16 @@ export default function Payments() {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedStatus, setSelectedStatus] = useState("all");
   const [isPaymentFormOpen, setIsPaymentFormOpen] = useState(false);
-  const [receiptLoadingId, setReceiptLoadingId] = useState<number | null>(null);
+  const [voidTarget, setVoidTarget] = useState<any | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+  const [refundTarget, setRefundTarget] = useState<any | null>(null);
+  const [refundForm, setRefundForm] = useState<{ amount: string; refundMethod: RefundMethod; allocationId: string; referenceNumber: string; reason: string }>({
+    amount: "",
+    refundMethod: "cash",
+    allocationId: "none",
+    referenceNumber: "",
+    reason: "",
+  });
   const queryClient = useQueryClient();
   const { toast } = useToast();
   const { year: activeAcademicYear } = useFinancePeriod();
@@ -69,6 +80,84 @@ export default function Payments() {
     },
   });
 
+  const voidMutation = useMutation({
+    mutationFn: async ({ paymentId, reason }: { paymentId: number; reason: string }) => {
+      const response = await apiRequest("POST", `/api/payments/${paymentId}/void`, { reason });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dues"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      setVoidTarget(null);
+      setVoidReason("");
+      toast({
+        title: "Payment voided",
+        description: "Allocations were reversed and the dues reopened.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to void payment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { data: refundReceipt } = useQuery<PaymentReceiptResponse>({
+    queryKey: ["/api/payments", refundTarget?.id, "receipt"],
+    enabled: Boolean(refundTarget?.id),
+  });
+
+  const refundMutation = useMutation({
+    mutationFn: async ({ paymentId, payload }: { paymentId: number; payload: RefundPaymentPayload }) => {
+      const response = await apiRequest("POST", `/api/payments/${paymentId}/refund`, payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dues"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      setRefundTarget(null);
+      toast({
+        title: "Refund recorded",
+        description: "The refund has been added to the payment record.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record refund",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openRefundDialog = (payment: any) => {
+    setRefundForm({ amount: "", refundMethod: "cash", allocationId: "none", referenceNumber: "", reason: "" });
+    setRefundTarget(payment);
+  };
+
+  const submitRefund = () => {
+    if (!refundTarget) return;
+    const amount = parseFloat(refundForm.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      toast({ title: "Invalid amount", description: "Enter a refund amount greater than zero.", variant: "destructive" });
+      return;
+    }
+    refundMutation.mutate({
+      paymentId: refundTarget.id,
+      payload: {
+        amount,
+        refundMethod: refundForm.refundMethod,
+        allocationId: refundForm.allocationId !== "none" ? Number(refundForm.allocationId) : undefined,
+        referenceNumber: refundForm.referenceNumber.trim() || undefined,
+        reason: refundForm.reason.trim() || undefined,
+      },
+    });
+  };
+
   const formatCurrency = (amount: string | number) => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
@@ -91,6 +180,8 @@ export default function Payments() {
       'pending': 'bg-accent/10 text-accent',
       'rejected': 'bg-destructive/10 text-destructive',
       'partial': 'bg-muted text-muted-foreground',
+      'voided': 'bg-destructive/10 text-destructive line-through',
+      'failed': 'bg-destructive/10 text-destructive',
     };
 
     return variants[status as keyof typeof variants] || 'bg-muted text-muted-foreground';
@@ -108,241 +199,25 @@ export default function Payments() {
     return variants[method as keyof typeof variants] || 'bg-muted text-muted-foreground';
   };
 
-  const toTitleCase = (value?: string | null) => {
-    if (!value) return "";
-    return value
-      .replace(/_/g, " ")
-      .toLowerCase()
-      .replace(/\b\w/g, (match) => match.toUpperCase());
-  };
-
-  const getClassLabel = (student?: PaymentReceiptStudent) => {
-    if (!student?.className) {
-      return "No class assigned";
-    }
-    const base = student.className.toLowerCase().startsWith("class")
-      ? student.className
-      : `Class ${student.className}`;
-    const section = student.classSection ? ` - ${student.classSection}` : "";
-    return `${base}${section}`;
-  };
-
-  const getStudentTypeLabel = (student?: PaymentReceiptStudent) => {
-    if (!student) return "";
-    return student.isHosteller ? "Hosteller" : "Day Scholar";
-  };
-
-  const openReceiptWindow = (receipt: PaymentReceiptResponse) => {
-    if (typeof window === "undefined") return;
-
-    const receiptWindow = window.open("", "_blank", "width=720,height=900");
-    if (!receiptWindow) return;
-
-    const payment = receipt.payment;
-    const student = receipt.student;
-    const paymentDate = payment.paymentDate
-      ? new Date(payment.paymentDate).toLocaleString("en-IN", {
-          dateStyle: "medium",
-          timeStyle: "short",
-        })
-      : new Date().toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" });
-
-    const reference = (payment as any).referenceNumber ?? payment.transactionId ?? "N/A";
-
-    const classLabel = getClassLabel(student);
-    const typeLabel = getStudentTypeLabel(student);
-    const guardianLine = student?.guardianName ? `Parent: ${student.guardianName}` : "";
-
-    const fallbackStudentLines = [
-      (payment as any).studentName ?? "",
-      (payment as any).className ?? "",
-    ]
-      .filter(Boolean)
-      .map((line: string) => `<div>${line}</div>`) 
-      .join("");
-
-    const studentDetailsHtml = student
-      ? [
-          student.name,
-          classLabel,
-          typeLabel,
-          student.admissionNumber ? `Admission #${student.admissionNumber}` : "",
-          guardianLine,
-        ]
-          .filter(Boolean)
-          .map((line) => `<div>${line}</div>`)
-          .join("") || fallbackStudentLines
-      : fallbackStudentLines || '<div>Student information unavailable</div>';
-
-    const allocationRows = receipt.allocations.length
-      ? receipt.allocations
-          .map(
-            (allocation, index) => `
-          <tr>
-            <td style="padding:8px;border-bottom:1px solid #e5e7eb;text-align:center;">${index + 1}</td>
-            <td style="padding:8px;border-bottom:1px solid #e5e7eb;">${allocation.label ?? allocation.category ?? "Fee"}</td>
-            <td style="padding:8px;border-bottom:1px solid #e5e7eb;text-align:right;">${formatCurrency(allocation.amount)}</td>
-          </tr>
-        `,
-          )
-          .join("")
-      : `<tr><td colspan="3" style="padding:12px;text-align:center;color:#6b7280;">No fee components recorded for this payment.</td></tr>`;
-
-    const receiptHtml = `<!doctype html>
-<html>
-  <head>
-    <meta charset="utf-8" />
-    <title>Meed Public School - Payment Receipt #${payment.id}</title>
-    <style>
-      body { font-family: 'Segoe UI', Tahoma, sans-serif; margin: 24px; color: #111827; }
-      h1 { font-size: 20px; margin-bottom: 4px; }
-      .muted { color: #6b7280; font-size: 12px; }
-      .section { margin-top: 24px; }
-      table { width: 100%; border-collapse: collapse; margin-top: 12px; }
-      th { text-align: left; padding: 8px; border-bottom: 1px solid #d1d5db; background: #f9fafb; font-size: 12px; }
-      td { font-size: 13px; }
-      .total { font-size: 16px; font-weight: 600; text-align: right; padding-top: 16px; }
-      .stamp { border: 2px solid #1f2937; padding: 16px 32px; border-radius: 12px; display: inline-block; text-transform: uppercase; letter-spacing: 1px; font-weight: 600; }
-      .stamp span { display: block; font-size: 12px; font-weight: 400; margin-top: 4px; letter-spacing: normal; }
-    </style>
-  </head>
-  <body>
-    <div>
-      <h1>Meed Public School - Payment Receipt</h1>
-      <div class="muted">Receipt #: ${payment.id} - Generated on ${new Date().toLocaleString("en-IN")}</div>
-    </div>
-
-    <div class="section">
-      <h2 style="font-size:16px;margin-bottom:4px;">Student Details</h2>
-      <div class="muted">${studentDetailsHtml}</div>
-    </div>
-
-    <div class="section">
-      <h2 style="font-size:16px;margin-bottom:4px;">Payment Information</h2>
-      <div class="muted">
-        <div>Amount Paid: <strong>${formatCurrency(payment.amount)}</strong></div>
-        <div>Payment Method: ${toTitleCase(payment.paymentMethod)}</div>
-        <div>Payment Date: ${paymentDate}</div>
-        <div>Reference: ${reference}</div>
-        <div>Remarks: ${payment.remarks ?? "N/A"}</div>
-      </div>
-      <table>
-        <thead>
-          <tr>
-            <th style="width:60px;text-align:center;">S/N</th>
-            <th>Fee Component</th>
-            <th style="text-align:right;">Amount</th>
-          </tr>
-        </thead>
-        <tbody>
-          ${allocationRows}
-        </tbody>
-      </table>
-      <div class="total">Total Paid: ${formatCurrency(payment.amount)}</div>
-    </div>
-
-    <div class="section" style="display:flex;justify-content:flex-end;">
-      <div class="stamp">
-        Meed Public School
-        <span>Authorised Stamp</span>
-      </div>
-    </div>
-  </body>
-</html>`;
-
-    receiptWindow.document.write(receiptHtml);
-    receiptWindow.document.close();
-    receiptWindow.focus();
-    setTimeout(() => {
-      receiptWindow.print();
-      receiptWindow.close();
-    }, 400);
-  };
-
-  const openReceipt = async (paymentRow: any) => {
+  const openReceipt = (paymentRow: any) => {
     const paymentId = paymentRow?.id;
     if (!paymentId) {
       toast({ title: "Unable to open receipt", description: "Missing payment identifier." });
       return;
     }
-
-    try {
-      setReceiptLoadingId(paymentId);
-      const response = await fetch(`/api/payments/${paymentId}/receipt`, {
-        credentials: "include",
-      });
-      const rawBody = await response.text();
-
-      if (!response.ok) {
-        const message = rawBody || `Unable to load receipt (status ${response.status})`;
-        throw new Error(message);
-      }
-
-      const data: PaymentReceiptResponse = JSON.parse(rawBody);
-      openReceiptWindow(data);
-    } catch (error: any) {
-      const message = error?.message || "Unable to load full receipt.";
-      toast({
-        title: "Showing summary receipt",
-        description: `${message} Displaying a simplified receipt instead.`,
-      });
-
-      const amountNumber = typeof paymentRow.amount === 'number'
-        ? paymentRow.amount
-        : parseFloat(paymentRow.amount ?? '0');
-
-      const fallbackPayment = {
-        id: paymentRow.id,
-        studentId: paymentRow.studentId,
-        studentFeeId: paymentRow.studentFeeId ?? undefined,
-        amount: Number.isFinite(amountNumber) ? amountNumber.toFixed(2) : '0.00',
-        paymentMethod: paymentRow.paymentMethod,
-        paymentDate: paymentRow.paymentDate,
-        transactionId: paymentRow.referenceNumber ?? undefined,
-        referenceNumber: paymentRow.referenceNumber ?? undefined,
-        remarks: paymentRow.remarks ?? undefined,
-        status: paymentRow.status ?? 'pending',
-        verifiedBy: paymentRow.verifiedBy ?? undefined,
-        verifiedAt: paymentRow.verifiedAt ?? undefined,
-        createdBy: paymentRow.createdBy ?? 1,
-        createdAt: paymentRow.createdAt ?? new Date().toISOString(),
-        receiptUrl: null,
-      } as RecordPaymentResponse['payment'];
-
-      const fallbackStudent: PaymentReceiptStudent | undefined = paymentRow.studentName
-        ? {
-            id: paymentRow.studentId,
-            name: paymentRow.studentName,
-            admissionNumber: paymentRow.studentAdmissionNumber ?? null,
-            guardianName: paymentRow.studentGuardianName ?? null,
-            isHosteller: paymentRow.studentIsHosteller ?? null,
-            className: paymentRow.classRawName ?? paymentRow.className ?? null,
-            classSection: paymentRow.classSection ?? null,
-          }
-        : undefined;
-
-      openReceiptWindow({
-        payment: fallbackPayment,
-        allocations: [],
-        student: fallbackStudent,
-        summary: null,
-      });
-    } finally {
-      setReceiptLoadingId(null);
-    }
+    if (typeof window === "undefined") return;
+    window.open(`/api/payments/${paymentId}/receipt.pdf`, "_blank", "noopener");
   };
 
   const renderPaymentRow = (payment: any, index: number) => {
-    const isRowLoading = receiptLoadingId === payment.id;
+    const isVoided = payment.status === 'voided';
+    const isReversed = isVoided || payment.status === 'failed';
     const initials = payment.studentName?.split(' ').map((n: string) => n[0]).join('').substring(0, 2) || "--";
 
     return (
       <tr
         key={payment.id}
-        className={cn(
-          "border-b border-border hover:bg-muted/50 cursor-pointer transition",
-          isRowLoading && "opacity-60 pointer-events-none"
-        )}
+        className="border-b border-border hover:bg-muted/50 cursor-pointer transition"
         data-testid={`row-payment-${payment.id}`}
         onClick={() => openReceipt(payment)}
       >
@@ -353,15 +228,29 @@ export default function Payments() {
                 {initials}
               </span>
             </div>
-            <span className="font-medium text-foreground" data-testid={`text-student-name-${index}`}>
-              {payment.studentName}
-            </span>
+            <div>
+              <span className="font-medium text-foreground" data-testid={`text-student-name-${index}`}>
+                {payment.studentName}
+              </span>
+              {payment.receiptNumber && (
+                <div className="text-xs font-mono text-muted-foreground" data-testid={`text-receipt-number-${index}`}>
+                  {payment.receiptNumber}
+                </div>
+              )}
+            </div>
           </div>
         </td>
         <td className="py-3 px-4 text-muted-foreground" data-testid={`text-class-${index}`}>
           {payment.className}
         </td>
-        <td className="py-3 px-4 text-right font-mono font-semibold text-foreground" data-testid={`text-amount-${index}`}>
+        <td
+          className={cn(
+            "py-3 px-4 text-right font-mono font-semibold text-foreground",
+            isVoided && "line-through text-muted-foreground"
+          )}
+          data-testid={`text-amount-${index}`}
+          title={isVoided && payment.voidReason ? `Voided: ${payment.voidReason}` : undefined}
+        >
           {formatCurrency(payment.amount)}
         </td>
         <td className="py-3 px-4">
@@ -403,11 +292,38 @@ export default function Payments() {
                 event.stopPropagation();
                 openReceipt(payment);
               }}
-              disabled={isRowLoading}
               data-testid={`button-view-payment-${payment.id}`}
             >
-              {isRowLoading ? 'Opening…' : 'View Receipt'}
+              View Receipt
             </Button>
+            {!isReversed && payment.status !== 'pending' && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  openRefundDialog(payment);
+                }}
+                data-testid={`button-refund-payment-${payment.id}`}
+              >
+                Refund
+              </Button>
+            )}
+            {!isReversed && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-destructive"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  setVoidReason("");
+                  setVoidTarget(payment);
+                }}
+                data-testid={`button-void-payment-${payment.id}`}
+              >
+                Void
+              </Button>
+            )}
             <Button
               variant="outline"
               size="sm"
@@ -427,7 +343,8 @@ export default function Payments() {
 
   const filteredPayments = payments?.filter((payment: any) => {
     const matchesSearch = payment.studentName?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                          payment.referenceNumber?.toLowerCase().includes(searchQuery.toLowerCase());
+                          payment.referenceNumber?.toLowerCase().includes(searchQuery.toLowerCase()) ||
+                          payment.receiptNumber?.toLowerCase().includes(searchQuery.toLowerCase());
 
     const matchesStatus = selectedStatus === 'all' || payment.status === selectedStatus;
 
@@ -485,8 +402,8 @@ export default function Payments() {
   const totalPayments = payments?.length || 0;
   const verifiedPayments = payments?.filter((p: any) => p.status === 'verified').length || 0;
   const pendingPayments = payments?.filter((p: any) => p.status === 'pending').length || 0;
-  const totalAmount = payments?.reduce((sum: number, payment: any) => 
-    sum + parseFloat(payment.amount || 0), 0) || 0;
+  const totalAmount = payments?.reduce((sum: number, payment: any) =>
+    payment.status === 'voided' ? sum : sum + parseFloat(payment.amount || 0), 0) || 0;
 
   return (
     <div className="space-y-6">
@@ -593,6 +510,7 @@ export default function Payments() {
                     <SelectItem value="pending">Pending</SelectItem>
                     <SelectItem value="verified">Verified</SelectItem>
                     <SelectItem value="rejected">Rejected</SelectItem>
+                    <SelectItem value="voided">Voided</SelectItem>
                   </SelectContent>
                 </Select>
                 <Input
@@ -737,6 +655,126 @@ export default function Payments() {
         isOpen={isPaymentFormOpen}
         onClose={() => setIsPaymentFormOpen(false)}
       />
+
+      <Dialog
+        open={Boolean(voidTarget)}
+        onOpenChange={(open) => {
+          if (!open) {
+            setVoidTarget(null);
+            setVoidReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Void payment</DialogTitle>
+            <DialogDescription>
+              {voidTarget
+                ? `${formatCurrency(voidTarget.amount)} from ${voidTarget.studentName ?? 'this student'} will be reversed and the related dues reopened. The receipt stays on record as voided.`
+                : null}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Reason for voiding (required)"
+            value={voidReason}
+            onChange={(event) => setVoidReason(event.target.value)}
+            data-testid="input-void-reason"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setVoidTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!voidReason.trim() || voidMutation.isPending}
+              onClick={() => {
+                if (!voidTarget) return;
+                voidMutation.mutate({ paymentId: voidTarget.id, reason: voidReason.trim() });
+              }}
+              data-testid="button-confirm-void"
+            >
+              {voidMutation.isPending ? 'Voiding…' : 'Void Payment'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(refundTarget)} onOpenChange={(open) => !open && setRefundTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Refund payment</DialogTitle>
+            <DialogDescription>
+              {refundTarget
+                ? `Receipt ${refundTarget.receiptNumber ?? `#${refundTarget.id}`} · ${formatCurrency(refundTarget.amount)} from ${refundTarget.studentName ?? 'this student'}`
+                : null}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Refund amount"
+              value={refundForm.amount}
+              onChange={(event) => setRefundForm((prev) => ({ ...prev, amount: event.target.value }))}
+              data-testid="input-refund-amount"
+            />
+            <Select
+              value={refundForm.refundMethod}
+              onValueChange={(value) => setRefundForm((prev) => ({ ...prev, refundMethod: value as RefundMethod }))}
+            >
+              <SelectTrigger data-testid="select-refund-method">
+                <SelectValue placeholder="Refund method" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cash">Cash</SelectItem>
+                <SelectItem value="bank">Bank Transfer</SelectItem>
+                <SelectItem value="upi">UPI</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={refundForm.allocationId}
+              onValueChange={(value) => setRefundForm((prev) => ({ ...prev, allocationId: value }))}
+            >
+              <SelectTrigger data-testid="select-refund-allocation">
+                <SelectValue placeholder="Fee component" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Unused advance (no fee component)</SelectItem>
+                {refundReceipt?.allocations.filter((allocation) => allocation.category !== 'deposit').map((allocation) => (
+                  <SelectItem key={allocation.id} value={String(allocation.id)}>
+                    {`${allocation.label ?? allocation.category ?? 'Fee'} · ${formatCurrency(allocation.amount)}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Reference number (optional)"
+              value={refundForm.referenceNumber}
+              onChange={(event) => setRefundForm((prev) => ({ ...prev, referenceNumber: event.target.value }))}
+              data-testid="input-refund-reference"
+            />
+            <Textarea
+              placeholder="Reason (optional)"
+              value={refundForm.reason}
+              onChange={(event) => setRefundForm((prev) => ({ ...prev, reason: event.target.value }))}
+              data-testid="input-refund-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRefundTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!refundForm.amount || refundMutation.isPending}
+              onClick={submitRefund}
+              data-testid="button-confirm-refund"
+            >
+              {refundMutation.isPending ? 'Saving…' : 'Record Refund'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
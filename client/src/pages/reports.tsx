@@ -11,6 +11,16 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { format } from "date-fns";
 import TrendChart from "@/components/charts/TrendChart";
 import { useFinancePeriod } from "@/context/FinancePeriodContext";
+import type { TenderCollectionReport } from "@/lib/types";
+
+const tenderLabels: Record<string, string> = {
+  cash: "Cash",
+  upi: "UPI",
+  bank_transfer: "Bank Transfer",
+  bank: "Bank (Counter)",
+  cheque: "Cheque",
+  online: "Online Portal",
+};
 
 export default function Reports() {
   const [selectedPeriod, setSelectedPeriod] = useState("monthly");
@@ -44,6 +54,17 @@ export default function Reports() {
     enabled: Boolean(activeYear),
   });
 
+  const { data: tenderCollections } = useQuery<TenderCollectionReport>({
+    queryKey: ["/api/reports/collection-by-tender", activeYear],
+    queryFn: () => fetch(`/api/reports/collection-by-tender?academicYear=${encodeURIComponent(activeYear)}`).then(res => res.json()),
+    enabled: Boolean(activeYear),
+  });
+
+  const tenderMonths = Array.from(new Set((tenderCollections?.monthly ?? []).map((row) => row.month))).sort();
+  const tenderMethods = (tenderCollections?.totals ?? []).map((row) => row.method);
+  const tenderMonthAmount = (month: string, method: string) =>
+    tenderCollections?.monthly.find((row) => row.month === month && row.method === method)?.amount ?? 0;
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
@@ -375,15 +396,59 @@ export default function Reports() {
         <TabsContent value="collections">
           <Card className="finance-card">
             <CardHeader>
-              <CardTitle>Collection Analysis</CardTitle>
+              <CardTitle>Collections by Tender</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="flex items-center justify-center h-64 bg-muted/50 rounded-lg">
-                <div className="text-center">
-                  <i className="fas fa-chart-bar text-4xl text-muted-foreground mb-3"></i>
-                  <p className="text-muted-foreground">Detailed collection analysis coming soon</p>
+              {tenderCollections && tenderCollections.totals.length ? (
+                <div className="space-y-6">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {tenderCollections.totals.map((row) => (
+                      <div key={row.method} className="rounded-lg border p-4" data-testid={`tender-total-${row.method}`}>
+                        <p className="text-sm text-muted-foreground">{tenderLabels[row.method] ?? row.method}</p>
+                        <p className="text-xl font-bold font-mono text-foreground">{formatCurrency(row.amount)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {row.payments} receipts · {tenderCollections.grandTotal > 0 ? Math.round((row.amount / tenderCollections.grandTotal) * 100) : 0}%
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full data-table">
+                      <thead>
+                        <tr className="border-b border-border">
+                          <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Month</th>
+                          {tenderMethods.map((method) => (
+                            <th key={method} className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">
+                              {tenderLabels[method] ?? method}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {tenderMonths.map((month) => (
+                          <tr key={month} className="border-b border-border hover:bg-muted/50">
+                            <td className="py-3 px-4 font-medium text-foreground">
+                              {format(new Date(`${month}-01T00:00:00`), "MMM yyyy")}
+                            </td>
+                            {tenderMethods.map((method) => (
+                              <td key={method} className="py-3 px-4 text-right font-mono text-foreground">
+                                {formatCurrency(tenderMonthAmount(month, method))}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
                 </div>
-              </div>
+              ) : (
+                <div className="flex items-center justify-center h-64 bg-muted/50 rounded-lg">
+                  <div className="text-center">
+                    <i className="fas fa-chart-bar text-4xl text-muted-foreground mb-3"></i>
+                    <p className="text-muted-foreground">No collections recorded for this academic year</p>
+                  </div>
+                </div>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import type { StudentStatement, StudentStatementEntryType } from "@/lib/types";
+
+function formatCurrency(amount: number | string) {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 2,
+  }).format(Number(amount) || 0);
+}
+
+const formatDate = (value?: string | null) => {
+  if (!value) return '-';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+// A negative balance is money the school holds for the student.
+const formatBalance = (value: number) => (value < 0 ? `${formatCurrency(-value)} Cr` : formatCurrency(value));
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const entryLabels: Record<StudentStatementEntryType, string> = {
+  due: 'Due',
+  payment: 'Payment',
+  waiver: 'Waiver',
+  write_off: 'Write-off',
+  carried_forward: 'Carried forward',
+  refund: 'Refund',
+  reversal: 'Reversal',
+};
+
+export default function StudentStatementPage() {
+  const params = useParams<{ id: string }>();
+  const studentId = Number(params.id);
+  const [range, setRange] = useState({ from: "", to: today() });
+
+  const query = new URLSearchParams();
+  if (range.from) query.set("from", range.from);
+  if (range.to) query.set("to", range.to);
+  const queryString = query.toString();
+
+  const { data: statement, isLoading, error } = useQuery<StudentStatement>({
+    queryKey: ["/api/students", studentId, "statement", range],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/students/${studentId}/statement?${queryString}`);
+      return response.json();
+    },
+    enabled: Number.isInteger(studentId) && studentId > 0 && (!range.from || !range.to || range.from <= range.to),
+  });
+
+  const pdfUrl = `/api/students/${studentId}/statement.pdf?${queryString}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <Link href="/students" className="text-sm text-muted-foreground hover:text-foreground">
+            <i className="fas fa-arrow-left mr-2"></i>Students
+          </Link>
+          <h2 className="text-2xl font-bold text-foreground">
+            {statement ? `${statement.student.name} – Statement of Account` : 'Statement of Account'}
+          </h2>
+          <p className="text-muted-foreground">
+            {statement
+              ? [
+                  statement.student.className ? `Class ${statement.student.className}` : null,
+                  statement.student.admissionNumber ? `Adm. ${statement.student.admissionNumber}` : null,
+                  statement.student.guardianName,
+                ].filter(Boolean).join(' · ')
+              : 'Dues raised, payments and adjustments with a running balance.'}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="statement-from">From</Label>
+            <Input
+              id="statement-from"
+              type="date"
+              value={range.from}
+              max={range.to || undefined}
+              onChange={(event) => setRange((current) => ({ ...current, from: event.target.value }))}
+              className="w-40"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="statement-to">To</Label>
+            <Input
+              id="statement-to"
+              type="date"
+              value={range.to}
+              min={range.from || undefined}
+              onChange={(event) => setRange((current) => ({ ...current, to: event.target.value }))}
+              className="w-40"
+            />
+          </div>
+          <Button
+            variant="outline"
+            disabled={!statement}
+            onClick={() => window.open(pdfUrl, "_blank", "noopener")}
+            data-testid="button-print-statement"
+          >
+            <i className="fas fa-print mr-2"></i>
+            Print
+          </Button>
+          <Button asChild data-testid="button-download-statement">
+            <a href={pdfUrl} download={`statement-${studentId}-${range.to || today()}.pdf`}>
+              <i className="fas fa-file-pdf mr-2"></i>
+              Download PDF
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {statement ? (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card className="finance-card">
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">Opening balance</p>
+              <p className="text-2xl font-semibold text-foreground">{formatBalance(statement.openingBalance)}</p>
+            </CardContent>
+          </Card>
+          <Card className="finance-card">
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">Charged</p>
+              <p className="text-2xl font-semibold text-foreground">{formatCurrency(statement.totalDebit)}</p>
+            </CardContent>
+          </Card>
+          <Card className="finance-card">
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">Received and cleared</p>
+              <p className="text-2xl font-semibold text-foreground">{formatCurrency(statement.totalCredit)}</p>
+            </CardContent>
+          </Card>
+          <Card className="finance-card">
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">{statement.closingBalance < 0 ? 'Credit held' : 'Balance payable'}</p>
+              <p className={cn("text-2xl font-semibold", statement.closingBalance > 0 ? "text-destructive" : "text-foreground")}>
+                {formatCurrency(Math.abs(statement.closingBalance))}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      ) : null}
+
+      <Card className="finance-card">
+        <CardHeader>
+          <CardTitle>
+            {statement ? `${statement.from ? formatDate(statement.from) : 'From admission'} to ${formatDate(statement.to)}` : 'Transactions'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 5 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : error ? (
+            <p className="py-10 text-center text-destructive">{(error as any)?.message || 'Failed to load statement'}</p>
+          ) : !statement ? (
+            <p className="py-10 text-center text-muted-foreground">Choose a valid date range.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full data-table">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Date</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Particulars</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Reference</th>
+                    <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Debit</th>
+                    <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Credit</th>
+                    <th className="text-right py-3 px-4 text-sm font-medium text-muted-foreground">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b border-border text-sm font-medium">
+                    <td className="py-2 px-4 text-muted-foreground">{statement.from ? formatDate(statement.from) : ''}</td>
+                    <td className="py-2 px-4 text-foreground" colSpan={4}>Opening balance</td>
+                    <td className="py-2 px-4 text-right">{formatBalance(statement.openingBalance)}</td>
+                  </tr>
+                  {statement.entries.map((entry, index) => (
+                    <tr key={`${entry.type}-${entry.dueId ?? entry.paymentId}-${index}`} className="border-b border-border text-sm">
+                      <td className="py-2 px-4 whitespace-nowrap text-muted-foreground">{formatDate(entry.date)}</td>
+                      <td className="py-2 px-4">
+                        <span className="text-foreground">{entry.description}</span>
+                        <span className="ml-2 text-[11px] uppercase tracking-wide text-muted-foreground">{entryLabels[entry.type]}</span>
+                        {(entry.allocations?.length ?? 0) > 1 ? (
+                          <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                            {entry.allocations!.map((allocation, allocationIndex) => (
+                              <li key={`${allocation.dueId}-${allocationIndex}`}>
+                                {allocation.label}: {formatCurrency(allocation.amount)}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : null}
+                      </td>
+                      <td className="py-2 px-4 font-mono text-xs">
+                        {entry.paymentId && entry.reference ? (
+                          <a
+                            href={`/api/payments/${entry.paymentId}/receipt.pdf`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-primary hover:underline"
+                          >
+                            {entry.reference}
+                          </a>
+                        ) : entry.reference ?? ''}
+                      </td>
+                      <td className="py-2 px-4 text-right">{entry.debit ? formatCurrency(entry.debit) : ''}</td>
+                      <td className="py-2 px-4 text-right">{entry.credit ? formatCurrency(entry.credit) : ''}</td>
+                      <td className="py-2 px-4 text-right font-medium">{formatBalance(entry.balance)}</td>
+                    </tr>
+                  ))}
+                  {!statement.entries.length ? (
+                    <tr>
+                      <td colSpan={6} className="py-6 text-center text-muted-foreground">No transactions in this period.</td>
+                    </tr>
+                  ) : null}
+                  <tr className="text-sm font-semibold">
+                    <td className="py-2 px-4"></td>
+                    <td className="py-2 px-4" colSpan={2}>Closing balance</td>
+                    <td className="py-2 px-4 text-right">{formatCurrency(statement.totalDebit)}</td>
+                    <td className="py-2 px-4 text-right">{formatCurrency(statement.totalCredit)}</td>
+                    <td className="py-2 px-4 text-right">{formatBalance(statement.closingBalance)}</td>
+                  </tr>
+                </tbody>
+              </table>
+              <p className="mt-3 text-xs text-muted-foreground">
+                Dues are shown net of concessions. Caution deposits are refundable and kept on their own ledger.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useEffect, useMemo, useState } from "react";
+import { useLocation } from "wouter";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -18,6 +19,8 @@ import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
 import { cn, buildAcademicYearMonths, getCurrentAcademicYear, getCurrentMonthKey } from "@/lib/utils";
 import { useFinancePeriod } from "@/context/FinancePeriodContext";
+import StudentStatusChangeDialog, { type StudentStatusChangeTarget } from "@/components/forms/StudentStatusChangeDialog";
+import StudentExitDialog, { type StudentExitTarget } from "@/components/forms/StudentExitDialog";
 
 export default function Students() {
   const [searchQuery, setSearchQuery] = useState("");
@@ -31,8 +34,11 @@ export default function Students() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [statusChangeTarget, setStatusChangeTarget] = useState<StudentStatusChangeTarget | null>(null);
+  const [exitTarget, setExitTarget] = useState<StudentExitTarget | null>(null);
   const [selectedStudent, setSelectedStudent] = useState<any | null>(null);
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
 
   const { year: activeAcademicYear, years } = useFinancePeriod();
 
@@ -835,24 +841,58 @@ export default function Students() {
                           >
                             Edit
                           </Button>
+                          {student.accountOpened && student.status === 'active' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 px-2"
+                              title="Change class or boarding"
+                              aria-label="Change class or boarding"
+                              data-testid={`button-status-change-${student.id}`}
+                              onClick={() => setStatusChangeTarget({
+                                id: student.id,
+                                name: student.name,
+                                classId: student.classId,
+                                isHosteller: Boolean(student.isHosteller),
+                              })}
+                            >
+                              Change
+                            </Button>
+                          )}
+                          {/* Students with an account leave through the exit settlement; others are just marked left. */}
+                          {student.accountOpened ? (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 px-2"
+                              title={student.status === 'left' ? 'Exit settlement and clearance' : 'Record exit'}
+                              aria-label={student.status === 'left' ? 'Exit settlement and clearance' : 'Record exit'}
+                              data-testid={`button-exit-student-${student.id}`}
+                              onClick={() => setExitTarget({ id: student.id, name: student.name })}
+                            >
+                              {student.status === 'left' ? 'Clearance' : 'Left'}
+                            </Button>
+                          ) : student.status !== 'left' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 px-2"
+                              title="Move to left"
+                              aria-label="Move to left"
+                              data-testid={`button-delete-student-${student.id}`}
+                              onClick={() => { setSelectedStudent(student); setIsDeleteOpen(true); }}
+                            >
+                              Left
+                            </Button>
+                          )}
                           <Button
                             variant="ghost"
                             size="sm"
                             className="h-8 px-2"
-                            title="Move to left"
-                            aria-label="Move to left"
-                            data-testid={`button-delete-student-${student.id}`}
-                            onClick={() => { setSelectedStudent(student); setIsDeleteOpen(true); }}
-                          >
-                            Left
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            className="h-8 px-2"
-                            title="View details"
-                            aria-label="View details"
+                            title="Statement of account"
+                            aria-label="Statement of account"
                             data-testid={`button-view-student-${student.id}`}
+                            onClick={() => setLocation(`/students/${student.id}`)}
                           >
                             View
                           </Button>
@@ -868,6 +908,14 @@ export default function Students() {
         </CardContent>
       </Card>
 
+      <StudentStatusChangeDialog
+        student={statusChangeTarget}
+        academicYear={activeAcademicYear}
+        onClose={() => setStatusChangeTarget(null)}
+      />
+
+      <StudentExitDialog student={exitTarget} onClose={() => setExitTarget(null)} />
+
       {/* Edit Student Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent className="max-w-2xl">
@@ -0,0 +1,513 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useFinancePeriod } from "@/context/FinancePeriodContext";
+import type { StaffUser, Student, WriteOff, WriteOffRegisterReport, WriteOffStatus } from "@/lib/types";
+
+function formatCurrency(amount: number | string) {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(Number(amount) || 0);
+}
+
+const formatDate = (value?: string | null) => {
+  if (!value) return '-';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+const statusBadge: Record<WriteOffStatus, string> = {
+  pending: 'bg-accent/10 text-accent',
+  approved: 'bg-secondary/10 text-secondary',
+  rejected: 'bg-destructive/10 text-destructive',
+};
+
+const describeScope = (writeOff: WriteOff) => {
+  if (writeOff.scope === 'due') return writeOff.dueLabel ?? `Due #${writeOff.dueId}`;
+  return writeOff.academicYear ? `All open dues, ${writeOff.academicYear}` : 'All open dues';
+};
+
+type RequestScope = 'due' | 'year' | 'account';
+
+type RequestForm = {
+  requestedBy: string;
+  studentId: string;
+  scope: RequestScope;
+  dueId: string;
+  reason: string;
+};
+
+const emptyRequest = (requestedBy = ""): RequestForm => ({
+  requestedBy,
+  studentId: "",
+  scope: "due",
+  dueId: "",
+  reason: "",
+});
+
+type Decision = { writeOff: WriteOff; decision: 'approve' | 'reject' };
+
+// The fields of a /api/dues row the due picker needs.
+type DueOption = { id: number; label: string; amount: string; paidAmount: string; status: string };
+
+const openDueStatuses = new Set(['due', 'partial', 'overdue']);
+
+export default function WriteOffsPage() {
+  const [tab, setTab] = useState("queue");
+  const [statusFilter, setStatusFilter] = useState<string>("pending");
+  const [requestOpen, setRequestOpen] = useState(false);
+  const [requestForm, setRequestForm] = useState<RequestForm>(emptyRequest());
+  const [pendingDecision, setPendingDecision] = useState<Decision | null>(null);
+  const [decidedBy, setDecidedBy] = useState("");
+  const [decisionNote, setDecisionNote] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { year: activeYear } = useFinancePeriod();
+
+  const { data: writeOffs, isLoading } = useQuery<WriteOff[]>({
+    queryKey: ["/api/write-offs", { statusFilter }],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      const response = await apiRequest("GET", `/api/write-offs?${params.toString()}`);
+      return response.json();
+    },
+  });
+
+  const { data: register, isLoading: registerLoading } = useQuery<WriteOffRegisterReport>({
+    queryKey: ["/api/reports/write-offs", { activeYear }],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/reports/write-offs?academicYear=${encodeURIComponent(activeYear)}`);
+      return response.json();
+    },
+    enabled: Boolean(activeYear) && tab === "register",
+  });
+
+  const { data: users } = useQuery<StaffUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: students } = useQuery<Student[]>({
+    queryKey: ["/api/students"],
+    enabled: requestOpen,
+  });
+
+  const { data: studentDues } = useQuery<DueOption[]>({
+    queryKey: ["/api/dues", { studentId: requestForm.studentId }],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/dues?studentId=${requestForm.studentId}`);
+      return response.json();
+    },
+    enabled: requestOpen && Boolean(requestForm.studentId),
+  });
+
+  const openDues = (studentDues ?? []).filter((due) => openDueStatuses.has(due.status));
+
+  const showError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const requestMutation = useMutation({
+    mutationFn: async (form: RequestForm) => {
+      const response = await apiRequest("POST", "/api/write-offs", {
+        requestedBy: Number(form.requestedBy),
+        reason: form.reason.trim(),
+        ...(form.scope === "due"
+          ? { dueId: Number(form.dueId) }
+          : { studentId: Number(form.studentId), academicYear: form.scope === "year" ? activeYear : undefined }),
+      });
+      return response.json();
+    },
+    onSuccess: (writeOff: WriteOff) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/write-offs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/pending-actions"] });
+      setRequestOpen(false);
+      toast({
+        title: "Write-off requested",
+        description: `${formatCurrency(writeOff.requestedAmount)} for ${writeOff.studentName ?? 'the student'} is awaiting approval.`,
+      });
+    },
+    onError: showError("Failed to request write-off"),
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async ({ writeOff, decision }: Decision) => {
+      const response = await apiRequest("POST", `/api/write-offs/${writeOff.id}/${decision}`, {
+        decidedBy: Number(decidedBy),
+        note: decisionNote.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (writeOff: WriteOff) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/write-offs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/write-offs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dues"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/pending-actions"] });
+      setPendingDecision(null);
+      toast({
+        title: writeOff.status === 'approved' ? "Write-off approved" : "Write-off rejected",
+        description: writeOff.status === 'approved'
+          ? `${formatCurrency(writeOff.writtenOffAmount)} removed from outstanding.`
+          : undefined,
+      });
+    },
+    onError: showError("Failed to update write-off"),
+  });
+
+  const openRequest = () => {
+    setRequestForm(emptyRequest(requestForm.requestedBy));
+    setRequestOpen(true);
+  };
+
+  const openDecision = (writeOff: WriteOff, decision: Decision['decision']) => {
+    setDecisionNote("");
+    setPendingDecision({ writeOff, decision });
+  };
+
+  const canRequest = Boolean(
+    requestForm.requestedBy
+    && requestForm.studentId
+    && requestForm.reason.trim()
+    && (requestForm.scope !== "due" || requestForm.dueId),
+  );
+
+  const selfApproval = pendingDecision?.decision === 'approve'
+    && Number(decidedBy) === pendingDecision.writeOff.requestedBy;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Write-offs</h2>
+          <p className="text-muted-foreground">Balances that will not be collected, removed from outstanding once a second person approves.</p>
+        </div>
+        <Button onClick={openRequest} data-testid="button-request-write-off">
+          <i className="fas fa-file-signature mr-2"></i>
+          Request Write-off
+        </Button>
+      </div>
+
+      <Tabs value={tab} onValueChange={setTab}>
+        <TabsList>
+          <TabsTrigger value="queue" data-testid="tab-write-off-queue">Requests</TabsTrigger>
+          <TabsTrigger value="register" data-testid="tab-write-off-register">Register</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="queue">
+          <Card className="finance-card">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Write-off Requests</CardTitle>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-40" data-testid="select-write-off-status"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="approved">Approved</SelectItem>
+                  <SelectItem value="rejected">Rejected</SelectItem>
+                  <SelectItem value="all">All</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-3">
+                  {Array.from({ length: 5 }).map((_, index) => (
+                    <Skeleton key={index} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : !writeOffs?.length ? (
+                <p className="py-10 text-center text-muted-foreground">No write-off requests.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full data-table">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Student</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Covers</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Amount</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Reason</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Requested</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Status</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Decided</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {writeOffs.map((writeOff) => (
+                        <tr key={writeOff.id} className="border-b border-border" data-testid={`row-write-off-${writeOff.id}`}>
+                          <td className="py-3 px-4">
+                            <p className="font-medium text-foreground">{writeOff.studentName ?? `Student #${writeOff.studentId}`}</p>
+                            {writeOff.className && <p className="text-xs text-muted-foreground">{writeOff.className}</p>}
+                          </td>
+                          <td className="py-3 px-4">{describeScope(writeOff)}</td>
+                          <td className="py-3 px-4 font-medium">
+                            {formatCurrency(writeOff.status === 'approved' ? writeOff.writtenOffAmount : writeOff.requestedAmount)}
+                          </td>
+                          <td className="py-3 px-4 text-muted-foreground">{writeOff.reason}</td>
+                          <td className="py-3 px-4 text-muted-foreground">
+                            <p>{writeOff.requestedByName ?? `User #${writeOff.requestedBy}`}</p>
+                            <p className="text-xs">{formatDate(writeOff.createdAt)}</p>
+                          </td>
+                          <td className="py-3 px-4">
+                            <Badge className={statusBadge[writeOff.status]}>
+                              {writeOff.status.charAt(0).toUpperCase() + writeOff.status.slice(1)}
+                            </Badge>
+                          </td>
+                          <td className="py-3 px-4 text-muted-foreground">
+                            {writeOff.decidedAt ? (
+                              <>
+                                <p>{writeOff.decidedByName ?? `User #${writeOff.decidedBy}`}</p>
+                                <p className="text-xs">{formatDate(writeOff.decidedAt)}</p>
+                                {writeOff.decisionNote && <p className="text-xs">{writeOff.decisionNote}</p>}
+                              </>
+                            ) : '-'}
+                          </td>
+                          <td className="py-3 px-4">
+                            {writeOff.status === 'pending' && (
+                              <div className="flex flex-wrap items-center gap-2">
+                                <Button size="sm" onClick={() => openDecision(writeOff, 'approve')} data-testid={`button-approve-write-off-${writeOff.id}`}>
+                                  Approve
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="text-destructive"
+                                  onClick={() => openDecision(writeOff, 'reject')}
+                                  data-testid={`button-reject-write-off-${writeOff.id}`}
+                                >
+                                  Reject
+                                </Button>
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="register" className="space-y-6">
+          {registerLoading || !register ? (
+            <div className="space-y-3">
+              {Array.from({ length: 4 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Card className="finance-card">
+                  <CardContent className="p-4">
+                    <p className="text-sm text-muted-foreground">Written off in {register.academicYear}</p>
+                    <p className="text-2xl font-bold text-foreground" data-testid="text-write-off-total">{formatCurrency(register.totalAmount)}</p>
+                  </CardContent>
+                </Card>
+                <Card className="finance-card">
+                  <CardContent className="p-4">
+                    <p className="text-sm text-muted-foreground">Awaiting approval</p>
+                    <p className="text-2xl font-bold text-foreground">{formatCurrency(register.pendingAmount)}</p>
+                    <p className="text-xs text-muted-foreground">{register.pendingCount} request{register.pendingCount === 1 ? '' : 's'}</p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card className="finance-card">
+                <CardHeader>
+                  <CardTitle>Write-off Register ({register.academicYear})</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {!register.rows.length ? (
+                    <p className="py-10 text-center text-muted-foreground">Nothing was written off this year.</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full data-table">
+                        <thead>
+                          <tr className="border-b border-border">
+                            <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Student</th>
+                            <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Class</th>
+                            <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Covers</th>
+                            <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Reason</th>
+                            <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Requested By</th>
+                            <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Approved By</th>
+                            <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Dues</th>
+                            <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Amount</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {register.rows.map((row) => (
+                            <tr key={row.id} className="border-b border-border">
+                              <td className="py-3 px-4 font-medium text-foreground">{row.studentName ?? `Student #${row.studentId}`}</td>
+                              <td className="py-3 px-4 text-muted-foreground">{row.className ?? '-'}</td>
+                              <td className="py-3 px-4">{describeScope(row)}</td>
+                              <td className="py-3 px-4 text-muted-foreground">{row.reason}</td>
+                              <td className="py-3 px-4 text-muted-foreground">{row.requestedByName ?? `User #${row.requestedBy}`}</td>
+                              <td className="py-3 px-4 text-muted-foreground">
+                                <p>{row.decidedByName ?? `User #${row.decidedBy}`}</p>
+                                <p className="text-xs">{formatDate(row.decidedAt)}</p>
+                              </td>
+                              <td className="py-3 px-4 text-muted-foreground">{row.dues}</td>
+                              <td className="py-3 px-4 font-medium">{formatCurrency(row.amount)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={requestOpen} onOpenChange={setRequestOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request write-off</DialogTitle>
+            <DialogDescription>
+              The balance stays outstanding until someone other than the requester approves it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Select
+              value={requestForm.requestedBy}
+              onValueChange={(value) => setRequestForm((prev) => ({ ...prev, requestedBy: value }))}
+            >
+              <SelectTrigger data-testid="select-write-off-requested-by"><SelectValue placeholder="Requested by" /></SelectTrigger>
+              <SelectContent>
+                {(users ?? []).map((user) => (
+                  <SelectItem key={user.id} value={String(user.id)}>{user.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={requestForm.studentId}
+              onValueChange={(value) => setRequestForm((prev) => ({ ...prev, studentId: value, dueId: "" }))}
+            >
+              <SelectTrigger data-testid="select-write-off-student"><SelectValue placeholder="Select student" /></SelectTrigger>
+              <SelectContent>
+                {(students ?? []).map((student) => (
+                  <SelectItem key={student.id} value={String(student.id)}>
+                    {student.name}{student.admissionNumber ? ` (${student.admissionNumber})` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={requestForm.scope}
+              onValueChange={(value) => setRequestForm((prev) => ({ ...prev, scope: value as RequestScope }))}
+            >
+              <SelectTrigger data-testid="select-write-off-scope"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="due">One due</SelectItem>
+                <SelectItem value="year">All open dues in {activeYear || 'this year'}</SelectItem>
+                <SelectItem value="account">All open dues on the account</SelectItem>
+              </SelectContent>
+            </Select>
+            {requestForm.scope === "due" && (
+              <Select
+                value={requestForm.dueId}
+                onValueChange={(value) => setRequestForm((prev) => ({ ...prev, dueId: value }))}
+                disabled={!requestForm.studentId}
+              >
+                <SelectTrigger data-testid="select-write-off-due">
+                  <SelectValue placeholder={requestForm.studentId && !openDues.length ? "No open dues" : "Select due"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {openDues.map((due) => (
+                    <SelectItem key={due.id} value={String(due.id)}>
+                      {due.label} – {formatCurrency(Number(due.amount) - Number(due.paidAmount))}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Input
+              placeholder="Reason (e.g. family hardship, student left)"
+              value={requestForm.reason}
+              onChange={(event) => setRequestForm((prev) => ({ ...prev, reason: event.target.value }))}
+              data-testid="input-write-off-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRequestOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!canRequest || requestMutation.isPending}
+              onClick={() => requestMutation.mutate(requestForm)}
+              data-testid="button-save-write-off"
+            >
+              {requestMutation.isPending ? 'Saving…' : 'Request Write-off'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(pendingDecision)} onOpenChange={(open) => !open && setPendingDecision(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{pendingDecision?.decision === 'approve' ? 'Approve write-off' : 'Reject write-off'}</DialogTitle>
+            <DialogDescription>
+              {pendingDecision
+                ? `${describeScope(pendingDecision.writeOff)} for ${pendingDecision.writeOff.studentName ?? `student #${pendingDecision.writeOff.studentId}`}: ${formatCurrency(pendingDecision.writeOff.requestedAmount)} requested by ${pendingDecision.writeOff.requestedByName ?? `user #${pendingDecision.writeOff.requestedBy}`}.`
+                : null}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Select value={decidedBy} onValueChange={setDecidedBy}>
+              <SelectTrigger data-testid="select-write-off-decided-by"><SelectValue placeholder="Decided by" /></SelectTrigger>
+              <SelectContent>
+                {(users ?? []).map((user) => (
+                  <SelectItem key={user.id} value={String(user.id)}>{user.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selfApproval && (
+              <p className="text-sm text-destructive">The requester cannot approve their own write-off.</p>
+            )}
+            <Input
+              placeholder="Note (optional)"
+              value={decisionNote}
+              onChange={(event) => setDecisionNote(event.target.value)}
+              data-testid="input-write-off-decision-note"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingDecision(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={pendingDecision?.decision === 'approve' ? 'default' : 'destructive'}
+              disabled={!decidedBy || selfApproval || decisionMutation.isPending}
+              onClick={() => pendingDecision && decisionMutation.mutate(pendingDecision)}
+              data-testid="button-confirm-write-off-decision"
+            >
+              {decisionMutation.isPending ? 'Saving…' : pendingDecision?.decision === 'approve' ? 'Approve' : 'Reject'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
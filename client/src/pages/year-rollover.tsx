@@ -0,0 +1,421 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useFinancePeriod } from "@/context/FinancePeriodContext";
+import type { AcademicYear, Class, RolloverAction, YearRolloverResult } from "@/lib/types";
+
+function formatCurrency(amount: number | string) {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(Number(amount) || 0);
+}
+
+const actionBadge: Record<RolloverAction, string> = {
+  promote: 'bg-secondary/10 text-secondary',
+  detain: 'bg-amber-100 text-amber-700',
+  graduate: 'bg-primary/10 text-primary',
+  leave: 'bg-muted text-muted-foreground',
+  skip: 'bg-muted text-muted-foreground',
+};
+
+const formatDate = (value?: string | null) => {
+  if (!value) return '-';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+type YearChange = { code: string; change: 'current' | 'close' | 'reopen' };
+
+// Class map select values: a class id, or one of these.
+const GRADUATES = "graduate";
+const NOT_MAPPED = "none";
+
+type StudentException = 'detain' | 'leave';
+
+const classLabel = (cls: Class) => (cls.section ? `${cls.name} - ${cls.section}` : cls.name);
+
+// "Class 4" -> "Class 5" in the same section and track, when the names carry a number.
+const guessNextClass = (cls: Class, classes: Class[]): string => {
+  const match = cls.name.match(/^(.*?)(\d+)\s*$/);
+  if (!match) return NOT_MAPPED;
+  const nextName = `${match[1]}${Number(match[2]) + 1}`;
+  const next = classes.find((candidate) =>
+    candidate.name === nextName
+    && (candidate.section ?? null) === (cls.section ?? null)
+    && (candidate.track ?? null) === (cls.track ?? null));
+  return next ? String(next.id) : NOT_MAPPED;
+};
+
+export default function YearRolloverPage() {
+  const { years, year: activeYear, refreshYears } = useFinancePeriod();
+  const [fromYear, setFromYear] = useState("");
+  const [toYear, setToYear] = useState("");
+  const [classMap, setClassMap] = useState<Record<number, string>>({});
+  const [exceptions, setExceptions] = useState<Record<number, StudentException>>({});
+  const [makeCurrent, setMakeCurrent] = useState(true);
+  const [preview, setPreview] = useState<YearRolloverResult | null>(null);
+  const [previewStale, setPreviewStale] = useState(false);
+  const [result, setResult] = useState<YearRolloverResult | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: classes } = useQuery<Class[]>({ queryKey: ["/api/classes"] });
+
+  const activeClasses = useMemo(
+    () => (classes ?? []).filter((cls) => cls.active).sort((a, b) => classLabel(a).localeCompare(classLabel(b), undefined, { numeric: true })),
+    [classes],
+  );
+
+  useEffect(() => {
+    if (!fromYear && activeYear) setFromYear(activeYear);
+  }, [activeYear, fromYear]);
+
+  useEffect(() => {
+    if (!activeClasses.length) return;
+    setClassMap((current) => {
+      const next = { ...current };
+      activeClasses.forEach((cls) => {
+        if (!(cls.id in next)) next[cls.id] = guessNextClass(cls, activeClasses);
+      });
+      return next;
+    });
+  }, [activeClasses]);
+
+  useEffect(() => {
+    if (preview) setPreviewStale(true);
+  }, [fromYear, toYear, classMap, exceptions]);
+
+  const rolloverMutation = useMutation({
+    mutationFn: async (dryRun: boolean): Promise<YearRolloverResult> => {
+      const response = await apiRequest("POST", "/api/academic-years/rollover", {
+        fromYear,
+        toYear,
+        classMap: Object.entries(classMap)
+          .filter(([, target]) => target !== NOT_MAPPED)
+          .map(([fromClassId, target]) => ({
+            fromClassId: Number(fromClassId),
+            toClassId: target === GRADUATES ? null : Number(target),
+          })),
+        exceptions: Object.entries(exceptions).map(([studentId, action]) => ({ studentId: Number(studentId), action })),
+        dryRun,
+        makeCurrent,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      if (data.dryRun) {
+        setPreview(data);
+        setPreviewStale(false);
+        return;
+      }
+      setResult(data);
+      setPreview(null);
+      setExceptions({});
+      queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dues"] });
+      refreshYears();
+      toast({
+        title: data.totals.failed ? "Rollover finished with errors" : "Academic year rolled over",
+        description: `${data.totals.promoted} promoted, ${data.totals.detained} detained, ${data.totals.graduated} graduated; ${formatCurrency(data.totals.arrears)} carried forward as arrears.`,
+        variant: data.totals.failed ? "destructive" : undefined,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to roll over academic year",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const yearMutation = useMutation({
+    mutationFn: async ({ code, change }: YearChange): Promise<AcademicYear> => {
+      const response = change === 'current'
+        ? await apiRequest("PATCH", `/api/academic-years/${encodeURIComponent(code)}`, { isCurrent: true })
+        : await apiRequest("POST", `/api/academic-years/${encodeURIComponent(code)}/${change}`, {});
+      return response.json();
+    },
+    onSuccess: (year, { change }) => {
+      refreshYears();
+      toast({
+        title: change === 'current'
+          ? `${year.name} is now the current year`
+          : change === 'close' ? `${year.name} closed` : `${year.name} reopened`,
+        description: change === 'close' ? "No new payments or due changes can be made in this year." : undefined,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update academic year",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setException = (studentId: number, value: string) => {
+    setExceptions((current) => {
+      const { [studentId]: _removed, ...rest } = current;
+      return value === "default" ? rest : { ...rest, [studentId]: value as StudentException };
+    });
+  };
+
+  const mappedCount = Object.values(classMap).filter((target) => target !== NOT_MAPPED).length;
+  const canPreview = Boolean(fromYear && toYear && fromYear !== toYear && mappedCount);
+  const report = preview ?? result;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-foreground">Year Rollover</h2>
+        <p className="text-muted-foreground">
+          Switch the current year, promote students into the next one with their unpaid balances carried forward as arrears, then close the finished year.
+        </p>
+      </div>
+
+      <Card className="finance-card">
+        <CardHeader>
+          <CardTitle>Academic Years</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full data-table">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Year</th>
+                  <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Status</th>
+                  <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Closed</th>
+                  <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {years.map((year) => (
+                  <tr key={year.code} className="border-b border-border" data-testid={`row-academic-year-${year.code}`}>
+                    <td className="py-3 px-4 font-medium text-foreground">{year.name}</td>
+                    <td className="py-3 px-4">
+                      {year.isCurrent ? (
+                        <Badge className="bg-secondary/10 text-secondary">current</Badge>
+                      ) : year.closedAt ? (
+                        <Badge className="bg-muted text-muted-foreground">closed</Badge>
+                      ) : (
+                        <Badge className="bg-primary/10 text-primary">open</Badge>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-muted-foreground">{formatDate(year.closedAt)}</td>
+                    <td className="py-3 px-4 space-x-2">
+                      {year.closedAt ? (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={yearMutation.isPending}
+                          onClick={() => yearMutation.mutate({ code: year.code, change: 'reopen' })}
+                          data-testid={`button-reopen-year-${year.code}`}
+                        >
+                          Reopen
+                        </Button>
+                      ) : !year.isCurrent ? (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={yearMutation.isPending}
+                            onClick={() => yearMutation.mutate({ code: year.code, change: 'current' })}
+                            data-testid={`button-make-current-${year.code}`}
+                          >
+                            Make Current
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={yearMutation.isPending}
+                            onClick={() => yearMutation.mutate({ code: year.code, change: 'close' })}
+                            data-testid={`button-close-year-${year.code}`}
+                          >
+                            Close Year
+                          </Button>
+                        </>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="finance-card">
+        <CardHeader>
+          <CardTitle>1. Years</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-1">
+            <p className="text-sm font-medium text-foreground">Roll over from</p>
+            <Select value={fromYear} onValueChange={setFromYear}>
+              <SelectTrigger data-testid="select-rollover-from"><SelectValue placeholder="Select year" /></SelectTrigger>
+              <SelectContent>
+                {years.map((year) => (
+                  <SelectItem key={year.code} value={year.code}>{year.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm font-medium text-foreground">Into</p>
+            <Select value={toYear} onValueChange={setToYear}>
+              <SelectTrigger data-testid="select-rollover-to"><SelectValue placeholder="Select year" /></SelectTrigger>
+              <SelectContent>
+                {years.filter((year) => year.code !== fromYear).map((year) => (
+                  <SelectItem key={year.code} value={year.code}>{year.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="flex items-center gap-3 text-sm text-foreground">
+            <Switch checked={makeCurrent} onCheckedChange={setMakeCurrent} data-testid="switch-rollover-make-current" />
+            Make it the current year
+          </label>
+        </CardContent>
+      </Card>
+
+      <Card className="finance-card">
+        <CardHeader>
+          <CardTitle>2. Next class</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full data-table">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Class</th>
+                  <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Moves to</th>
+                </tr>
+              </thead>
+              <tbody>
+                {activeClasses.map((cls) => (
+                  <tr key={cls.id} className="border-b border-border">
+                    <td className="py-3 px-4 text-foreground">{classLabel(cls)}</td>
+                    <td className="py-3 px-4">
+                      <Select
+                        value={classMap[cls.id] ?? NOT_MAPPED}
+                        onValueChange={(value) => setClassMap((current) => ({ ...current, [cls.id]: value }))}
+                      >
+                        <SelectTrigger className="w-56" data-testid={`select-next-class-${cls.id}`}><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_MAPPED}>Not rolled over</SelectItem>
+                          <SelectItem value={GRADUATES}>Graduates</SelectItem>
+                          {activeClasses.map((target) => (
+                            <SelectItem key={target.id} value={String(target.id)}>{classLabel(target)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-4 flex justify-end">
+            <Button
+              variant="outline"
+              disabled={!canPreview || rolloverMutation.isPending}
+              onClick={() => rolloverMutation.mutate(true)}
+              data-testid="button-preview-rollover"
+            >
+              <i className="fas fa-eye mr-2"></i>
+              Preview Rollover
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {report ? (
+        <Card className="finance-card">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>{report.dryRun ? "3. Review" : "Rollover result"}</CardTitle>
+            {report.dryRun ? (
+              <Button
+                disabled={previewStale || rolloverMutation.isPending}
+                onClick={() => rolloverMutation.mutate(false)}
+                data-testid="button-confirm-rollover"
+              >
+                {rolloverMutation.isPending ? "Rolling over…" : `Roll Over to ${report.toYear}`}
+              </Button>
+            ) : null}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {report.totals.promoted} promoted, {report.totals.detained} detained, {report.totals.graduated} graduated,
+              {" "}{report.totals.left} leaving, {report.totals.skipped} skipped
+              {report.totals.failed ? `, ${report.totals.failed} failed` : ""}.
+              {" "}Arrears {formatCurrency(report.totals.arrears)}; advance credit {formatCurrency(report.totals.creditCarried)}.
+              {report.dryRun && previewStale ? " Changes since this preview; preview again before rolling over." : ""}
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full data-table">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Student</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Class</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Action</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Arrears</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Credit</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Notes</th>
+                    {report.dryRun ? (
+                      <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Exception</th>
+                    ) : null}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.rows.map((row) => (
+                    <tr key={row.studentId} className="border-b border-border" data-testid={`row-rollover-${row.studentId}`}>
+                      <td className="py-3 px-4">
+                        <p className="font-medium text-foreground">{row.studentName}</p>
+                        {row.ledgerNumber && <p className="text-xs text-muted-foreground font-mono">{row.ledgerNumber}</p>}
+                      </td>
+                      <td className="py-3 px-4 text-foreground">
+                        {row.fromClass ?? '—'}
+                        {row.toClass && row.toClass !== row.fromClass ? ` → ${row.toClass}` : ''}
+                      </td>
+                      <td className="py-3 px-4">
+                        <Badge className={actionBadge[row.action]}>{row.action}</Badge>
+                      </td>
+                      <td className="py-3 px-4 text-foreground">{formatCurrency(row.arrears)}</td>
+                      <td className="py-3 px-4 text-foreground">{formatCurrency(row.creditCarried)}</td>
+                      <td className={row.error ? "py-3 px-4 text-sm text-destructive" : "py-3 px-4 text-sm text-muted-foreground"}>
+                        {row.error ?? row.note ?? (!report.dryRun && row.duesCreated ? `${row.duesCreated} dues created` : '')}
+                      </td>
+                      {report.dryRun ? (
+                        <td className="py-3 px-4">
+                          <Select value={exceptions[row.studentId] ?? "default"} onValueChange={(value) => setException(row.studentId, value)}>
+                            <SelectTrigger className="w-36" data-testid={`select-rollover-exception-${row.studentId}`}><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="default">As mapped</SelectItem>
+                              <SelectItem value="detain">Detain</SelectItem>
+                              <SelectItem value="leave">Left school</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </td>
+                      ) : null}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,496 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import PDFDocument from 'pdfkit';
+import {
+  CREDIT_SETTLEMENT_NOTE,
+  type PaymentReceipt,
+  type PaymentTenderSummaryRecord,
+  type StudentExitRecord,
+  type StudentStatement,
+} from './storage';
+
+// Letterhead and storage are configured from the root .env.local like everything else.
+const getLetterhead = () => ({
+  name: process.env.SCHOOL_NAME?.trim() || 'Meed Public School',
+  address: process.env.SCHOOL_ADDRESS?.trim() || '',
+  phone: process.env.SCHOOL_PHONE?.trim() || '',
+  email: process.env.SCHOOL_EMAIL?.trim() || '',
+  logoPath: process.env.SCHOOL_LOGO_PATH?.trim() || '',
+});
+
+const receiptStorageDir = () =>
+  path.resolve(process.cwd(), process.env.RECEIPT_STORAGE_DIR?.trim() || 'storage/receipts');
+
+export type ReceiptCopy = 'original' | 'duplicate';
+
+const ones = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const tens = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const twoDigitWords = (value: number): string => {
+  if (value < 20) return ones[value];
+  const unit = value % 10;
+  return unit ? `${tens[Math.floor(value / 10)]} ${ones[unit]}` : tens[Math.floor(value / 10)];
+};
+
+// Indian grouping: crore, lakh, thousand, hundred.
+const integerToWords = (value: number): string => {
+  if (value === 0) return '';
+  const groups: Array<[number, string]> = [
+    [10000000, 'Crore'],
+    [100000, 'Lakh'],
+    [1000, 'Thousand'],
+    [100, 'Hundred'],
+  ];
+  for (const [size, label] of groups) {
+    if (value >= size) {
+      const rest = integerToWords(value % size);
+      return `${integerToWords(Math.floor(value / size))} ${label}${rest ? ` ${rest}` : ''}`;
+    }
+  }
+  return twoDigitWords(value);
+};
+
+export const amountInWords = (amount: number): string => {
+  const totalPaise = Math.round(Math.abs(amount) * 100);
+  const rupees = Math.floor(totalPaise / 100);
+  const paise = totalPaise % 100;
+  const rupeeWords = integerToWords(rupees) || 'Zero';
+  return `Rupees ${rupeeWords}${paise ? ` and ${twoDigitWords(paise)} Paise` : ''} Only`;
+};
+
+// The standard PDF fonts have no rupee glyph, so amounts are printed with "Rs.".
+const formatAmount = (value: number | string) =>
+  `Rs. ${Number(value || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value?: string | Date | null, withTime = false) => {
+  if (!value) return '-';
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return String(value);
+  return date.toLocaleString('en-IN', withTime ? { dateStyle: 'medium', timeStyle: 'short' } : { dateStyle: 'medium' });
+};
+
+const toTitleCase = (value?: string | null) =>
+  (value ?? '').replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, (match) => match.toUpperCase());
+
+const drawLetterhead = (doc: PDFKit.PDFDocument) => {
+  const letterhead = getLetterhead();
+  const left = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.right - left;
+
+  if (letterhead.logoPath) {
+    try {
+      doc.image(letterhead.logoPath, left, doc.y, { fit: [56, 56] });
+    } catch (error) {
+      // Rejects the render promise, so the route answers with the reason instead of a PDF without its logo.
+      doc.emit('error', new Error(`School logo at ${letterhead.logoPath} could not be loaded: ${(error as Error)?.message ?? error}`));
+    }
+  }
+  doc.font('Helvetica-Bold').fontSize(18).fillColor('#111827').text(letterhead.name, left, doc.y, { width, align: 'center' });
+  const contactLine = [letterhead.phone && `Phone: ${letterhead.phone}`, letterhead.email].filter(Boolean).join('  |  ');
+  doc.font('Helvetica').fontSize(9).fillColor('#4b5563');
+  if (letterhead.address) doc.text(letterhead.address, { width, align: 'center' });
+  if (contactLine) doc.text(contactLine, { width, align: 'center' });
+  doc.moveDown(0.5);
+  doc.moveTo(left, doc.y).lineTo(left + width, doc.y).strokeColor('#d1d5db').lineWidth(1).stroke();
+  doc.moveDown(0.5);
+};
+
+export const receiptFileName = (receipt: PaymentReceipt) => {
+  const label = receipt.payment.receiptNumber ?? `payment-${receipt.payment.id}`;
+  return `${label.replace(/[^A-Za-z0-9-]+/g, '-')}.pdf`;
+};
+
+export const renderReceiptPdf = (receipt: PaymentReceipt, copy: ReceiptCopy): Promise<Buffer> => {
+  const { payment, student } = receipt;
+  const doc = new PDFDocument({ size: 'A4', margin: 48, bufferPages: true });
+  const chunks: Buffer[] = [];
+
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const left = doc.page.margins.left;
+  const right = doc.page.width - doc.page.margins.right;
+  const width = right - left;
+
+  const ensureSpace = (needed: number) => {
+    if (doc.y + needed > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+  };
+
+  const rule = () => {
+    doc.moveTo(left, doc.y).lineTo(right, doc.y).strokeColor('#d1d5db').lineWidth(1).stroke();
+    doc.moveDown(0.5);
+  };
+
+  drawLetterhead(doc);
+
+  // Title and receipt meta
+  const titleY = doc.y;
+  doc.font('Helvetica-Bold').fontSize(14).fillColor('#111827').text('FEE RECEIPT', left, titleY);
+  doc.font('Helvetica-Bold').fontSize(10).fillColor('#6b7280')
+    .text(copy === 'original' ? 'ORIGINAL' : 'DUPLICATE', left, titleY + 3, { width, align: 'right' });
+  doc.moveDown(0.8);
+
+  const metaY = doc.y;
+  doc.font('Helvetica').fontSize(10).fillColor('#111827');
+  doc.text(`Receipt No: ${payment.receiptNumber ?? `#${payment.id}`}`, left, metaY);
+  doc.text(`Date: ${formatDate(payment.paymentDate, true)}`);
+  doc.text(`Academic Year: ${payment.academicYear ?? '-'}`, left, metaY, { width, align: 'right' });
+  doc.text(`Status: ${toTitleCase(payment.status)}`, { width, align: 'right' });
+  doc.moveDown(1);
+
+  // Student
+  doc.font('Helvetica-Bold').fontSize(11).text('Received from', left);
+  doc.font('Helvetica').fontSize(10).fillColor('#374151');
+  const classLabel = student?.className
+    ? `Class ${student.className}${student.classSection ? ` - ${student.classSection}` : ''}`
+    : '';
+  [
+    student?.name ?? 'Student information unavailable',
+    [classLabel, student ? (student.isHosteller ? 'Hosteller' : 'Day Scholar') : ''].filter(Boolean).join('  |  '),
+    student?.admissionNumber ? `Admission No: ${student.admissionNumber}` : '',
+    student?.guardianName ? `Parent/Guardian: ${student.guardianName}` : '',
+  ].filter(Boolean).forEach((line) => doc.text(line));
+  doc.moveDown(1);
+
+  // Fee components
+  const snX = left;
+  const labelX = left + 40;
+  const amountWidth = 120;
+  const amountX = right - amountWidth;
+
+  const tableRow = (sn: string, label: string, amount: string, bold = false) => {
+    ensureSpace(20);
+    const y = doc.y;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10).fillColor('#111827');
+    doc.text(sn, snX, y, { width: 32, align: 'center' });
+    doc.text(label, labelX, y, { width: amountX - labelX - 8 });
+    const rowBottom = doc.y;
+    doc.text(amount, amountX, y, { width: amountWidth, align: 'right' });
+    doc.y = Math.max(rowBottom, doc.y) + 4;
+    doc.x = left;
+  };
+
+  // Dues later settled from this receipt's advance are part of the advance line already.
+  const allocations = receipt.allocations.filter((allocation) => allocation.notes !== CREDIT_SETTLEMENT_NOTE);
+  tableRow('S/N', 'Fee Component', 'Amount', true);
+  rule();
+  allocations.forEach((allocation, index) => {
+    tableRow(String(index + 1), allocation.label ?? allocation.category ?? 'Fee', formatAmount(allocation.amount));
+  });
+  const advance = Number(receipt.advance || 0);
+  if (advance > 0.009) {
+    tableRow(String(allocations.length + 1), 'Advance (held as credit)', formatAmount(advance));
+  }
+  if (!allocations.length && advance <= 0.009) {
+    tableRow('', 'No fee components recorded for this payment.', '');
+  }
+  rule();
+
+  // Concessions were taken off before the amounts above, so they are shown for reference only.
+  if (receipt.concessions.length) {
+    ensureSpace(40);
+    doc.font('Helvetica-Bold').fontSize(10).fillColor('#111827').text('Concessions applied', left);
+    doc.moveDown(0.3);
+    receipt.concessions.forEach((concession) => {
+      tableRow('', `${concession.concessionName}${concession.dueLabel ? ` on ${concession.dueLabel}` : ''}`, `- ${formatAmount(concession.amount)}`);
+    });
+    doc.font('Helvetica-Oblique').fontSize(9).fillColor('#6b7280')
+      .text('Fee components above are net of these concessions.', left, doc.y, { width });
+    doc.moveDown(0.5);
+    rule();
+  }
+
+  doc.font('Helvetica-Bold').fontSize(12).fillColor('#111827')
+    .text(`Total Paid: ${formatAmount(payment.amount)}`, left, doc.y, { width, align: 'right' });
+  doc.font('Helvetica-Oblique').fontSize(10).fillColor('#374151')
+    .text(amountInWords(Number(payment.amount || 0)), left, doc.y, { width, align: 'right' });
+  doc.moveDown(1);
+
+  // Tender details
+  doc.font('Helvetica').fontSize(10).fillColor('#111827').text('Payment details', left);
+  doc.fontSize(9).fillColor('#374151');
+  // A payment without tender rows prints its own method and reference.
+  const tenders: Array<Omit<PaymentTenderSummaryRecord, 'id' | 'paymentId'>> = receipt.tenders.length
+    ? receipt.tenders
+    : [{ method: payment.paymentMethod, amount: payment.amount, referenceNumber: payment.transactionId }];
+  tenders.forEach((tender) => {
+    const detail = tender.chequeNumber
+      ? `Cheque ${tender.chequeNumber}${tender.bankName ? `, ${tender.bankName}` : ''}${tender.chequeDate ? ` dated ${formatDate(tender.chequeDate)}` : ''}${tender.chequeStatus ? ` (${tender.chequeStatus})` : ''}`
+      : tender.referenceNumber ?? '';
+    doc.text(`${toTitleCase(tender.method)}: ${formatAmount(tender.amount)}${detail ? `  -  ${detail}` : ''}`);
+  });
+  if (payment.remarks) {
+    doc.text(`Remarks: ${payment.remarks}`);
+  }
+  doc.moveDown(1);
+
+  // Refunds
+  if (receipt.refunds.length) {
+    ensureSpace(60);
+    doc.font('Helvetica-Bold').fontSize(11).fillColor('#111827').text('Refunds', left);
+    doc.moveDown(0.3);
+    let refunded = 0;
+    receipt.refunds.forEach((refund, index) => {
+      refunded += Number(refund.amount || 0);
+      const note = [formatDate(refund.refundedAt), toTitleCase(refund.refundMethod), refund.referenceNumber, refund.reason]
+        .filter(Boolean)
+        .join('  |  ');
+      tableRow(String(index + 1), note, `- ${formatAmount(refund.amount)}`);
+    });
+    doc.font('Helvetica-Bold').fontSize(11).fillColor('#111827')
+      .text(`Net Received: ${formatAmount(Number(payment.amount || 0) - refunded)}`, left, doc.y, { width, align: 'right' });
+    doc.moveDown(1);
+  }
+
+  if (payment.status === 'voided') {
+    ensureSpace(40);
+    doc.font('Helvetica-Bold').fontSize(11).fillColor('#b91c1c')
+      .text(
+        `VOIDED${payment.voidedAt ? ` on ${formatDate(payment.voidedAt, true)}` : ''}${payment.voidReason ? ` - ${payment.voidReason}` : ''}`,
+        left,
+        doc.y,
+        { width, align: 'center' },
+      );
+    doc.moveDown(1);
+  }
+
+  // Signature block
+  ensureSpace(80);
+  doc.moveDown(2);
+  const signY = doc.y;
+  doc.font('Helvetica').fontSize(8).fillColor('#6b7280')
+    .text(`Generated on ${formatDate(new Date(), true)}`, left, signY + 24);
+  doc.moveTo(right - 160, signY + 20).lineTo(right, signY + 20).strokeColor('#111827').stroke();
+  doc.font('Helvetica').fontSize(9).fillColor('#111827')
+    .text('Authorised Signatory', right - 160, signY + 24, { width: 160, align: 'center' });
+
+  // Watermark on every page: status beats copy so a voided receipt never reads as valid.
+  const watermark = payment.status === 'voided'
+    ? 'VOIDED'
+    : payment.status === 'failed'
+      ? 'PAYMENT FAILED'
+      : copy === 'duplicate'
+        ? 'DUPLICATE'
+        : null;
+  if (watermark) {
+    const range = doc.bufferedPageRange();
+    for (let page = range.start; page < range.start + range.count; page += 1) {
+      doc.switchToPage(page);
+      doc.save();
+      doc.rotate(-35, { origin: [doc.page.width / 2, doc.page.height / 2] });
+      doc.font('Helvetica-Bold').fontSize(72).fillColor(watermark === 'DUPLICATE' ? '#9ca3af' : '#b91c1c').fillOpacity(0.15)
+        .text(watermark, 0, doc.page.height / 2 - 40, { width: doc.page.width, align: 'center', lineBreak: false });
+      doc.restore();
+    }
+  }
+
+  doc.end();
+  return done;
+};
+
+export const clearanceCertificateFileName = (record: StudentExitRecord) => {
+  const label = record.exit.certificateNumber ?? `clearance-${record.exit.id}`;
+  return `${label.replace(/[^A-Za-z0-9-]+/g, '-')}.pdf`;
+};
+
+export const renderClearanceCertificatePdf = (record: StudentExitRecord): Promise<Buffer> => {
+  const { exit, student, settlement } = record;
+  const doc = new PDFDocument({ size: 'A4', margin: 48 });
+  const chunks: Buffer[] = [];
+
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const left = doc.page.margins.left;
+  const right = doc.page.width - doc.page.margins.right;
+  const width = right - left;
+
+  drawLetterhead(doc);
+
+  doc.font('Helvetica-Bold').fontSize(14).fillColor('#111827')
+    .text('NO DUES CERTIFICATE', left, doc.y, { width, align: 'center' });
+  doc.moveDown(0.8);
+
+  const metaY = doc.y;
+  doc.font('Helvetica').fontSize(10).fillColor('#111827');
+  doc.text(`Certificate No: ${exit.certificateNumber ?? '-'}`, left, metaY);
+  doc.text(`Date: ${formatDate(exit.clearedAt)}`, left, metaY, { width, align: 'right' });
+  doc.moveDown(1.5);
+
+  const classLabel = student.className
+    ? `Class ${student.className}${student.classSection ? ` - ${student.classSection}` : ''}`
+    : '';
+  const identity = [
+    student.admissionNumber ? `Admission No. ${student.admissionNumber}` : '',
+    classLabel,
+    student.guardianName ? `ward of ${student.guardianName}` : '',
+  ].filter(Boolean).join(', ');
+
+  doc.font('Helvetica').fontSize(11).fillColor('#111827').text(
+    `This is to certify that ${student.name}${identity ? ` (${identity})` : ''} left the school on ${formatDate(exit.leavingDate)} `
+      + `and that all fees and other dues for academic year ${exit.academicYear ?? '-'} have been settled. `
+      + 'Nothing is payable by or to the student on the school\'s fee account.',
+    left,
+    doc.y,
+    { width, align: 'justify', lineGap: 4 },
+  );
+  doc.moveDown(1);
+
+  doc.font('Helvetica').fontSize(10).fillColor('#374151');
+  doc.text(`Balance outstanding: ${formatAmount(settlement.outstanding)}`);
+  doc.text(`Credit held: ${formatAmount(settlement.creditBalance)}`);
+  if (exit.reason) {
+    doc.text(`Reason for leaving: ${exit.reason}`);
+  }
+
+  doc.moveDown(4);
+  const signY = doc.y;
+  doc.font('Helvetica').fontSize(8).fillColor('#6b7280')
+    .text(`Generated on ${formatDate(new Date(), true)}`, left, signY + 24);
+  doc.moveTo(right - 160, signY + 20).lineTo(right, signY + 20).strokeColor('#111827').stroke();
+  doc.font('Helvetica').fontSize(9).fillColor('#111827')
+    .text('Accounts Officer', right - 160, signY + 24, { width: 160, align: 'center' });
+
+  doc.end();
+  return done;
+};
+
+export const studentStatementFileName = (statement: StudentStatement) => {
+  const label = statement.student.admissionNumber ?? `student-${statement.student.id}`;
+  return `statement-${label.replace(/[^A-Za-z0-9-]+/g, '-')}-${statement.to}.pdf`;
+};
+
+// A negative balance is money the school holds for the student, printed as a credit.
+const formatBalance = (value: number) => (value < 0 ? `${formatAmount(-value)} Cr` : formatAmount(value));
+
+export const renderStudentStatementPdf = (statement: StudentStatement): Promise<Buffer> => {
+  const { student } = statement;
+  const doc = new PDFDocument({ size: 'A4', margin: 48 });
+  const chunks: Buffer[] = [];
+
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const left = doc.page.margins.left;
+  const right = doc.page.width - doc.page.margins.right;
+  const width = right - left;
+
+  const rule = () => {
+    doc.moveTo(left, doc.y).lineTo(right, doc.y).strokeColor('#d1d5db').lineWidth(1).stroke();
+    doc.moveDown(0.4);
+  };
+
+  drawLetterhead(doc);
+
+  const titleY = doc.y;
+  doc.font('Helvetica-Bold').fontSize(14).fillColor('#111827').text('STATEMENT OF ACCOUNT', left, titleY);
+  doc.font('Helvetica').fontSize(10).fillColor('#374151')
+    .text(`${statement.from ? formatDate(statement.from) : 'From admission'} to ${formatDate(statement.to)}`, left, titleY + 3, { width, align: 'right' });
+  doc.moveDown(0.8);
+
+  doc.font('Helvetica-Bold').fontSize(11).fillColor('#111827').text(student.name, left);
+  doc.font('Helvetica').fontSize(10).fillColor('#374151');
+  [
+    [student.className ? `Class ${student.className}` : '', student.admissionNumber ? `Admission No: ${student.admissionNumber}` : '']
+      .filter(Boolean).join('  |  '),
+    student.guardianName ? `Parent/Guardian: ${student.guardianName}` : '',
+  ].filter(Boolean).forEach((line) => doc.text(line));
+  doc.moveDown(1);
+
+  // Date | Particulars | Reference | Debit | Credit | Balance
+  const columns = [
+    { x: left, width: 56, align: 'left' as const },
+    { x: left + 60, width: 170, align: 'left' as const },
+    { x: left + 234, width: 64, align: 'left' as const },
+    { x: left + 302, width: 62, align: 'right' as const },
+    { x: left + 368, width: 62, align: 'right' as const },
+    { x: left + 434, width: width - 434, align: 'right' as const },
+  ];
+
+  const tableRow = (cells: string[], options: { bold?: boolean; muted?: boolean } = {}) => {
+    const font = options.bold ? 'Helvetica-Bold' : 'Helvetica';
+    doc.font(font).fontSize(options.muted ? 7.5 : 8.5);
+    const height = Math.max(...cells.map((cell, index) => doc.heightOfString(cell || ' ', { width: columns[index].width })));
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+    const y = doc.y;
+    doc.fillColor(options.muted ? '#6b7280' : '#111827');
+    cells.forEach((cell, index) => {
+      doc.text(cell, columns[index].x, y, { width: columns[index].width, align: columns[index].align });
+    });
+    doc.y = y + height + 3;
+    doc.x = left;
+  };
+
+  tableRow(['Date', 'Particulars', 'Reference', 'Debit', 'Credit', 'Balance'], { bold: true });
+  rule();
+  tableRow([statement.from ? formatDate(statement.from) : '', 'Opening balance', '', '', '', formatBalance(statement.openingBalance)], { bold: true });
+  statement.entries.forEach((entry) => {
+    tableRow([
+      formatDate(entry.date),
+      entry.description,
+      entry.reference ?? '',
+      entry.debit ? formatAmount(entry.debit) : '',
+      entry.credit ? formatAmount(entry.credit) : '',
+      formatBalance(entry.balance),
+    ]);
+    if ((entry.allocations?.length ?? 0) > 1) {
+      entry.allocations!.forEach((allocation) => {
+        tableRow(['', `   ${allocation.label}: ${formatAmount(allocation.amount)}`, '', '', '', ''], { muted: true });
+      });
+    }
+  });
+  if (!statement.entries.length) {
+    tableRow(['', 'No transactions in this period.', '', '', '', '']);
+  }
+  rule();
+  tableRow(['', 'Totals for the period', '', formatAmount(statement.totalDebit), formatAmount(statement.totalCredit), ''], { bold: true });
+  doc.moveDown(0.5);
+
+  const closingLabel = statement.closingBalance < 0 ? 'Credit held by the school' : 'Balance payable';
+  doc.font('Helvetica-Bold').fontSize(12).fillColor('#111827')
+    .text(`${closingLabel}: ${formatAmount(Math.abs(statement.closingBalance))}`, left, doc.y, { width, align: 'right' });
+  doc.moveDown(1);
+
+  doc.font('Helvetica-Oblique').fontSize(8).fillColor('#6b7280').text(
+    'Dues are shown net of concessions. Caution deposits are refundable and are not part of this statement.',
+    left,
+    doc.y,
+    { width },
+  );
+  doc.font('Helvetica').text(`Generated on ${formatDate(new Date(), true)}`, left, doc.y, { width });
+
+  doc.end();
+  return done;
+};
+
+export const saveReceiptPdf = async (fileName: string, pdf: Buffer): Promise<string> => {
+  const dir = receiptStorageDir();
+  await fs.mkdir(dir, { recursive: true });
+  const filePath = path.join(dir, fileName);
+  await fs.writeFile(filePath, pdf);
+  return filePath;
+};
+
+export const readStoredReceiptPdf = async (fileName: string): Promise<Buffer | null> => {
+  try {
+    return await fs.readFile(path.join(receiptStorageDir(), fileName));
+  } catch {
+    return null;
+  }
+};
@@ -2,7 +2,17 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
 import * as XLSX from "xlsx";
-import { storage } from "./storage";
+import { storage, allocationStrategies, type RecordPaymentInput } from "./storage";
+import {
+  clearanceCertificateFileName,
+  readStoredReceiptPdf,
+  receiptFileName,
+  renderClearanceCertificatePdf,
+  renderReceiptPdf,
+  renderStudentStatementPdf,
+  saveReceiptPdf,
+  studentStatementFileName,
+} from "./receipts";
 import { insertPaymentSchema, insertFeeStructureSchema, insertStudentFeeSchema, insertTransportFeeSchema, insertExcelImportSchema, insertStudentSchema } from "@shared/schema";
 import { z } from "zod";
 
@@ -29,6 +39,102 @@ const upload = multer({
 
 const paymentMethodValues = ["cash", "upi", "bank", "bank_transfer", "cheque", "online"] as const;
 
+const feeHeadFrequencyValues = ["one_time", "monthly", "termly", "quarterly", "half_yearly", "annual", "custom"] as const;
+const lateFeeTypeValues = ["none", "flat", "per_day"] as const;
+
+const feeHeadFieldsSchema = z.object({
+  label: z.string().trim().min(1, "Label is required").max(120),
+  frequency: z.enum(feeHeadFrequencyValues, { message: "Invalid frequency" }),
+  billingMonths: z.array(z.coerce.number().int().min(1).max(12, "Billing months are 1 to 12"))
+    .transform((months) => Array.from(new Set(months)).sort((a, b) => a - b))
+    .nullable()
+    .optional(),
+  appliesToHostellers: z.boolean(),
+  appliesToDayScholars: z.boolean(),
+  sortOrder: z.coerce.number().int(),
+  dueDay: z.coerce.number().int().min(1, "Due day must be 1 to 28").max(28, "Due day must be 1 to 28"),
+  lateFeeType: z.enum(lateFeeTypeValues, { message: "Invalid late fee type" }),
+  lateFeeAmount: z.coerce.number().nonnegative({ message: "Late fee cannot be negative" }).transform((value) => value.toFixed(2)),
+  lateFeeCap: z.preprocess(
+    (value) => (value === "" ? null : value),
+    z.coerce.number().positive({ message: "Late fee cap must be greater than zero" }).transform((value) => value.toFixed(2)).nullable().optional(),
+  ),
+  lateFeeGraceDays: z.coerce.number().int().nonnegative({ message: "Grace days cannot be negative" }),
+  glAccount: z.preprocess(
+    (value) => (typeof value === "string" && !value.trim() ? null : value),
+    z.string().trim().max(40).nullable().optional(),
+  ),
+  isActive: z.boolean(),
+});
+
+const createFeeHeadSchema = feeHeadFieldsSchema.partial({
+  frequency: true,
+  appliesToHostellers: true,
+  appliesToDayScholars: true,
+  sortOrder: true,
+  dueDay: true,
+  lateFeeType: true,
+  lateFeeAmount: true,
+  lateFeeGraceDays: true,
+  isActive: true,
+}).extend({
+  code: z.string().trim().toLowerCase().regex(/^[a-z][a-z0-9_]{0,39}$/, "Code must start with a letter and use only letters, digits and underscores"),
+}).refine((value) => value.appliesToHostellers !== false || value.appliesToDayScholars !== false, {
+  message: "A fee head must apply to hostellers, day scholars or both",
+  path: ["appliesToDayScholars"],
+});
+
+const updateFeeHeadSchema = feeHeadFieldsSchema.partial().refine(
+  (value) => value.appliesToHostellers !== false || value.appliesToDayScholars !== false,
+  { message: "A fee head must apply to hostellers, day scholars or both", path: ["appliesToDayScholars"] },
+);
+
+const feeStructureComponentSchema = z.object({
+  code: z.string().trim().min(1, "Fee head is required"),
+  hostellerAmount: z.coerce.number().nonnegative({ message: "Amount cannot be negative" }),
+  dayScholarAmount: z.coerce.number().nonnegative({ message: "Amount cannot be negative" }),
+  frequency: z.enum(feeHeadFrequencyValues).optional(),
+});
+
+const feeStructureBulkItemSchema = insertFeeStructureSchema.extend({
+  components: z.array(feeStructureComponentSchema).optional(),
+}).superRefine((value, ctx) => {
+  if (!value.academicYear?.trim()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Academic year is required", path: ["academicYear"] });
+  }
+  for (const field of ["hostellerAmount", "dayScholarAmount"] as const) {
+    const amount = Number(value[field] ?? 0);
+    if (!Number.isFinite(amount) || amount < 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Amount must be a non-negative number", path: [field] });
+    }
+  }
+  const codes = new Set<string>();
+  value.components?.forEach((component, index) => {
+    if (codes.has(component.code)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Duplicate fee component", path: ["components", index, "code"] });
+    }
+    codes.add(component.code);
+  });
+});
+
+const feeStructureBulkUpsertSchema = z.object({
+  items: z.array(feeStructureBulkItemSchema).min(1, "At least one fee structure is required"),
+  dryRun: z.boolean().optional(),
+}).superRefine((value, ctx) => {
+  const seen = new Set<string>();
+  value.items.forEach((item, index) => {
+    const key = `${item.classId}|${item.academicYear}|${item.feeType}`;
+    if (seen.has(key)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Duplicate class, academic year and fee type",
+        path: ["items", index],
+      });
+    }
+    seen.add(key);
+  });
+});
+
 const optionalDueId = z.preprocess(
   (value) => (value === null || value === undefined || value === "" ? undefined : value),
   z.coerce.number().int().positive().optional(),
@@ -50,6 +156,23 @@ const recordPaymentAllocationSchema = z.object({
   }
 });
 
+const paymentTenderSchema = z.object({
+  method: z.enum(paymentMethodValues, { message: "Invalid tender method" }),
+  amount: z.coerce.number().positive({ message: "Tender amount must be greater than zero" }),
+  referenceNumber: z.string().trim().min(1).optional(),
+  bankName: z.string().trim().min(1).optional(),
+  chequeNumber: z.string().trim().min(1).optional(),
+  chequeDate: z.string().trim().min(1).optional(),
+}).superRefine((value, ctx) => {
+  if (value.method === "cheque" && !value.chequeNumber) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Cheque number is required for cheque tenders",
+      path: ["chequeNumber"],
+    });
+  }
+});
+
 const recordPaymentSchema = z.object({
   studentId: z.coerce.number().int().positive({ message: "Student is required" }),
   paymentDate: z.string().min(1, "Payment date is required"),
@@ -57,11 +180,181 @@ const recordPaymentSchema = z.object({
   referenceNumber: z.string().trim().min(1).optional(),
   remarks: z.string().trim().min(1).optional(),
   academicYear: z.string().trim().min(1, "Academic year is required"),
-  allocations: z.array(recordPaymentAllocationSchema).min(1, "Select at least one fee component"),
+  allocations: z.array(recordPaymentAllocationSchema).default([]),
+  tenders: z.array(paymentTenderSchema).optional(),
+  advanceAmount: z.coerce.number().nonnegative({ message: "Advance cannot be negative" }).optional(),
+  depositAmount: z.coerce.number().nonnegative({ message: "Deposit cannot be negative" }).optional(),
+  autoAllocate: z.boolean().optional(),
+  amount: z.coerce.number().positive({ message: "Amount must be greater than zero" }).optional(),
+  strategy: z.enum(allocationStrategies, { message: "Invalid allocation strategy" }).optional(),
   verify: z.boolean().optional(),
   createdBy: z.coerce.number().int().optional(),
+  idempotencyKey: z.string().trim().min(1).max(80).optional(),
+  confirmDuplicate: z.boolean().optional(),
+  familyId: z.coerce.number().int().positive().optional(),
+}).superRefine((value, ctx) => {
+  if (value.autoAllocate) {
+    if (value.familyId) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Auto-allocation covers one student; allocate family payments to each child's dues",
+        path: ["autoAllocate"],
+      });
+    }
+    if (!value.amount) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Amount is required for auto-allocation",
+        path: ["amount"],
+      });
+    }
+    return;
+  }
+  if (!value.allocations.length && !(value.advanceAmount && value.advanceAmount > 0) && !(value.depositAmount && value.depositAmount > 0)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Select at least one fee component",
+      path: ["allocations"],
+    });
+  }
+});
+
+const previewAllocationSchema = z.object({
+  studentId: z.coerce.number().int().positive({ message: "Student is required" }),
+  amount: z.coerce.number().positive({ message: "Amount must be greater than zero" }),
+  strategy: z.enum(allocationStrategies, { message: "Invalid allocation strategy" }).default("oldest_month_first"),
+  academicYear: z.string().trim().min(1).optional(),
+});
+
+const voidPaymentSchema = z.object({
+  reason: z.string().trim().min(1, "Reason is required"),
+  voidedBy: z.coerce.number().int().optional(),
+});
+
+const refundMethodValues = ["cash", "bank", "upi"] as const;
+
+const refundPaymentSchema = z.object({
+  amount: z.coerce.number().positive({ message: "Amount must be greater than zero" }),
+  refundMethod: z.enum(refundMethodValues, { message: "Invalid refund method" }),
+  allocationId: optionalDueId,
+  referenceNumber: z.string().trim().min(1).optional(),
+  reason: z.string().trim().min(1).optional(),
+  refundedAt: z.string().trim().min(1).optional(),
+  refundedBy: z.coerce.number().int().optional(),
+});
+
+const depositDeductionSchema = z.object({
+  amount: z.coerce.number().positive({ message: "Amount must be greater than zero" }),
+  reason: z.string().trim().min(1, "Reason is required"),
+  recordedBy: z.coerce.number().int().positive().optional(),
+});
+
+const depositRefundSchema = z.object({
+  amount: z.coerce.number().positive({ message: "Amount must be greater than zero" }).optional(),
+  refundMethod: z.enum(refundMethodValues, { message: "Invalid refund method" }),
+  referenceNumber: z.string().trim().min(1).optional(),
+  reason: z.string().trim().min(1).optional(),
+  recordedBy: z.coerce.number().int().positive().optional(),
+});
+
+const familyFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  guardianName: z.string().trim().max(255).nullable().optional(),
+  guardianPhone: z.string().trim().max(20).nullable().optional(),
+  notes: z.string().trim().nullable().optional(),
+  studentIds: z.array(z.coerce.number().int().positive()).min(1, "Select at least one student"),
+});
+
+const createFamilySchema = familyFieldsSchema.extend({
+  createdBy: z.coerce.number().int().positive().optional(),
+});
+
+const updateFamilySchema = familyFieldsSchema.partial();
+
+const chequeDateSchema = z.string().trim().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+
+const chequeTransitionSchema = z.object({
+  date: chequeDateSchema.optional(),
+  actedBy: z.coerce.number().int().optional(),
+});
+
+const bounceChequeSchema = chequeTransitionSchema.extend({
+  reason: z.string().trim().min(1, "Reason is required"),
+  bounceCharge: z.coerce.number().nonnegative({ message: "Bounce charge cannot be negative" }).optional(),
+});
+
+const levyLateFeesSchema = z.object({
+  asOf: chequeDateSchema.optional(),
+  dryRun: z.boolean().optional(),
+});
+
+const waiveDueSchema = z.object({
+  reason: z.string().trim().min(1, "Reason is required"),
+});
+
+const concessionKindValues = ["percentage", "fixed"] as const;
+
+const concessionTypeFieldsSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(120),
+  kind: z.enum(concessionKindValues, { message: "Invalid concession kind" }),
+  value: z.coerce.number().positive({ message: "Value must be greater than zero" }).transform((value) => value.toFixed(2)),
+  feeHeadCodes: z.array(z.string().trim().min(1))
+    .transform((codes) => Array.from(new Set(codes)))
+    .nullable()
+    .optional(),
+  validFrom: chequeDateSchema.nullable().optional(),
+  validTo: chequeDateSchema.nullable().optional(),
+  isActive: z.boolean(),
+});
+
+const createConcessionTypeSchema = concessionTypeFieldsSchema.partial({ isActive: true }).extend({
+  code: z.string().trim().toLowerCase().regex(/^[a-z][a-z0-9_]{0,39}$/, "Code must start with a letter and use only letters, digits and underscores"),
+});
+
+const updateConcessionTypeSchema = concessionTypeFieldsSchema.partial();
+
+const concessionStatusValues = ["pending", "approved", "rejected", "revoked"] as const;
+
+const createStudentConcessionSchema = z.object({
+  studentId: z.coerce.number().int().positive({ message: "Student is required" }),
+  concessionTypeId: z.coerce.number().int().positive({ message: "Concession type is required" }),
+  academicYear: z.string().trim().min(1).optional(),
+  reason: z.string().trim().min(1).optional(),
+  requestedBy: z.coerce.number().int().optional(),
+});
+
+const concessionDecisionSchema = z.object({
+  actedBy: z.coerce.number().int().optional(),
+  note: z.string().trim().min(1).optional(),
+});
+
+const installmentPlanSchema = z.object({
+  installments: z.array(z.object({
+    dueDate: chequeDateSchema,
+    amount: z.coerce.number().positive({ message: "Installment amount must be greater than zero" }),
+  })).min(2, "An installment plan needs at least two installments").max(12, "An installment plan can have at most 12 installments"),
+});
+
+const writeOffStatusValues = ["pending", "approved", "rejected"] as const;
+
+const createWriteOffSchema = z.object({
+  dueId: z.coerce.number().int().positive().optional(),
+  studentId: z.coerce.number().int().positive().optional(),
+  academicYear: z.string().trim().min(1).optional(),
+  reason: z.string().trim().min(1, "Reason is required"),
+  requestedBy: z.coerce.number().int().positive({ message: "Requested by is required" }),
+}).refine((data) => data.dueId !== undefined || data.studentId !== undefined, {
+  message: "Choose a due or a student to write off",
+  path: ["dueId"],
+});
+
+const writeOffDecisionSchema = z.object({
+  decidedBy: z.coerce.number().int().positive({ message: "Approver is required" }),
+  note: z.string().trim().min(1).optional(),
 });
 
+const chequeStatusValues = ["received", "deposited", "cleared", "bounced", "pending"] as const;
+
 const createAcademicYearSchema = z.object({
   code: z.string().trim().min(1, "Code is required"),
   name: z.string().trim().min(1).optional(),
@@ -71,6 +364,64 @@ const createAcademicYearSchema = z.object({
   isCurrent: z.boolean().optional(),
 });
 
+const updateAcademicYearSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  startDate: chequeDateSchema.nullable().optional(),
+  endDate: chequeDateSchema.nullable().optional(),
+  isActive: z.boolean().optional(),
+  isCurrent: z.literal(true).optional(),
+});
+
+const academicYearActionSchema = z.object({
+  closedBy: z.coerce.number().int().positive().optional(),
+});
+
+const studentStatusChangeSchema = z.object({
+  classId: z.coerce.number().int().positive().optional(),
+  isHosteller: z.boolean().optional(),
+  effectiveMonth: z.string().trim().regex(/^\d{4}-\d{2}$/, "Month must be YYYY-MM"),
+  reason: z.string().trim().min(1).optional(),
+  changedBy: z.coerce.number().int().positive().optional(),
+  dryRun: z.boolean().optional(),
+}).refine((data) => data.classId !== undefined || data.isHosteller !== undefined, {
+  message: "Choose a new class or boarding status",
+  path: ["classId"],
+});
+
+const studentExitSchema = z.object({
+  leavingDate: chequeDateSchema,
+  reason: z.string().trim().min(1).optional(),
+  processedBy: z.coerce.number().int().positive().optional(),
+  dryRun: z.boolean().optional(),
+});
+
+const clearanceCertificateSchema = z.object({
+  clearedBy: z.coerce.number().int().positive().optional(),
+});
+
+const studentStatementSchema = z.object({
+  from: chequeDateSchema.optional(),
+  to: chequeDateSchema.optional(),
+}).refine((value) => !value.from || !value.to || value.from <= value.to, {
+  message: "From date must be on or before the to date",
+  path: ["from"],
+});
+
+const yearRolloverSchema = z.object({
+  fromYear: z.string().trim().min(1, "Current year is required"),
+  toYear: z.string().trim().min(1, "Next year is required"),
+  classMap: z.array(z.object({
+    fromClassId: z.coerce.number().int().positive(),
+    toClassId: z.coerce.number().int().positive().nullable(),
+  })).min(1, "Map at least one class"),
+  exceptions: z.array(z.object({
+    studentId: z.coerce.number().int().positive(),
+    action: z.enum(["detain", "leave"]),
+  })).optional(),
+  dryRun: z.boolean().optional(),
+  makeCurrent: z.boolean().optional(),
+});
+
 type RegisterRoutesOptions = {
   createHttpServer?: boolean;
 };
@@ -101,6 +452,59 @@ export async function registerRoutes(
     }
   });
 
+  app.patch("/api/academic-years/:code", async (req, res) => {
+    try {
+      const payload = updateAcademicYearSchema.parse(req.body ?? {});
+      const year = await storage.updateAcademicYear(req.params.code, payload);
+      if (!year) {
+        return res.status(404).json({ message: "Academic year not found" });
+      }
+      res.json(year);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to update academic year" });
+    }
+  });
+
+  // Closing locks the year against new payments and due changes; reopening lifts the lock.
+  app.post("/api/academic-years/:code/:action", async (req, res) => {
+    const action = z.enum(["close", "reopen"]).safeParse(req.params.action);
+    if (!action.success) {
+      return res.status(404).json({ message: "Unknown academic year action" });
+    }
+    try {
+      const payload = academicYearActionSchema.parse(req.body ?? {});
+      const year = action.data === "close"
+        ? await storage.closeAcademicYear(req.params.code, payload.closedBy)
+        : await storage.reopenAcademicYear(req.params.code);
+      if (!year) {
+        return res.status(404).json({ message: "Academic year not found" });
+      }
+      res.json(year);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || `Failed to ${action.data} academic year` });
+    }
+  });
+
+  // Without dryRun: false this only reports what the rollover would do.
+  app.post("/api/academic-years/rollover", async (req, res) => {
+    try {
+      const payload = yearRolloverSchema.parse(req.body ?? {});
+      const result = await storage.rolloverAcademicYear(payload);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to roll over academic year" });
+    }
+  });
+
   // Students endpoint
   app.get("/api/students", async (req, res) => {
     try {
@@ -121,150 +525,761 @@ export async function registerRoutes(
       }
       res.json(student);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch student" });
+      res.status(500).json({ message: "Failed to fetch student" });
+    }
+  });
+
+  app.get("/api/students/:id/finance", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid student id" });
+      }
+
+      const academicYear = typeof req.query.academicYear === 'string' ? req.query.academicYear : undefined;
+      const summary = await storage.getStudentFinanceSummary(id, academicYear);
+
+      if (!summary) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      res.json(summary);
+    } catch (error) {
+      res.status(500).json({ message: (error as any)?.message || "Failed to load student finance" });
+    }
+  });
+
+  app.get("/api/students/:id/statement", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid student id" });
+      }
+      const range = studentStatementSchema.parse(req.query);
+      const statement = await storage.getStudentStatement(id, range);
+      if (!statement) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      res.json(statement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to build statement" });
+    }
+  });
+
+  app.get("/api/students/:id/statement.pdf", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid student id" });
+      }
+      const range = studentStatementSchema.parse(req.query);
+      const statement = await storage.getStudentStatement(id, range);
+      if (!statement) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      const pdf = await renderStudentStatementPdf(statement);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${studentStatementFileName(statement)}"`);
+      res.send(pdf);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error('Student statement route error:', error);
+      res.status(500).json({ message: (error as any)?.message || "Failed to render statement" });
+    }
+  });
+
+  app.post("/api/students", async (req, res) => {
+    try {
+      const validated = insertStudentSchema.parse(req.body);
+      const student = await storage.createStudent(validated);
+      res.status(201).json(student);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create student" });
+    }
+  });
+
+  app.patch("/api/students/:id", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid student id" });
+      }
+
+      const updateSchema = insertStudentSchema.partial();
+      const payload = updateSchema.parse(req.body ?? {});
+      const updated = await storage.updateStudent(id, payload);
+
+      if (!updated) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update student" });
+    }
+  });
+
+  app.delete("/api/students/:id", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid student id" });
+      }
+
+      const result = await storage.markStudentLeft(id);
+
+      if (!result) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      res.json({ message: "Student marked as left", student: result });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update student status" });
+    }
+  });
+
+  app.post("/api/students/:id/open-account", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid student id" });
+      }
+
+      const bodySchema = z.object({
+        academicYear: z.string().optional(),
+        reopen: z.boolean().optional(),
+        isNewAdmission: z.boolean().optional(),
+      });
+
+      const payload = bodySchema.parse(req.body ?? {});
+      const result = await storage.openStudentAccount(id, payload);
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to open account" });
+    }
+  });
+
+  // Mid-year class or hostel change; dryRun reports the repricing without applying it.
+  app.post("/api/students/:id/status-change", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid student id" });
+      }
+      const payload = studentStatusChangeSchema.parse(req.body ?? {});
+      const result = await storage.changeStudentStatus(id, payload);
+      if (!result) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      res.status(payload.dryRun ? 200 : 201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to change student status" });
+    }
+  });
+
+  app.get("/api/students/:id/status-changes", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid student id" });
+      }
+      const changes = await storage.getStudentStatusChanges(id);
+      res.json(changes);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch status changes" });
+    }
+  });
+
+  app.post("/api/students/:id/exit", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid student id" });
+      }
+      const payload = studentExitSchema.parse(req.body ?? {});
+      const result = await storage.exitStudent(id, payload);
+      if (!result) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      res.status(payload.dryRun ? 200 : 201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to record student exit" });
+    }
+  });
+
+  app.get("/api/students/:id/exit", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid student id" });
+      }
+      const record = await storage.getStudentExit(id);
+      if (!record) {
+        return res.status(404).json({ message: "No exit recorded for this student" });
+      }
+      res.json(record);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch student exit" });
+    }
+  });
+
+  app.post("/api/students/:id/clearance", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid student id" });
+      }
+      const payload = clearanceCertificateSchema.parse(req.body ?? {});
+      const record = await storage.issueClearanceCertificate(id, payload.clearedBy);
+      if (!record) {
+        return res.status(404).json({ message: "No exit recorded for this student" });
+      }
+      res.json(record);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to issue no-dues certificate" });
+    }
+  });
+
+  app.get("/api/students/:id/clearance.pdf", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid student id" });
+      }
+      const record = await storage.getStudentExit(id);
+      if (!record?.exit.clearedAt) {
+        return res.status(404).json({ message: "No no-dues certificate has been issued for this student" });
+      }
+      const pdf = await renderClearanceCertificatePdf(record);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${clearanceCertificateFileName(record)}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error('Clearance certificate route error:', error);
+      res.status(500).json({ message: (error as any)?.message || "Failed to render no-dues certificate" });
+    }
+  });
+
+  app.get("/api/students/:id/family", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid student id" });
+      }
+      const family = await storage.getStudentFamily(id);
+      if (!family) {
+        return res.status(404).json({ message: "Student is not in a family" });
+      }
+      res.json(family);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch family" });
+    }
+  });
+
+  app.get("/api/students/:id/deposit", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid student id" });
+      }
+      const deposit = await storage.getStudentDeposit(id);
+      if (!deposit) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      res.json(deposit);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch caution deposit" });
+    }
+  });
+
+  // Deductions (damages and the like) and refunds both draw down the deposit held.
+  app.post("/api/students/:id/deposit/:action", async (req, res) => {
+    const action = z.enum(["deduct", "refund"]).safeParse(req.params.action);
+    if (!action.success) {
+      return res.status(404).json({ message: "Unknown deposit action" });
+    }
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid student id" });
+      }
+      const deposit = action.data === "deduct"
+        ? await storage.deductDeposit(id, depositDeductionSchema.parse(req.body ?? {}))
+        : await storage.refundDeposit(id, depositRefundSchema.parse(req.body ?? {}));
+      if (!deposit) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      res.json(deposit);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || `Failed to ${action.data} deposit` });
+    }
+  });
+
+  app.get("/api/dues", async (req, res) => {
+    const filterSchema = z.object({
+      status: z.string().optional(),
+      dueType: z.string().optional(),
+      classId: z.coerce.number().optional(),
+      studentId: z.coerce.number().optional(),
+      month: z.string().optional(),
+      academicYear: z.string().optional(),
+      installmentsOnly: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+    });
+
+    try {
+      const filters = filterSchema.parse(req.query);
+      const dues = await storage.getStudentDues(filters);
+      res.json(dues);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid filters", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to fetch dues" });
+    }
+  });
+
+  app.post("/api/dues/:id/waive", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid due id" });
+      }
+      const payload = waiveDueSchema.parse(req.body ?? {});
+      const result = await storage.waiveDue(id, payload);
+      if (!result) {
+        return res.status(404).json({ message: "Due not found" });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to waive due" });
+    }
+  });
+
+  app.post("/api/dues/:id/installments", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid due id" });
+      }
+      const payload = installmentPlanSchema.parse(req.body ?? {});
+      const result = await storage.splitDueIntoInstallments(id, payload);
+      if (!result) {
+        return res.status(404).json({ message: "Due not found" });
+      }
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to create installment plan" });
+    }
+  });
+
+  app.post("/api/late-fees/run", async (req, res) => {
+    try {
+      const payload = levyLateFeesSchema.parse(req.body ?? {});
+      const result = await storage.levyLateFees(payload);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to levy late fees" });
+    }
+  });
+
+  // Write-offs endpoints
+  app.get("/api/write-offs", async (req, res) => {
+    const filterSchema = z.object({
+      status: z.enum(writeOffStatusValues).optional(),
+      studentId: z.coerce.number().int().optional(),
+    });
+
+    try {
+      const filters = filterSchema.parse(req.query);
+      const requests = await storage.getWriteOffs(filters);
+      res.json(requests);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid filters", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to fetch write-offs" });
+    }
+  });
+
+  app.post("/api/write-offs", async (req, res) => {
+    try {
+      const payload = createWriteOffSchema.parse(req.body ?? {});
+      const request = await storage.requestWriteOff(payload);
+      if (!request) {
+        return res.status(404).json({ message: "Due not found" });
+      }
+      res.status(201).json(request);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to request write-off" });
+    }
+  });
+
+  // :decision is approve or reject.
+  app.post("/api/write-offs/:id/:decision", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid write-off id" });
+      }
+      const decision = z.enum(["approve", "reject"]).safeParse(req.params.decision);
+      if (!decision.success) {
+        return res.status(404).json({ message: "Unknown write-off action" });
+      }
+
+      const payload = writeOffDecisionSchema.parse(req.body ?? {});
+      const request = await storage.decideWriteOff(id, decision.data, payload);
+      if (!request) {
+        return res.status(404).json({ message: "Write-off not found" });
+      }
+      res.json(request);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to update write-off" });
+    }
+  });
+
+  // Staff who can request or approve write-offs
+  app.get("/api/users", async (_req, res) => {
+    try {
+      const users = await storage.getStaffUsers();
+      res.json(users);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  // Classes endpoint
+  app.get("/api/classes", async (req, res) => {
+    try {
+      const classes = await storage.getClasses();
+      res.json(classes);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch classes" });
+    }
+  });
+
+  // Database initialization endpoint - Create financial tables
+  app.post("/api/init-database", async (req, res) => {
+    try {
+      await (storage as any).createFinancialTables();
+      res.json({ message: 'Financial tables created successfully' });
+    } catch (error) {
+      console.error('Database initialization error:', error);
+      res.status(500).json({ message: 'Failed to initialize database', error: error.message });
+    }
+  });
+
+  // Families endpoints
+  app.get("/api/families", async (_req, res) => {
+    try {
+      const families = await storage.getFamilies();
+      res.json(families);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch families" });
+    }
+  });
+
+  // Students sharing a guardian phone or name who are not yet grouped together.
+  app.get("/api/families/suggestions", async (_req, res) => {
+    try {
+      const suggestions = await storage.getFamilySuggestions();
+      res.json(suggestions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch family suggestions" });
+    }
+  });
+
+  app.post("/api/families", async (req, res) => {
+    try {
+      const payload = createFamilySchema.parse(req.body ?? {});
+      const family = await storage.createFamily(payload);
+      res.status(201).json(family);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to create family" });
+    }
+  });
+
+  app.get("/api/families/:id", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid family id" });
+      }
+      const family = await storage.getFamily(id);
+      if (!family) {
+        return res.status(404).json({ message: "Family not found" });
+      }
+      res.json(family);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch family" });
+    }
+  });
+
+  app.patch("/api/families/:id", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid family id" });
+      }
+
+      const payload = updateFamilySchema.parse(req.body ?? {});
+      const family = await storage.updateFamily(id, payload);
+      if (!family) {
+        return res.status(404).json({ message: "Family not found" });
+      }
+
+      res.json(family);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to update family" });
     }
   });
 
-  app.get("/api/students/:id/finance", async (req, res) => {
+  app.delete("/api/families/:id", async (req, res) => {
     try {
       const id = Number(req.params.id);
-      if (Number.isNaN(id)) {
-        return res.status(400).json({ message: "Invalid student id" });
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid family id" });
       }
 
-      const academicYear = typeof req.query.academicYear === 'string' ? req.query.academicYear : undefined;
-      const summary = await storage.getStudentFinanceSummary(id, academicYear);
+      const deleted = await storage.deleteFamily(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Family not found" });
+      }
 
-      if (!summary) {
-        return res.status(404).json({ message: "Student not found" });
+      res.json({ message: "Family deleted" });
+    } catch (error) {
+      res.status(500).json({ message: (error as any)?.message || "Failed to delete family" });
+    }
+  });
+
+  app.get("/api/families/:id/statement", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid family id" });
       }
+      const academicYear = typeof req.query.academicYear === "string" && req.query.academicYear.trim()
+        ? req.query.academicYear.trim()
+        : undefined;
+      const statement = await storage.getFamilyStatement(id, academicYear);
+      if (!statement) {
+        return res.status(404).json({ message: "Family not found" });
+      }
+      res.json(statement);
+    } catch (error) {
+      res.status(500).json({ message: (error as any)?.message || "Failed to build family statement" });
+    }
+  });
 
-      res.json(summary);
+  // Fee Heads endpoints
+  app.get("/api/fee-heads", async (req, res) => {
+    try {
+      const heads = await storage.getFeeHeads({ includeInactive: req.query.includeInactive === "true" });
+      res.json(heads);
     } catch (error) {
-      res.status(500).json({ message: (error as any)?.message || "Failed to load student finance" });
+      res.status(500).json({ message: "Failed to fetch fee heads" });
     }
   });
 
-  app.post("/api/students", async (req, res) => {
+  app.post("/api/fee-heads", async (req, res) => {
     try {
-      const validated = insertStudentSchema.parse(req.body);
-      const student = await storage.createStudent(validated);
-      res.status(201).json(student);
+      const payload = createFeeHeadSchema.parse(req.body ?? {});
+      const head = await storage.createFeeHead(payload);
+      res.status(201).json(head);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to create student" });
+      res.status(500).json({ message: (error as any)?.message || "Failed to create fee head" });
     }
   });
 
-  app.patch("/api/students/:id", async (req, res) => {
+  app.patch("/api/fee-heads/:id", async (req, res) => {
     try {
       const id = Number(req.params.id);
-      if (Number.isNaN(id)) {
-        return res.status(400).json({ message: "Invalid student id" });
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid fee head id" });
       }
 
-      const updateSchema = insertStudentSchema.partial();
-      const payload = updateSchema.parse(req.body ?? {});
-      const updated = await storage.updateStudent(id, payload);
-
-      if (!updated) {
-        return res.status(404).json({ message: "Student not found" });
+      const payload = updateFeeHeadSchema.parse(req.body ?? {});
+      const head = await storage.updateFeeHead(id, payload);
+      if (!head) {
+        return res.status(404).json({ message: "Fee head not found" });
       }
 
-      res.json(updated);
+      res.json(head);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to update student" });
+      res.status(500).json({ message: (error as any)?.message || "Failed to update fee head" });
     }
   });
 
-  app.delete("/api/students/:id", async (req, res) => {
+  app.delete("/api/fee-heads/:id", async (req, res) => {
     try {
       const id = Number(req.params.id);
-      if (Number.isNaN(id)) {
-        return res.status(400).json({ message: "Invalid student id" });
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid fee head id" });
       }
 
-      const result = await storage.markStudentLeft(id);
-
-      if (!result) {
-        return res.status(404).json({ message: "Student not found" });
+      const head = await storage.deleteFeeHead(id);
+      if (!head) {
+        return res.status(404).json({ message: "Fee head not found" });
       }
 
-      res.json({ message: "Student marked as left", student: result });
+      res.json({ message: "Fee head deleted", feeHead: head });
     } catch (error) {
-      res.status(500).json({ message: "Failed to update student status" });
+      res.status(500).json({ message: (error as any)?.message || "Failed to delete fee head" });
     }
   });
 
-  app.post("/api/students/:id/open-account", async (req, res) => {
+  // Concessions endpoints
+  app.get("/api/concession-types", async (req, res) => {
+    try {
+      const types = await storage.getConcessionTypes({ includeInactive: req.query.includeInactive === "true" });
+      res.json(types);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch concession types" });
+    }
+  });
+
+  app.post("/api/concession-types", async (req, res) => {
+    try {
+      const payload = createConcessionTypeSchema.parse(req.body ?? {});
+      const type = await storage.createConcessionType(payload);
+      res.status(201).json(type);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to create concession type" });
+    }
+  });
+
+  app.patch("/api/concession-types/:id", async (req, res) => {
     try {
       const id = Number(req.params.id);
-      if (Number.isNaN(id)) {
-        return res.status(400).json({ message: "Invalid student id" });
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid concession type id" });
       }
 
-      const bodySchema = z.object({
-        academicYear: z.string().optional(),
-        reopen: z.boolean().optional(),
-        isNewAdmission: z.boolean().optional(),
-      });
+      const payload = updateConcessionTypeSchema.parse(req.body ?? {});
+      const type = await storage.updateConcessionType(id, payload);
+      if (!type) {
+        return res.status(404).json({ message: "Concession type not found" });
+      }
 
-      const payload = bodySchema.parse(req.body ?? {});
-      const result = await storage.openStudentAccount(id, payload);
-      res.status(201).json(result);
+      res.json(type);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      res.status(500).json({ message: (error as any)?.message || "Failed to open account" });
+      res.status(500).json({ message: (error as any)?.message || "Failed to update concession type" });
     }
   });
 
-  app.get("/api/dues", async (req, res) => {
+  app.get("/api/student-concessions", async (req, res) => {
     const filterSchema = z.object({
-      status: z.string().optional(),
-      dueType: z.string().optional(),
-      classId: z.coerce.number().optional(),
-      studentId: z.coerce.number().optional(),
-      month: z.string().optional(),
+      studentId: z.coerce.number().int().optional(),
       academicYear: z.string().optional(),
+      status: z.enum(concessionStatusValues).optional(),
     });
 
     try {
       const filters = filterSchema.parse(req.query);
-      const dues = await storage.getStudentDues(filters);
-      res.json(dues);
+      const grants = await storage.getStudentConcessions(filters);
+      res.json(grants);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid filters", errors: error.errors });
       }
-      res.status(500).json({ message: (error as any)?.message || "Failed to fetch dues" });
+      res.status(500).json({ message: (error as any)?.message || "Failed to fetch student concessions" });
     }
   });
 
-  // Classes endpoint
-  app.get("/api/classes", async (req, res) => {
+  app.post("/api/student-concessions", async (req, res) => {
     try {
-      const classes = await storage.getClasses();
-      res.json(classes);
+      const payload = createStudentConcessionSchema.parse(req.body ?? {});
+      const grant = await storage.createStudentConcession(payload);
+      res.status(201).json(grant);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch classes" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to grant concession" });
     }
   });
 
-  // Database initialization endpoint - Create financial tables
-  app.post("/api/init-database", async (req, res) => {
+  // :decision is approve, reject or revoke.
+  app.post("/api/student-concessions/:id/:decision", async (req, res) => {
     try {
-      await (storage as any).createFinancialTables();
-      res.json({ message: 'Financial tables created successfully' });
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ message: "Invalid concession id" });
+      }
+      const decision = z.enum(["approve", "reject", "revoke"]).safeParse(req.params.decision);
+      if (!decision.success) {
+        return res.status(404).json({ message: "Unknown concession action" });
+      }
+
+      const payload = concessionDecisionSchema.parse(req.body ?? {});
+      const grant = await storage.decideStudentConcession(id, decision.data, payload);
+      if (!grant) {
+        return res.status(404).json({ message: "Concession not found" });
+      }
+      res.json(grant);
     } catch (error) {
-      console.error('Database initialization error:', error);
-      res.status(500).json({ message: 'Failed to initialize database', error: error.message });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to update concession" });
     }
   });
 
@@ -292,6 +1307,19 @@ export async function registerRoutes(
     }
   });
 
+  app.post("/api/fee-structures/bulk-upsert", async (req, res) => {
+    try {
+      const payload = feeStructureBulkUpsertSchema.parse(req.body ?? {});
+      const result = await storage.bulkUpsertFeeStructures(payload.items, { dryRun: payload.dryRun });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to save fee structures" });
+    }
+  });
+
   // Student Fees endpoints
   app.get("/api/student-fees", async (req, res) => {
     try {
@@ -323,7 +1351,8 @@ export async function registerRoutes(
       const studentId = req.query.studentId ? parseInt(req.query.studentId as string) : undefined;
       const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
       const academicYear = typeof req.query.academicYear === "string" ? req.query.academicYear : undefined;
-      const payments = await storage.getPayments(studentId, limit, academicYear);
+      const search = typeof req.query.search === "string" ? req.query.search : undefined;
+      const payments = await storage.getPayments(studentId, limit, academicYear, search);
       res.json(payments);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch payments" });
@@ -349,7 +1378,11 @@ export async function registerRoutes(
   app.post("/api/payments/record", async (req, res) => {
     try {
       const payload = recordPaymentSchema.parse(req.body ?? {});
-      const result = await storage.recordPayment({
+      const idempotencyKey = req.get("Idempotency-Key")?.trim() || payload.idempotencyKey || null;
+      if (idempotencyKey && idempotencyKey.length > 80) {
+        return res.status(400).json({ message: "Idempotency key must be at most 80 characters" });
+      }
+      const input: RecordPaymentInput = {
         studentId: payload.studentId,
         paymentDate: payload.paymentDate,
         paymentMethod: payload.paymentMethod,
@@ -362,12 +1395,33 @@ export async function registerRoutes(
         category: allocation.category,
         notes: allocation.notes,
       })),
+        tenders: payload.tenders,
+        advanceAmount: payload.advanceAmount,
+        depositAmount: payload.depositAmount,
+        familyId: payload.familyId,
+        autoAllocate: payload.autoAllocate,
+        amount: payload.amount,
+        strategy: payload.strategy,
         academicYear: payload.academicYear,
         verify: payload.verify,
         createdBy: payload.createdBy,
-      });
+        idempotencyKey,
+      };
 
-      res.status(201).json(result);
+      // Retries carry the same key and are excluded here, so they fall through to a replay.
+      if (!payload.confirmDuplicate) {
+        const duplicates = await storage.findDuplicatePayments(input);
+        if (duplicates.length) {
+          return res.status(409).json({
+            message: "A matching payment was recorded for this student moments ago",
+            code: "DUPLICATE_SUSPECT",
+            duplicates,
+          });
+        }
+      }
+
+      const result = await storage.recordPayment(input);
+      res.status(result.replayed ? 200 : 201).json(result);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
@@ -376,6 +1430,19 @@ export async function registerRoutes(
     }
   });
 
+  app.post("/api/payments/preview-allocation", async (req, res) => {
+    try {
+      const payload = previewAllocationSchema.parse(req.body ?? {});
+      const preview = await storage.previewAllocation(payload);
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to preview allocation" });
+    }
+  });
+
   app.post("/api/payments", async (req, res) => {
     try {
       const validatedData = insertPaymentSchema.parse(req.body);
@@ -403,6 +1470,174 @@ export async function registerRoutes(
     }
   });
 
+  // The first render is kept on disk as the original; every later request is
+  // re-rendered from current data and watermarked as a duplicate.
+  app.get("/api/payments/:id/receipt.pdf", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid payment id" });
+      }
+      const receipt = await storage.getPaymentWithAllocations(id);
+      if (!receipt) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      const fileName = receiptFileName(receipt);
+      let pdf: Buffer | null = null;
+
+      if (req.query.copy === "original" && receipt.payment.receiptUrl) {
+        pdf = await readStoredReceiptPdf(fileName);
+      }
+
+      if (!pdf) {
+        // The print is claimed before rendering; a request that loses the race gets a duplicate.
+        const isFirstPrint = !receipt.payment.receiptUrl
+          && await storage.markReceiptPrinted(id, `/api/payments/${id}/receipt.pdf?copy=original`);
+        pdf = await renderReceiptPdf(receipt, isFirstPrint ? "original" : "duplicate");
+        if (isFirstPrint) {
+          await saveReceiptPdf(fileName, pdf);
+        }
+      }
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${fileName}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error('Receipt PDF route error:', error);
+      res.status(500).json({ message: (error as any)?.message || "Failed to render receipt" });
+    }
+  });
+
+  app.post("/api/payments/:id/void", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid payment id" });
+      }
+      const payload = voidPaymentSchema.parse(req.body ?? {});
+      const result = await storage.voidPayment(id, {
+        reason: payload.reason,
+        voidedBy: payload.voidedBy,
+      });
+      if (!result) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to void payment" });
+    }
+  });
+
+  app.post("/api/payments/:id/refund", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid payment id" });
+      }
+      const payload = refundPaymentSchema.parse(req.body ?? {});
+      const result = await storage.refundPayment(id, {
+        amount: payload.amount,
+        refundMethod: payload.refundMethod,
+        allocationId: payload.allocationId,
+        referenceNumber: payload.referenceNumber ?? null,
+        reason: payload.reason ?? null,
+        refundedAt: payload.refundedAt,
+        refundedBy: payload.refundedBy,
+      });
+      if (!result) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to refund payment" });
+    }
+  });
+
+  // Cheque endpoints
+  app.get("/api/cheques", async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !(chequeStatusValues as readonly string[]).includes(status)) {
+        return res.status(400).json({ message: "Invalid cheque status" });
+      }
+      const cheques = await storage.getCheques({
+        status: status as (typeof chequeStatusValues)[number] | undefined,
+        academicYear: req.query.academicYear as string | undefined,
+      });
+      res.json(cheques);
+    } catch (error) {
+      console.error('Cheques route error:', error);
+      res.status(500).json({ message: "Failed to fetch cheques" });
+    }
+  });
+
+  app.post("/api/cheques/:id/deposit", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid cheque id" });
+      }
+      const payload = chequeTransitionSchema.parse(req.body ?? {});
+      const tender = await storage.depositCheque(id, payload);
+      if (!tender) {
+        return res.status(404).json({ message: "Cheque not found" });
+      }
+      res.json(tender);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to deposit cheque" });
+    }
+  });
+
+  app.post("/api/cheques/:id/clear", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid cheque id" });
+      }
+      const payload = chequeTransitionSchema.parse(req.body ?? {});
+      const result = await storage.clearCheque(id, payload);
+      if (!result) {
+        return res.status(404).json({ message: "Cheque not found" });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to clear cheque" });
+    }
+  });
+
+  app.post("/api/cheques/:id/bounce", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid cheque id" });
+      }
+      const payload = bounceChequeSchema.parse(req.body ?? {});
+      const result = await storage.bounceCheque(id, payload);
+      if (!result) {
+        return res.status(404).json({ message: "Cheque not found" });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: (error as any)?.message || "Failed to bounce cheque" });
+    }
+  });
+
   // Transport Fees endpoints
   app.get("/api/transport-fees", async (req, res) => {
     try {
@@ -431,7 +1666,7 @@ export async function registerRoutes(
   // Dashboard stats endpoint
   app.get("/api/dashboard/stats", async (req, res) => {
     try {
-      const academicYear = (req.query.academicYear as string) || "2023-24";
+      const academicYear = (req.query.academicYear as string) || await storage.getCurrentAcademicYearCode();
       const stats = await storage.getDashboardStats(academicYear);
       res.json(stats);
     } catch (error) {
@@ -442,7 +1677,7 @@ export async function registerRoutes(
   // Collection trend endpoint
   app.get("/api/dashboard/collection-trend", async (req, res) => {
     try {
-      const academicYear = (req.query.academicYear as string) || "2023-24";
+      const academicYear = (req.query.academicYear as string) || await storage.getCurrentAcademicYearCode();
       const trend = await storage.getCollectionTrend(academicYear);
       res.json(trend);
     } catch (error) {
@@ -453,7 +1688,7 @@ export async function registerRoutes(
   // Class-wise collections endpoint
   app.get("/api/dashboard/class-collections", async (req, res) => {
     try {
-      const academicYear = (req.query.academicYear as string) || "2023-24";
+      const academicYear = (req.query.academicYear as string) || await storage.getCurrentAcademicYearCode();
       const collections = await storage.getClassCollections(academicYear);
       res.json(collections);
     } catch (error) {
@@ -464,7 +1699,7 @@ export async function registerRoutes(
   // Fee structure overview endpoint
   app.get("/api/dashboard/fee-structure-overview", async (req, res) => {
     try {
-      const academicYear = (req.query.academicYear as string) || "2023-24";
+      const academicYear = (req.query.academicYear as string) || await storage.getCurrentAcademicYearCode();
       const overview = await storage.getFeeStructureOverview(academicYear);
       res.json(overview);
     } catch (error) {
@@ -472,6 +1707,49 @@ export async function registerRoutes(
     }
   });
 
+  // Collections split by tender method
+  app.get("/api/reports/collection-by-tender", async (req, res) => {
+    try {
+      const academicYear = (req.query.academicYear as string) || await storage.getCurrentAcademicYearCode();
+      const report = await storage.getCollectionByTender(academicYear);
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tender collections" });
+    }
+  });
+
+  // Concession register: approved and revoked grants with what they took off the year's dues
+  app.get("/api/reports/concessions", async (req, res) => {
+    try {
+      const academicYear = (req.query.academicYear as string) || await storage.getCurrentAcademicYearCode();
+      const report = await storage.getConcessionRegister(academicYear);
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: (error as any)?.message || "Failed to fetch concession register" });
+    }
+  });
+
+  // Write-off register: approved write-offs against the year's dues, plus what awaits approval
+  app.get("/api/reports/write-offs", async (req, res) => {
+    try {
+      const academicYear = (req.query.academicYear as string) || await storage.getCurrentAcademicYearCode();
+      const report = await storage.getWriteOffRegister(academicYear);
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: (error as any)?.message || "Failed to fetch write-off register" });
+    }
+  });
+
+  // Caution deposits held: the school's liability to refund, per student
+  app.get("/api/reports/deposits-held", async (_req, res) => {
+    try {
+      const report = await storage.getDepositsHeldReport();
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: (error as any)?.message || "Failed to fetch deposits held" });
+    }
+  });
+
   // Excel import endpoint
   app.post("/api/excel-import", upload.single('file'), async (req, res) => {
     try {
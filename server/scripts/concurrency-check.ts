@@ -0,0 +1,109 @@
+// Fires parallel recordPayment calls at a single due and checks that the ledger
+// stays consistent: the due is never paid past its amount, its allocations add up
+// to its paidAmount, and whatever could not be applied was held as advance credit.
+//
+// It records real payments, so point FINANCE_DATABASE_URL at a scratch database.
+//
+//   npm run check:concurrency -- --due 123 --parallel 8 --yes
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { dbFinance } from "../db";
+import { storage } from "../storage";
+import { paymentAllocations, studentCredits, studentDues } from "@shared/finance-only.schema";
+
+const readFlag = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+const toPaise = (value: unknown): number => Math.round(Number(value ?? 0) * 100);
+
+async function main() {
+  const dueId = Number(readFlag("due"));
+  const parallel = Number(readFlag("parallel") ?? 8);
+  if (!Number.isInteger(dueId) || dueId <= 0) {
+    throw new Error("Pass the due to hammer with --due <id>.");
+  }
+  if (!Number.isInteger(parallel) || parallel < 2) {
+    throw new Error("--parallel must be at least 2.");
+  }
+  if (!process.argv.includes("--yes")) {
+    throw new Error("This records real payments; rerun with --yes against a scratch database.");
+  }
+
+  const [due] = await dbFinance.select().from(studentDues).where(eq(studentDues.id, dueId)).limit(1);
+  if (!due) {
+    throw new Error(`Due ${dueId} not found.`);
+  }
+
+  const outstanding = toPaise(due.amount) - toPaise(due.paidAmount);
+  if (outstanding <= 0) {
+    throw new Error(`Due ${dueId} is already settled; pick one with a balance.`);
+  }
+
+  // Every request tries to settle the whole balance, so at most one should land on the due.
+  const amount = outstanding / 100;
+  const startedAt = Date.now();
+  const results = await Promise.allSettled(
+    Array.from({ length: parallel }, (_, index) =>
+      storage.recordPayment({
+        studentId: due.studentId,
+        paymentDate: new Date().toISOString(),
+        paymentMethod: "cash",
+        remarks: `Concurrency check ${index + 1}/${parallel}`,
+        academicYear: due.academicYear ?? "",
+        allocations: [{ dueId, amount }],
+        idempotencyKey: `concurrency-check-${dueId}-${startedAt}-${index}`,
+      }),
+    ),
+  );
+
+  const recorded = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      console.log(`request ${index + 1}: failed - ${(result.reason as Error)?.message ?? result.reason}`);
+    }
+  });
+
+  const paymentIds = recorded.map((result) => result.payment.id);
+  const [after] = await dbFinance.select().from(studentDues).where(eq(studentDues.id, dueId)).limit(1);
+  const [allocated] = await dbFinance
+    .select({ total: sql<string>`COALESCE(SUM(${paymentAllocations.amount}), 0)` })
+    .from(paymentAllocations)
+    .where(eq(paymentAllocations.dueId, dueId));
+  const credited = paymentIds.length
+    ? await dbFinance
+        .select({ total: sql<string>`COALESCE(SUM(${studentCredits.amount}), 0)` })
+        .from(studentCredits)
+        .where(and(inArray(studentCredits.paymentId, paymentIds), eq(studentCredits.entryType, "credit")))
+    : [{ total: "0" }];
+
+  const failures: string[] = [];
+  if (toPaise(after.paidAmount) > toPaise(after.amount)) {
+    failures.push(`due paidAmount ${after.paidAmount} exceeds its amount ${after.amount}`);
+  }
+  if (toPaise(allocated.total) !== toPaise(after.paidAmount)) {
+    failures.push(`allocations total ${allocated.total} but due paidAmount is ${after.paidAmount}`);
+  }
+  const appliedNow = toPaise(after.paidAmount) - toPaise(due.paidAmount);
+  const expectedCredit = recorded.length * outstanding - appliedNow;
+  if (toPaise(credited[0].total) !== expectedCredit) {
+    failures.push(`advance credit ${credited[0].total} does not match the unapplied ${(expectedCredit / 100).toFixed(2)}`);
+  }
+
+  console.log(`${recorded.length}/${parallel} payments recorded in ${Date.now() - startedAt}ms (ids: ${paymentIds.join(", ") || "none"})`);
+  console.log(`due ${dueId}: paid ${after.paidAmount} of ${after.amount}, status ${after.status}`);
+
+  if (failures.length) {
+    failures.forEach((failure) => console.error(`FAIL: ${failure}`));
+    process.exitCode = 1;
+  } else {
+    console.log("OK: ledger is consistent");
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
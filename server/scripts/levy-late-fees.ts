@@ -0,0 +1,33 @@
+// Levies late fees on dues that are past their fee head's grace period. Safe to run as
+// often as you like (e.g. a daily cron): each due is charged at most once, and reruns
+// only raise per-day fees that are still unpaid. POST /api/late-fees/run does the same.
+//
+//   npm run job:late-fees -- [--as-of YYYY-MM-DD] [--dry-run]
+import { storage } from "../storage";
+
+const readFlag = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+async function main() {
+  const asOf = readFlag("as-of");
+  if (asOf !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+    throw new Error("--as-of must be a date in YYYY-MM-DD form.");
+  }
+  const dryRun = process.argv.includes("--dry-run");
+
+  const result = await storage.levyLateFees({ asOf, dryRun });
+
+  result.items
+    .filter((item) => item.action !== "unchanged")
+    .forEach((item) => console.log(`${item.action} due ${item.dueId} (student ${item.studentId}, ${item.label}): ${item.daysLate} days late, ${item.amount.toFixed(2)}`));
+  console.log(`${dryRun ? "[dry run] " : ""}as of ${result.asOf}: ${result.created} created, ${result.updated} updated, ${result.unchanged} unchanged, ${result.total.toFixed(2)} levied.`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
@@ -0,0 +1,119 @@
+// One-off data migration: moves the component amounts that FeeStructureEditor used to
+// store as JSON in fee_structures.description into fee_structure_components, then
+// clears the JSON. Structures that already have components are left alone, so it is
+// safe to rerun. Structures without JSON get a single monthly component for their
+// total, which is what seeding used to fall back to.
+//
+// Run `npm run db:push` first so the table exists, then:
+//   npm run db:migrate:fee-components -- [--dry-run]
+import { eq, inArray } from "drizzle-orm";
+import { dbFinance } from "../db";
+import { feeStructureComponents, feeStructures } from "@shared/finance-only.schema";
+
+type ComponentAmounts = Record<"admission" | "uniform" | "book" | "copy" | "hst_dress" | "monthly", number>;
+
+const toAmount = (value: unknown): number => {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value ?? ""));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+// Accepts both editor shapes: { hosteller: { components: {...} } } and the older flat { hosteller: {...} }.
+const readAmounts = (source: any, fallbackMonthly: number): ComponentAmounts => {
+  const components = source?.components ?? source ?? {};
+  return {
+    admission: toAmount(components.admission),
+    uniform: toAmount(components.uniform),
+    book: toAmount(components.book),
+    copy: toAmount(components.copy),
+    hst_dress: toAmount(components.hstDress ?? components.hst_dress ?? components.extra),
+    monthly: toAmount(components.monthly ?? fallbackMonthly),
+  };
+};
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  const structures = await dbFinance.select().from(feeStructures);
+  const migrated = structures.length
+    ? await dbFinance
+        .selectDistinct({ feeStructureId: feeStructureComponents.feeStructureId })
+        .from(feeStructureComponents)
+        .where(inArray(feeStructureComponents.feeStructureId, structures.map((structure) => structure.id)))
+    : [];
+  const migratedIds = new Set(migrated.map((row) => row.feeStructureId));
+
+  let converted = 0;
+  let fallback = 0;
+  const skipped: string[] = [];
+
+  await dbFinance.transaction(async (tx) => {
+    for (const structure of structures) {
+      if (migratedIds.has(structure.id)) {
+        continue;
+      }
+
+      let parsed: any;
+      if (structure.description) {
+        try {
+          parsed = JSON.parse(structure.description);
+        } catch {
+          parsed = undefined;
+        }
+      }
+
+      const hasJson = Boolean(parsed?.hosteller && parsed?.dayScholar);
+      if (structure.description && !hasJson && parsed !== undefined) {
+        skipped.push(`#${structure.id} (class ${structure.classId}, ${structure.academicYear}): description JSON has no hosteller/dayScholar sections`);
+        continue;
+      }
+
+      const hosteller = hasJson
+        ? readAmounts(parsed.hosteller, toAmount(structure.hostellerAmount))
+        : readAmounts({}, toAmount(structure.hostellerAmount));
+      const dayScholar = hasJson
+        ? readAmounts(parsed.dayScholar, toAmount(structure.dayScholarAmount))
+        : readAmounts({}, toAmount(structure.dayScholarAmount));
+
+      const rows = (Object.keys(hosteller) as Array<keyof ComponentAmounts>)
+        .filter((code) => hosteller[code] > 0 || dayScholar[code] > 0)
+        .map((code) => ({
+          feeStructureId: structure.id,
+          componentCode: code,
+          hostellerAmount: hosteller[code].toFixed(2),
+          dayScholarAmount: dayScholar[code].toFixed(2),
+          frequency: code === "monthly" ? ("monthly" as const) : ("one_time" as const),
+        }));
+
+      if (hasJson) {
+        converted += 1;
+      } else {
+        fallback += 1;
+      }
+      console.log(`#${structure.id} class ${structure.classId} ${structure.academicYear}: ${rows.map((row) => row.componentCode).join(", ") || "no components"}${hasJson ? "" : " (from totals)"}`);
+
+      if (dryRun) {
+        continue;
+      }
+      if (rows.length) {
+        await tx.insert(feeStructureComponents).values(rows).onConflictDoNothing();
+      }
+      // Free-text descriptions are kept; only the JSON that has now been moved is cleared.
+      if (hasJson) {
+        await tx
+          .update(feeStructures)
+          .set({ description: null, updatedAt: new Date() })
+          .where(eq(feeStructures.id, structure.id));
+      }
+    }
+  });
+
+  skipped.forEach((line) => console.warn(`skipped ${line}`));
+  console.log(`${dryRun ? "[dry run] " : ""}${converted} converted from JSON, ${fallback} from totals, ${migratedIds.size} already migrated, ${skipped.length} skipped.`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
@@ -0,0 +1,91 @@
+// One-off data migration: seeds fee_heads with the charges that used to be hard-coded
+// in the due_item enum, then points existing student_dues at their head. Heads that
+// already exist are left as the admin configured them, so it is safe to rerun.
+//
+// Run `npm run db:push` first so the table and the student_dues.fee_head_id column exist, then:
+//   npm run db:migrate:fee-heads -- [--dry-run]
+import { and, eq, isNull, sql } from "drizzle-orm";
+import { dbFinance } from "../db";
+import { feeHeads, studentDues } from "@shared/finance-only.schema";
+
+type DefaultHead = {
+  code: string;
+  label: string;
+  frequency: "one_time" | "monthly";
+  appliesToDayScholars?: boolean;
+};
+
+const defaultHeads: DefaultHead[] = [
+  { code: "admission", label: "Admission Fee", frequency: "one_time" },
+  { code: "registration", label: "Registration Fee", frequency: "one_time" },
+  { code: "uniform", label: "Uniform Fee", frequency: "one_time" },
+  { code: "book", label: "Book Fee", frequency: "one_time" },
+  { code: "copy", label: "Notebook Fee", frequency: "one_time" },
+  { code: "hst_dress", label: "Hostel Dress Fee", frequency: "one_time", appliesToDayScholars: false },
+  { code: "monthly", label: "Monthly Fee", frequency: "monthly" },
+  { code: "misc", label: "Other Fee", frequency: "one_time" },
+];
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  const existing = await dbFinance.select({ code: feeHeads.code }).from(feeHeads);
+  const existingCodes = new Set(existing.map((head) => head.code));
+  const missing = defaultHeads.filter((head) => !existingCodes.has(head.code));
+
+  const [unlinked] = await dbFinance
+    .select({ count: sql<number>`COUNT(*)::int` })
+    .from(studentDues)
+    .where(isNull(studentDues.feeHeadId));
+
+  missing.forEach((head) => console.log(`seed ${head.code}: ${head.label} (${head.frequency})`));
+
+  if (dryRun) {
+    console.log(`[dry run] ${missing.length} heads to seed, ${existingCodes.size} already present, ${unlinked?.count ?? 0} dues without a head.`);
+    return;
+  }
+
+  let linked = 0;
+  await dbFinance.transaction(async (tx) => {
+    if (missing.length) {
+      await tx
+        .insert(feeHeads)
+        .values(missing.map((head) => ({
+          code: head.code,
+          label: head.label,
+          frequency: head.frequency,
+          appliesToHostellers: true,
+          appliesToDayScholars: head.appliesToDayScholars ?? true,
+          sortOrder: defaultHeads.indexOf(head) * 10,
+        })))
+        .onConflictDoNothing();
+    }
+
+    const heads = await tx.select({ id: feeHeads.id, code: feeHeads.code }).from(feeHeads);
+    for (const head of heads) {
+      const updated = await tx
+        .update(studentDues)
+        .set({ feeHeadId: head.id })
+        .where(and(isNull(studentDues.feeHeadId), eq(studentDues.itemType, head.code)))
+        .returning({ id: studentDues.id });
+      linked += updated.length;
+    }
+  });
+
+  const [stillUnlinked] = await dbFinance
+    .select({ count: sql<number>`COUNT(*)::int` })
+    .from(studentDues)
+    .where(isNull(studentDues.feeHeadId));
+  if (stillUnlinked?.count) {
+    console.warn(`${stillUnlinked.count} dues have an item type with no matching fee head; add the head and rerun.`);
+  }
+
+  console.log(`${missing.length} heads seeded, ${existingCodes.size} already present, ${linked} dues linked.`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
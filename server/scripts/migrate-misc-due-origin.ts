@@ -0,0 +1,50 @@
+// One-off data migration: points misc dues that recordPayment raised inline at the receipt
+// that raised them (student_dues.raised_by_payment_id). Both rows were inserted in the same
+// transaction, so they share created_at; late fees and bounce charges never do. Dues that
+// already have an origin are left alone, so it is safe to rerun.
+//
+// Run `npm run db:push` first so the column exists, then:
+//   npm run db:migrate:misc-due-origin -- [--dry-run]
+import { and, asc, eq, isNull } from "drizzle-orm";
+import { dbFinance } from "../db";
+import { paymentAllocations, payments, studentDues } from "@shared/finance-only.schema";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  const rows = await dbFinance
+    .selectDistinctOn([studentDues.id], { id: studentDues.id, paymentId: paymentAllocations.paymentId })
+    .from(studentDues)
+    .innerJoin(paymentAllocations, eq(paymentAllocations.dueId, studentDues.id))
+    .innerJoin(payments, eq(payments.id, paymentAllocations.paymentId))
+    .where(and(
+      eq(studentDues.itemType, "misc"),
+      isNull(studentDues.raisedByPaymentId),
+      isNull(studentDues.lateFeeForDueId),
+      eq(payments.createdAt, studentDues.createdAt),
+    ))
+    .orderBy(asc(studentDues.id), asc(paymentAllocations.paymentId));
+
+  if (dryRun) {
+    console.log(`[dry run] ${rows.length} misc dues to link to the receipt that raised them.`);
+    return;
+  }
+
+  await dbFinance.transaction(async (tx) => {
+    for (const row of rows) {
+      await tx
+        .update(studentDues)
+        .set({ raisedByPaymentId: row.paymentId })
+        .where(eq(studentDues.id, row.id));
+    }
+  });
+
+  console.log(`${rows.length} misc dues linked to the receipt that raised them.`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
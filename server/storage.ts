@@ -34,10 +34,39 @@ import {
   studentAccounts,
   studentDues,
   paymentAllocations,
+  paymentTenders,
+  paymentRefunds,
+  studentCredits,
+  receiptSequences,
+  feeHeads,
+  feeStructureComponents,
+  concessionTypes,
+  studentConcessions,
+  dueConcessions,
+  writeOffs,
+  writeOffLines,
+  studentStatusChanges,
+  studentExits,
+  depositEntries,
+  families,
+  familyMembers,
+  type ConcessionType,
+  type InsertConcessionType,
+  type StudentConcession,
+  type FeeHead,
+  type InsertFeeHead,
+  type FeeStructureComponent,
   type StudentAccount,
   type StudentDue,
   type PaymentAllocation,
   type InsertPaymentAllocation,
+  type PaymentRefund,
+  type PaymentTender,
+  type WriteOff,
+  type StudentStatusChange,
+  type StudentExit,
+  type DepositEntry,
+  type Family,
 } from "@shared/finance-only.schema";
 
 const db = dbFinance;
@@ -78,6 +107,53 @@ const getAcademicYearMonths = (academicYear: string): string[] => {
   return months;
 };
 
+export type BillingSchedule = 'one_time' | 'monthly' | 'termly' | 'quarterly' | 'half_yearly' | 'annual' | 'custom';
+
+// Months per period for the fixed schedules; terms are four months (April, August, December).
+const billingPeriodLengths: Record<Exclude<BillingSchedule, 'one_time' | 'custom'>, number> = {
+  monthly: 1,
+  termly: 4,
+  quarterly: 3,
+  half_yearly: 6,
+  annual: 12,
+};
+
+type BillingPeriod = {
+  startMonth: string;
+  endMonth: string;
+  dueDate: string;
+};
+
+// Splits the academic year into the periods a recurring schedule bills. Custom schedules
+// bill each listed calendar month on its own. Each period falls due on dueDay of its first month.
+const getBillingPeriods = (
+  academicYear: string,
+  schedule: BillingSchedule,
+  customMonths?: number[] | null,
+  dueDay = 1,
+): BillingPeriod[] => {
+  const months = getAcademicYearMonths(academicYear);
+  const day = String(Math.min(Math.max(Math.trunc(dueDay) || 1, 1), 28)).padStart(2, '0');
+  const toPeriod = (startMonth: string, endMonth: string): BillingPeriod => ({ startMonth, endMonth, dueDate: `${startMonth}-${day}` });
+
+  if (schedule === 'one_time') {
+    return [];
+  }
+  if (schedule === 'custom') {
+    const selected = new Set(customMonths ?? []);
+    return months
+      .filter((month) => selected.has(Number(month.slice(5, 7))))
+      .map((month) => toPeriod(month, month));
+  }
+
+  const length = billingPeriodLengths[schedule];
+  const periods: BillingPeriod[] = [];
+  for (let index = 0; index < months.length; index += length) {
+    periods.push(toPeriod(months[index], months[Math.min(index + length, months.length) - 1]));
+  }
+  return periods;
+};
+
 const asNumber = (value: unknown, fallback = 0): number => {
   if (typeof value === 'number' && Number.isFinite(value)) return value;
   if (value === null || value === undefined) return fallback;
@@ -91,6 +167,262 @@ const asNumber = (value: unknown, fallback = 0): number => {
 
 const toDecimalString = (value: number): string => value.toFixed(2);
 
+// Money that is added up and compared is kept in integer paise so repeated
+// float additions cannot drift past the 0.01 tolerances.
+const toPaise = (value: unknown): number => Math.round(asNumber(value, 0) * 100);
+
+const fromPaise = (paise: number): string => (paise / 100).toFixed(2);
+
+const resolveDueStatus = (amount: number, paidAmount: number): 'due' | 'partial' | 'paid' => {
+  if (paidAmount >= amount - 0.01) return 'paid';
+  if (paidAmount > 0.009) return 'partial';
+  return 'due';
+};
+
+const isOpenDueStatus = (status: string): boolean =>
+  status === 'due' || status === 'partial' || status === 'overdue';
+
+// Dues settled by something other than payment. Taking money back off them would reopen a
+// debt that was written off, waived, split or carried forward, so reversals refuse instead.
+const settledDueReasons: Record<string, string> = {
+  written_off: 'has been written off',
+  waived: 'has been waived',
+  split: 'is paid in installments',
+  carried_forward: "was carried forward to the next year's arrears",
+};
+
+const assertDueReversible = (due: { id: number; status: string }) => {
+  const reason = settledDueReasons[due.status];
+  if (reason) {
+    throw new Error(`Due entry ${due.id} ${reason}; undo that before reversing payments made towards it.`);
+  }
+};
+
+// Whole days from one YYYY-MM-DD date to another.
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+
+// What a head's late-fee policy charges for a due that is daysLate days past its due date.
+const computeLateFee = (
+  policy: { lateFeeType: string; lateFeeAmount: string | number; lateFeeCap: string | number | null; lateFeeGraceDays: number },
+  daysLate: number,
+): number => {
+  const chargeableDays = daysLate - policy.lateFeeGraceDays;
+  if (policy.lateFeeType === 'none' || chargeableDays <= 0) {
+    return 0;
+  }
+  const rate = toPaise(policy.lateFeeAmount);
+  let paise = policy.lateFeeType === 'per_day' ? rate * chargeableDays : rate;
+  if (policy.lateFeeCap !== null && policy.lateFeeCap !== undefined) {
+    paise = Math.min(paise, toPaise(policy.lateFeeCap));
+  }
+  return Math.max(0, paise) / 100;
+};
+
+// headLabels maps fee head codes to their display labels (see getFeeHeadLabels).
+const buildDueLabel = (
+  due: { itemType: string; dueMonth?: string | null; periodEndMonth?: string | null; notes?: string | null; installmentNumber?: number | null },
+  headLabels: Map<string, string>,
+): string => {
+  if ((due.itemType === 'misc' || due.itemType === 'arrears') && due.notes) {
+    return due.notes;
+  }
+  const head = headLabels.get(due.itemType) ?? due.itemType.replace(/_/g, ' ');
+  const base = due.installmentNumber ? `${head} – Installment ${due.installmentNumber}` : head;
+  if (!due.dueMonth) {
+    return base;
+  }
+  const formatMonth = (value: string) => {
+    const [y, m] = value.split('-');
+    const date = new Date(Number(y), Number(m) - 1, 1);
+    return Number.isNaN(date.getTime())
+      ? value
+      : date.toLocaleDateString('en-IN', { month: 'short', year: 'numeric' });
+  };
+  const period = due.periodEndMonth && due.periodEndMonth !== due.dueMonth
+    ? `${formatMonth(due.dueMonth)} – ${formatMonth(due.periodEndMonth)}`
+    : formatMonth(due.dueMonth);
+  return `${base} (${period})`;
+};
+
+type ApplicableConcession = {
+  studentConcessionId: number;
+  kind: 'percentage' | 'fixed';
+  value: string;
+  feeHeadCodes: string[] | null;
+  validFrom: string | null;
+  validTo: string | null;
+};
+
+// What a student's approved concessions take off one due, in paise. Percentages are taken
+// on the gross amount before fixed amounts, and together they never exceed the gross.
+const applyConcessions = (
+  grossPaise: number,
+  headCode: string,
+  dueDate: string | null,
+  concessions: ApplicableConcession[],
+) => {
+  const matching = concessions
+    .filter((concession) => !concession.feeHeadCodes?.length || concession.feeHeadCodes.includes(headCode))
+    .filter((concession) => !dueDate || (
+      (!concession.validFrom || concession.validFrom <= dueDate)
+      && (!concession.validTo || concession.validTo >= dueDate)
+    ))
+    .sort((a, b) => Number(a.kind === 'fixed') - Number(b.kind === 'fixed'));
+
+  let remaining = grossPaise;
+  const lines: Array<{ studentConcessionId: number; paise: number }> = [];
+  for (const concession of matching) {
+    const wanted = concession.kind === 'percentage'
+      ? Math.round((grossPaise * asNumber(concession.value, 0)) / 100)
+      : toPaise(concession.value);
+    const paise = Math.min(wanted, remaining);
+    if (paise <= 0) continue;
+    lines.push({ studentConcessionId: concession.studentConcessionId, paise });
+    remaining -= paise;
+  }
+
+  return { netPaise: remaining, concessionPaise: grossPaise - remaining, lines };
+};
+
+// A due worked out from the fee structure, with the concession lines to record once inserted.
+type PlannedDue = {
+  record: typeof studentDues.$inferInsert;
+  concessionLines: Array<{ studentConcessionId: number; paise: number }>;
+};
+
+// Net advance held in student_credits: credits minus debits for the selected rows.
+const creditBalanceSql = () =>
+  sql<string>`COALESCE(SUM(CASE WHEN ${studentCredits.entryType} = 'credit' THEN ${studentCredits.amount} ELSE -${studentCredits.amount} END), 0)`;
+
+// Caution deposits held for a student: collections less deductions, refunds and reversals.
+const summarizeDepositEntries = (entries: DepositEntry[]) => {
+  const paise = { collected: 0, deducted: 0, refunded: 0, reversed: 0 };
+  entries.forEach((entry) => {
+    paise[entry.entryType] += toPaise(entry.amount);
+  });
+  return {
+    collected: paise.collected / 100,
+    deducted: paise.deducted / 100,
+    refunded: paise.refunded / 100,
+    reversed: paise.reversed / 100,
+    held: (paise.collected - paise.deducted - paise.refunded - paise.reversed) / 100,
+  };
+};
+
+// Marks allocations applyAccountCredit books when a payment's advance later settles a due.
+// The advance was already on that payment's receipt, so these lines are not printed again.
+export const CREDIT_SETTLEMENT_NOTE = 'Settled from advance credit';
+
+export const allocationStrategies = ['oldest_month_first', 'one_time_first', 'monthly_only'] as const;
+export type AllocationStrategy = (typeof allocationStrategies)[number];
+
+type AllocatableDue = {
+  id: number;
+  dueType: string;
+  itemType: string;
+  label: string;
+  dueMonth: string | null;
+  periodEndMonth?: string | null;
+  dueDate?: string | null;
+  notes?: string | null;
+  amount: string | number;
+  paidAmount: string | number;
+  status: string;
+};
+
+// Orders open dues for a strategy and fills them greedily with the given amount. Amounts are
+// worked in paise so the preview splits exactly as recordPayment will store it.
+const planAllocation = (dues: AllocatableDue[], amount: number, strategy: AllocationStrategy) => {
+  const open = dues.filter((due) => (
+    isOpenDueStatus(due.status)
+    && toPaise(due.amount) - toPaise(due.paidAmount) > 0
+  ));
+
+  // One-time dues have no month; they take their place in the queue from their due date.
+  const monthKey = (due: AllocatableDue) => due.dueMonth ?? due.dueDate?.slice(0, 7) ?? '';
+  const byMonthThenId = (a: AllocatableDue, b: AllocatableDue) =>
+    monthKey(a).localeCompare(monthKey(b))
+    || (a.dueDate ?? '').localeCompare(b.dueDate ?? '')
+    || a.id - b.id;
+
+  let ordered: AllocatableDue[];
+  if (strategy === 'monthly_only') {
+    ordered = open.filter((due) => due.dueType === 'monthly').sort(byMonthThenId);
+  } else if (strategy === 'one_time_first') {
+    const oneTime = open.filter((due) => due.dueType === 'one_time').sort((a, b) => a.id - b.id);
+    const recurring = open.filter((due) => due.dueType !== 'one_time').sort(byMonthThenId);
+    ordered = [...oneTime, ...recurring];
+  } else {
+    ordered = [...open].sort(byMonthThenId);
+  }
+
+  const amountPaise = toPaise(amount);
+  let remaining = amountPaise;
+  const allocations: AllocationPreviewLine[] = [];
+
+  for (const due of ordered) {
+    if (remaining <= 0) break;
+    const balance = toPaise(due.amount) - toPaise(due.paidAmount);
+    const portion = Math.min(balance, remaining);
+    allocations.push({
+      dueId: due.id,
+      label: due.label,
+      category: due.itemType,
+      dueType: due.dueType,
+      dueMonth: due.dueMonth,
+      balance: balance / 100,
+      amount: portion / 100,
+    });
+    remaining -= portion;
+  }
+
+  return {
+    allocations,
+    allocatedTotal: (amountPaise - remaining) / 100,
+    remainder: remaining / 100,
+  };
+};
+
+// Override with RECEIPT_NUMBER_FORMAT; {year} is the academic year code and {seq:N}
+// the per-year counter zero-padded to N digits.
+const DEFAULT_RECEIPT_NUMBER_FORMAT = 'MPS/{year}/{seq:6}';
+
+const formatReceiptNumber = (academicYear: string, sequence: number): string => {
+  let format = process.env.RECEIPT_NUMBER_FORMAT?.trim() || DEFAULT_RECEIPT_NUMBER_FORMAT;
+  if (!/\{seq(?::\d+)?\}/.test(format)) {
+    format = `${format}{seq:6}`;
+  }
+  return format
+    .replace(/\{year\}/g, academicYear)
+    .replace(/\{seq(?::(\d+))?\}/g, (_match, width?: string) => String(sequence).padStart(width ? Number(width) : 0, '0'));
+};
+
+// No-dues certificates are numbered by their exit record, so a number is never reused.
+const formatClearanceCertificateNumber = (academicYear: string, exitId: number): string =>
+  `NDC/${academicYear}/${String(exitId).padStart(5, '0')}`;
+
+// Override with DUPLICATE_PAYMENT_WINDOW_MINUTES; a matching payment recorded within this
+// many minutes is reported as a possible double entry.
+const DEFAULT_DUPLICATE_PAYMENT_WINDOW_MINUTES = 10;
+
+const getDuplicatePaymentWindowMinutes = (): number => {
+  const configured = Number(process.env.DUPLICATE_PAYMENT_WINDOW_MINUTES);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_DUPLICATE_PAYMENT_WINDOW_MINUTES;
+};
+
+// Guardian details are typed in by hand, so matching ignores formatting: phones compare on
+// their last ten digits and names case- and spacing-insensitively.
+const normalizeGuardianPhone = (phone: string | null | undefined): string | null => {
+  const digits = (phone ?? '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : null;
+};
+
+const normalizeGuardianName = (name: string | null | undefined): string | null => {
+  const normalized = (name ?? '').toLowerCase().replace(/[^a-z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+  return normalized.length >= 3 ? normalized : null;
+};
+
 const buildLedgerNumber = (admissionNumber: string | null, studentId: number): string => {
   if (admissionNumber && admissionNumber.trim()) {
     return admissionNumber.replace(/^MPS/i, 'LEDGER');
@@ -99,12 +431,17 @@ const buildLedgerNumber = (admissionNumber: string | null, studentId: number): s
 };
 
 type StudentDuesFilter = {
+  // A stored status, or 'overdue' for open dues past their due date ('due' and 'partial' include those).
   status?: string;
+  // A billing schedule, or 'recurring' for every schedule except one_time.
   dueType?: string;
   classId?: number;
   studentId?: number;
+  // Matches dues whose billing period covers this YYYY-MM month.
   month?: string;
   academicYear?: string;
+  // Only dues created by splitting a one-time due into installments.
+  installmentsOnly?: boolean;
 };
 
 type StudentDueRecord = {
@@ -113,11 +450,23 @@ type StudentDueRecord = {
   accountId: number;
   dueType: string;
   itemType: string;
+  feeHeadId: number | null;
+  label: string;
   academicYear: string;
   dueMonth: string | null;
+  periodEndMonth: string | null;
+  dueDate: string | null;
   amount: string;
   paidAmount: string;
+  grossAmount: string | null;
+  concessionAmount: string;
+  // Open dues past their due date are reported as 'overdue' rather than 'due'/'partial'.
   status: string;
+  lateFeeForDueId: number | null;
+  installmentOfDueId: number | null;
+  installmentNumber: number | null;
+  waivedAmount: string;
+  writtenOffAmount: string;
   notes?: string | null;
   studentName?: string;
   className?: string;
@@ -125,6 +474,11 @@ type StudentDueRecord = {
   isHosteller?: boolean;
 };
 
+// A head's code is what components and dues refer to, so it cannot be changed.
+type UpdateFeeHeadInput = Partial<Omit<InsertFeeHead, 'code'>>;
+
+type UpdateConcessionTypeInput = Partial<Omit<InsertConcessionType, 'code'>>;
+
 type CreateAcademicYearInput = {
   code: string;
   name?: string;
@@ -133,19 +487,69 @@ type CreateAcademicYearInput = {
   isActive?: boolean;
   isCurrent?: boolean;
 };
-import { eq, desc, and, sum, count, sql, inArray } from "drizzle-orm";
+
+// Another year stops being current when this one becomes current, so isCurrent can only be set.
+type UpdateAcademicYearInput = Partial<Omit<CreateAcademicYearInput, 'code' | 'isCurrent'>> & {
+  isCurrent?: true;
+};
+import { eq, desc, asc, and, sum, count, sql, inArray, notInArray, ne, gte, or } from "drizzle-orm";
 import { neon } from '@neondatabase/serverless';
 
+export type FeeStructureComponentInput = {
+  // Fee head code; the frequency defaults to the head's.
+  code: string;
+  hostellerAmount: number | string;
+  dayScholarAmount: number | string;
+  frequency?: BillingSchedule;
+};
+
+export type FeeStructureUpsertItem = InsertFeeStructure & {
+  components?: FeeStructureComponentInput[];
+};
+
+export type FeeStructureWithComponents = FeeStructure & {
+  components: FeeStructureComponent[];
+};
+
+export type FeeStructureDiffField = 'hostellerAmount' | 'dayScholarAmount' | 'description' | 'isActive' | 'frequency';
+
+export type FeeStructureDiffEntry = {
+  id: number | null;
+  classId: number;
+  academicYear: string;
+  feeType: string;
+  action: 'created' | 'updated' | 'unchanged';
+  // Component-level changes carry the component code; structure-level ones leave it unset.
+  changes: Array<{ field: FeeStructureDiffField; component?: string; before: string | boolean | null; after: string | boolean | null }>;
+};
+
+export type FeeStructureBulkUpsertResult = {
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  unchanged: number;
+  items: FeeStructureDiffEntry[];
+};
+
 export type StudentFinanceDue = {
   id: number;
   dueType: string;
   itemType: string;
   label: string;
   dueMonth?: string | null;
+  periodEndMonth?: string | null;
+  dueDate?: string | null;
   amount: number;
   paidAmount: number;
   balance: number;
+  grossAmount?: number | null;
+  concessionAmount?: number;
   status: string;
+  lateFeeForDueId?: number | null;
+  installmentOfDueId?: number | null;
+  installmentNumber?: number | null;
+  waivedAmount?: number;
+  writtenOffAmount?: number;
   notes?: string | null;
 };
 
@@ -170,6 +574,11 @@ export type StudentFinanceSummary = {
     fullyPaid: number;
     partialCount: number;
     dueCount: number;
+    overdueCount: number;
+    // Balances cleared by approved write-offs; already excluded from outstanding.
+    writtenOff: number;
+    refunded: number;
+    creditBalance: number;
   };
   buckets: {
     oneTime: StudentFinanceDue[];
@@ -186,6 +595,42 @@ export type PaymentAllocationInput = {
   notes?: string;
 };
 
+export type AllocationPreviewLine = {
+  dueId: number;
+  label: string;
+  category: string;
+  dueType: string;
+  dueMonth: string | null;
+  balance: number;
+  amount: number;
+};
+
+export type AllocationPreview = {
+  studentId: number;
+  academicYear: string;
+  strategy: AllocationStrategy;
+  amount: number;
+  allocations: AllocationPreviewLine[];
+  allocatedTotal: number;
+  remainder: number;
+};
+
+export type PreviewAllocationInput = {
+  studentId: number;
+  amount: number;
+  strategy?: AllocationStrategy;
+  academicYear?: string;
+};
+
+export type PaymentTenderInput = {
+  method: string;
+  amount: number;
+  referenceNumber?: string | null;
+  bankName?: string | null;
+  chequeNumber?: string | null;
+  chequeDate?: string | null;
+};
+
 export type RecordPaymentInput = {
   studentId: number;
   paymentDate: string;
@@ -193,25 +638,198 @@ export type RecordPaymentInput = {
   referenceNumber?: string | null;
   remarks?: string | null;
   allocations: PaymentAllocationInput[];
+  tenders?: PaymentTenderInput[];
+  advanceAmount?: number;
+  // Refundable caution deposit taken with this payment; it is held, not allocated to dues.
+  depositAmount?: number;
+  // Lets the allocations settle dues of the student's siblings in this family on the same receipt.
+  familyId?: number;
+  autoAllocate?: boolean;
+  amount?: number;
+  strategy?: AllocationStrategy;
   academicYear: string;
   createdBy?: number;
   verify?: boolean;
+  idempotencyKey?: string | null;
 };
 
-export type PaymentAllocationSummaryRecord = {
+export type RecordPaymentResult = {
+  payment: Payment;
+  allocations: PaymentAllocation[];
+  tenders: PaymentTender[];
+  advance: string;
+  summary: StudentFinanceSummary | null;
+  // True when the idempotency key matched an earlier payment and nothing new was written.
+  replayed?: boolean;
+};
+
+export type DuplicatePaymentSuspect = {
+  id: number;
+  receiptNumber: string | null;
+  amount: string;
+  paymentMethod: string;
+  paymentDate: string;
+  status: string;
+  createdAt: string;
+};
+
+export type VoidPaymentInput = {
+  reason: string;
+  voidedBy?: number;
+};
+
+export type RefundPaymentInput = {
+  amount: number;
+  refundMethod: 'cash' | 'bank' | 'upi';
+  allocationId?: number;
+  referenceNumber?: string | null;
+  reason?: string | null;
+  refundedAt?: string;
+  refundedBy?: number;
+};
+
+export type PaymentRefundSummaryRecord = {
   id: number;
   paymentId: number;
-  dueId?: number | null;
-  label?: string | null;
-  category?: string | null;
+  allocationId?: number | null;
   amount: string;
-  notes?: string | null;
+  refundMethod: string;
+  referenceNumber?: string | null;
+  reason?: string | null;
+  refundedAt: string;
 };
 
-export type PaymentReceipt = {
-  payment: Payment;
-  allocations: PaymentAllocationSummaryRecord[];
-  student?: {
+export type PaymentTenderSummaryRecord = {
+  id: number;
+  paymentId: number;
+  method: string;
+  amount: string;
+  referenceNumber?: string | null;
+  bankName?: string | null;
+  chequeNumber?: string | null;
+  chequeDate?: string | null;
+  chequeStatus?: ChequeStatus | null;
+  depositDate?: string | null;
+  clearanceDate?: string | null;
+  bouncedAt?: string | null;
+  bounceReason?: string | null;
+};
+
+export type ChequeStatus = 'received' | 'deposited' | 'cleared' | 'bounced';
+
+export type ChequeFilters = {
+  status?: ChequeStatus | 'pending';
+  academicYear?: string;
+};
+
+export type ChequeRecord = PaymentTenderSummaryRecord & {
+  studentId: number;
+  studentName: string;
+  className: string;
+  paymentDate: string;
+  paymentStatus: string;
+  receiptNumber: string | null;
+  academicYear: string | null;
+};
+
+export type ChequeTransitionInput = {
+  date?: string;
+  actedBy?: number;
+};
+
+export type BounceChequeInput = ChequeTransitionInput & {
+  reason: string;
+  bounceCharge?: number;
+};
+
+export type LevyLateFeesInput = {
+  // YYYY-MM-DD; defaults to today.
+  asOf?: string;
+  dryRun?: boolean;
+};
+
+export type LateFeeLine = {
+  dueId: number;
+  lateFeeDueId: number | null;
+  studentId: number;
+  label: string;
+  dueDate: string;
+  daysLate: number;
+  amount: number;
+  action: 'created' | 'updated' | 'unchanged';
+};
+
+export type LevyLateFeesResult = {
+  asOf: string;
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  unchanged: number;
+  total: number;
+  items: LateFeeLine[];
+};
+
+export type WaiveDueInput = {
+  reason: string;
+};
+
+export type StudentStatusChangeInput = {
+  classId?: number;
+  isHosteller?: boolean;
+  // YYYY-MM within the account's year; billing periods starting from this month are repriced.
+  effectiveMonth: string;
+  reason?: string;
+  changedBy?: number;
+  dryRun?: boolean;
+};
+
+export type StudentStatusChangeLine = StudentStatusChange['lines'][number];
+
+export type StudentStatusChangeResult = {
+  // Null on a dry run, which only reports the lines.
+  change: StudentStatusChange | null;
+  lines: StudentStatusChangeLine[];
+  amountChange: number;
+  summary: StudentFinanceSummary | null;
+};
+
+export type StudentExitInput = {
+  // YYYY-MM-DD within the account's year; recurring dues for later months are cancelled.
+  leavingDate: string;
+  reason?: string;
+  processedBy?: number;
+  dryRun?: boolean;
+};
+
+export type StudentExitLine = StudentExit['lines'][number];
+
+export type StudentExitSettlement = {
+  // Unpaid balance left on the account's open dues.
+  outstanding: number;
+  // Advance still held for the student.
+  creditBalance: number;
+  // Collected against periods after the leaving month; refundable against those allocations,
+  // and like credit it has to be refunded before clearance.
+  prepaidAfterLeaving: number;
+  // Caution deposit still held; it has to be refunded or deducted before clearance.
+  depositHeld: number;
+  // Positive when the student still owes, negative when the school owes them.
+  balance: number;
+  cleared: boolean;
+};
+
+export type StudentExitResult = {
+  // Null on a dry run, which only reports the lines and the settlement.
+  exit: StudentExit | null;
+  lines: StudentExitLine[];
+  settlement: StudentExitSettlement;
+  summary: StudentFinanceSummary | null;
+};
+
+export type StudentExitRecord = {
+  exit: StudentExit;
+  settlement: StudentExitSettlement;
+  student: {
     id: number;
     name: string;
     admissionNumber?: string | null;
@@ -220,80 +838,500 @@ export type PaymentReceipt = {
     className?: string | null;
     classSection?: string | null;
   };
-  summary: StudentFinanceSummary | null;
 };
 
-export interface IStorage {
-  // Academic Years
-  getAcademicYears(): Promise<AcademicYear[]>;
-  createAcademicYear(input: CreateAcademicYearInput): Promise<AcademicYear>;
-
-  getUser(id: number): Promise<User | undefined>;
-  getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
-  
-  // Students
-  getStudents(academicYear?: string): Promise<Student[]>;
-  getStudent(id: number): Promise<Student | undefined>;
-  createStudent(student: InsertStudent): Promise<Student>;
-  updateStudent(id: number, updates: Partial<InsertStudent>): Promise<Student | undefined>;
-  markStudentLeft(id: number): Promise<Student | undefined>;
-  openStudentAccount(studentId: number, options?: { academicYear?: string; reopen?: boolean; isNewAdmission?: boolean; }): Promise<{ account: StudentAccount; duesCreated: number; }>;
-  getStudentDues(filters?: StudentDuesFilter): Promise<StudentDueRecord[]>;
-  getStudentFinanceSummary(studentId: number, academicYear?: string): Promise<StudentFinanceSummary | null>;
-  
-  // Classes
-  getClasses(): Promise<Class[]>;
-  
-  // Fee Structures
-  getFeeStructures(academicYear?: string): Promise<FeeStructure[]>;
-  createFeeStructure(feeStructure: InsertFeeStructure): Promise<FeeStructure>;
-  
-  // Student Fees
-  getStudentFees(studentId?: number, classId?: number): Promise<StudentFee[]>;
-  createStudentFee(studentFee: InsertStudentFee): Promise<StudentFee>;
-  
-  // Payments
-  getPayments(studentId?: number, limit?: number, academicYear?: string): Promise<Payment[]>;
-  getPaymentWithAllocations(id: number): Promise<PaymentReceipt | null>;
-  createPayment(payment: InsertPayment): Promise<Payment>;
-  recordPayment(payload: RecordPaymentInput): Promise<{ payment: Payment; allocations: PaymentAllocation[]; summary: StudentFinanceSummary | null; }>;
-  verifyPayment(id: number, verifiedBy: number): Promise<Payment | undefined>;
-  
-  // Transport Fees
-  getTransportFees(academicYear?: string): Promise<TransportFee[]>;
-  createTransportFee(transportFee: InsertTransportFee): Promise<TransportFee>;
-  
-  // Dashboard
-  getDashboardStats(academicYear: string): Promise<any>;
-  getCollectionTrend(academicYear: string): Promise<any>;
-  getClassCollections(academicYear: string): Promise<any>;
-  getFeeStructureOverview(academicYear: string): Promise<any>;
-  getPendingActions(): Promise<any>;
-  
-  // Excel Import
-  createExcelImport(excelImport: InsertExcelImport): Promise<ExcelImport>;
-}
+export type DepositDeductionInput = {
+  amount: number;
+  // What the deduction covers, e.g. the damage charged.
+  reason: string;
+  recordedBy?: number;
+};
 
-export class DatabaseStorage implements IStorage {
-  async getAcademicYears(): Promise<AcademicYear[]> {
-    try {
-      const years = await db
-        .select()
-        .from(academicYears)
-        .orderBy(desc(academicYears.isCurrent), desc(academicYears.code));
-      return years;
-    } catch (error) {
-      console.error('[finance] Failed to fetch academic years', error);
-      throw error;
-    }
-  }
+export type DepositRefundInput = {
+  // Defaults to the whole balance held.
+  amount?: number;
+  refundMethod: 'cash' | 'bank' | 'upi';
+  referenceNumber?: string;
+  reason?: string;
+  recordedBy?: number;
+};
 
-  async createAcademicYear(input: CreateAcademicYearInput): Promise<AcademicYear> {
-    const code = input.code?.trim();
-    if (!code) {
-      throw new Error('Academic year code is required.');
-    }
+export type StudentDepositSummary = ReturnType<typeof summarizeDepositEntries> & {
+  studentId: number;
+  entries: DepositEntry[];
+};
+
+export type DepositsHeldRow = {
+  studentId: number;
+  studentName?: string;
+  className?: string;
+  collected: number;
+  deducted: number;
+  refunded: number;
+  held: number;
+  lastCollectedAt: string | null;
+};
+
+export type DepositsHeldReport = {
+  rows: DepositsHeldRow[];
+  totalHeld: number;
+  totalCollected: number;
+  totalDeducted: number;
+  totalRefunded: number;
+};
+
+export type FamilyInput = {
+  // Defaults to "<guardian name> family", or the first child's name when there is none.
+  name?: string;
+  guardianName?: string | null;
+  guardianPhone?: string | null;
+  notes?: string | null;
+  studentIds: number[];
+  createdBy?: number;
+};
+
+export type FamilyUpdate = Partial<Omit<FamilyInput, 'createdBy'>>;
+
+export type FamilyMemberRecord = {
+  studentId: number;
+  name: string;
+  className?: string;
+};
+
+export type FamilyRecord = Family & {
+  members: FamilyMemberRecord[];
+};
+
+export type FamilyStatementPayment = {
+  id: number;
+  receiptNumber: string | null;
+  // The child the receipt was recorded against; its allocations may cover siblings too.
+  studentId: number;
+  studentName?: string;
+  paymentDate: string;
+  amount: number;
+  status: string;
+};
+
+export type FamilyStatement = {
+  family: FamilyRecord;
+  children: StudentFinanceSummary[];
+  totals: {
+    outstanding: number;
+    overdueCount: number;
+    writtenOff: number;
+    refunded: number;
+    creditBalance: number;
+  };
+  payments: FamilyStatementPayment[];
+};
+
+export type FamilySuggestion = {
+  matchedOn: 'guardian_phone' | 'guardian_name';
+  guardianName: string | null;
+  guardianPhone: string | null;
+  students: Array<FamilyMemberRecord & { familyId: number | null }>;
+  // The one family some of these students already belong to, which the rest could join.
+  familyId: number | null;
+};
+
+export type StatementRange = {
+  // YYYY-MM-DD, inclusive. Without from the statement starts at the first entry.
+  from?: string;
+  // Defaults to today, so dues falling due later are left out.
+  to?: string;
+};
+
+export type StudentStatementEntryType =
+  | 'due'
+  | 'payment'
+  | 'waiver'
+  | 'write_off'
+  | 'carried_forward'
+  | 'refund'
+  | 'reversal';
+
+export type StudentStatementEntry = {
+  date: string;
+  type: StudentStatementEntryType;
+  description: string;
+  // Receipt number for payment, refund and reversal entries.
+  reference: string | null;
+  dueId?: number;
+  paymentId?: number;
+  debit: number;
+  credit: number;
+  // What the student owes after this entry; negative when the school holds their money.
+  balance: number;
+  // How a payment was applied to the student's dues; informational, already in credit.
+  allocations?: Array<{ dueId: number | null; label: string; amount: number }>;
+};
+
+export type StudentStatement = {
+  student: StudentFinanceSummary['student'];
+  from: string | null;
+  to: string;
+  openingBalance: number;
+  entries: StudentStatementEntry[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+};
+
+export type InstallmentPlanInput = {
+  // In the order they fall due; the amounts must add up to the due's unpaid balance.
+  installments: Array<{ dueDate: string; amount: number }>;
+};
+
+export type InstallmentPlanResult = {
+  due: StudentDue;
+  installments: StudentDue[];
+  summary: StudentFinanceSummary | null;
+};
+
+export type StudentConcessionFilters = {
+  studentId?: number;
+  academicYear?: string;
+  status?: StudentConcession['status'];
+};
+
+export type StudentConcessionRecord = StudentConcession & {
+  concessionCode: string;
+  concessionName: string;
+  kind: ConcessionType['kind'];
+  value: string;
+  studentName?: string;
+  className?: string;
+};
+
+export type CreateStudentConcessionInput = {
+  studentId: number;
+  concessionTypeId: number;
+  academicYear?: string;
+  reason?: string;
+  requestedBy?: number;
+};
+
+export type ConcessionDecision = 'approve' | 'reject' | 'revoke';
+
+export type ConcessionDecisionInput = {
+  actedBy?: number;
+  note?: string;
+};
+
+export type ConcessionRegisterRow = {
+  studentConcessionId: number;
+  studentId: number;
+  studentName?: string;
+  className?: string;
+  concessionCode: string;
+  concessionName: string;
+  kind: ConcessionType['kind'];
+  value: number;
+  status: StudentConcession['status'];
+  dues: number;
+  amount: number;
+};
+
+export type ConcessionRegisterReport = {
+  academicYear: string;
+  rows: ConcessionRegisterRow[];
+  byType: Array<{ code: string; name: string; students: number; amount: number }>;
+  totalAmount: number;
+};
+
+export type ReceiptConcessionLine = {
+  dueId: number;
+  dueLabel: string | null;
+  concessionName: string;
+  amount: string;
+};
+
+export type WriteOffFilters = {
+  status?: WriteOff['status'];
+  studentId?: number;
+};
+
+export type WriteOffRecord = WriteOff & {
+  studentName?: string;
+  className?: string;
+  dueLabel?: string;
+  requestedByName?: string;
+  decidedByName?: string;
+};
+
+export type CreateWriteOffInput = {
+  // A single due, or with only studentId every open due on the student's account.
+  dueId?: number;
+  studentId?: number;
+  academicYear?: string;
+  reason: string;
+  requestedBy: number;
+};
+
+export type WriteOffDecision = 'approve' | 'reject';
+
+export type WriteOffDecisionInput = {
+  decidedBy: number;
+  note?: string;
+};
+
+export type WriteOffRegisterRow = WriteOffRecord & {
+  dues: number;
+  amount: number;
+};
+
+export type WriteOffRegisterReport = {
+  academicYear: string;
+  rows: WriteOffRegisterRow[];
+  totalAmount: number;
+  pendingCount: number;
+  pendingAmount: number;
+};
+
+export type StaffUser = {
+  id: number;
+  name: string;
+  role: string;
+};
+
+export type OpenStudentAccountOptions = {
+  academicYear?: string;
+  // Closes the open account first, even when it is for another year.
+  reopen?: boolean;
+  isNewAdmission?: boolean;
+  // With reopen: carry the closed account's unpaid dues (as arrears due on dueDate) and advance.
+  carryForward?: { fromYear: string; dueDate: string };
+};
+
+export type OpenStudentAccountResult = {
+  account: StudentAccount;
+  duesCreated: number;
+  carried?: { arrearsPaise: number; creditPaise: number };
+};
+
+export type RolloverAction = 'promote' | 'detain' | 'graduate' | 'leave' | 'skip';
+
+export type YearRolloverInput = {
+  fromYear: string;
+  toYear: string;
+  // Each class's next class; null graduates the class. Students in unmapped classes are skipped.
+  classMap: Array<{ fromClassId: number; toClassId: number | null }>;
+  exceptions?: Array<{ studentId: number; action: 'detain' | 'leave' }>;
+  dryRun?: boolean;
+  makeCurrent?: boolean;
+};
+
+export type YearRolloverRow = {
+  studentId: number;
+  studentName: string;
+  fromClass: string | null;
+  toClass: string | null;
+  action: RolloverAction;
+  ledgerNumber: string | null;
+  arrears: number;
+  creditCarried: number;
+  duesCreated: number;
+  note?: string;
+  error?: string;
+};
+
+export type YearRolloverResult = {
+  fromYear: string;
+  toYear: string;
+  dryRun: boolean;
+  rows: YearRolloverRow[];
+  totals: {
+    promoted: number;
+    detained: number;
+    graduated: number;
+    left: number;
+    skipped: number;
+    failed: number;
+    arrears: number;
+    creditCarried: number;
+  };
+};
+
+export type TenderCollectionReport = {
+  academicYear: string;
+  totals: Array<{ method: string; amount: number; payments: number }>;
+  monthly: Array<{ month: string; method: string; amount: number }>;
+  grandTotal: number;
+};
+
+export type PaymentAllocationSummaryRecord = {
+  id: number;
+  paymentId: number;
+  dueId?: number | null;
+  label?: string | null;
+  category?: string | null;
+  amount: string;
+  notes?: string | null;
+};
+
+export type PaymentReceipt = {
+  payment: Payment;
+  allocations: PaymentAllocationSummaryRecord[];
+  tenders: PaymentTenderSummaryRecord[];
+  refunds: PaymentRefundSummaryRecord[];
+  // Concessions already taken off the dues this payment settled.
+  concessions: ReceiptConcessionLine[];
+  advance: string;
+  student?: {
+    id: number;
+    name: string;
+    admissionNumber?: string | null;
+    guardianName?: string | null;
+    isHosteller?: boolean | null;
+    className?: string | null;
+    classSection?: string | null;
+  };
+  summary: StudentFinanceSummary | null;
+};
+
+export interface IStorage {
+  // Academic Years
+  getAcademicYears(): Promise<AcademicYear[]>;
+  createAcademicYear(input: CreateAcademicYearInput): Promise<AcademicYear>;
+  getCurrentAcademicYearCode(): Promise<string>;
+  updateAcademicYear(code: string, input: UpdateAcademicYearInput): Promise<AcademicYear | undefined>;
+  closeAcademicYear(code: string, closedBy?: number): Promise<AcademicYear | undefined>;
+  reopenAcademicYear(code: string): Promise<AcademicYear | undefined>;
+  rolloverAcademicYear(input: YearRolloverInput): Promise<YearRolloverResult>;
+
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  getStaffUsers(): Promise<StaffUser[]>;
+  
+  // Students
+  getStudents(academicYear?: string): Promise<Student[]>;
+  getStudent(id: number): Promise<Student | undefined>;
+  createStudent(student: InsertStudent): Promise<Student>;
+  updateStudent(id: number, updates: Partial<InsertStudent>): Promise<Student | undefined>;
+  markStudentLeft(id: number): Promise<Student | undefined>;
+  openStudentAccount(studentId: number, options?: OpenStudentAccountOptions): Promise<OpenStudentAccountResult>;
+  changeStudentStatus(studentId: number, input: StudentStatusChangeInput): Promise<StudentStatusChangeResult | null>;
+  getStudentStatusChanges(studentId: number): Promise<StudentStatusChange[]>;
+  exitStudent(studentId: number, input: StudentExitInput): Promise<StudentExitResult | null>;
+  getStudentExit(studentId: number): Promise<StudentExitRecord | null>;
+  issueClearanceCertificate(studentId: number, clearedBy?: number): Promise<StudentExitRecord | null>;
+  getStudentDues(filters?: StudentDuesFilter): Promise<StudentDueRecord[]>;
+  getStudentFinanceSummary(studentId: number, academicYear?: string): Promise<StudentFinanceSummary | null>;
+  getStudentStatement(studentId: number, range?: StatementRange): Promise<StudentStatement | null>;
+  
+  // Classes
+  getClasses(): Promise<Class[]>;
+  
+  // Fee Heads
+  getFeeHeads(options?: { includeInactive?: boolean }): Promise<FeeHead[]>;
+  createFeeHead(input: InsertFeeHead): Promise<FeeHead>;
+  updateFeeHead(id: number, updates: UpdateFeeHeadInput): Promise<FeeHead | undefined>;
+  deleteFeeHead(id: number): Promise<FeeHead | undefined>;
+
+  // Concessions
+  getConcessionTypes(options?: { includeInactive?: boolean }): Promise<ConcessionType[]>;
+  createConcessionType(input: InsertConcessionType): Promise<ConcessionType>;
+  updateConcessionType(id: number, updates: UpdateConcessionTypeInput): Promise<ConcessionType | undefined>;
+  getStudentConcessions(filters?: StudentConcessionFilters): Promise<StudentConcessionRecord[]>;
+  createStudentConcession(input: CreateStudentConcessionInput): Promise<StudentConcession>;
+  decideStudentConcession(id: number, decision: ConcessionDecision, input: ConcessionDecisionInput): Promise<StudentConcession | undefined>;
+
+  // Fee Structures
+  getFeeStructures(academicYear?: string): Promise<FeeStructureWithComponents[]>;
+  createFeeStructure(feeStructure: InsertFeeStructure): Promise<FeeStructure>;
+  bulkUpsertFeeStructures(items: FeeStructureUpsertItem[], options?: { dryRun?: boolean }): Promise<FeeStructureBulkUpsertResult>;
+  
+  // Student Fees
+  getStudentFees(studentId?: number, classId?: number): Promise<StudentFee[]>;
+  createStudentFee(studentFee: InsertStudentFee): Promise<StudentFee>;
+  
+  // Payments
+  getPayments(studentId?: number, limit?: number, academicYear?: string, search?: string): Promise<Payment[]>;
+  getPaymentWithAllocations(id: number): Promise<PaymentReceipt | null>;
+  previewAllocation(input: PreviewAllocationInput): Promise<AllocationPreview>;
+  createPayment(payment: InsertPayment): Promise<Payment>;
+  recordPayment(payload: RecordPaymentInput): Promise<RecordPaymentResult>;
+  findDuplicatePayments(payload: RecordPaymentInput): Promise<DuplicatePaymentSuspect[]>;
+  verifyPayment(id: number, verifiedBy: number): Promise<Payment | undefined>;
+  markReceiptPrinted(id: number, receiptUrl: string): Promise<boolean>;
+  voidPayment(id: number, input: VoidPaymentInput): Promise<{ payment: Payment; summary: StudentFinanceSummary | null; } | null>;
+  refundPayment(id: number, input: RefundPaymentInput): Promise<{ refund: PaymentRefund; summary: StudentFinanceSummary | null; } | null>;
+
+  // Cheques
+  getCheques(filters?: ChequeFilters): Promise<ChequeRecord[]>;
+  depositCheque(tenderId: number, input: ChequeTransitionInput): Promise<PaymentTender | null>;
+  clearCheque(tenderId: number, input: ChequeTransitionInput): Promise<{ tender: PaymentTender; payment: Payment; } | null>;
+  bounceCheque(tenderId: number, input: BounceChequeInput): Promise<{ tender: PaymentTender; payment: Payment; bounceCharge: StudentDue | null; summary: StudentFinanceSummary | null; } | null>;
+
+  // Late Fees
+  levyLateFees(input?: LevyLateFeesInput): Promise<LevyLateFeesResult>;
+  waiveDue(id: number, input: WaiveDueInput): Promise<{ due: StudentDue; summary: StudentFinanceSummary | null; } | null>;
+
+  // Installments
+  splitDueIntoInstallments(id: number, input: InstallmentPlanInput): Promise<InstallmentPlanResult | null>;
+
+  // Write-offs
+  getWriteOffs(filters?: WriteOffFilters): Promise<WriteOffRecord[]>;
+  requestWriteOff(input: CreateWriteOffInput): Promise<WriteOffRecord | null>;
+  decideWriteOff(id: number, decision: WriteOffDecision, input: WriteOffDecisionInput): Promise<WriteOffRecord | null>;
+
+  // Caution deposits
+  getStudentDeposit(studentId: number): Promise<StudentDepositSummary | null>;
+  deductDeposit(studentId: number, input: DepositDeductionInput): Promise<StudentDepositSummary | null>;
+  refundDeposit(studentId: number, input: DepositRefundInput): Promise<StudentDepositSummary | null>;
+
+  // Families
+  getFamilies(): Promise<FamilyRecord[]>;
+  getFamily(id: number): Promise<FamilyRecord | null>;
+  getStudentFamily(studentId: number): Promise<FamilyRecord | null>;
+  createFamily(input: FamilyInput): Promise<FamilyRecord>;
+  updateFamily(id: number, input: FamilyUpdate): Promise<FamilyRecord | null>;
+  deleteFamily(id: number): Promise<boolean>;
+  getFamilyStatement(id: number, academicYear?: string): Promise<FamilyStatement | null>;
+  getFamilySuggestions(): Promise<FamilySuggestion[]>;
+
+  // Transport Fees
+  getTransportFees(academicYear?: string): Promise<TransportFee[]>;
+  createTransportFee(transportFee: InsertTransportFee): Promise<TransportFee>;
+  
+  // Dashboard
+  getDashboardStats(academicYear: string): Promise<any>;
+  getCollectionTrend(academicYear: string): Promise<any>;
+  getClassCollections(academicYear: string): Promise<any>;
+  getFeeStructureOverview(academicYear: string): Promise<any>;
+  getPendingActions(): Promise<any>;
+
+  // Reports
+  getCollectionByTender(academicYear: string): Promise<TenderCollectionReport>;
+  getConcessionRegister(academicYear: string): Promise<ConcessionRegisterReport>;
+  getWriteOffRegister(academicYear: string): Promise<WriteOffRegisterReport>;
+  getDepositsHeldReport(): Promise<DepositsHeldReport>;
+  
+  // Excel Import
+  createExcelImport(excelImport: InsertExcelImport): Promise<ExcelImport>;
+}
+
+export class DatabaseStorage implements IStorage {
+  async getAcademicYears(): Promise<AcademicYear[]> {
+    try {
+      const years = await db
+        .select()
+        .from(academicYears)
+        .orderBy(desc(academicYears.isCurrent), desc(academicYears.code));
+      return years;
+    } catch (error) {
+      console.error('[finance] Failed to fetch academic years', error);
+      throw error;
+    }
+  }
+
+  async createAcademicYear(input: CreateAcademicYearInput): Promise<AcademicYear> {
+    const code = input.code?.trim();
+    if (!code) {
+      throw new Error('Academic year code is required.');
+    }
 
     const name = (input.name ?? code).trim() || code;
     const parseDate = (value?: string | null) => {
@@ -339,38 +1377,584 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getUser(id: number): Promise<User | undefined> {
-    const [user] = await dbShared.select().from(users).where(eq(users.id, id));
-    return user || undefined;
+  // The year marked current, or the calendar's academic year when none is.
+  async getCurrentAcademicYearCode(): Promise<string> {
+    const [current] = await db
+      .select({ code: academicYears.code })
+      .from(academicYears)
+      .where(eq(academicYears.isCurrent, true))
+      .limit(1);
+    return current?.code ?? getCurrentAcademicYear();
   }
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await dbShared.select().from(users).where(eq(users.email, username));
-    return user || undefined;
+  async updateAcademicYear(code: string, input: UpdateAcademicYearInput): Promise<AcademicYear | undefined> {
+    return db.transaction(async (tx) => {
+      const [year] = await tx.select().from(academicYears).where(eq(academicYears.code, code)).for('update');
+      if (!year) {
+        return undefined;
+      }
+      if (input.isCurrent && year.closedAt) {
+        throw new Error(`Academic year ${code} is closed; reopen it before making it current.`);
+      }
+
+      if (input.isCurrent) {
+        await tx.update(academicYears).set({ isCurrent: false }).where(ne(academicYears.code, code));
+      }
+      const [updated] = await tx
+        .update(academicYears)
+        .set({
+          ...(input.name !== undefined ? { name: input.name.trim() || year.name } : {}),
+          ...(input.startDate !== undefined ? { startDate: input.startDate } : {}),
+          ...(input.endDate !== undefined ? { endDate: input.endDate } : {}),
+          ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+          ...(input.isCurrent ? { isCurrent: true } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(academicYears.code, code))
+        .returning();
+      return updated;
+    });
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const result = await dbShared
-      .insert(users)
-      .values(insertUser)
-      .returning() as User[];
-    return result[0];
+  async closeAcademicYear(code: string, closedBy?: number): Promise<AcademicYear | undefined> {
+    if (closedBy !== undefined && !(await this.getUserNames([closedBy])).has(closedBy)) {
+      throw new Error('Closing user not found.');
+    }
+
+    const [year] = await db.select().from(academicYears).where(eq(academicYears.code, code));
+    if (!year) {
+      return undefined;
+    }
+    if (year.closedAt) {
+      throw new Error(`Academic year ${code} is already closed.`);
+    }
+    if (year.isCurrent) {
+      throw new Error('Make another year current before closing this one.');
+    }
+
+    const [updated] = await db
+      .update(academicYears)
+      .set({ closedAt: new Date(), closedBy: closedBy ?? null, updatedAt: new Date() })
+      .where(eq(academicYears.code, code))
+      .returning();
+    return updated;
   }
 
-  async getStudents(academicYear?: string): Promise<Student[]> {
-    try {
-      const sql = sqlShared();
+  async reopenAcademicYear(code: string): Promise<AcademicYear | undefined> {
+    const [year] = await db.select().from(academicYears).where(eq(academicYears.code, code));
+    if (!year) {
+      return undefined;
+    }
+    if (!year.closedAt) {
+      throw new Error(`Academic year ${code} is not closed.`);
+    }
 
-      const rows = academicYear
-        ? await sql`
-            SELECT id, name, admission_number as "admissionNumber", admission_date as "admissionDate",
-                   aadhar_number as "aadharNumber", date_of_birth as "dateOfBirth", gender,
-                   class_id as "classId", section_type as "sectionType", is_hosteller as "isHosteller",
-                   transport_chosen as "transportChosen", guardian_phone as "guardianPhone",
-                   guardian_name as "guardianName", guardian_whatsapp_number as "guardianWhatsappNumber",
-                   mother_name as "motherName", address, blood_group as "bloodGroup",
-                   fee_status as "feeStatus", status, account_opened as "accountOpened",
-                   academic_year as "academicYear", created_at as "createdAt", notes
+    const [updated] = await db
+      .update(academicYears)
+      .set({ closedAt: null, closedBy: null, updatedAt: new Date() })
+      .where(eq(academicYears.code, code))
+      .returning();
+    return updated;
+  }
+
+  // Each student is rolled over on their own, so a failure is reported on that student's row
+  // and the rest carry on; running it again skips students already in the new year.
+  async rolloverAcademicYear(input: YearRolloverInput): Promise<YearRolloverResult> {
+    const { fromYear, toYear } = input;
+    const dryRun = input.dryRun ?? true;
+    if (fromYear === toYear) {
+      throw new Error('Choose a different academic year to roll over into.');
+    }
+
+    const years = await db
+      .select()
+      .from(academicYears)
+      .where(inArray(academicYears.code, [fromYear, toYear]));
+    const targetYear = years.find((year) => year.code === toYear);
+    if (!years.some((year) => year.code === fromYear)) {
+      throw new Error(`Academic year ${fromYear} not found.`);
+    }
+    if (!targetYear) {
+      throw new Error(`Academic year ${toYear} not found; create it first.`);
+    }
+    if (input.makeCurrent && targetYear.closedAt) {
+      throw new Error(`Academic year ${toYear} is closed; reopen it before making it current.`);
+    }
+    if (!dryRun) {
+      // Carrying balances forward rewrites the old year's dues, so that year has to be open.
+      await this.assertYearsOpen(db, [fromYear]);
+    }
+
+    const classes = await this.getClasses();
+    const classLabels = new Map(classes.map((cls) => [cls.id, cls.section ? `${cls.name} - ${cls.section}` : cls.name]));
+    const nextClass = new Map<number, number | null>();
+    for (const mapping of input.classMap) {
+      if (!classLabels.has(mapping.fromClassId)) {
+        throw new Error(`Class ${mapping.fromClassId} not found.`);
+      }
+      if (mapping.toClassId !== null && !classLabels.has(mapping.toClassId)) {
+        throw new Error(`Class ${mapping.toClassId} not found.`);
+      }
+      nextClass.set(mapping.fromClassId, mapping.toClassId);
+    }
+    const exceptions = new Map((input.exceptions ?? []).map((item) => [item.studentId, item.action]));
+
+    // Students already moved to toYear stay on the roster so a retry can roll their account over.
+    const shared = sqlShared();
+    const roster = await shared`
+      SELECT id, name, class_id as "classId", academic_year as "academicYear"
+      FROM students
+      WHERE (status IS NULL OR LOWER(status) NOT IN ('left', 'graduated'))
+        AND academic_year IN (${fromYear}, ${toYear})
+      ORDER BY class_id, name
+    ` as Array<{ id: number; name: string; classId: number; academicYear: string | null }>;
+    if (!roster.length) {
+      return {
+        fromYear,
+        toYear,
+        dryRun,
+        rows: [],
+        totals: { promoted: 0, detained: 0, graduated: 0, left: 0, skipped: 0, failed: 0, arrears: 0, creditCarried: 0 },
+      };
+    }
+
+    const studentIds = roster.map((student) => student.id);
+    const openAccounts = await db
+      .select()
+      .from(studentAccounts)
+      .where(and(inArray(studentAccounts.studentId, studentIds), eq(studentAccounts.status, 'open')))
+      .orderBy(desc(studentAccounts.openedAt));
+    const accountByStudent = new Map<number, StudentAccount>();
+    openAccounts.forEach((account) => {
+      if (!accountByStudent.has(account.studentId)) {
+        accountByStudent.set(account.studentId, account);
+      }
+    });
+
+    const accountIds = openAccounts.map((account) => account.id);
+    const balanceRows = accountIds.length
+      ? await db
+          .select({
+            accountId: studentDues.accountId,
+            balance: sql<string>`COALESCE(SUM(${studentDues.amount} - ${studentDues.paidAmount}), 0)`,
+          })
+          .from(studentDues)
+          .where(and(inArray(studentDues.accountId, accountIds), inArray(studentDues.status, ['due', 'partial'])))
+          .groupBy(studentDues.accountId)
+      : [];
+    const creditRows = accountIds.length
+      ? await db
+          .select({ accountId: studentCredits.accountId, balance: creditBalanceSql() })
+          .from(studentCredits)
+          .where(inArray(studentCredits.accountId, accountIds))
+          .groupBy(studentCredits.accountId)
+      : [];
+    const arrearsByAccount = new Map(balanceRows.map((row) => [row.accountId, toPaise(row.balance)]));
+    const creditByAccount = new Map(creditRows.map((row) => [row.accountId, Math.max(0, toPaise(row.balance))]));
+
+    const arrearsDueDate = targetYear.startDate ?? new Date().toISOString().slice(0, 10);
+    const rows: YearRolloverRow[] = [];
+
+    for (const student of roster) {
+      const account = accountByStudent.get(student.id);
+      const exception = exceptions.get(student.id);
+      const row: YearRolloverRow = {
+        studentId: student.id,
+        studentName: student.name,
+        fromClass: classLabels.get(student.classId) ?? null,
+        toClass: null,
+        action: 'skip',
+        ledgerNumber: account?.ledgerNumber ?? null,
+        arrears: 0,
+        creditCarried: 0,
+        duesCreated: 0,
+      };
+      rows.push(row);
+
+      // A student already moved to the new year only needs their account rolled over.
+      const classMoved = student.academicYear === toYear;
+      if (classMoved) {
+        if (!account || account.academicYear === toYear) {
+          row.note = `Already in ${toYear}.`;
+          continue;
+        }
+        row.action = 'promote';
+        row.toClass = row.fromClass;
+        row.note = 'Class already updated; only the account is rolled over.';
+      } else if (exception === 'leave') {
+        row.action = 'leave';
+      } else if (!nextClass.has(student.classId)) {
+        row.note = 'Class has no next class mapped.';
+        continue;
+      } else if (exception === 'detain') {
+        row.action = 'detain';
+        row.toClass = row.fromClass;
+      } else if (nextClass.get(student.classId) === null) {
+        row.action = 'graduate';
+      } else {
+        row.action = 'promote';
+        row.toClass = classLabels.get(nextClass.get(student.classId)!) ?? null;
+      }
+
+      if (row.action === 'graduate' || row.action === 'leave') {
+        // Leavers and graduates keep their account open until their dues are settled.
+        if (!dryRun) {
+          try {
+            await shared`UPDATE students SET status = ${row.action === 'leave' ? 'left' : 'graduated'} WHERE id = ${student.id}`;
+          } catch (error: any) {
+            row.error = error?.message || 'Failed to update student.';
+          }
+        }
+        continue;
+      }
+
+      if (account?.academicYear === toYear) {
+        row.note = `Account already open for ${toYear}; class updated only.`;
+      } else if (account) {
+        row.arrears = Number(fromPaise(arrearsByAccount.get(account.id) ?? 0));
+        row.creditCarried = Number(fromPaise(creditByAccount.get(account.id) ?? 0));
+      } else {
+        row.note = 'No finance account; class updated only.';
+      }
+      if (dryRun) {
+        continue;
+      }
+
+      try {
+        if (!classMoved) {
+          const classId = row.action === 'promote' ? nextClass.get(student.classId)! : student.classId;
+          await shared`UPDATE students SET class_id = ${classId}, academic_year = ${toYear} WHERE id = ${student.id}`;
+        }
+        if (!account || account.academicYear === toYear) {
+          continue;
+        }
+
+        const opened = await this.openStudentAccount(student.id, {
+          academicYear: toYear,
+          reopen: true,
+          isNewAdmission: false,
+          carryForward: { fromYear, dueDate: arrearsDueDate },
+        });
+        row.ledgerNumber = opened.account.ledgerNumber;
+        row.duesCreated = opened.duesCreated;
+        row.arrears = Number(fromPaise(opened.carried?.arrearsPaise ?? 0));
+        row.creditCarried = Number(fromPaise(opened.carried?.creditPaise ?? 0));
+      } catch (error: any) {
+        console.error('[finance] Rollover failed for student', student.id, error);
+        row.error = error?.message || 'Rollover failed.';
+      }
+    }
+
+    if (!dryRun && input.makeCurrent) {
+      await db.transaction(async (tx) => {
+        await tx.update(academicYears).set({ isCurrent: false });
+        await tx.update(academicYears).set({ isCurrent: true, updatedAt: new Date() }).where(eq(academicYears.code, toYear));
+      });
+    }
+
+    const countOf = (action: RolloverAction) => rows.filter((row) => row.action === action && !row.error).length;
+    const totalOf = (pick: (row: YearRolloverRow) => number) =>
+      Number(fromPaise(rows.filter((row) => !row.error).reduce((sum, row) => sum + toPaise(pick(row)), 0)));
+    return {
+      fromYear,
+      toYear,
+      dryRun,
+      rows,
+      totals: {
+        promoted: countOf('promote'),
+        detained: countOf('detain'),
+        graduated: countOf('graduate'),
+        left: countOf('leave'),
+        skipped: countOf('skip'),
+        failed: rows.filter((row) => row.error).length,
+        arrears: totalOf((row) => row.arrears),
+        creditCarried: totalOf((row) => row.creditCarried),
+      },
+    };
+  }
+
+  async getFeeHeads(options: { includeInactive?: boolean } = {}): Promise<FeeHead[]> {
+    const query = db
+      .select()
+      .from(feeHeads)
+      .orderBy(asc(feeHeads.sortOrder), asc(feeHeads.code));
+    return options.includeInactive ? query : query.where(eq(feeHeads.isActive, true));
+  }
+
+  async createFeeHead(input: InsertFeeHead): Promise<FeeHead> {
+    if (input.frequency === 'custom' && !input.billingMonths?.length) {
+      throw new Error('Custom schedules need at least one billing month.');
+    }
+
+    try {
+      const [created] = await db.insert(feeHeads).values(input).returning();
+      return created;
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        throw new Error('A fee head with this code already exists.');
+      }
+      throw error;
+    }
+  }
+
+  async updateFeeHead(id: number, updates: UpdateFeeHeadInput): Promise<FeeHead | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(feeHeads).where(eq(feeHeads.id, id)).for('update');
+      if (!current) {
+        return undefined;
+      }
+
+      const frequency = updates.frequency ?? current.frequency;
+      const billingMonths = updates.billingMonths !== undefined ? updates.billingMonths : current.billingMonths;
+      if (frequency === 'custom' && !billingMonths?.length) {
+        throw new Error('Custom schedules need at least one billing month.');
+      }
+
+      const [updated] = await tx
+        .update(feeHeads)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(feeHeads.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Heads that are already billed or priced cannot be removed; deactivate them instead.
+  async deleteFeeHead(id: number): Promise<FeeHead | undefined> {
+    return db.transaction(async (tx) => {
+      const [head] = await tx.select().from(feeHeads).where(eq(feeHeads.id, id)).for('update');
+      if (!head) {
+        return undefined;
+      }
+
+      const [dueUse] = await tx
+        .select({ count: count() })
+        .from(studentDues)
+        .where(eq(studentDues.itemType, head.code));
+      const [componentUse] = await tx
+        .select({ count: count() })
+        .from(feeStructureComponents)
+        .where(eq(feeStructureComponents.componentCode, head.code));
+      if (Number(dueUse?.count ?? 0) > 0 || Number(componentUse?.count ?? 0) > 0) {
+        throw new Error('This fee head is used by fee structures or dues; deactivate it instead.');
+      }
+
+      const [deleted] = await tx.delete(feeHeads).where(eq(feeHeads.id, id)).returning();
+      return deleted;
+    });
+  }
+
+  async getConcessionTypes(options: { includeInactive?: boolean } = {}): Promise<ConcessionType[]> {
+    const query = db
+      .select()
+      .from(concessionTypes)
+      .orderBy(asc(concessionTypes.name));
+    return options.includeInactive ? query : query.where(eq(concessionTypes.isActive, true));
+  }
+
+  async createConcessionType(input: InsertConcessionType): Promise<ConcessionType> {
+    await this.validateConcessionType(db, input);
+
+    try {
+      const [created] = await db.insert(concessionTypes).values(input).returning();
+      return created;
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        throw new Error('A concession type with this code already exists.');
+      }
+      throw error;
+    }
+  }
+
+  // Changes only affect dues created afterwards; dues already discounted keep their amounts.
+  async updateConcessionType(id: number, updates: UpdateConcessionTypeInput): Promise<ConcessionType | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(concessionTypes).where(eq(concessionTypes.id, id)).for('update');
+      if (!current) {
+        return undefined;
+      }
+
+      await this.validateConcessionType(tx, { ...current, ...updates });
+
+      const [updated] = await tx
+        .update(concessionTypes)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(concessionTypes.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  private async validateConcessionType(
+    client: any,
+    type: Pick<InsertConcessionType, 'kind' | 'value' | 'feeHeadCodes' | 'validFrom' | 'validTo'>,
+  ): Promise<void> {
+    if (type.kind === 'percentage' && asNumber(type.value, 0) > 100) {
+      throw new Error('A percentage concession cannot exceed 100%.');
+    }
+    if (type.validFrom && type.validTo && type.validFrom > type.validTo) {
+      throw new Error('The concession ends before it starts.');
+    }
+    if (type.feeHeadCodes?.length) {
+      const known = new Set((await this.getFeeHeadLabels(client)).keys());
+      const unknown = type.feeHeadCodes.find((code) => !known.has(code));
+      if (unknown) {
+        throw new Error(`Unknown fee head: ${unknown}.`);
+      }
+    }
+  }
+
+  async getStudentConcessions(filters: StudentConcessionFilters = {}): Promise<StudentConcessionRecord[]> {
+    const whereClauses: any[] = [];
+    if (filters.studentId !== undefined) {
+      whereClauses.push(eq(studentConcessions.studentId, filters.studentId));
+    }
+    if (filters.academicYear) {
+      whereClauses.push(eq(studentConcessions.academicYear, filters.academicYear));
+    }
+    if (filters.status) {
+      whereClauses.push(eq(studentConcessions.status, filters.status));
+    }
+
+    const rows = await db
+      .select({
+        grant: studentConcessions,
+        concessionCode: concessionTypes.code,
+        concessionName: concessionTypes.name,
+        kind: concessionTypes.kind,
+        value: concessionTypes.value,
+      })
+      .from(studentConcessions)
+      .innerJoin(concessionTypes, eq(concessionTypes.id, studentConcessions.concessionTypeId))
+      .where(whereClauses.length ? and(...whereClauses) : undefined)
+      .orderBy(desc(studentConcessions.createdAt));
+
+    if (!rows.length) {
+      return [];
+    }
+
+    const studentMeta = await this.getStudentNames(rows.map((row) => row.grant.studentId));
+    return rows.map((row) => ({
+      ...row.grant,
+      concessionCode: row.concessionCode,
+      concessionName: row.concessionName,
+      kind: row.kind,
+      value: row.value,
+      studentName: studentMeta.get(row.grant.studentId)?.name,
+      className: studentMeta.get(row.grant.studentId)?.className,
+    }));
+  }
+
+  // Grants start out pending; nothing is discounted until someone approves them.
+  async createStudentConcession(input: CreateStudentConcessionInput): Promise<StudentConcession> {
+    const [type] = await db
+      .select()
+      .from(concessionTypes)
+      .where(eq(concessionTypes.id, input.concessionTypeId))
+      .limit(1);
+    if (!type) {
+      throw new Error('Concession type not found.');
+    }
+    if (!type.isActive) {
+      throw new Error('This concession type is inactive.');
+    }
+
+    try {
+      const [created] = await db
+        .insert(studentConcessions)
+        .values({
+          studentId: input.studentId,
+          concessionTypeId: type.id,
+          academicYear: input.academicYear?.trim() || await this.getCurrentAcademicYearCode(),
+          status: 'pending',
+          reason: input.reason ?? null,
+          requestedBy: input.requestedBy ?? null,
+        })
+        .returning();
+      return created;
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        throw new Error('This concession has already been granted to the student for that year.');
+      }
+      throw error;
+    }
+  }
+
+  // Pending grants can be approved or rejected; approved grants can be revoked, which stops
+  // them applying to dues created later but leaves existing discounts in place.
+  async decideStudentConcession(id: number, decision: ConcessionDecision, input: ConcessionDecisionInput): Promise<StudentConcession | undefined> {
+    const transitions: Record<ConcessionDecision, { from: StudentConcession['status']; to: StudentConcession['status'] }> = {
+      approve: { from: 'pending', to: 'approved' },
+      reject: { from: 'pending', to: 'rejected' },
+      revoke: { from: 'approved', to: 'revoked' },
+    };
+    const { from, to } = transitions[decision];
+
+    return db.transaction(async (tx) => {
+      const [grant] = await tx.select().from(studentConcessions).where(eq(studentConcessions.id, id)).for('update');
+      if (!grant) {
+        return undefined;
+      }
+      if (grant.status !== from) {
+        throw new Error(`Only ${from} concessions can be ${to}; this one is ${grant.status}.`);
+      }
+
+      const [updated] = await tx
+        .update(studentConcessions)
+        .set({
+          status: to,
+          decidedBy: input.actedBy ?? null,
+          decidedAt: new Date(),
+          decisionNote: input.note ?? null,
+          updatedAt: new Date(),
+        })
+        .where(eq(studentConcessions.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await dbShared.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await dbShared.select().from(users).where(eq(users.email, username));
+    return user || undefined;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const result = await dbShared
+      .insert(users)
+      .values(insertUser)
+      .returning() as User[];
+    return result[0];
+  }
+
+  async getStaffUsers(): Promise<StaffUser[]> {
+    const shared = sqlShared();
+    return await shared`
+      SELECT id, name, role::text as role
+      FROM users
+      ORDER BY name
+    ` as StaffUser[];
+  }
+
+  async getStudents(academicYear?: string): Promise<Student[]> {
+    try {
+      const sql = sqlShared();
+
+      const rows = academicYear
+        ? await sql`
+            SELECT id, name, admission_number as "admissionNumber", admission_date as "admissionDate",
+                   aadhar_number as "aadharNumber", date_of_birth as "dateOfBirth", gender,
+                   class_id as "classId", section_type as "sectionType", is_hosteller as "isHosteller",
+                   transport_chosen as "transportChosen", guardian_phone as "guardianPhone",
+                   guardian_name as "guardianName", guardian_whatsapp_number as "guardianWhatsappNumber",
+                   mother_name as "motherName", address, blood_group as "bloodGroup",
+                   fee_status as "feeStatus", status, account_opened as "accountOpened",
+                   academic_year as "academicYear", created_at as "createdAt", notes
             FROM students
             WHERE academic_year = ${academicYear}
             ORDER BY name
@@ -426,26 +2010,29 @@ export class DatabaseStorage implements IStorage {
         }
       });
 
+      // As in the finance summary, monthlyPending covers every recurring schedule (termly too).
       let dueRows: Array<{ studentId: number; totalPending: string; monthlyPending: string; oneTimePending: string }> = [];
       if (studentIds.length) {
         dueRows = academicYear
           ? await finance`
               SELECT student_id as "studentId",
                      SUM((amount::numeric) - (paid_amount::numeric)) as "totalPending",
-                     SUM(CASE WHEN due_type = 'monthly' THEN (amount::numeric - paid_amount::numeric) ELSE 0 END) as "monthlyPending",
+                     SUM(CASE WHEN due_type <> 'one_time' THEN (amount::numeric - paid_amount::numeric) ELSE 0 END) as "monthlyPending",
                      SUM(CASE WHEN due_type = 'one_time' THEN (amount::numeric - paid_amount::numeric) ELSE 0 END) as "oneTimePending"
               FROM student_dues
               WHERE student_id = ANY(${studentIds})
                 AND academic_year = ${academicYear}
+                AND status <> 'cancelled'
               GROUP BY student_id
             ` as Array<{ studentId: number; totalPending: string; monthlyPending: string; oneTimePending: string }>
           : await finance`
               SELECT student_id as "studentId",
                      SUM((amount::numeric) - (paid_amount::numeric)) as "totalPending",
-                     SUM(CASE WHEN due_type = 'monthly' THEN (amount::numeric - paid_amount::numeric) ELSE 0 END) as "monthlyPending",
+                     SUM(CASE WHEN due_type <> 'one_time' THEN (amount::numeric - paid_amount::numeric) ELSE 0 END) as "monthlyPending",
                      SUM(CASE WHEN due_type = 'one_time' THEN (amount::numeric - paid_amount::numeric) ELSE 0 END) as "oneTimePending"
               FROM student_dues
               WHERE student_id = ANY(${studentIds})
+                AND status <> 'cancelled'
               GROUP BY student_id
             ` as Array<{ studentId: number; totalPending: string; monthlyPending: string; oneTimePending: string }>;
       }
@@ -468,6 +2055,7 @@ export class DatabaseStorage implements IStorage {
                      SUM((amount::numeric) - (paid_amount::numeric)) as "pending"
               FROM student_dues
               WHERE due_type = 'monthly'
+                AND status <> 'cancelled'
                 AND student_id = ANY(${studentIds})
                 AND academic_year = ${academicYear}
               GROUP BY student_id, due_month
@@ -479,6 +2067,7 @@ export class DatabaseStorage implements IStorage {
                      SUM((amount::numeric) - (paid_amount::numeric)) as "pending"
               FROM student_dues
               WHERE due_type = 'monthly'
+                AND status <> 'cancelled'
                 AND student_id = ANY(${studentIds})
               GROUP BY student_id, due_month
               ORDER BY student_id, due_month
@@ -566,10 +2155,7 @@ export class DatabaseStorage implements IStorage {
     return result || undefined;
   }
 
-  async openStudentAccount(
-    studentId: number,
-    options?: { academicYear?: string; reopen?: boolean; isNewAdmission?: boolean; },
-  ): Promise<{ account: StudentAccount; duesCreated: number; }> {
+  async openStudentAccount(studentId: number, options?: OpenStudentAccountOptions): Promise<OpenStudentAccountResult> {
     const shared = sqlShared();
 
     const [studentRow] = await shared`
@@ -591,7 +2177,8 @@ export class DatabaseStorage implements IStorage {
       throw new Error(`Student ${studentId} not found`);
     }
 
-    const academicYear = options?.academicYear ?? getCurrentAcademicYear();
+    const academicYear = options?.academicYear ?? await this.getCurrentAcademicYearCode();
+    await this.assertYearsOpen(db, [academicYear]);
     const isNewAdmission = options?.isNewAdmission ?? this.isLikelyNewAdmission(studentRow, academicYear);
 
     const existing = await db
@@ -630,7 +2217,14 @@ export class DatabaseStorage implements IStorage {
           .where(eq(studentAccounts.id, normalizedExisting.id));
       }
 
-      const ledgerNumber = buildLedgerNumber(studentRow.admissionNumber, studentRow.id);
+      // Ledger numbers are unique, so a student's later accounts carry the academic year.
+      const baseLedgerNumber = buildLedgerNumber(studentRow.admissionNumber, studentRow.id);
+      const [ledgerTaken] = await tx
+        .select({ id: studentAccounts.id })
+        .from(studentAccounts)
+        .where(eq(studentAccounts.ledgerNumber, baseLedgerNumber))
+        .limit(1);
+      const ledgerNumber = ledgerTaken ? `${baseLedgerNumber}-${academicYear}` : baseLedgerNumber;
 
       const [account] = await tx
         .insert(studentAccounts)
@@ -653,6 +2247,19 @@ export class DatabaseStorage implements IStorage {
         isNewAdmission,
       });
 
+      // Rollover carries the closed account's unpaid balance and advance over in the same
+      // transaction, so if that fails the old account is still open for a retry.
+      if (normalizedExisting && options?.reopen && options.carryForward) {
+        const carried = await this.carryForwardAccount(
+          tx,
+          normalizedExisting,
+          account,
+          options.carryForward.fromYear,
+          options.carryForward.dueDate,
+        );
+        return { account, duesCreated, carried };
+      }
+
       return { account, duesCreated };
     });
 
@@ -664,44 +2271,497 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async getStudentDues(filters: StudentDuesFilter = {}): Promise<StudentDueRecord[]> {
-    const whereClauses: any[] = [];
-
-    if (filters.studentId !== undefined) {
-      whereClauses.push(eq(studentDues.studentId, filters.studentId));
+  // Reprices the open account for a new class and/or boarding status from effectiveMonth on.
+  // Structure dues for periods starting that month or later are billed again at the new rate:
+  // unpaid ones are cancelled and recreated, part-paid ones adjusted in place (never below what
+  // was paid). One-time charges the new status adds are billed today, and unpaid ones it no
+  // longer has are cancelled. Periods that began before effectiveMonth are left as billed.
+  async changeStudentStatus(studentId: number, input: StudentStatusChangeInput): Promise<StudentStatusChangeResult | null> {
+    const dryRun = input.dryRun ?? false;
+    const shared = sqlShared();
+    const [studentRow] = await shared`
+      SELECT id, class_id as "classId", is_hosteller as "isHosteller",
+             admission_date as "admissionDate", account_opened as "accountOpened"
+      FROM students
+      WHERE id = ${studentId}
+    ` as Array<{
+      id: number;
+      classId: number;
+      isHosteller: boolean | null;
+      admissionDate: Date | string | null;
+      accountOpened: boolean;
+    }>;
+    if (!studentRow) {
+      return null;
     }
-    if (filters.dueType) {
-      whereClauses.push(eq(studentDues.dueType, filters.dueType));
+
+    const fromHosteller = Boolean(studentRow.isHosteller);
+    const toClassId = input.classId ?? studentRow.classId;
+    const toHosteller = input.isHosteller ?? fromHosteller;
+    if (toClassId === studentRow.classId && toHosteller === fromHosteller) {
+      throw new Error('The student is already in this class and boarding status.');
     }
-    if (filters.status) {
-      whereClauses.push(eq(studentDues.status, filters.status));
+    if (toClassId !== studentRow.classId && !(await this.getClasses()).some((cls) => cls.id === toClassId)) {
+      throw new Error('Class not found.');
     }
-    if (filters.academicYear) {
-      whereClauses.push(eq(studentDues.academicYear, filters.academicYear));
+
+    const [account] = await db
+      .select()
+      .from(studentAccounts)
+      .where(and(eq(studentAccounts.studentId, studentId), eq(studentAccounts.status, 'open')))
+      .orderBy(desc(studentAccounts.openedAt))
+      .limit(1);
+    if (!account) {
+      throw new Error('The student has no open account; open one before changing their class or boarding status.');
     }
-    if (filters.month) {
-      whereClauses.push(eq(studentDues.dueMonth, filters.month));
+    const academicYear = account.academicYear ?? await this.getCurrentAcademicYearCode();
+    const effectiveMonth = input.effectiveMonth;
+    if (!getAcademicYearMonths(academicYear).includes(effectiveMonth)) {
+      throw new Error(`The effective month must fall within ${academicYear}.`);
     }
+    await this.assertYearsOpen(db, [academicYear]);
+
+    const isNewAdmission = this.isLikelyNewAdmission(studentRow, academicYear);
+    const today = new Date().toISOString().slice(0, 10);
+    const planFor = (classId: number, isHosteller: boolean) => this.planStructureDues(db, {
+      student: { id: studentId, classId, isHosteller },
+      account,
+      academicYear,
+      isNewAdmission,
+      oneTimeDueDate: today,
+    });
+    const oldPlan = await planFor(studentRow.classId, fromHosteller);
+    const newPlan = await planFor(toClassId, toHosteller);
 
-    const buildWhere = () => {
-      if (!whereClauses.length) {
-        return undefined;
+    const structureHeads = new Set([...oldPlan, ...newPlan].map((item) => item.record.itemType));
+    const keyOf = (due: { itemType: string; dueMonth?: string | null }) => `${due.itemType}|${due.dueMonth ?? ''}`;
+    const inScope = (due: { dueType: string; dueMonth?: string | null }) =>
+      due.dueType === 'one_time' || (Boolean(due.dueMonth) && due.dueMonth! >= effectiveMonth);
+    const replacements = new Map(newPlan.filter((item) => inScope(item.record)).map((item) => [keyOf(item.record), item]));
+
+    const outcome = await db.transaction(async (tx) => {
+      const dues = await tx
+        .select()
+        .from(studentDues)
+        .where(and(
+          eq(studentDues.accountId, account.id),
+          eq(studentDues.academicYear, academicYear),
+          ne(studentDues.status, 'cancelled'),
+          sql`${studentDues.lateFeeForDueId} IS NULL`,
+          sql`${studentDues.installmentOfDueId} IS NULL`,
+        ))
+        .orderBy(asc(studentDues.id))
+        .for('update');
+      const headLabels = await this.getFeeHeadLabels(tx);
+
+      const lines: StudentStatusChangeLine[] = [];
+      const billed = new Set<string>();
+      const cancels: StudentDue[] = [];
+      const adjusts: Array<{ due: StudentDue; replacement: PlannedDue | undefined; amountPaise: number }> = [];
+
+      for (const due of dues) {
+        if (!structureHeads.has(due.itemType) || !inScope(due)) {
+          continue;
+        }
+        const key = keyOf(due);
+        const replacement = replacements.get(key);
+        const untouched = toPaise(due.paidAmount) === 0 && (due.status === 'due' || due.status === 'paid');
+
+        if (due.dueType === 'one_time') {
+          billed.add(key);
+          if (!replacement && untouched) {
+            cancels.push(due);
+          }
+          continue;
+        }
+        if (untouched) {
+          cancels.push(due);
+          continue;
+        }
+        billed.add(key);
+        if (!isOpenDueStatus(due.status) && due.status !== 'paid') {
+          continue;
+        }
+        const amountPaise = Math.max(replacement ? toPaise(replacement.record.amount) : 0, toPaise(due.paidAmount));
+        if (amountPaise !== toPaise(due.amount)) {
+          adjusts.push({ due, replacement, amountPaise });
+        }
+      }
+      const creates = newPlan.filter((item) => inScope(item.record) && !billed.has(keyOf(item.record)));
+
+      cancels.forEach((due) => lines.push({
+        dueId: due.id,
+        label: buildDueLabel(due, headLabels),
+        action: 'cancelled',
+        previousAmount: due.amount,
+        amount: '0.00',
+      }));
+      adjusts.forEach(({ due, amountPaise }) => lines.push({
+        dueId: due.id,
+        label: buildDueLabel(due, headLabels),
+        action: 'adjusted',
+        previousAmount: due.amount,
+        amount: fromPaise(amountPaise),
+      }));
+      const amountChangePaise = lines.reduce((sum, line) => sum + toPaise(line.amount) - toPaise(line.previousAmount), 0)
+        + creates.reduce((sum, item) => sum + toPaise(item.record.amount), 0);
+
+      if (dryRun) {
+        creates.forEach((item) => lines.push({
+          dueId: null,
+          label: buildDueLabel(item.record, headLabels),
+          action: 'created',
+          previousAmount: '0.00',
+          amount: item.record.amount,
+        }));
+        return { change: null, lines, amountChangePaise };
       }
-      return whereClauses.reduce((acc, clause) => (acc ? and(acc, clause) : clause));
-    };
 
-    let query = db
-      .select({
-        id: studentDues.id,
-        studentId: studentDues.studentId,
-        accountId: studentDues.accountId,
-        dueType: studentDues.dueType,
-        itemType: studentDues.itemType,
-        academicYear: studentDues.academicYear,
-        dueMonth: studentDues.dueMonth,
-        amount: studentDues.amount,
-        paidAmount: studentDues.paidAmount,
+      const now = new Date();
+      if (cancels.length) {
+        await tx
+          .update(studentDues)
+          .set({ status: 'cancelled', updatedAt: now })
+          .where(inArray(studentDues.id, cancels.map((due) => due.id)));
+      }
+      for (const { due, replacement, amountPaise } of adjusts) {
+        await tx
+          .update(studentDues)
+          .set({
+            amount: fromPaise(amountPaise),
+            grossAmount: replacement?.record.grossAmount ?? fromPaise(amountPaise),
+            concessionAmount: replacement?.record.concessionAmount ?? '0.00',
+            status: resolveDueStatus(amountPaise / 100, asNumber(due.paidAmount, 0)),
+            updatedAt: now,
+          })
+          .where(eq(studentDues.id, due.id));
+        await tx.delete(dueConcessions).where(eq(dueConcessions.dueId, due.id));
+        if (replacement?.concessionLines.length) {
+          await tx.insert(dueConcessions).values(replacement.concessionLines.map((line) => ({
+            dueId: due.id,
+            studentConcessionId: line.studentConcessionId,
+            amount: fromPaise(line.paise),
+          })));
+        }
+      }
+      const inserted = await this.insertPlannedDues(tx, creates);
+      inserted.forEach((due) => lines.push({
+        dueId: due.id,
+        label: buildDueLabel(due, headLabels),
+        action: 'created',
+        previousAmount: '0.00',
+        amount: due.amount,
+      }));
+
+      const [change] = await tx
+        .insert(studentStatusChanges)
+        .values({
+          studentId,
+          accountId: account.id,
+          academicYear,
+          effectiveMonth,
+          fromClassId: studentRow.classId,
+          toClassId,
+          fromHosteller,
+          toHosteller,
+          reason: input.reason?.trim() || null,
+          changedBy: input.changedBy ?? null,
+          amountChange: fromPaise(amountChangePaise),
+          lines,
+        })
+        .returning();
+      await this.applyAccountCredit(tx, account.id);
+      return { change, lines, amountChangePaise };
+    });
+
+    if (!dryRun) {
+      await shared`UPDATE students SET class_id = ${toClassId}, is_hosteller = ${toHosteller} WHERE id = ${studentId}`;
+    }
+
+    const summary = await this.getStudentFinanceSummary(studentId, academicYear);
+    return {
+      change: outcome.change,
+      lines: outcome.lines,
+      amountChange: Number(fromPaise(outcome.amountChangePaise)),
+      summary,
+    };
+  }
+
+  async getStudentStatusChanges(studentId: number): Promise<StudentStatusChange[]> {
+    return db
+      .select()
+      .from(studentStatusChanges)
+      .where(eq(studentStatusChanges.studentId, studentId))
+      .orderBy(desc(studentStatusChanges.createdAt));
+  }
+
+  async exitStudent(studentId: number, input: StudentExitInput): Promise<StudentExitResult | null> {
+    const dryRun = input.dryRun ?? false;
+    const [studentRow] = await sqlShared()`
+      SELECT id FROM students WHERE id = ${studentId}
+    ` as Array<{ id: number }>;
+    if (!studentRow) {
+      return null;
+    }
+
+    const [account] = await db
+      .select()
+      .from(studentAccounts)
+      .where(and(eq(studentAccounts.studentId, studentId), eq(studentAccounts.status, 'open')))
+      .orderBy(desc(studentAccounts.openedAt))
+      .limit(1);
+    if (!account) {
+      throw new Error('The student has no open account; mark them as left instead.');
+    }
+    const academicYear = account.academicYear ?? await this.getCurrentAcademicYearCode();
+    const leavingMonth = input.leavingDate.slice(0, 7);
+    if (!getAcademicYearMonths(academicYear).includes(leavingMonth)) {
+      throw new Error(`The leaving date must fall within ${academicYear}.`);
+    }
+    await this.assertYearsOpen(db, [academicYear]);
+
+    const [existing] = await db
+      .select({ leavingDate: studentExits.leavingDate })
+      .from(studentExits)
+      .where(eq(studentExits.accountId, account.id))
+      .limit(1);
+    if (existing) {
+      throw new Error(`The student's exit was already recorded with leaving date ${existing.leavingDate}.`);
+    }
+
+    const outcome = await db.transaction(async (tx) => {
+      const dues = await tx
+        .select()
+        .from(studentDues)
+        .where(and(
+          eq(studentDues.accountId, account.id),
+          ne(studentDues.dueType, 'one_time'),
+          sql`${studentDues.dueMonth} > ${leavingMonth}`,
+          inArray(studentDues.status, ['due', 'partial', 'paid']),
+          sql`${studentDues.lateFeeForDueId} IS NULL`,
+        ))
+        .orderBy(asc(studentDues.id))
+        .for('update');
+      const headLabels = await this.getFeeHeadLabels(tx);
+
+      // Periods after the leaving month are not billed; whatever was already collected
+      // against them stays on the due so it can be refunded against its allocation.
+      const lines: StudentExitLine[] = dues
+        .filter((due) => toPaise(due.amount) > toPaise(due.paidAmount))
+        .map((due) => ({
+          dueId: due.id,
+          label: buildDueLabel(due, headLabels),
+          action: toPaise(due.paidAmount) > 0 ? 'adjusted' as const : 'cancelled' as const,
+          previousAmount: due.amount,
+          amount: toPaise(due.paidAmount) > 0 ? due.paidAmount : '0.00',
+        }));
+      const cancelledPaise = lines.reduce((sum, line) => sum + toPaise(line.previousAmount) - toPaise(line.amount), 0);
+
+      if (dryRun) {
+        return { exit: null, lines, cancelledPaise };
+      }
+
+      const now = new Date();
+      for (const line of lines) {
+        await tx
+          .update(studentDues)
+          .set(line.action === 'cancelled'
+            ? { status: 'cancelled', updatedAt: now }
+            : { amount: line.amount, status: 'paid', updatedAt: now })
+          .where(eq(studentDues.id, line.dueId));
+      }
+
+      const [exit] = await tx
+        .insert(studentExits)
+        .values({
+          studentId,
+          accountId: account.id,
+          academicYear,
+          leavingDate: input.leavingDate,
+          reason: input.reason?.trim() || null,
+          processedBy: input.processedBy ?? null,
+          cancelledAmount: fromPaise(cancelledPaise),
+          lines,
+        })
+        .returning();
+      await this.applyAccountCredit(tx, account.id);
+      return { exit, lines, cancelledPaise };
+    });
+
+    if (!dryRun) {
+      await this.markStudentLeft(studentId);
+    }
+
+    const settlement = await this.getExitSettlement(studentId, account.id, leavingMonth, outcome.exit);
+    if (dryRun) {
+      settlement.outstanding = Number(fromPaise(Math.max(0, toPaise(settlement.outstanding) - outcome.cancelledPaise)));
+      settlement.balance = Number((settlement.outstanding - settlement.creditBalance - settlement.depositHeld).toFixed(2));
+    }
+    const summary = await this.getStudentFinanceSummary(studentId, academicYear);
+    return { exit: outcome.exit, lines: outcome.lines, settlement, summary };
+  }
+
+  async getStudentExit(studentId: number): Promise<StudentExitRecord | null> {
+    const [exit] = await db
+      .select()
+      .from(studentExits)
+      .where(eq(studentExits.studentId, studentId))
+      .orderBy(desc(studentExits.createdAt))
+      .limit(1);
+    if (!exit) {
+      return null;
+    }
+
+    const [studentRow] = await sqlShared()`
+      SELECT s.id, s.name, s.admission_number as "admissionNumber",
+             s.guardian_name as "guardianName", s.is_hosteller as "isHosteller",
+             c.name as "className", c.section as "classSection"
+      FROM students s
+      LEFT JOIN classes c ON s.class_id = c.id
+      WHERE s.id = ${studentId}
+      LIMIT 1
+    ` as Array<StudentExitRecord['student']>;
+
+    const settlement = await this.getExitSettlement(studentId, exit.accountId, exit.leavingDate.slice(0, 7), exit);
+    return {
+      exit,
+      settlement,
+      student: studentRow ?? { id: studentId, name: `Student #${studentId}` },
+    };
+  }
+
+  async issueClearanceCertificate(studentId: number, clearedBy?: number): Promise<StudentExitRecord | null> {
+    const record = await this.getStudentExit(studentId);
+    if (!record || record.exit.clearedAt) {
+      return record;
+    }
+
+    const { exit, settlement } = record;
+    if (settlement.outstanding > 0.009) {
+      throw new Error(`Collect the outstanding ${toDecimalString(settlement.outstanding)} before issuing the no-dues certificate.`);
+    }
+    if (settlement.creditBalance > 0.009) {
+      throw new Error(`Refund the credit balance of ${toDecimalString(settlement.creditBalance)} before issuing the no-dues certificate.`);
+    }
+    if (settlement.depositHeld > 0.009) {
+      throw new Error(`Refund or deduct the caution deposit of ${toDecimalString(settlement.depositHeld)} before issuing the no-dues certificate.`);
+    }
+    if (settlement.prepaidAfterLeaving > 0.009) {
+      throw new Error(`Refund the ${toDecimalString(settlement.prepaidAfterLeaving)} collected for months after leaving before issuing the no-dues certificate.`);
+    }
+
+    await db.transaction(async (tx) => {
+      const now = new Date();
+      await tx
+        .update(studentExits)
+        .set({
+          certificateNumber: formatClearanceCertificateNumber(exit.academicYear ?? await this.getCurrentAcademicYearCode(), exit.id),
+          clearedAt: now,
+          clearedBy: clearedBy ?? null,
+        })
+        .where(eq(studentExits.id, exit.id));
+      await tx
+        .update(studentAccounts)
+        .set({ status: 'closed', closedAt: now })
+        .where(eq(studentAccounts.id, exit.accountId));
+    });
+
+    return this.getStudentExit(studentId);
+  }
+
+  private async getExitSettlement(
+    studentId: number,
+    accountId: number,
+    leavingMonth: string,
+    exit: StudentExit | null,
+  ): Promise<StudentExitSettlement> {
+    const [dueRow] = await db
+      .select({
+        outstanding: sql<string>`COALESCE(SUM(CASE WHEN ${studentDues.status} IN ('due', 'partial', 'overdue') THEN ${studentDues.amount} - ${studentDues.paidAmount} ELSE 0 END), 0)`,
+        prepaid: sql<string>`COALESCE(SUM(CASE WHEN ${studentDues.dueType} <> 'one_time' AND ${studentDues.dueMonth} > ${leavingMonth} AND ${studentDues.status} IN ('partial', 'paid') THEN ${studentDues.paidAmount} ELSE 0 END), 0)`,
+      })
+      .from(studentDues)
+      .where(eq(studentDues.accountId, accountId));
+    const [creditRow] = await db
+      .select({ balance: creditBalanceSql() })
+      .from(studentCredits)
+      .where(eq(studentCredits.accountId, accountId));
+    const deposit = summarizeDepositEntries(await db
+      .select()
+      .from(depositEntries)
+      .where(eq(depositEntries.studentId, studentId)));
+
+    const outstanding = Number(asNumber(dueRow?.outstanding).toFixed(2));
+    const creditBalance = Number(asNumber(creditRow?.balance).toFixed(2));
+    const prepaidAfterLeaving = Number(asNumber(dueRow?.prepaid).toFixed(2));
+    return {
+      outstanding,
+      creditBalance,
+      prepaidAfterLeaving,
+      depositHeld: deposit.held,
+      balance: Number((outstanding - creditBalance - deposit.held - prepaidAfterLeaving).toFixed(2)),
+      cleared: Boolean(exit?.clearedAt),
+    };
+  }
+
+  async getStudentDues(filters: StudentDuesFilter = {}): Promise<StudentDueRecord[]> {
+    const whereClauses: any[] = [];
+
+    if (filters.studentId !== undefined) {
+      whereClauses.push(eq(studentDues.studentId, filters.studentId));
+    }
+    if (filters.dueType === 'recurring') {
+      whereClauses.push(ne(studentDues.dueType, 'one_time'));
+    } else if (filters.dueType) {
+      whereClauses.push(eq(studentDues.dueType, filters.dueType as BillingSchedule));
+    }
+    const today = new Date().toISOString().slice(0, 10);
+    if (filters.status === 'overdue') {
+      whereClauses.push(inArray(studentDues.status, ['due', 'partial']));
+      whereClauses.push(sql`${studentDues.dueDate} < ${today}`);
+    } else if (filters.status) {
+      whereClauses.push(eq(studentDues.status, filters.status as StudentDue['status']));
+    }
+    if (filters.academicYear) {
+      whereClauses.push(eq(studentDues.academicYear, filters.academicYear));
+    }
+    if (filters.installmentsOnly) {
+      whereClauses.push(sql`${studentDues.installmentOfDueId} IS NOT NULL`);
+    }
+    if (filters.month) {
+      whereClauses.push(sql`${studentDues.dueMonth} <= ${filters.month}`);
+      whereClauses.push(sql`COALESCE(${studentDues.periodEndMonth}, ${studentDues.dueMonth}) >= ${filters.month}`);
+    }
+
+    const buildWhere = () => {
+      if (!whereClauses.length) {
+        return undefined;
+      }
+      return whereClauses.reduce((acc, clause) => (acc ? and(acc, clause) : clause));
+    };
+
+    let query = db
+      .select({
+        id: studentDues.id,
+        studentId: studentDues.studentId,
+        accountId: studentDues.accountId,
+        dueType: studentDues.dueType,
+        itemType: studentDues.itemType,
+        feeHeadId: studentDues.feeHeadId,
+        academicYear: studentDues.academicYear,
+        dueMonth: studentDues.dueMonth,
+        periodEndMonth: studentDues.periodEndMonth,
+        dueDate: studentDues.dueDate,
+        amount: studentDues.amount,
+        paidAmount: studentDues.paidAmount,
+        grossAmount: studentDues.grossAmount,
+        concessionAmount: studentDues.concessionAmount,
         status: studentDues.status,
+        lateFeeForDueId: studentDues.lateFeeForDueId,
+        installmentOfDueId: studentDues.installmentOfDueId,
+        installmentNumber: studentDues.installmentNumber,
+        waivedAmount: studentDues.waivedAmount,
+        writtenOffAmount: studentDues.writtenOffAmount,
         notes: studentDues.notes,
       })
       .from(studentDues)
@@ -731,6 +2791,8 @@ export class DatabaseStorage implements IStorage {
     const metaMap = new Map<number, typeof studentMeta[number]>();
     studentMeta.forEach((item) => metaMap.set(item.id, item));
 
+    const headLabels = await this.getFeeHeadLabels();
+
     const finance = sqlFinance();
     const accountRows = await finance`
       SELECT student_id as "studentId", ledger_number as "ledgerNumber"
@@ -748,8 +2810,11 @@ export class DatabaseStorage implements IStorage {
 
     return dues.map((item) => {
       const meta = metaMap.get(item.studentId);
+      const overdue = (item.status === 'due' || item.status === 'partial') && item.dueDate !== null && item.dueDate < today;
       return {
         ...item,
+        status: overdue ? 'overdue' : item.status,
+        label: buildDueLabel(item, headLabels),
         notes: item.notes,
         classId: meta?.classId ?? null,
         studentName: meta?.name,
@@ -794,44 +2859,9 @@ export class DatabaseStorage implements IStorage {
       LIMIT 1
     ` as Array<{ id: number; ledgerNumber: string; academicYear: string }>;
 
-    const resolvedAcademicYear = academicYear ?? accountRow?.academicYear ?? getCurrentAcademicYear();
-    const dues = await this.getStudentDues({ studentId, academicYear: resolvedAcademicYear });
-
-    const formatMonth = (value?: string | null) => {
-      if (!value) return undefined;
-      const [yearStr, monthStr] = value.split('-');
-      const year = Number(yearStr);
-      const month = Number(monthStr);
-      if (!Number.isFinite(year) || !Number.isFinite(month)) {
-        return value;
-      }
-      const date = new Date(year, month - 1, 1);
-      return date.toLocaleDateString('en-IN', {
-        month: 'short',
-        year: 'numeric',
-      });
-    };
-
-    const labelFor = (due: StudentDueRecord) => {
-      const baseMap: Record<string, string> = {
-        admission: 'Admission Fee',
-        registration: 'Registration Fee',
-        uniform: 'Uniform Fee',
-        copy: 'Notebook Fee',
-        book: 'Book Fee',
-        hst_dress: 'Hostel Dress Fee',
-        monthly: 'Monthly Fee',
-        misc: 'Other Fee',
-      };
-      const base = baseMap[due.itemType] ?? due.itemType.replace(/_/g, ' ');
-      const monthLabel = due.dueMonth ? formatMonth(due.dueMonth) : undefined;
-
-      if (due.itemType === 'misc' && due.notes) {
-        return due.notes;
-      }
-
-      return monthLabel ? `${base} (${monthLabel})` : base;
-    };
+    const resolvedAcademicYear = academicYear ?? accountRow?.academicYear ?? await this.getCurrentAcademicYearCode();
+    const dues = (await this.getStudentDues({ studentId, academicYear: resolvedAcademicYear }))
+      .filter((due) => due.status !== 'cancelled');
 
     const buckets: StudentFinanceSummary['buckets'] = {
       oneTime: [],
@@ -843,15 +2873,20 @@ export class DatabaseStorage implements IStorage {
     let fullyPaid = 0;
     let partialCount = 0;
     let dueCount = 0;
+    let overdueCount = 0;
+    let writtenOff = 0;
 
     const normalized: StudentFinanceDue[] = dues.map((due) => {
       const amount = asNumber(due.amount, 0);
       const paidAmount = asNumber(due.paidAmount, 0);
       const balance = Math.max(0, Number((amount - paidAmount).toFixed(2)));
 
-      if (due.status === 'due') {
+      if (due.status === 'overdue') {
+        overdueCount += 1;
+      }
+      if (due.status === 'due' || (due.status === 'overdue' && paidAmount <= 0.009)) {
         dueCount += 1;
-      } else if (due.status === 'partial') {
+      } else if (due.status === 'partial' || due.status === 'overdue') {
         partialCount += 1;
       }
 
@@ -860,17 +2895,27 @@ export class DatabaseStorage implements IStorage {
       } else if (paidAmount > 0) {
         fullyPaid += paidAmount;
       }
+      writtenOff += asNumber(due.writtenOffAmount, 0);
 
       return {
         id: due.id,
         dueType: due.dueType,
         itemType: due.itemType,
-        label: labelFor(due),
+        label: due.label,
         dueMonth: due.dueMonth,
+        periodEndMonth: due.periodEndMonth,
+        dueDate: due.dueDate,
         amount,
         paidAmount,
         balance,
+        grossAmount: due.grossAmount !== null ? asNumber(due.grossAmount, 0) : null,
+        concessionAmount: asNumber(due.concessionAmount, 0),
         status: due.status,
+        lateFeeForDueId: due.lateFeeForDueId,
+        installmentOfDueId: due.installmentOfDueId,
+        installmentNumber: due.installmentNumber,
+        waivedAmount: asNumber(due.waivedAmount, 0),
+        writtenOffAmount: asNumber(due.writtenOffAmount, 0),
         notes: due.notes,
       } satisfies StudentFinanceDue;
     });
@@ -878,13 +2923,31 @@ export class DatabaseStorage implements IStorage {
     normalized.forEach((item) => {
       if (item.itemType === 'misc') {
         buckets.misc.push(item);
-      } else if (item.dueType === 'monthly') {
+      } else if (item.dueType !== 'one_time') {
+        // The monthly bucket holds every recurring schedule, not just monthly dues.
         buckets.monthly.push(item);
       } else {
         buckets.oneTime.push(item);
       }
     });
 
+    const [refundRow] = await finance`
+      SELECT COALESCE(SUM(r.amount::numeric), 0) as "refunded"
+      FROM payment_refunds r
+      JOIN payments p ON p.id = r.payment_id
+      WHERE r.student_id = ${studentId}
+        AND r.academic_year = ${resolvedAcademicYear}
+        AND p.status <> 'voided'
+    ` as Array<{ refunded: string | number }>;
+
+    const [creditRow] = accountRow
+      ? await finance`
+          SELECT COALESCE(SUM(CASE WHEN entry_type = 'credit' THEN amount::numeric ELSE -amount::numeric END), 0) as "balance"
+          FROM student_credits
+          WHERE account_id = ${accountRow.id}
+        ` as Array<{ balance: string | number }>
+      : [];
+
     const summary: StudentFinanceSummary = {
       student: {
         id: studentRow.id,
@@ -906,6 +2969,10 @@ export class DatabaseStorage implements IStorage {
         fullyPaid: Number(fullyPaid.toFixed(2)),
         partialCount,
         dueCount,
+        overdueCount,
+        writtenOff: Number(writtenOff.toFixed(2)),
+        refunded: Number(asNumber(refundRow?.refunded).toFixed(2)),
+        creditBalance: Number(asNumber(creditRow?.balance).toFixed(2)),
       },
       buckets,
     };
@@ -913,6 +2980,274 @@ export class DatabaseStorage implements IStorage {
     return summary;
   }
 
+  // A ledger across every year the student has been billed: dues raised are debits, money
+  // received and balances cleared without payment are credits, and refunds or reversed
+  // receipts are debits again. Caution deposits have their own ledger and are left out.
+  async getStudentStatement(studentId: number, range: StatementRange = {}): Promise<StudentStatement | null> {
+    const summary = await this.getStudentFinanceSummary(studentId);
+    if (!summary) {
+      return null;
+    }
+    const to = range.to ?? new Date().toISOString().slice(0, 10);
+    const from = range.from ?? null;
+    if (from && from > to) {
+      throw new Error('The statement cannot start after it ends.');
+    }
+
+    const dayOf = (value: Date | string | null | undefined) =>
+      value ? new Date(value).toISOString().slice(0, 10) : to;
+    const typeOrder: Record<StudentStatementEntryType, number> = {
+      due: 0, payment: 1, waiver: 2, write_off: 3, carried_forward: 4, refund: 5, reversal: 6,
+    };
+    type Line = Omit<StudentStatementEntry, 'debit' | 'credit' | 'balance'> & { debitPaise: number; creditPaise: number };
+    const lines: Line[] = [];
+
+    const headLabels = await this.getFeeHeadLabels();
+    const dueRows = await db
+      .select()
+      .from(studentDues)
+      .where(and(eq(studentDues.studentId, studentId), ne(studentDues.status, 'cancelled')))
+      .orderBy(asc(studentDues.id));
+    const dueById = new Map(dueRows.map((due) => [due.id, due]));
+    const dueIds = dueRows.map((due) => due.id);
+
+    // A due is raised at its full value; whatever later cleared it without payment is
+    // credited back separately so the guardian can see why the balance fell.
+    dueRows.forEach((due) => {
+      const label = buildDueLabel(due, headLabels);
+      const waivedPaise = toPaise(due.waivedAmount);
+      const carriedPaise = toPaise(due.carriedForwardAmount);
+      const raisedPaise = toPaise(due.amount) + waivedPaise + toPaise(due.writtenOffAmount) + carriedPaise;
+      if (raisedPaise > 0) {
+        const concessionPaise = toPaise(due.concessionAmount);
+        lines.push({
+          date: due.dueDate ?? dayOf(due.createdAt),
+          type: 'due',
+          description: concessionPaise > 0 ? `${label} (after ${fromPaise(concessionPaise)} concession)` : label,
+          reference: null,
+          dueId: due.id,
+          debitPaise: raisedPaise,
+          creditPaise: 0,
+        });
+      }
+      if (waivedPaise > 0) {
+        lines.push({
+          date: dayOf(due.waivedAt ?? due.updatedAt),
+          type: 'waiver',
+          description: `Waived: ${label}${due.waiverReason ? ` (${due.waiverReason})` : ''}`,
+          reference: null,
+          dueId: due.id,
+          debitPaise: 0,
+          creditPaise: waivedPaise,
+        });
+      }
+      if (carriedPaise > 0) {
+        const arrears = due.carriedToDueId ? dueById.get(due.carriedToDueId) : undefined;
+        lines.push({
+          date: arrears ? arrears.dueDate ?? dayOf(arrears.createdAt) : dayOf(due.updatedAt),
+          type: 'carried_forward',
+          description: `Carried forward${arrears ? ` to ${arrears.academicYear} arrears` : ''}: ${label}`,
+          reference: null,
+          dueId: due.id,
+          debitPaise: 0,
+          creditPaise: carriedPaise,
+        });
+      }
+    });
+
+    const writeOffRows = dueIds.length
+      ? await db
+          .select({
+            dueId: writeOffLines.dueId,
+            amount: writeOffLines.amount,
+            createdAt: writeOffLines.createdAt,
+            decidedAt: writeOffs.decidedAt,
+            reason: writeOffs.reason,
+          })
+          .from(writeOffLines)
+          .innerJoin(writeOffs, eq(writeOffs.id, writeOffLines.writeOffId))
+          .where(inArray(writeOffLines.dueId, dueIds))
+      : [];
+    writeOffRows.forEach((row) => {
+      const due = dueById.get(row.dueId);
+      if (!due || toPaise(row.amount) <= 0) return;
+      lines.push({
+        date: dayOf(row.decidedAt ?? row.createdAt),
+        type: 'write_off',
+        description: `Written off: ${buildDueLabel(due, headLabels)} (${row.reason})`,
+        reference: null,
+        dueId: due.id,
+        debitPaise: 0,
+        creditPaise: toPaise(row.amount),
+      });
+    });
+
+    // The student's own receipts plus family receipts that paid any of their dues.
+    const siblingPaymentRows = dueIds.length
+      ? await db
+          .selectDistinct({ paymentId: paymentAllocations.paymentId })
+          .from(paymentAllocations)
+          .where(inArray(paymentAllocations.dueId, dueIds))
+      : [];
+    const paymentRows = await db
+      .select()
+      .from(payments)
+      .where(or(
+        eq(payments.studentId, studentId),
+        siblingPaymentRows.length ? inArray(payments.id, siblingPaymentRows.map((row) => row.paymentId)) : undefined,
+      ))
+      .orderBy(asc(payments.id));
+    const paymentIds = paymentRows.map((row) => row.id);
+
+    const allocationRows = paymentIds.length
+      ? await db
+          .select({
+            id: paymentAllocations.id,
+            paymentId: paymentAllocations.paymentId,
+            dueId: paymentAllocations.dueId,
+            label: paymentAllocations.label,
+            category: paymentAllocations.category,
+            amount: paymentAllocations.amount,
+          })
+          .from(paymentAllocations)
+          .where(inArray(paymentAllocations.paymentId, paymentIds))
+          .orderBy(asc(paymentAllocations.id))
+      : [];
+    const bounceRows = paymentIds.length
+      ? await db
+          .select({ paymentId: paymentTenders.paymentId, bouncedAt: sql<string | null>`MAX(${paymentTenders.bouncedAt})` })
+          .from(paymentTenders)
+          .where(inArray(paymentTenders.paymentId, paymentIds))
+          .groupBy(paymentTenders.paymentId)
+      : [];
+    const bouncedAtByPayment = new Map(bounceRows.map((row) => [row.paymentId, row.bouncedAt]));
+    const payerNames = await this.getStudentNames(
+      paymentRows.filter((row) => row.studentId !== studentId).map((row) => row.studentId),
+    );
+
+    // Allocations to the student's live dues count as theirs. On their own receipts
+    // everything else counts too (advance, allocations whose due has gone), except
+    // deposits and what was applied to a sibling's or a since-cancelled due.
+    const creditByPayment = new Map<number, number>();
+    paymentRows.forEach((paymentRow) => {
+      const own = paymentRow.studentId === studentId;
+      const paymentAllocationRows = allocationRows.filter((row) => row.paymentId === paymentRow.id);
+      const mine = paymentAllocationRows.filter((row) => row.dueId !== null && dueById.has(row.dueId));
+      const creditPaise = own
+        ? toPaise(paymentRow.amount) - paymentAllocationRows
+            .filter((row) => (row.dueId === null ? row.category === 'deposit' : !dueById.has(row.dueId)))
+            .reduce((total, row) => total + toPaise(row.amount), 0)
+        : mine.reduce((total, row) => total + toPaise(row.amount), 0);
+      if (creditPaise <= 0) return;
+      creditByPayment.set(paymentRow.id, creditPaise);
+
+      const reference = paymentRow.receiptNumber ?? `#${paymentRow.id}`;
+      const method = paymentRow.paymentMethod.replace(/_/g, ' ');
+      lines.push({
+        date: dayOf(paymentRow.paymentDate),
+        type: 'payment',
+        description: own
+          ? `Payment received (${method})`
+          : `Paid on family receipt of ${payerNames.get(paymentRow.studentId)?.name ?? `student #${paymentRow.studentId}`}`,
+        reference,
+        paymentId: paymentRow.id,
+        debitPaise: 0,
+        creditPaise,
+        allocations: mine.map((row) => ({
+          dueId: row.dueId,
+          label: row.label ?? buildDueLabel(dueById.get(row.dueId as number)!, headLabels),
+          amount: asNumber(row.amount, 0),
+        })),
+      });
+
+      if (paymentRow.status === 'voided') {
+        lines.push({
+          date: dayOf(paymentRow.voidedAt),
+          type: 'reversal',
+          description: `Receipt voided${paymentRow.voidReason ? ` (${paymentRow.voidReason})` : ''}`,
+          reference,
+          paymentId: paymentRow.id,
+          debitPaise: creditPaise,
+          creditPaise: 0,
+        });
+      } else if (paymentRow.status === 'failed') {
+        lines.push({
+          date: bouncedAtByPayment.get(paymentRow.id) ?? dayOf(paymentRow.paymentDate),
+          type: 'reversal',
+          description: 'Cheque bounced',
+          reference,
+          paymentId: paymentRow.id,
+          debitPaise: creditPaise,
+          creditPaise: 0,
+        });
+      }
+    });
+
+    // A refund against a due belongs to whoever owns the due; one from the advance to the payer.
+    const refundRows = paymentIds.length
+      ? await db
+          .select()
+          .from(paymentRefunds)
+          .where(inArray(paymentRefunds.paymentId, paymentIds))
+          .orderBy(asc(paymentRefunds.id))
+      : [];
+    const paymentById = new Map(paymentRows.map((row) => [row.id, row]));
+    refundRows.forEach((refund) => {
+      const allocation = refund.allocationId ? allocationRows.find((row) => row.id === refund.allocationId) : undefined;
+      const belongs = allocation?.dueId
+        ? dueById.has(allocation.dueId)
+        : refund.studentId === studentId && creditByPayment.has(refund.paymentId);
+      if (!belongs) return;
+      const paymentRow = paymentById.get(refund.paymentId);
+      lines.push({
+        date: dayOf(refund.refundedAt),
+        type: 'refund',
+        description: `Refund (${refund.refundMethod.replace(/_/g, ' ')})${allocation?.label ? `: ${allocation.label}` : ''}${refund.reason ? ` - ${refund.reason}` : ''}`,
+        reference: paymentRow?.receiptNumber ?? `#${refund.paymentId}`,
+        paymentId: refund.paymentId,
+        debitPaise: toPaise(refund.amount),
+        creditPaise: 0,
+      });
+    });
+
+    lines.sort((a, b) => a.date.localeCompare(b.date) || typeOrder[a.type] - typeOrder[b.type]);
+
+    // Lines are in date order, so everything before the range has been added up by the
+    // time the first entry inside it is reached.
+    let openingPaise = 0;
+    let balancePaise = 0;
+    let totalDebitPaise = 0;
+    let totalCreditPaise = 0;
+    const entries: StudentStatementEntry[] = [];
+    lines.forEach(({ debitPaise, creditPaise, ...line }) => {
+      if (line.date > to) return;
+      balancePaise += debitPaise - creditPaise;
+      if (from && line.date < from) {
+        openingPaise = balancePaise;
+        return;
+      }
+      totalDebitPaise += debitPaise;
+      totalCreditPaise += creditPaise;
+      entries.push({
+        ...line,
+        debit: debitPaise / 100,
+        credit: creditPaise / 100,
+        balance: balancePaise / 100,
+      });
+    });
+
+    return {
+      student: summary.student,
+      from,
+      to,
+      openingBalance: openingPaise / 100,
+      entries,
+      totalDebit: totalDebitPaise / 100,
+      totalCredit: totalCreditPaise / 100,
+      closingBalance: balancePaise / 100,
+    };
+  }
+
   private isLikelyNewAdmission(
     student: { admissionDate: Date | string | null; accountOpened: boolean },
     academicYear: string,
@@ -931,28 +3266,17 @@ export class DatabaseStorage implements IStorage {
     return admissionDate >= academicStart;
   }
 
-  private async fetchFeeComponents(classId: number, academicYear: string): Promise<{ hosteller: FeeComponentSet; dayScholar: FeeComponentSet; }> {
-    const baseQuery = db
-      .select({
-        id: feeStructures.id,
-        description: feeStructures.description,
-        hostellerAmount: feeStructures.hostellerAmount,
-        dayScholarAmount: feeStructures.dayScholarAmount,
-      })
+  // Falls back to the class's latest structure when the year has none yet.
+  private async fetchFeeComponents(classId: number, academicYear: string): Promise<FeeStructureComponent[]> {
+    let [record] = await db
+      .select({ id: feeStructures.id })
       .from(feeStructures)
       .where(and(eq(feeStructures.classId, classId), eq(feeStructures.academicYear, academicYear)))
       .limit(1);
 
-    let [record] = await baseQuery;
-
     if (!record) {
       [record] = await db
-        .select({
-          id: feeStructures.id,
-          description: feeStructures.description,
-          hostellerAmount: feeStructures.hostellerAmount,
-          dayScholarAmount: feeStructures.dayScholarAmount,
-        })
+        .select({ id: feeStructures.id })
         .from(feeStructures)
         .where(eq(feeStructures.classId, classId))
         .orderBy(desc(feeStructures.academicYear))
@@ -960,37 +3284,197 @@ export class DatabaseStorage implements IStorage {
     }
 
     if (!record) {
-      return {
-        hosteller: { admission: 0, uniform: 0, hstDress: 0, copy: 0, book: 0, monthly: 0 },
-        dayScholar: { admission: 0, uniform: 0, hstDress: 0, copy: 0, book: 0, monthly: 0 },
-      };
+      return [];
     }
 
-    let parsed: any;
-    if (record.description) {
-      try {
-        parsed = JSON.parse(record.description);
-      } catch (_err) {
-        parsed = undefined;
+    // Seeding creates dues in fee head order.
+    const rows = await db
+      .select({ component: feeStructureComponents })
+      .from(feeStructureComponents)
+      .leftJoin(feeHeads, eq(feeHeads.code, feeStructureComponents.componentCode))
+      .where(eq(feeStructureComponents.feeStructureId, record.id))
+      .orderBy(sql`${feeHeads.sortOrder} NULLS LAST`, asc(feeStructureComponents.id));
+
+    return rows.map((row) => row.component);
+  }
+
+  private async getFeeHeadLabels(client: any = db): Promise<Map<string, string>> {
+    const rows = await client
+      .select({ code: feeHeads.code, label: feeHeads.label })
+      .from(feeHeads) as Array<{ code: string; label: string }>;
+    return new Map(rows.map((row) => [row.code, row.label]));
+  }
+
+  private async getFeeHeadId(client: any, code: string): Promise<number | null> {
+    const [head] = await client
+      .select({ id: feeHeads.id })
+      .from(feeHeads)
+      .where(eq(feeHeads.code, code))
+      .limit(1) as Array<{ id: number }>;
+    return head?.id ?? null;
+  }
+
+  private async getApprovedConcessions(client: any, studentId: number, academicYear: string): Promise<ApplicableConcession[]> {
+    const rows = await client
+      .select({
+        studentConcessionId: studentConcessions.id,
+        kind: concessionTypes.kind,
+        value: concessionTypes.value,
+        feeHeadCodes: concessionTypes.feeHeadCodes,
+        validFrom: concessionTypes.validFrom,
+        validTo: concessionTypes.validTo,
+      })
+      .from(studentConcessions)
+      .innerJoin(concessionTypes, eq(concessionTypes.id, studentConcessions.concessionTypeId))
+      .where(and(
+        eq(studentConcessions.studentId, studentId),
+        eq(studentConcessions.academicYear, academicYear),
+        eq(studentConcessions.status, 'approved'),
+        eq(concessionTypes.isActive, true),
+      ))
+      .orderBy(asc(studentConcessions.id)) as ApplicableConcession[];
+    return rows;
+  }
+
+  private async getStudentNames(studentIds: number[]): Promise<Map<number, { name: string; className?: string }>> {
+    const ids = Array.from(new Set(studentIds)).filter(Boolean);
+    if (!ids.length) {
+      return new Map();
+    }
+    const shared = sqlShared();
+    const rows = await shared`
+      SELECT s.id, s.name, c.name as "className", c.section as "classSection"
+      FROM students s
+      LEFT JOIN classes c ON c.id = s.class_id
+      WHERE s.id = ANY(${ids})
+    ` as Array<{ id: number; name: string; className: string | null; classSection: string | null }>;
+    return new Map(rows.map((row) => [row.id, {
+      name: row.name,
+      className: row.className ? `${row.className}${row.classSection ? ` - ${row.classSection}` : ''}` : undefined,
+    }]));
+  }
+
+  // Moves the old account's unpaid balance onto one arrears due on the new account, the same
+  // way a waiver does (amount drops to what was paid), and moves any advance credit across.
+  private async carryForwardAccount(
+    client: any,
+    from: StudentAccount,
+    to: StudentAccount,
+    fromYear: string,
+    dueDate: string,
+  ): Promise<{ arrearsPaise: number; creditPaise: number }> {
+    await this.assertYearsOpen(client, [fromYear, from.academicYear]);
+    const openDues = await client
+      .select()
+      .from(studentDues)
+      .where(and(eq(studentDues.accountId, from.id), inArray(studentDues.status, ['due', 'partial'])))
+      .for('update') as StudentDue[];
+    const carried = openDues
+      .map((due) => ({ due, balancePaise: toPaise(due.amount) - toPaise(due.paidAmount) }))
+      .filter((item) => item.balancePaise > 0);
+    const arrearsPaise = carried.reduce((sum, item) => sum + item.balancePaise, 0);
+
+    if (arrearsPaise > 0) {
+      const [arrears] = await client
+        .insert(studentDues)
+        .values({
+          studentId: to.studentId,
+          accountId: to.id,
+          dueType: 'one_time',
+          itemType: 'arrears',
+          academicYear: to.academicYear,
+          dueDate,
+          amount: fromPaise(arrearsPaise),
+          grossAmount: fromPaise(arrearsPaise),
+          paidAmount: '0.00',
+          status: 'due',
+          notes: `Arrears from ${fromYear}`,
+          arrearsFromYear: fromYear,
+        })
+        .returning() as StudentDue[];
+
+      const now = new Date();
+      for (const { due, balancePaise } of carried) {
+        await client
+          .update(studentDues)
+          .set({
+            amount: due.paidAmount,
+            carriedForwardAmount: fromPaise(toPaise(due.carriedForwardAmount) + balancePaise),
+            carriedToDueId: arrears.id,
+            status: 'carried_forward',
+            updatedAt: now,
+          })
+          .where(eq(studentDues.id, due.id));
       }
     }
 
-    const coerce = (source: any, fallbackTotal: number): FeeComponentSet => {
-      const components = source?.components ?? source ?? {};
-      return {
-        admission: asNumber(components.admission),
-        uniform: asNumber(components.uniform),
-        hstDress: asNumber(components.hstDress ?? components.hst_dress ?? components.extra),
-        copy: asNumber(components.copy),
-        book: asNumber(components.book),
-        monthly: asNumber(components.monthly ?? fallbackTotal),
-      };
-    };
+    const credits = await this.getPaymentCreditBalances(client, from.id);
+    let creditPaise = 0;
+    for (const credit of credits) {
+      const amount = fromPaise(credit.balancePaise);
+      await client.insert(studentCredits).values([
+        {
+          studentId: from.studentId,
+          accountId: from.id,
+          paymentId: credit.paymentId,
+          entryType: 'debit',
+          amount,
+          notes: `Carried forward to ${to.ledgerNumber}`,
+        },
+        {
+          studentId: to.studentId,
+          accountId: to.id,
+          paymentId: credit.paymentId,
+          entryType: 'credit',
+          amount,
+          notes: `Carried forward from ${from.ledgerNumber}`,
+        },
+      ]);
+      creditPaise += credit.balancePaise;
+    }
+    if (creditPaise > 0) {
+      await this.applyAccountCredit(client, to.id);
+    }
+
+    return { arrearsPaise, creditPaise };
+  }
+
+  // Payments and due changes are refused once any year they touch has been closed.
+  private async assertYearsOpen(client: any, years: Array<string | null | undefined>): Promise<void> {
+    const codes = Array.from(new Set(years.filter((year): year is string => Boolean(year))));
+    if (!codes.length) {
+      return;
+    }
+    const [closed] = await client
+      .select({ code: academicYears.code })
+      .from(academicYears)
+      .where(and(inArray(academicYears.code, codes), sql`${academicYears.closedAt} IS NOT NULL`))
+      .limit(1) as Array<{ code: string }>;
+    if (closed) {
+      throw new Error(`Academic year ${closed.code} is closed.`);
+    }
+  }
 
-    const hosteller = coerce(parsed?.hosteller, asNumber(record.hostellerAmount));
-    const dayScholar = coerce(parsed?.dayScholar, asNumber(record.dayScholarAmount));
+  // A payment's own year and the years of every due it was allocated to.
+  private async getPaymentYears(client: any, payment: { id: number; academicYear: string | null }): Promise<Array<string | null>> {
+    const rows = await client
+      .selectDistinct({ academicYear: studentDues.academicYear })
+      .from(paymentAllocations)
+      .innerJoin(studentDues, eq(studentDues.id, paymentAllocations.dueId))
+      .where(eq(paymentAllocations.paymentId, payment.id)) as Array<{ academicYear: string | null }>;
+    return [payment.academicYear, ...rows.map((row) => row.academicYear)];
+  }
 
-    return { hosteller, dayScholar };
+  private async getUserNames(userIds: number[]): Promise<Map<number, string>> {
+    const ids = Array.from(new Set(userIds)).filter(Boolean);
+    if (!ids.length) {
+      return new Map();
+    }
+    const shared = sqlShared();
+    const rows = await shared`
+      SELECT id, name FROM users WHERE id = ANY(${ids})
+    ` as Array<{ id: number; name: string }>;
+    return new Map(rows.map((row) => [row.id, row.name]));
   }
 
   private async seedInitialDues(
@@ -1002,7 +3486,7 @@ export class DatabaseStorage implements IStorage {
       isNewAdmission: boolean;
     },
   ): Promise<number> {
-    const { student, account, academicYear, isNewAdmission } = params;
+    const { account, academicYear } = params;
 
     const existing = await client
       .select({ count: count() })
@@ -1015,54 +3499,308 @@ export class DatabaseStorage implements IStorage {
       return 0;
     }
 
-    const components = await this.fetchFeeComponents(student.classId, academicYear);
-    const feeSet = student.isHosteller ? components.hosteller : components.dayScholar;
+    const planned = await this.planStructureDues(client, params);
+    if (!planned.length) {
+      return 0;
+    }
 
-    const records: Array<typeof studentDues.$inferInsert> = [];
+    const inserted = await this.insertPlannedDues(client, planned);
+    await this.applyAccountCredit(client, account.id);
+    return inserted.length;
+  }
 
-    const addOneTime = (itemType: typeof studentDues.$inferInsert.itemType, amount: number) => {
-      if (amount > 0) {
-        records.push({
-          studentId: student.id,
-          accountId: account.id,
-          dueType: 'one_time',
-          itemType,
-          academicYear,
-          amount: toDecimalString(amount),
+  // The dues a student's class and boarding status are billed for the year, net of approved
+  // concessions. One-time charges fall due on the day the account opened unless told otherwise.
+  private async planStructureDues(
+    client: any,
+    params: {
+      student: { id: number; classId: number; isHosteller: boolean };
+      account: StudentAccount;
+      academicYear: string;
+      isNewAdmission: boolean;
+      oneTimeDueDate?: string;
+    },
+  ): Promise<PlannedDue[]> {
+    const { student, account, academicYear, isNewAdmission } = params;
+    const oneTimeDueDate = params.oneTimeDueDate ?? new Date(account.openedAt).toISOString().slice(0, 10);
+
+    const components = await this.fetchFeeComponents(student.classId, academicYear);
+    const heads: FeeHead[] = await client.select().from(feeHeads);
+    const headMap = new Map(heads.map((head) => [head.code, head]));
+    const concessions = await this.getApprovedConcessions(client, student.id, academicYear);
+
+    const planned: PlannedDue[] = [];
+
+    // Every due keeps its gross amount; approved concessions bring amount down to the net.
+    const addDue = (
+      record: Omit<typeof studentDues.$inferInsert, 'amount' | 'grossAmount' | 'concessionAmount' | 'paidAmount' | 'status'>,
+      gross: number,
+    ) => {
+      const grossPaise = toPaise(gross);
+      const applied = applyConcessions(grossPaise, record.itemType, record.dueDate ?? null, concessions);
+      planned.push({
+        record: {
+          ...record,
+          grossAmount: fromPaise(grossPaise),
+          concessionAmount: fromPaise(applied.concessionPaise),
+          amount: fromPaise(applied.netPaise),
           paidAmount: '0.00',
-          status: 'due',
-        });
-      }
+          status: applied.netPaise > 0 ? 'due' : 'paid',
+        },
+        concessionLines: applied.lines,
+      });
     };
 
-    addOneTime(isNewAdmission ? 'admission' : 'registration', feeSet.admission);
-    addOneTime('uniform', feeSet.uniform);
-    addOneTime('book', feeSet.book);
-    addOneTime('copy', feeSet.copy);
-    addOneTime('hst_dress', feeSet.hstDress);
+    for (const component of components) {
+      const amount = asNumber(student.isHosteller ? component.hostellerAmount : component.dayScholarAmount);
+      if (amount <= 0) {
+        continue;
+      }
+
+      // Skip heads that are retired or do not apply to this student's boarding status.
+      const componentHead = headMap.get(component.componentCode);
+      if (componentHead) {
+        const applies = student.isHosteller ? componentHead.appliesToHostellers : componentHead.appliesToDayScholars;
+        if (!componentHead.isActive || !applies) {
+          continue;
+        }
+      }
 
-    if (feeSet.monthly > 0) {
-      getAcademicYearMonths(academicYear).forEach((month) => {
-        records.push({
+      // Returning students are charged re-registration instead of admission.
+      const itemType = component.componentCode === 'admission' && !isNewAdmission
+        ? 'registration'
+        : component.componentCode;
+      const feeHeadId = headMap.get(itemType)?.id ?? null;
+
+      if (component.frequency === 'one_time') {
+        addDue({
           studentId: student.id,
           accountId: account.id,
-          dueType: 'monthly',
-          itemType: 'monthly',
+          dueType: 'one_time',
+          itemType,
+          feeHeadId,
           academicYear,
-          dueMonth: month,
-          amount: toDecimalString(feeSet.monthly),
-          paidAmount: '0.00',
-          status: 'due',
-        });
+          dueDate: oneTimeDueDate,
+        }, amount);
+        continue;
+      }
+
+      const periods = getBillingPeriods(academicYear, component.frequency, componentHead?.billingMonths, componentHead?.dueDay);
+      if (!periods.length) {
+        throw new Error(`Fee head ${component.componentCode} is billed on a custom schedule with no billing months.`);
+      }
+      periods.forEach((period) => {
+        addDue({
+          studentId: student.id,
+          accountId: account.id,
+          dueType: component.frequency,
+          itemType,
+          feeHeadId,
+          academicYear,
+          dueMonth: period.startMonth,
+          periodEndMonth: period.endMonth,
+          dueDate: period.dueDate,
+        }, amount);
+      });
+    }
+
+    return planned;
+  }
+
+  private async insertPlannedDues(client: any, planned: PlannedDue[]): Promise<StudentDue[]> {
+    if (!planned.length) {
+      return [];
+    }
+    const inserted = await client
+      .insert(studentDues)
+      .values(planned.map((item) => item.record))
+      .returning() as StudentDue[];
+    const concessionRows = inserted.flatMap((due, index) => planned[index].concessionLines.map((line) => ({
+      dueId: due.id,
+      studentConcessionId: line.studentConcessionId,
+      amount: fromPaise(line.paise),
+    })));
+    if (concessionRows.length) {
+      await client.insert(dueConcessions).values(concessionRows);
+    }
+    return inserted;
+  }
+
+  // The upsert takes a row lock on the year's counter, so concurrent receipts queue
+  // behind each other and a rolled-back payment gives its number back.
+  private async allocateReceiptNumber(client: any, academicYear: string): Promise<string> {
+    const [sequence] = await client
+      .insert(receiptSequences)
+      .values({ academicYear, lastNumber: 1 })
+      .onConflictDoUpdate({
+        target: receiptSequences.academicYear,
+        set: { lastNumber: sql`${receiptSequences.lastNumber} + 1`, updatedAt: new Date() },
+      })
+      .returning({ lastNumber: receiptSequences.lastNumber });
+    return formatReceiptNumber(academicYear, Number(sequence.lastNumber));
+  }
+
+  // The balances are an aggregate, which Postgres will not lock, so the account's ledger rows
+  // are locked first to keep voids and refunds from debiting the same advance meanwhile.
+  private async getPaymentCreditBalances(client: any, accountId: number): Promise<Array<{ paymentId: number; balancePaise: number }>> {
+    await client
+      .select({ id: studentCredits.id })
+      .from(studentCredits)
+      .where(eq(studentCredits.accountId, accountId))
+      .for('update');
+
+    const rows = await client
+      .select({
+        paymentId: studentCredits.paymentId,
+        balance: creditBalanceSql(),
+      })
+      .from(studentCredits)
+      .where(eq(studentCredits.accountId, accountId))
+      .groupBy(studentCredits.paymentId)
+      .orderBy(sql`MIN(${studentCredits.createdAt})`) as Array<{ paymentId: number; balance: string }>;
+
+    return rows
+      .map((row) => ({ paymentId: Number(row.paymentId), balancePaise: toPaise(row.balance) }))
+      .filter((row) => row.balancePaise > 0);
+  }
+
+  // Takes up to limitPaise (all of it when null) of a payment's remaining advance back out of
+  // the credit ledger. Rollover re-posts advance to the new year's account under the same
+  // payment, so the debit goes to whichever accounts still hold it, newest account first.
+  private async debitPaymentCredit(
+    client: any,
+    payment: { id: number; studentId: number },
+    limitPaise: number | null,
+    notes: string,
+  ): Promise<number> {
+    const rows = await client
+      .select({ accountId: studentCredits.accountId, entryType: studentCredits.entryType, amount: studentCredits.amount })
+      .from(studentCredits)
+      .where(eq(studentCredits.paymentId, payment.id))
+      .orderBy(desc(studentCredits.accountId))
+      .for('update') as Array<{ accountId: number; entryType: string; amount: string }>;
+
+    const heldByAccount = new Map<number, number>();
+    rows.forEach((row) => {
+      const signedPaise = row.entryType === 'credit' ? toPaise(row.amount) : -toPaise(row.amount);
+      heldByAccount.set(row.accountId, (heldByAccount.get(row.accountId) ?? 0) + signedPaise);
+    });
+
+    let remainingPaise = limitPaise ?? Number.POSITIVE_INFINITY;
+    let debitedPaise = 0;
+    for (const [accountId, heldPaise] of Array.from(heldByAccount)) {
+      const takePaise = Math.min(heldPaise, remainingPaise);
+      if (takePaise <= 0) continue;
+      await client.insert(studentCredits).values({
+        studentId: payment.studentId,
+        accountId,
+        paymentId: payment.id,
+        entryType: 'debit',
+        amount: fromPaise(takePaise),
+        notes,
       });
+      remainingPaise -= takePaise;
+      debitedPaise += takePaise;
     }
+    return debitedPaise;
+  }
 
-    if (!records.length) {
+  // Settles open dues on the account from advance credit, oldest credit first.
+  // Each settlement is booked as an allocation on the payment that carried the advance.
+  private async applyAccountCredit(client: any, accountId: number): Promise<number> {
+    const balances = await this.getPaymentCreditBalances(client, accountId);
+    if (!balances.length) {
       return 0;
     }
 
-    const inserted = await client.insert(studentDues).values(records).returning({ id: studentDues.id });
-    return inserted.length;
+    const openDues = await client
+      .select({
+        id: studentDues.id,
+        studentId: studentDues.studentId,
+        itemType: studentDues.itemType,
+        dueMonth: studentDues.dueMonth,
+        periodEndMonth: studentDues.periodEndMonth,
+        notes: studentDues.notes,
+        amount: studentDues.amount,
+        paidAmount: studentDues.paidAmount,
+      })
+      .from(studentDues)
+      // Dues in a closed year are left alone until it is reopened.
+      .leftJoin(academicYears, eq(academicYears.code, studentDues.academicYear))
+      .where(and(
+        eq(studentDues.accountId, accountId),
+        inArray(studentDues.status, ['due', 'partial']),
+        sql`${academicYears.closedAt} IS NULL`,
+      ))
+      .orderBy(sql`${studentDues.dueMonth} NULLS FIRST`, studentDues.id)
+      .for('update', { of: studentDues }) as Array<{
+        id: number;
+        studentId: number;
+        itemType: string;
+        dueMonth: string | null;
+        periodEndMonth: string | null;
+        notes: string | null;
+        amount: string;
+        paidAmount: string;
+      }>;
+
+    const headLabels = await this.getFeeHeadLabels(client);
+    let appliedPaise = 0;
+
+    for (const due of openDues) {
+      if (!balances.length) break;
+
+      const totalDue = toPaise(due.amount);
+      const paidBefore = toPaise(due.paidAmount);
+      let paid = paidBefore;
+      let outstanding = totalDue - paid;
+
+      while (outstanding > 0 && balances.length) {
+        const source = balances[0];
+        const portion = Math.min(outstanding, source.balancePaise);
+
+        await client.insert(paymentAllocations).values({
+          paymentId: source.paymentId,
+          dueId: due.id,
+          label: buildDueLabel(due, headLabels),
+          category: due.itemType,
+          amount: fromPaise(portion),
+          notes: CREDIT_SETTLEMENT_NOTE,
+        });
+
+        await client.insert(studentCredits).values({
+          studentId: due.studentId,
+          accountId,
+          paymentId: source.paymentId,
+          dueId: due.id,
+          entryType: 'debit',
+          amount: fromPaise(portion),
+          notes: `Applied to ${buildDueLabel(due, headLabels)}`,
+        });
+
+        source.balancePaise -= portion;
+        outstanding -= portion;
+        paid += portion;
+        appliedPaise += portion;
+
+        if (source.balancePaise <= 0) {
+          balances.shift();
+        }
+      }
+
+      if (paid !== paidBefore) {
+        await client
+          .update(studentDues)
+          .set({
+            paidAmount: fromPaise(paid),
+            status: resolveDueStatus(totalDue / 100, paid / 100),
+            updatedAt: new Date(),
+          })
+          .where(eq(studentDues.id, due.id));
+      }
+    }
+
+    return appliedPaise / 100;
   }
 
   async getClasses(): Promise<Class[]> {
@@ -1205,11 +3943,12 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getFeeStructures(academicYear?: string): Promise<FeeStructure[]> {
+  async getFeeStructures(academicYear?: string): Promise<FeeStructureWithComponents[]> {
     try {
       // Use finance database for fee structures
       const sql = sqlFinance();
       
+      let structures: FeeStructure[];
       if (academicYear) {
         const result = await sql`
           SELECT id, class_id as "classId", academic_year as "academicYear", 
@@ -1220,7 +3959,7 @@ export class DatabaseStorage implements IStorage {
           WHERE is_active = true AND academic_year = ${academicYear}
           ORDER BY class_id, fee_type
         `;
-        return result as FeeStructure[];
+        structures = result as FeeStructure[];
       } else {
         const result = await sql`
           SELECT id, class_id as "classId", academic_year as "academicYear", 
@@ -1231,8 +3970,21 @@ export class DatabaseStorage implements IStorage {
           WHERE is_active = true
           ORDER BY class_id, fee_type
         `;
-        return result as FeeStructure[];
+        structures = result as FeeStructure[];
       }
+
+      const components = structures.length
+        ? await db
+            .select()
+            .from(feeStructureComponents)
+            .where(inArray(feeStructureComponents.feeStructureId, structures.map((structure) => structure.id)))
+            .orderBy(asc(feeStructureComponents.id))
+        : [];
+
+      return structures.map((structure) => ({
+        ...structure,
+        components: components.filter((component) => component.feeStructureId === structure.id),
+      }));
     } catch (error) {
       console.error('Failed to fetch fee structures:', error instanceof Error ? error.message : 'Unknown error');
       throw error;
@@ -1247,6 +3999,172 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  // Diffs each item (and its components, when given) against the stored rows for its
+  // class/year/fee type, then writes only the new and changed ones. With dryRun the
+  // diff is returned and nothing is saved.
+  async bulkUpsertFeeStructures(items: FeeStructureUpsertItem[], options: { dryRun?: boolean } = {}): Promise<FeeStructureBulkUpsertResult> {
+    const dryRun = options.dryRun ?? false;
+    const keyFor = (row: { classId: number; academicYear: string | null; feeType: string }) =>
+      `${row.classId}|${row.academicYear}|${row.feeType}`;
+
+    return db.transaction(async (tx) => {
+      const classIds = Array.from(new Set(items.map((item) => item.classId)));
+      const years = Array.from(new Set(items.map((item) => item.academicYear).filter((year): year is string => Boolean(year))));
+
+      const existingRows = classIds.length && years.length
+        ? await tx
+            .select()
+            .from(feeStructures)
+            .where(and(inArray(feeStructures.classId, classIds), inArray(feeStructures.academicYear, years)))
+            .for('update')
+        : [];
+      const existingMap = new Map(existingRows.map((row) => [keyFor(row), row]));
+
+      const existingComponents = existingRows.length
+        ? await tx
+            .select()
+            .from(feeStructureComponents)
+            .where(inArray(feeStructureComponents.feeStructureId, existingRows.map((row) => row.id)))
+        : [];
+
+      const rows = items.map((item) => ({
+        classId: item.classId,
+        academicYear: item.academicYear ?? null,
+        feeType: item.feeType,
+        hostellerAmount: fromPaise(toPaise(item.hostellerAmount)),
+        dayScholarAmount: fromPaise(toPaise(item.dayScholarAmount)),
+        description: item.description ?? null,
+        isActive: item.isActive ?? true,
+      }));
+
+      const heads: FeeHead[] = await tx.select().from(feeHeads);
+      const headMap = new Map(heads.map((head) => [head.code, head]));
+      const componentRows = items.map((item) =>
+        item.components?.map((component) => {
+          const head = headMap.get(component.code);
+          if (!head) {
+            throw new Error(`Unknown fee head: ${component.code}.`);
+          }
+          if ((component.frequency ?? head.frequency) === 'custom' && !head.billingMonths?.length) {
+            throw new Error(`Fee head ${component.code} is billed on a custom schedule with no billing months.`);
+          }
+          return {
+            componentCode: component.code,
+            hostellerAmount: fromPaise(toPaise(component.hostellerAmount)),
+            dayScholarAmount: fromPaise(toPaise(component.dayScholarAmount)),
+            frequency: component.frequency ?? head.frequency,
+          };
+        }),
+      );
+
+      const entries: FeeStructureDiffEntry[] = rows.map((row, index) => {
+        const existing = existingMap.get(keyFor(row));
+        const before: Record<Exclude<FeeStructureDiffField, 'frequency'>, string | boolean | null> = {
+          hostellerAmount: existing ? fromPaise(toPaise(existing.hostellerAmount)) : null,
+          dayScholarAmount: existing ? fromPaise(toPaise(existing.dayScholarAmount)) : null,
+          description: existing?.description ?? null,
+          isActive: existing ? existing.isActive : null,
+        };
+        const changes: FeeStructureDiffEntry['changes'] = (Object.keys(before) as Array<keyof typeof before>)
+          .filter((field) => !existing || before[field] !== row[field])
+          .map((field) => ({ field, before: before[field], after: row[field] }));
+
+        // Components are only compared when the item sends them; omitting them leaves the stored ones alone.
+        const nextComponents = componentRows[index];
+        if (nextComponents) {
+          const stored = existing ? existingComponents.filter((component) => component.feeStructureId === existing.id) : [];
+          const codes = Array.from(new Set([...stored.map((c) => c.componentCode), ...nextComponents.map((c) => c.componentCode)]));
+          codes.forEach((code) => {
+            const was = stored.find((component) => component.componentCode === code);
+            const next = nextComponents.find((component) => component.componentCode === code);
+            (['hostellerAmount', 'dayScholarAmount', 'frequency'] as const).forEach((field) => {
+              const beforeValue = was ? (field === 'frequency' ? was.frequency : fromPaise(toPaise(was[field]))) : null;
+              const afterValue = next ? next[field] : null;
+              if (beforeValue !== afterValue) {
+                changes.push({ field, component: code, before: beforeValue, after: afterValue });
+              }
+            });
+          });
+        }
+
+        return {
+          id: existing?.id ?? null,
+          classId: row.classId,
+          academicYear: row.academicYear ?? '',
+          feeType: row.feeType,
+          action: !existing ? 'created' : changes.length ? 'updated' : 'unchanged',
+          changes,
+        };
+      });
+
+      const pendingIndexes = rows.map((_row, index) => index).filter((index) => entries[index].action !== 'unchanged');
+      if (!dryRun && pendingIndexes.length) {
+        const written = await tx
+          .insert(feeStructures)
+          .values(pendingIndexes.map((index) => rows[index]))
+          .onConflictDoUpdate({
+            target: [feeStructures.classId, feeStructures.academicYear, feeStructures.feeType],
+            set: {
+              hostellerAmount: sql`excluded.hosteller_amount`,
+              dayScholarAmount: sql`excluded.day_scholar_amount`,
+              description: sql`excluded.description`,
+              isActive: sql`excluded.is_active`,
+              updatedAt: new Date(),
+            },
+          })
+          .returning({
+            id: feeStructures.id,
+            classId: feeStructures.classId,
+            academicYear: feeStructures.academicYear,
+            feeType: feeStructures.feeType,
+          });
+        const writtenIds = new Map(written.map((row) => [keyFor(row), row.id]));
+        entries.forEach((entry) => {
+          entry.id = writtenIds.get(keyFor(entry)) ?? entry.id;
+        });
+
+        for (const index of pendingIndexes) {
+          const nextComponents = componentRows[index];
+          const structureId = entries[index].id;
+          if (!nextComponents || !structureId) {
+            continue;
+          }
+
+          const keep = nextComponents.map((component) => component.componentCode);
+          await tx
+            .delete(feeStructureComponents)
+            .where(and(
+              eq(feeStructureComponents.feeStructureId, structureId),
+              keep.length ? notInArray(feeStructureComponents.componentCode, keep) : undefined,
+            ));
+
+          if (nextComponents.length) {
+            await tx
+              .insert(feeStructureComponents)
+              .values(nextComponents.map((component) => ({ ...component, feeStructureId: structureId })))
+              .onConflictDoUpdate({
+                target: [feeStructureComponents.feeStructureId, feeStructureComponents.componentCode],
+                set: {
+                  hostellerAmount: sql`excluded.hosteller_amount`,
+                  dayScholarAmount: sql`excluded.day_scholar_amount`,
+                  frequency: sql`excluded.frequency`,
+                  updatedAt: new Date(),
+                },
+              });
+          }
+        }
+      }
+
+      return {
+        dryRun,
+        created: entries.filter((entry) => entry.action === 'created').length,
+        updated: entries.filter((entry) => entry.action === 'updated').length,
+        unchanged: entries.filter((entry) => entry.action === 'unchanged').length,
+        items: entries,
+      };
+    });
+  }
+
   async getStudentFees(studentId?: number, classId?: number): Promise<StudentFee[]> {
     if (studentId) {
       return await db
@@ -1270,14 +4188,43 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async getPayments(studentId?: number, limit?: number, academicYear?: string): Promise<Payment[]> {
+  async getPayments(studentId?: number, limit?: number, academicYear?: string, search?: string): Promise<Payment[]> {
     try {
       const finance = sqlFinance();
       const yearFilter = academicYear?.trim();
+      const searchTerm = search?.trim();
 
-      let paymentRows: Array<{ id: number; studentId: number; studentFeeId: number | null; academicYear: string; amount: string; paymentMethod: string; paymentDate: string; referenceNumber: string | null; remarks: string | null; status: string; verifiedBy: number | null; verifiedAt: string | null; createdAt: string; createdBy: number | null }> = [];
+      let paymentRows: Array<{ id: number; studentId: number; studentFeeId: number | null; academicYear: string; amount: string; paymentMethod: string; paymentDate: string; referenceNumber: string | null; remarks: string | null; status: string; verifiedBy: number | null; verifiedAt: string | null; voidedAt: string | null; voidReason: string | null; receiptNumber: string | null; createdAt: string; createdBy: number | null }> = [];
 
-      if (studentId && limit) {
+      if (searchTerm) {
+        const pattern = `%${searchTerm}%`;
+        paymentRows = await finance`
+          SELECT 
+            p.id,
+            p.student_id as "studentId",
+            p.student_fee_id as "studentFeeId",
+            p.academic_year as "academicYear",
+            p.amount,
+            p.payment_method as "paymentMethod",
+            p.payment_date as "paymentDate",
+            p.transaction_id as "referenceNumber",
+            p.remarks,
+            p.status,
+            p.verified_by as "verifiedBy",
+            p.verified_at as "verifiedAt",
+            p.voided_at as "voidedAt",
+            p.void_reason as "voidReason",
+            p.receipt_number as "receiptNumber",
+            p.created_at as "createdAt",
+            1 as "createdBy"
+          FROM payments p
+          WHERE (p.receipt_number ILIKE ${pattern} OR p.transaction_id ILIKE ${pattern})
+            AND (${studentId ?? null}::int IS NULL OR p.student_id = ${studentId ?? null})
+            AND (${yearFilter || null}::text IS NULL OR p.academic_year = ${yearFilter || null})
+          ORDER BY p.payment_date DESC
+          LIMIT ${limit ?? 100}
+        ` as typeof paymentRows;
+      } else if (studentId && limit) {
         if (yearFilter) {
           paymentRows = await finance`
             SELECT 
@@ -1293,6 +4240,9 @@ export class DatabaseStorage implements IStorage {
               p.status,
               p.verified_by as "verifiedBy",
               p.verified_at as "verifiedAt",
+              p.voided_at as "voidedAt",
+              p.void_reason as "voidReason",
+              p.receipt_number as "receiptNumber",
               p.created_at as "createdAt",
               1 as "createdBy"
             FROM payments p
@@ -1316,6 +4266,9 @@ export class DatabaseStorage implements IStorage {
               p.status,
               p.verified_by as "verifiedBy",
               p.verified_at as "verifiedAt",
+              p.voided_at as "voidedAt",
+              p.void_reason as "voidReason",
+              p.receipt_number as "receiptNumber",
               p.created_at as "createdAt",
               1 as "createdBy"
             FROM payments p
@@ -1340,6 +4293,9 @@ export class DatabaseStorage implements IStorage {
               p.status,
               p.verified_by as "verifiedBy",
               p.verified_at as "verifiedAt",
+              p.voided_at as "voidedAt",
+              p.void_reason as "voidReason",
+              p.receipt_number as "receiptNumber",
               p.created_at as "createdAt",
               1 as "createdBy"
             FROM payments p
@@ -1362,6 +4318,9 @@ export class DatabaseStorage implements IStorage {
               p.status,
               p.verified_by as "verifiedBy",
               p.verified_at as "verifiedAt",
+              p.voided_at as "voidedAt",
+              p.void_reason as "voidReason",
+              p.receipt_number as "receiptNumber",
               p.created_at as "createdAt",
               1 as "createdBy"
             FROM payments p
@@ -1385,6 +4344,9 @@ export class DatabaseStorage implements IStorage {
               p.status,
               p.verified_by as "verifiedBy",
               p.verified_at as "verifiedAt",
+              p.voided_at as "voidedAt",
+              p.void_reason as "voidReason",
+              p.receipt_number as "receiptNumber",
               p.created_at as "createdAt",
               1 as "createdBy"
             FROM payments p
@@ -1407,6 +4369,9 @@ export class DatabaseStorage implements IStorage {
               p.status,
               p.verified_by as "verifiedBy",
               p.verified_at as "verifiedAt",
+              p.voided_at as "voidedAt",
+              p.void_reason as "voidReason",
+              p.receipt_number as "receiptNumber",
               p.created_at as "createdAt",
               1 as "createdBy"
             FROM payments p
@@ -1430,6 +4395,9 @@ export class DatabaseStorage implements IStorage {
               p.status,
               p.verified_by as "verifiedBy",
               p.verified_at as "verifiedAt",
+              p.voided_at as "voidedAt",
+              p.void_reason as "voidReason",
+              p.receipt_number as "receiptNumber",
               p.created_at as "createdAt",
               1 as "createdBy"
             FROM payments p
@@ -1451,6 +4419,9 @@ export class DatabaseStorage implements IStorage {
               p.status,
               p.verified_by as "verifiedBy",
               p.verified_at as "verifiedAt",
+              p.voided_at as "voidedAt",
+              p.void_reason as "voidReason",
+              p.receipt_number as "receiptNumber",
               p.created_at as "createdAt",
               1 as "createdBy"
             FROM payments p
@@ -1555,6 +4526,11 @@ export class DatabaseStorage implements IStorage {
           p.status,
           p.verified_by as "verifiedBy",
           p.verified_at as "verifiedAt",
+          p.voided_at as "voidedAt",
+          p.voided_by as "voidedBy",
+          p.void_reason as "voidReason",
+          p.receipt_number as "receiptNumber",
+          p.receipt_url as "receiptUrl",
           p.created_at as "createdAt"
         FROM payments p
         WHERE p.id = ${id}
@@ -1573,6 +4549,11 @@ export class DatabaseStorage implements IStorage {
         status: string | null;
         verifiedBy: number | null;
         verifiedAt: string | null;
+        voidedAt: string | null;
+        voidedBy: number | null;
+        voidReason: string | null;
+        receiptNumber: string | null;
+        receiptUrl: string | null;
         createdAt: string | null;
       }>;
 
@@ -1595,6 +4576,75 @@ export class DatabaseStorage implements IStorage {
         ORDER BY id
       ` as Array<{ id: number; paymentId: number; dueId: number | null; label: string | null; category: string | null; amount: string; notes: string | null }>;
 
+      const tenderRows = await finance`
+        SELECT
+          id,
+          payment_id as "paymentId",
+          method,
+          amount,
+          reference_number as "referenceNumber",
+          bank_name as "bankName",
+          cheque_number as "chequeNumber",
+          cheque_date as "chequeDate",
+          cheque_status as "chequeStatus",
+          deposit_date as "depositDate",
+          clearance_date as "clearanceDate",
+          bounced_at as "bouncedAt",
+          bounce_reason as "bounceReason"
+        FROM payment_tenders
+        WHERE payment_id = ${id}
+        ORDER BY id
+      ` as Array<{ id: number; paymentId: number; method: string; amount: string; referenceNumber: string | null; bankName: string | null; chequeNumber: string | null; chequeDate: string | null; chequeStatus: ChequeStatus | null; depositDate: string | null; clearanceDate: string | null; bouncedAt: string | null; bounceReason: string | null }>;
+
+      const refundRows = await finance`
+        SELECT
+          id,
+          payment_id as "paymentId",
+          allocation_id as "allocationId",
+          amount,
+          refund_method as "refundMethod",
+          reference_number as "referenceNumber",
+          reason,
+          refunded_at as "refundedAt"
+        FROM payment_refunds
+        WHERE payment_id = ${id}
+        ORDER BY refunded_at, id
+      ` as Array<{ id: number; paymentId: number; allocationId: number | null; amount: string; refundMethod: string; referenceNumber: string | null; reason: string | null; refundedAt: string }>;
+
+      // Rollover re-posts unused advance to the next account under the same payment; only the
+      // credit on the account the payment was received into is what the receipt took.
+      const [advanceRow] = await finance`
+        SELECT COALESCE(SUM(amount::numeric), 0) as "advance"
+        FROM student_credits
+        WHERE payment_id = ${id}
+          AND entry_type = 'credit'
+          AND account_id = (SELECT MIN(account_id) FROM student_credits WHERE payment_id = ${id})
+      ` as Array<{ advance: string | number }>;
+
+      // A due paid across several receipts carries its concession once, on the earliest
+      // receipt still standing that took money towards it.
+      const concessionRows = await finance`
+        SELECT DISTINCT ON (dc.id)
+          dc.due_id as "dueId",
+          pa.label as "dueLabel",
+          ct.name as "concessionName",
+          dc.amount
+        FROM payment_allocations pa
+        JOIN due_concessions dc ON dc.due_id = pa.due_id
+        JOIN student_concessions sc ON sc.id = dc.student_concession_id
+        JOIN concession_types ct ON ct.id = sc.concession_type_id
+        WHERE pa.payment_id = ${id}
+          AND pa.id = (
+            SELECT MIN(first_pa.id)
+            FROM payment_allocations first_pa
+            JOIN payments first_p ON first_p.id = first_pa.payment_id
+            WHERE first_pa.due_id = pa.due_id
+              AND first_p.status NOT IN ('voided', 'failed')
+              AND first_pa.notes IS DISTINCT FROM ${CREDIT_SETTLEMENT_NOTE}
+          )
+        ORDER BY dc.id
+      ` as Array<{ dueId: number; dueLabel: string | null; concessionName: string; amount: string }>;
+
       const shared = sqlShared();
       const studentRows = await shared`
         SELECT 
@@ -1625,303 +4675,1778 @@ export class DatabaseStorage implements IStorage {
         verifiedBy: paymentRow.verifiedBy ?? undefined,
         verifiedAt: paymentRow.verifiedAt ?? undefined,
         remarks: paymentRow.remarks ?? undefined,
-        receiptUrl: null,
+        receiptUrl: paymentRow.receiptUrl ?? null,
+        voidedAt: paymentRow.voidedAt ?? null,
+        voidedBy: paymentRow.voidedBy ?? null,
+        voidReason: paymentRow.voidReason ?? null,
+        receiptNumber: paymentRow.receiptNumber ?? null,
         createdAt: paymentRow.createdAt ?? new Date().toISOString(),
         referenceNumber: paymentRow.referenceNumber ?? undefined,
       } as Payment & { referenceNumber?: string };
 
-      if (studentRow) {
-        (payment as any).studentName = studentRow.name;
-        (payment as any).className = studentRow.className
-          ? studentRow.classSection
-            ? `${studentRow.className} - ${studentRow.classSection}`
-            : studentRow.className
-          : undefined;
+      if (studentRow) {
+        (payment as any).studentName = studentRow.name;
+        (payment as any).className = studentRow.className
+          ? studentRow.classSection
+            ? `${studentRow.className} - ${studentRow.classSection}`
+            : studentRow.className
+          : undefined;
+      }
+
+      const allocations: PaymentAllocationSummaryRecord[] = allocationRows.map((row) => ({
+        id: Number(row.id),
+        paymentId: Number(row.paymentId),
+        dueId: row.dueId !== null ? Number(row.dueId) : null,
+        label: row.label ?? null,
+        category: row.category ?? null,
+        amount: toDecimalString(asNumber(row.amount)),
+        notes: row.notes ?? null,
+      }));
+
+      const tenders: PaymentTenderSummaryRecord[] = tenderRows.map((row) => ({
+        id: Number(row.id),
+        paymentId: Number(row.paymentId),
+        method: row.method,
+        amount: toDecimalString(asNumber(row.amount)),
+        referenceNumber: row.referenceNumber ?? null,
+        bankName: row.bankName ?? null,
+        chequeNumber: row.chequeNumber ?? null,
+        chequeDate: row.chequeDate ?? null,
+        chequeStatus: row.chequeStatus ?? null,
+        depositDate: row.depositDate ?? null,
+        clearanceDate: row.clearanceDate ?? null,
+        bouncedAt: row.bouncedAt ?? null,
+        bounceReason: row.bounceReason ?? null,
+      }));
+
+      const refunds: PaymentRefundSummaryRecord[] = refundRows.map((row) => ({
+        id: Number(row.id),
+        paymentId: Number(row.paymentId),
+        allocationId: row.allocationId !== null ? Number(row.allocationId) : null,
+        amount: toDecimalString(asNumber(row.amount)),
+        refundMethod: row.refundMethod,
+        referenceNumber: row.referenceNumber ?? null,
+        reason: row.reason ?? null,
+        refundedAt: row.refundedAt,
+      }));
+
+      const student = studentRow
+        ? {
+            id: Number(studentRow.id),
+            name: studentRow.name,
+            admissionNumber: studentRow.admissionNumber,
+            guardianName: studentRow.guardianName,
+            isHosteller: studentRow.isHosteller,
+            className: studentRow.className,
+            classSection: studentRow.classSection,
+          }
+        : undefined;
+
+      const concessions: ReceiptConcessionLine[] = concessionRows.map((row) => ({
+        dueId: Number(row.dueId),
+        dueLabel: row.dueLabel ?? null,
+        concessionName: row.concessionName,
+        amount: toDecimalString(asNumber(row.amount)),
+      }));
+
+      return {
+        payment,
+        allocations,
+        tenders,
+        refunds,
+        concessions,
+        advance: toDecimalString(asNumber(advanceRow?.advance)),
+        student,
+        summary: null,
+      };
+    } catch (error) {
+      console.error('Failed to fetch payment receipt:', error);
+      throw error;
+    }
+  }
+
+  async previewAllocation(input: PreviewAllocationInput): Promise<AllocationPreview> {
+    const amount = toPaise(input.amount) / 100;
+    if (amount <= 0) {
+      throw new Error('Amount must be greater than zero.');
+    }
+
+    const academicYear = input.academicYear?.trim() || await this.getCurrentAcademicYearCode();
+    const strategy = input.strategy ?? 'oldest_month_first';
+    const dues = await this.getStudentDues({ studentId: input.studentId, academicYear });
+    const plan = planAllocation(dues, amount, strategy);
+
+    return {
+      studentId: input.studentId,
+      academicYear,
+      strategy,
+      amount,
+      ...plan,
+    };
+  }
+
+  async createPayment(payment: InsertPayment): Promise<Payment> {
+    const [result] = await db
+      .insert(payments)
+      .values(payment)
+      .returning();
+    return result;
+  }
+
+  async recordPayment(payload: RecordPaymentInput): Promise<RecordPaymentResult> {
+    const idempotencyKey = payload.idempotencyKey?.trim() || null;
+    if (idempotencyKey) {
+      const recorded = await this.getRecordedPayment(idempotencyKey);
+      if (recorded) {
+        return recorded;
+      }
+    }
+
+    if (payload.autoAllocate) {
+      const preview = await this.previewAllocation({
+        studentId: payload.studentId,
+        amount: asNumber(payload.amount, 0),
+        strategy: payload.strategy,
+        academicYear: payload.academicYear,
+      });
+      payload = {
+        ...payload,
+        allocations: preview.allocations.map((line) => ({ dueId: line.dueId, amount: line.amount })),
+        advanceAmount: (toPaise(payload.advanceAmount) + toPaise(preview.remainder)) / 100,
+        autoAllocate: false,
+      };
+    }
+
+    const advancePaise = toPaise(payload.advanceAmount);
+    if (advancePaise < 0) {
+      throw new Error('Advance amount cannot be negative.');
+    }
+    const depositPaise = toPaise(payload.depositAmount);
+    if (depositPaise < 0) {
+      throw new Error('Deposit amount cannot be negative.');
+    }
+    if (!payload.allocations?.length && advancePaise <= 0 && depositPaise <= 0) {
+      throw new Error('At least one fee component must be selected.');
+    }
+
+    const paymentDate = new Date(payload.paymentDate);
+    if (Number.isNaN(paymentDate.getTime())) {
+      throw new Error('Invalid payment date provided.');
+    }
+
+    const totalPaise = payload.allocations.reduce((sum, item) => sum + toPaise(item.amount), 0) + advancePaise + depositPaise;
+    if (totalPaise <= 0) {
+      throw new Error('Payment amount must be greater than zero.');
+    }
+
+    const tenderLines = payload.tenders?.length
+      ? payload.tenders.map((tender) => ({ ...tender, amount: toPaise(tender.amount) }))
+      : [{
+          method: payload.paymentMethod,
+          amount: totalPaise,
+          referenceNumber: payload.referenceNumber ?? null,
+          chequeNumber: payload.paymentMethod === 'cheque' ? payload.referenceNumber ?? null : null,
+        } as PaymentTenderInput];
+
+    if (tenderLines.some((tender) => tender.amount <= 0)) {
+      throw new Error('Tender amounts must be greater than zero.');
+    }
+    const tenderTotal = tenderLines.reduce((sum, tender) => sum + tender.amount, 0);
+    if (tenderTotal !== totalPaise) {
+      throw new Error(`Tenders add up to ${fromPaise(tenderTotal)} but the payment total is ${fromPaise(totalPaise)}.`);
+    }
+    // The payment row keeps the largest tender's method so existing method filters still work.
+    const primaryTender = tenderLines.reduce((top, tender) => (tender.amount > top.amount ? tender : top), tenderLines[0]);
+    // Cheques are only money in hand once they clear, so the receipt waits in 'pending' until then.
+    const awaitingClearance = tenderLines.some((tender) => tender.method === 'cheque');
+
+    const requestedAcademicYear = payload.academicYear?.trim() || await this.getCurrentAcademicYearCode();
+    await this.assertYearsOpen(db, [requestedAcademicYear]);
+
+    const shared = sqlShared();
+    const [studentExists] = await shared`
+      SELECT id FROM students WHERE id = ${payload.studentId} LIMIT 1
+    ` as Array<{ id: number }>;
+
+    if (!studentExists) {
+      throw new Error('Student not found.');
+    }
+
+    // On a family receipt the allocations may settle any sibling's dues; the receipt itself,
+    // and any advance or excess, stays with the student it is recorded against.
+    let familyMembersById: Map<number, FamilyMemberRecord> | null = null;
+    if (payload.familyId) {
+      const family = await this.getFamily(payload.familyId);
+      if (!family) {
+        throw new Error('Family not found.');
+      }
+      if (!family.members.some((member) => member.studentId === payload.studentId)) {
+        throw new Error('The paying student is not a member of this family.');
+      }
+      familyMembersById = new Map(family.members.map((member) => [member.studentId, member]));
+    }
+
+    const accountSelection = {
+      id: studentAccounts.id,
+      ledgerNumber: studentAccounts.ledgerNumber,
+      academicYear: studentAccounts.academicYear,
+    } as const;
+
+    let [accountRow] = await db
+      .select(accountSelection)
+      .from(studentAccounts)
+      .where(
+        and(
+          eq(studentAccounts.studentId, payload.studentId),
+          eq(studentAccounts.status, 'open'),
+          eq(studentAccounts.academicYear, requestedAcademicYear),
+        ),
+      )
+      .orderBy(desc(studentAccounts.openedAt))
+      .limit(1);
+
+    if (!accountRow) {
+      const accountResult = await this.openStudentAccount(payload.studentId, { academicYear: requestedAcademicYear });
+      accountRow = {
+        id: accountResult.account.id,
+        ledgerNumber: accountResult.account.ledgerNumber,
+        academicYear: accountResult.account.academicYear,
+      };
+    }
+
+    const targetAcademicYear = accountRow.academicYear ?? requestedAcademicYear;
+    const verify = payload.verify ?? true;
+    const markPaid = verify && !awaitingClearance;
+
+    let result;
+    try {
+      result = await db.transaction(async (tx) => {
+        const dueAllocations = payload.allocations.filter((item) => item.dueId);
+        const miscAllocations = payload.allocations.filter((item) => !item.dueId);
+
+        const dueIds = Array.from(new Set(dueAllocations.map((item) => Number(item.dueId)))).filter((id) => Number.isFinite(id));
+
+        // Lock the dues up front (in id order, so concurrent receipts cannot deadlock):
+        // a second receipt for the same due waits here and then sees the updated paidAmount.
+        const dueRows = dueIds.length
+          ? await tx
+              .select({
+                id: studentDues.id,
+                studentId: studentDues.studentId,
+                amount: studentDues.amount,
+                paidAmount: studentDues.paidAmount,
+                status: studentDues.status,
+                itemType: studentDues.itemType,
+                dueType: studentDues.dueType,
+                academicYear: studentDues.academicYear,
+                dueMonth: studentDues.dueMonth,
+                periodEndMonth: studentDues.periodEndMonth,
+                notes: studentDues.notes,
+              })
+              .from(studentDues)
+              .where(inArray(studentDues.id, dueIds))
+              .orderBy(asc(studentDues.id))
+              .for('update')
+          : [];
+
+        const dueMap = new Map(dueRows.map((row) => [row.id, row]));
+        await this.assertYearsOpen(tx, dueRows.map((row) => row.academicYear));
+
+        for (const allocation of dueAllocations) {
+          const dueId = Number(allocation.dueId);
+          const dueRow = dueMap.get(dueId);
+          if (!dueRow) {
+            throw new Error(`Due entry ${dueId} not found for this student.`);
+          }
+          if (familyMembersById ? !familyMembersById.has(dueRow.studentId) : dueRow.studentId !== payload.studentId) {
+            throw new Error(familyMembersById
+              ? `Due entry ${dueId} does not belong to this family.`
+              : `Due entry ${dueId} does not belong to the selected student.`);
+          }
+          if (dueRow.status === 'cancelled') {
+            throw new Error(`Due entry ${dueId} has been cancelled.`);
+          }
+          if (dueRow.status === 'waived') {
+            throw new Error(`Due entry ${dueId} has been waived.`);
+          }
+          if (dueRow.status === 'written_off') {
+            throw new Error(`Due entry ${dueId} has been written off.`);
+          }
+          if (dueRow.status === 'split') {
+            throw new Error(`Due entry ${dueId} is paid in installments; allocate to those instead.`);
+          }
+          if (dueRow.status === 'carried_forward') {
+            throw new Error(`Due entry ${dueId} was carried forward to the next year's arrears.`);
+          }
+
+          if (toPaise(allocation.amount) <= 0) {
+            throw new Error('Allocation amount must be positive.');
+          }
+        }
+
+        const receiptNumber = await this.allocateReceiptNumber(tx, targetAcademicYear);
+
+        const paymentInsert: InsertPayment = {
+          studentId: payload.studentId,
+          receiptNumber,
+          amount: fromPaise(totalPaise),
+          paymentMethod: primaryTender.method as Payment['paymentMethod'],
+          paymentDate,
+          status: markPaid ? 'paid' : 'pending',
+          transactionId: payload.referenceNumber ?? primaryTender.referenceNumber ?? null,
+          remarks: payload.remarks ?? null,
+          verifiedBy: markPaid && payload.createdBy ? payload.createdBy : null,
+          verifiedAt: markPaid ? new Date() : null,
+          receiptUrl: null,
+          academicYear: targetAcademicYear,
+          idempotencyKey,
+        } as InsertPayment;
+
+        const [paymentRow] = await tx.insert(payments).values(paymentInsert).returning();
+
+        const tenderRows: PaymentTender[] = await tx
+          .insert(paymentTenders)
+          .values(tenderLines.map((tender) => ({
+            paymentId: paymentRow.id,
+            method: tender.method as PaymentTender['method'],
+            amount: fromPaise(tender.amount),
+            referenceNumber: tender.referenceNumber ?? null,
+            bankName: tender.bankName ?? null,
+            chequeNumber: tender.chequeNumber ?? null,
+            chequeDate: tender.chequeDate ?? null,
+            chequeStatus: tender.method === 'cheque' ? 'received' as const : null,
+          })))
+          .returning();
+
+        const allocationRows: PaymentAllocation[] = [];
+        let excessPaise = 0;
+
+        const headLabels = await this.getFeeHeadLabels(tx);
+
+        for (const allocation of dueAllocations) {
+          const dueId = Number(allocation.dueId);
+          const dueRow = dueMap.get(dueId)!;
+
+          const paidSoFar = toPaise(dueRow.paidAmount);
+          const totalDue = toPaise(dueRow.amount);
+          const outstanding = Math.max(0, totalDue - paidSoFar);
+          // Anything paid beyond the outstanding balance is held as advance credit.
+          const requested = toPaise(allocation.amount);
+          const payPaise = Math.min(requested, outstanding);
+          excessPaise += requested - payPaise;
+          if (payPaise <= 0) {
+            continue;
+          }
+
+          const newPaid = paidSoFar + payPaise;
+          const status = newPaid >= totalDue ? 'paid' : 'partial';
+          dueRow.paidAmount = fromPaise(newPaid);
+
+          await tx
+            .update(studentDues)
+            .set({
+              paidAmount: fromPaise(newPaid),
+              status,
+              updatedAt: new Date(),
+            })
+            .where(eq(studentDues.id, dueId));
+
+          const dueLabel = buildDueLabel(dueRow, headLabels);
+          const childName = familyMembersById?.get(dueRow.studentId)?.name;
+          const allocationInsert: InsertPaymentAllocation = {
+            paymentId: paymentRow.id,
+            dueId,
+            // Family receipts name the child on every line so the guardian can tell them apart.
+            label: allocation.label ?? (childName ? `${childName} - ${dueLabel}`.slice(0, 120) : dueLabel),
+            category: allocation.category ?? dueRow.itemType,
+            amount: fromPaise(payPaise),
+            notes: allocation.notes ?? null,
+          };
+
+          const [insertedAllocation] = await tx
+            .insert(paymentAllocations)
+            .values(allocationInsert)
+            .returning();
+
+          allocationRows.push(insertedAllocation);
+        }
+
+        const miscHeadId = miscAllocations.length ? await this.getFeeHeadId(tx, 'misc') : null;
+        for (const allocation of miscAllocations) {
+          const payPaise = toPaise(allocation.amount);
+          if (payPaise <= 0) {
+            throw new Error('Other charges must have a positive amount.');
+          }
+
+          const notes = allocation.notes ?? allocation.label ?? allocation.category ?? headLabels.get('misc') ?? 'Other Fee';
+
+          const [miscDue] = await tx
+            .insert(studentDues)
+            .values({
+              studentId: payload.studentId,
+              accountId: accountRow.id,
+              dueType: 'one_time',
+              itemType: 'misc',
+              feeHeadId: miscHeadId,
+              academicYear: accountRow.academicYear,
+              dueDate: paymentDate.toISOString().slice(0, 10),
+              amount: fromPaise(payPaise),
+              paidAmount: verify ? fromPaise(payPaise) : '0.00',
+              status: verify ? 'paid' : 'due',
+              notes,
+              raisedByPaymentId: paymentRow.id,
+            })
+            .returning({ id: studentDues.id });
+
+          const [insertedAllocation] = await tx
+            .insert(paymentAllocations)
+            .values({
+              paymentId: paymentRow.id,
+              dueId: miscDue.id,
+              label: allocation.label ?? notes,
+              category: allocation.category ?? 'misc',
+              amount: fromPaise(payPaise),
+              notes,
+            })
+            .returning();
+
+          allocationRows.push(insertedAllocation);
+        }
+
+        const creditPaise = advancePaise + excessPaise;
+        if (creditPaise > 0) {
+          await tx.insert(studentCredits).values({
+            studentId: payload.studentId,
+            accountId: accountRow.id,
+            paymentId: paymentRow.id,
+            entryType: 'credit',
+            amount: fromPaise(creditPaise),
+            notes: excessPaise > 0 ? 'Paid in excess of selected dues' : 'Advance payment',
+          });
+        }
+
+        // The deposit shows on the receipt as its own line but is held in the deposits ledger.
+        if (depositPaise > 0) {
+          const [depositAllocation] = await tx
+            .insert(paymentAllocations)
+            .values({
+              paymentId: paymentRow.id,
+              dueId: null,
+              label: 'Caution deposit (refundable)',
+              category: 'deposit',
+              amount: fromPaise(depositPaise),
+              notes: null,
+            })
+            .returning();
+          allocationRows.push(depositAllocation);
+          await tx.insert(depositEntries).values({
+            studentId: payload.studentId,
+            paymentId: paymentRow.id,
+            academicYear: targetAcademicYear,
+            entryType: 'collected',
+            amount: fromPaise(depositPaise),
+            recordedBy: payload.createdBy ?? null,
+          });
+        }
+
+        return { payment: paymentRow, allocations: allocationRows, tenders: tenderRows, advance: creditPaise };
+      });
+    } catch (error: any) {
+      // A concurrent retry with the same key won the insert; hand back its result instead.
+      if (idempotencyKey && error?.code === '23505' && String(error?.constraint ?? '').includes('idempotency_key')) {
+        const recorded = await this.getRecordedPayment(idempotencyKey);
+        if (recorded) {
+          return recorded;
+        }
+      }
+      throw error;
+    }
+
+    const summary = await this.getStudentFinanceSummary(payload.studentId, targetAcademicYear);
+
+    return {
+      payment: result.payment,
+      allocations: result.allocations,
+      tenders: result.tenders,
+      advance: fromPaise(result.advance),
+      summary,
+    };
+  }
+
+  // Rebuilds the recordPayment response for a payment saved under this idempotency key.
+  private async getRecordedPayment(idempotencyKey: string): Promise<RecordPaymentResult | null> {
+    const [paymentRow] = await db
+      .select()
+      .from(payments)
+      .where(eq(payments.idempotencyKey, idempotencyKey))
+      .limit(1);
+    if (!paymentRow) {
+      return null;
+    }
+
+    const allocationRows = await db
+      .select()
+      .from(paymentAllocations)
+      .where(eq(paymentAllocations.paymentId, paymentRow.id))
+      .orderBy(asc(paymentAllocations.id));
+    const tenderRows = await db
+      .select()
+      .from(paymentTenders)
+      .where(eq(paymentTenders.paymentId, paymentRow.id))
+      .orderBy(asc(paymentTenders.id));
+    const [advanceRow] = await db
+      .select({ advance: sql<string>`COALESCE(SUM(${studentCredits.amount}), 0)` })
+      .from(studentCredits)
+      .where(and(eq(studentCredits.paymentId, paymentRow.id), eq(studentCredits.entryType, 'credit')));
+
+    const summary = await this.getStudentFinanceSummary(paymentRow.studentId, paymentRow.academicYear ?? undefined);
+
+    return {
+      payment: paymentRow,
+      allocations: allocationRows,
+      tenders: tenderRows,
+      advance: toDecimalString(asNumber(advanceRow?.advance)),
+      summary,
+      replayed: true,
+    };
+  }
+
+  // Same student, amount and method within the configured window usually means the
+  // cashier submitted twice; callers warn before saving rather than blocking outright.
+  async findDuplicatePayments(payload: RecordPaymentInput): Promise<DuplicatePaymentSuspect[]> {
+    const windowMinutes = getDuplicatePaymentWindowMinutes();
+    if (windowMinutes <= 0) {
+      return [];
+    }
+
+    // The same total recordPayment charges; auto-allocation spreads amount over the dues.
+    const totalPaise = (payload.autoAllocate
+      ? toPaise(payload.amount)
+      : payload.allocations.reduce((sum, item) => sum + toPaise(item.amount), 0))
+      + toPaise(payload.advanceAmount)
+      + toPaise(payload.depositAmount);
+    if (totalPaise <= 0) {
+      return [];
+    }
+    const primaryMethod = payload.tenders?.length
+      ? payload.tenders.reduce((top, tender) => (asNumber(tender.amount, 0) > asNumber(top.amount, 0) ? tender : top), payload.tenders[0]).method
+      : payload.paymentMethod;
+    const idempotencyKey = payload.idempotencyKey?.trim() || null;
+    const since = new Date(Date.now() - windowMinutes * 60 * 1000);
+
+    const rows = await db
+      .select({
+        id: payments.id,
+        receiptNumber: payments.receiptNumber,
+        amount: payments.amount,
+        paymentMethod: payments.paymentMethod,
+        paymentDate: payments.paymentDate,
+        status: payments.status,
+        createdAt: payments.createdAt,
+      })
+      .from(payments)
+      .where(
+        and(
+          eq(payments.studentId, payload.studentId),
+          eq(payments.amount, fromPaise(totalPaise)),
+          eq(payments.paymentMethod, primaryMethod as Payment['paymentMethod']),
+          gte(payments.createdAt, since),
+          notInArray(payments.status, ['voided', 'failed']),
+          // A retry of the same request is a replay, not a duplicate.
+          idempotencyKey ? sql`${payments.idempotencyKey} IS DISTINCT FROM ${idempotencyKey}` : undefined,
+        ),
+      )
+      .orderBy(desc(payments.createdAt));
+
+    return rows.map((row) => ({
+      id: row.id,
+      receiptNumber: row.receiptNumber ?? null,
+      amount: toDecimalString(asNumber(row.amount)),
+      paymentMethod: row.paymentMethod,
+      paymentDate: row.paymentDate.toISOString(),
+      status: row.status,
+      createdAt: row.createdAt.toISOString(),
+    }));
+  }
+
+  async verifyPayment(id: number, verifiedBy: number): Promise<Payment | undefined> {
+    const [result] = await db
+      .update(payments)
+      .set({ 
+        status: 'paid', 
+        verifiedBy, 
+        verifiedAt: new Date() 
+      })
+      .where(eq(payments.id, id))
+      .returning();
+    return result || undefined;
+  }
+
+  // Undoes everything a receipt did to the ledger: allocations come off their dues
+  // and whatever advance it still holds is debited back out.
+  private async reversePaymentEffects(tx: any, paymentRow: Payment, creditNote: string): Promise<void> {
+    const paymentId = paymentRow.id;
+
+    const allocationRows = await tx
+      .select()
+      .from(paymentAllocations)
+      .where(eq(paymentAllocations.paymentId, paymentId)) as PaymentAllocation[];
+
+    const dueIds = Array.from(new Set(
+      allocationRows
+        .map((row) => row.dueId)
+        .filter((dueId): dueId is number => dueId !== null && dueId !== undefined),
+    ));
+
+    const dueRows = dueIds.length
+      ? await tx
+          .select({
+            id: studentDues.id,
+            amount: studentDues.amount,
+            paidAmount: studentDues.paidAmount,
+            status: studentDues.status,
+            raisedByPaymentId: studentDues.raisedByPaymentId,
+          })
+          .from(studentDues)
+          .where(inArray(studentDues.id, dueIds))
+          .orderBy(asc(studentDues.id))
+          .for('update') as Array<{ id: number; amount: string; paidAmount: string; status: string; raisedByPaymentId: number | null }>
+      : [];
+    dueRows.forEach(assertDueReversible);
+
+    // Misc charges this receipt raised inline exist only because of it and are cancelled,
+    // unless another receipt has since paid towards them. Every other due, late fees and
+    // bounce charges included, is reopened.
+    const sharedRows = dueIds.length
+      ? await tx
+          .select({ dueId: paymentAllocations.dueId })
+          .from(paymentAllocations)
+          .where(and(inArray(paymentAllocations.dueId, dueIds), ne(paymentAllocations.paymentId, paymentId))) as Array<{ dueId: number | null }>
+      : [];
+    const sharedDueIds = new Set(sharedRows.map((row) => row.dueId));
+
+    const reversedByDue = new Map<number, number>();
+    allocationRows.forEach((row) => {
+      if (row.dueId === null || row.dueId === undefined) return;
+      reversedByDue.set(row.dueId, (reversedByDue.get(row.dueId) ?? 0) + toPaise(row.amount));
+    });
+
+    for (const dueRow of dueRows) {
+      const reversal = reversedByDue.get(dueRow.id) ?? 0;
+
+      if (dueRow.raisedByPaymentId === paymentId && !sharedDueIds.has(dueRow.id)) {
+        await tx
+          .update(studentDues)
+          .set({ paidAmount: '0.00', status: 'cancelled', updatedAt: new Date() })
+          .where(eq(studentDues.id, dueRow.id));
+        continue;
+      }
+
+      const newPaid = Math.max(0, toPaise(dueRow.paidAmount) - reversal);
+      await tx
+        .update(studentDues)
+        .set({
+          paidAmount: fromPaise(newPaid),
+          status: resolveDueStatus(asNumber(dueRow.amount, 0), newPaid / 100),
+          updatedAt: new Date(),
+        })
+        .where(eq(studentDues.id, dueRow.id));
+    }
+
+    await this.debitPaymentCredit(tx, paymentRow, null, creditNote);
+
+    const depositRows = await tx
+      .select()
+      .from(depositEntries)
+      .where(eq(depositEntries.studentId, paymentRow.studentId))
+      .for('update') as DepositEntry[];
+    const fromPayment = summarizeDepositEntries(depositRows.filter((row) => row.paymentId === paymentId));
+    const depositToReverse = toPaise(fromPayment.collected) - toPaise(fromPayment.reversed);
+    if (depositToReverse > 0) {
+      if (depositToReverse > toPaise(summarizeDepositEntries(depositRows).held)) {
+        throw new Error('The caution deposit taken with this payment has already been refunded or deducted.');
+      }
+      await tx.insert(depositEntries).values({
+        studentId: paymentRow.studentId,
+        paymentId,
+        academicYear: paymentRow.academicYear,
+        entryType: 'reversed',
+        amount: fromPaise(depositToReverse),
+        reason: creditNote,
+      });
+    }
+  }
+
+  // Records the first print of a receipt. Only one caller ever gets true, so concurrent
+  // requests cannot both print the original copy.
+  async markReceiptPrinted(id: number, receiptUrl: string): Promise<boolean> {
+    const [result] = await db
+      .update(payments)
+      .set({ receiptUrl })
+      .where(and(eq(payments.id, id), sql`${payments.receiptUrl} IS NULL`))
+      .returning({ id: payments.id });
+    return Boolean(result);
+  }
+
+  async voidPayment(id: number, input: VoidPaymentInput): Promise<{ payment: Payment; summary: StudentFinanceSummary | null; } | null> {
+    const reason = input.reason?.trim();
+    if (!reason) {
+      throw new Error('A reason is required to void a payment.');
+    }
+
+    const voided = await db.transaction(async (tx) => {
+      const [paymentRow] = await tx
+        .select()
+        .from(payments)
+        .where(eq(payments.id, id))
+        .limit(1)
+        .for('update');
+
+      if (!paymentRow) {
+        return null;
+      }
+      if (paymentRow.status === 'voided') {
+        throw new Error('This payment has already been voided.');
+      }
+      if (paymentRow.status === 'failed') {
+        throw new Error('A failed payment has nothing left to void.');
+      }
+      // Refunds already took their share back out of the dues and advance; reversing the
+      // receipt in full on top of them would take it twice.
+      const [refundedRow] = await tx
+        .select({ count: count() })
+        .from(paymentRefunds)
+        .where(eq(paymentRefunds.paymentId, id));
+      if (Number(refundedRow?.count ?? 0) > 0) {
+        throw new Error('A payment with refunds cannot be voided; refund the rest of it instead.');
+      }
+      await this.assertYearsOpen(tx, await this.getPaymentYears(tx, paymentRow));
+
+      await this.reversePaymentEffects(tx, paymentRow, 'Reversed on void');
+
+      const [updated] = await tx
+        .update(payments)
+        .set({
+          status: 'voided',
+          voidedAt: new Date(),
+          voidedBy: input.voidedBy ?? null,
+          voidReason: reason,
+        })
+        .where(eq(payments.id, id))
+        .returning();
+
+      return updated;
+    });
+
+    if (!voided) {
+      return null;
+    }
+
+    const summary = await this.getStudentFinanceSummary(voided.studentId, voided.academicYear ?? undefined);
+    return { payment: voided, summary };
+  }
+
+  async refundPayment(id: number, input: RefundPaymentInput): Promise<{ refund: PaymentRefund; summary: StudentFinanceSummary | null; } | null> {
+    const amountPaise = toPaise(input.amount);
+    if (amountPaise <= 0) {
+      throw new Error('Refund amount must be greater than zero.');
+    }
+
+    const refund = await db.transaction(async (tx) => {
+      // The payment row lock queues concurrent refunds so each sees the others' totals.
+      const [paymentRow] = await tx
+        .select()
+        .from(payments)
+        .where(eq(payments.id, id))
+        .limit(1)
+        .for('update');
+
+      if (!paymentRow) {
+        return null;
+      }
+      if (paymentRow.status === 'voided') {
+        throw new Error('Voided payments cannot be refunded.');
+      }
+      if (paymentRow.status === 'failed') {
+        throw new Error('Failed payments cannot be refunded.');
+      }
+      if (paymentRow.status === 'pending') {
+        throw new Error('Payments awaiting verification or cheque clearance cannot be refunded.');
+      }
+      await this.assertYearsOpen(tx, await this.getPaymentYears(tx, paymentRow));
+
+      const [refundedRow] = await tx
+        .select({ total: sql<string>`COALESCE(SUM(${paymentRefunds.amount}), 0)` })
+        .from(paymentRefunds)
+        .where(eq(paymentRefunds.paymentId, id));
+      // The caution deposit taken with the payment is refunded from the deposits ledger.
+      const [depositRow] = await tx
+        .select({ total: sql<string>`COALESCE(SUM(${paymentAllocations.amount}), 0)` })
+        .from(paymentAllocations)
+        .where(and(eq(paymentAllocations.paymentId, id), eq(paymentAllocations.category, 'deposit')));
+      const refundable = toPaise(paymentRow.amount) - toPaise(depositRow?.total) - toPaise(refundedRow?.total);
+      if (amountPaise > refundable) {
+        throw new Error(`Refund exceeds the refundable balance of ${fromPaise(Math.max(0, refundable))}.`);
+      }
+
+      let allocationRow: PaymentAllocation | undefined;
+      if (!input.allocationId) {
+        // Without a fee component only advance this payment still holds can go back; money
+        // sitting in paid dues has to be refunded against the due it paid.
+        const [heldRow] = await tx
+          .select({ balance: creditBalanceSql() })
+          .from(studentCredits)
+          .where(eq(studentCredits.paymentId, id));
+        const heldPaise = toPaise(heldRow?.balance);
+        if (amountPaise > heldPaise) {
+          throw new Error(heldPaise > 0
+            ? `Only ${fromPaise(heldPaise)} of this payment is unused advance; choose a fee component to refund the rest.`
+            : 'This payment holds no unused advance; choose the fee component to refund.');
+        }
+      } else {
+        [allocationRow] = await tx
+          .select()
+          .from(paymentAllocations)
+          .where(and(eq(paymentAllocations.id, input.allocationId), eq(paymentAllocations.paymentId, id)))
+          .limit(1);
+        if (!allocationRow) {
+          throw new Error('Allocation does not belong to this payment.');
+        }
+        if (allocationRow.category === 'deposit') {
+          throw new Error('Caution deposits are refunded from the deposits ledger, not against the payment.');
+        }
+
+        const [allocationRefundedRow] = await tx
+          .select({ total: sql<string>`COALESCE(SUM(${paymentRefunds.amount}), 0)` })
+          .from(paymentRefunds)
+          .where(eq(paymentRefunds.allocationId, allocationRow.id));
+        const allocationRefundable = toPaise(allocationRow.amount) - toPaise(allocationRefundedRow?.total);
+        if (amountPaise > allocationRefundable) {
+          throw new Error(`Refund exceeds the refundable balance of ${fromPaise(Math.max(0, allocationRefundable))} for this fee component.`);
+        }
+      }
+
+      // A refund against an allocated due acts as a credit note: the charge and
+      // the amount collected against it both drop, so the balance is unchanged.
+      if (allocationRow?.dueId) {
+        const [dueRow] = await tx
+          .select({ amount: studentDues.amount, paidAmount: studentDues.paidAmount })
+          .from(studentDues)
+          .where(eq(studentDues.id, allocationRow.dueId))
+          .limit(1)
+          .for('update');
+
+        if (dueRow) {
+          const newAmount = Math.max(0, toPaise(dueRow.amount) - amountPaise);
+          const newPaid = Math.max(0, toPaise(dueRow.paidAmount) - amountPaise);
+          await tx
+            .update(studentDues)
+            .set({
+              amount: fromPaise(newAmount),
+              paidAmount: fromPaise(newPaid),
+              status: resolveDueStatus(newAmount / 100, newPaid / 100),
+              updatedAt: new Date(),
+            })
+            .where(eq(studentDues.id, allocationRow.dueId));
+        }
+      }
+
+      // Refunds not tied to a fee component come out of any advance still held for this payment.
+      if (!allocationRow) {
+        const debitedPaise = await this.debitPaymentCredit(tx, paymentRow, amountPaise, 'Refunded to guardian');
+        if (debitedPaise < amountPaise) {
+          throw new Error('The advance held for this payment changed while refunding; try again.');
+        }
+      }
+
+      const [inserted] = await tx
+        .insert(paymentRefunds)
+        .values({
+          paymentId: id,
+          allocationId: allocationRow?.id ?? null,
+          studentId: paymentRow.studentId,
+          academicYear: paymentRow.academicYear,
+          amount: fromPaise(amountPaise),
+          refundMethod: input.refundMethod,
+          referenceNumber: input.referenceNumber ?? null,
+          reason: input.reason ?? null,
+          refundedBy: input.refundedBy ?? null,
+          refundedAt: input.refundedAt ? new Date(input.refundedAt) : new Date(),
+        })
+        .returning();
+
+      return inserted;
+    });
+
+    if (!refund) {
+      return null;
+    }
+
+    const summary = await this.getStudentFinanceSummary(refund.studentId, refund.academicYear ?? undefined);
+    return { refund, summary };
+  }
+
+  // A bounced cheque in a split receipt only takes back its own share: advance the
+  // receipt still holds goes first, then the most recent due allocations are trimmed,
+  // and the caution deposit is reversed only for whatever is left after that.
+  private async reversePaymentPortion(tx: any, paymentRow: Payment, amountPaise: number, note: string): Promise<void> {
+    let remaining = amountPaise;
+
+    remaining -= await this.debitPaymentCredit(tx, paymentRow, remaining, note);
+
+    if (remaining <= 0) {
+      return;
+    }
+
+    const allocationRows = await tx
+      .select()
+      .from(paymentAllocations)
+      .where(eq(paymentAllocations.paymentId, paymentRow.id))
+      .orderBy(desc(paymentAllocations.id))
+      .for('update') as PaymentAllocation[];
+    const ordered = [
+      ...allocationRows.filter((row) => row.category !== 'deposit'),
+      ...allocationRows.filter((row) => row.category === 'deposit'),
+    ];
+    let depositPaise = 0;
+
+    for (const allocation of ordered) {
+      if (remaining <= 0) break;
+
+      const allocated = toPaise(allocation.amount);
+      const portion = Math.min(allocated, remaining);
+      if (portion <= 0) continue;
+
+      if (allocation.dueId) {
+        const [dueRow] = await tx
+          .select({ id: studentDues.id, amount: studentDues.amount, paidAmount: studentDues.paidAmount, status: studentDues.status })
+          .from(studentDues)
+          .where(eq(studentDues.id, allocation.dueId))
+          .limit(1)
+          .for('update');
+        if (dueRow) {
+          assertDueReversible(dueRow);
+          const newPaid = Math.max(0, toPaise(dueRow.paidAmount) - portion);
+          await tx
+            .update(studentDues)
+            .set({
+              paidAmount: fromPaise(newPaid),
+              status: resolveDueStatus(asNumber(dueRow.amount, 0), newPaid / 100),
+              updatedAt: new Date(),
+            })
+            .where(eq(studentDues.id, allocation.dueId));
+        }
+      } else if (allocation.category === 'deposit') {
+        depositPaise += portion;
+      }
+
+      await tx
+        .update(paymentAllocations)
+        .set({
+          amount: fromPaise(allocated - portion),
+          notes: allocation.notes ? `${allocation.notes}; ${note}` : note,
+        })
+        .where(eq(paymentAllocations.id, allocation.id));
+
+      remaining -= portion;
+    }
+
+    if (depositPaise > 0) {
+      const depositRows = await tx
+        .select()
+        .from(depositEntries)
+        .where(eq(depositEntries.studentId, paymentRow.studentId))
+        .for('update') as DepositEntry[];
+      if (depositPaise > toPaise(summarizeDepositEntries(depositRows).held)) {
+        throw new Error('The caution deposit taken with this payment has already been refunded or deducted.');
+      }
+      await tx.insert(depositEntries).values({
+        studentId: paymentRow.studentId,
+        paymentId: paymentRow.id,
+        academicYear: paymentRow.academicYear,
+        entryType: 'reversed',
+        amount: fromPaise(depositPaise),
+        reason: note,
+      });
+    }
+  }
+
+  async getCheques(filters: ChequeFilters = {}): Promise<ChequeRecord[]> {
+    const finance = sqlFinance();
+    const statuses = filters.status === 'pending'
+      ? ['received', 'deposited']
+      : filters.status
+        ? [filters.status]
+        : null;
+    const academicYear = filters.academicYear ?? null;
+
+    const rows = await finance`
+      SELECT
+        t.id,
+        t.payment_id as "paymentId",
+        t.method,
+        t.amount,
+        t.reference_number as "referenceNumber",
+        t.bank_name as "bankName",
+        t.cheque_number as "chequeNumber",
+        t.cheque_date as "chequeDate",
+        t.cheque_status as "chequeStatus",
+        t.deposit_date as "depositDate",
+        t.clearance_date as "clearanceDate",
+        t.bounced_at as "bouncedAt",
+        t.bounce_reason as "bounceReason",
+        p.student_id as "studentId",
+        p.payment_date as "paymentDate",
+        p.status as "paymentStatus",
+        p.receipt_number as "receiptNumber",
+        p.academic_year as "academicYear"
+      FROM payment_tenders t
+      JOIN payments p ON p.id = t.payment_id
+      WHERE t.method = 'cheque'
+        AND p.status <> 'voided'
+        AND (${statuses}::text[] IS NULL OR t.cheque_status::text = ANY(${statuses}::text[]))
+        AND (${academicYear}::text IS NULL OR p.academic_year = ${academicYear})
+      ORDER BY COALESCE(t.cheque_date, p.payment_date::date) ASC, t.id ASC
+    ` as Array<Omit<ChequeRecord, 'studentName' | 'className'>>;
+
+    if (!rows.length) {
+      return [];
+    }
+
+    const studentIds = Array.from(new Set(rows.map((row) => Number(row.studentId))));
+    const shared = sqlShared();
+    const studentInfo = await shared`
+      SELECT s.id, s.name, c.name as "className", c.section as "classSection"
+      FROM students s
+      LEFT JOIN classes c ON c.id = s.class_id
+      WHERE s.id = ANY(${studentIds})
+    ` as Array<{ id: number; name: string; className: string | null; classSection: string | null }>;
+    const studentMap = new Map(studentInfo.map((row) => [Number(row.id), row]));
+
+    return rows.map((row) => {
+      const student = studentMap.get(Number(row.studentId));
+      const className = student?.className
+        ? student.classSection ? `${student.className} - ${student.classSection}` : student.className
+        : 'Unknown Class';
+      return {
+        ...row,
+        id: Number(row.id),
+        paymentId: Number(row.paymentId),
+        studentId: Number(row.studentId),
+        amount: toDecimalString(asNumber(row.amount)),
+        studentName: student?.name ?? 'Unknown Student',
+        className,
+      };
+    });
+  }
+
+  private async getChequeTender(tx: any, tenderId: number): Promise<{ tender: PaymentTender; payment: Payment } | null> {
+    const [tender] = await tx
+      .select()
+      .from(paymentTenders)
+      .where(eq(paymentTenders.id, tenderId))
+      .limit(1)
+      .for('update') as PaymentTender[];
+    if (!tender) {
+      return null;
+    }
+    if (tender.method !== 'cheque') {
+      throw new Error('This tender is not a cheque.');
+    }
+
+    const [payment] = await tx
+      .select()
+      .from(payments)
+      .where(eq(payments.id, tender.paymentId))
+      .limit(1)
+      .for('update') as Payment[];
+    if (!payment) {
+      return null;
+    }
+    if (payment.status === 'voided') {
+      throw new Error('The payment for this cheque has been voided.');
+    }
+
+    return { tender, payment };
+  }
+
+  async depositCheque(tenderId: number, input: ChequeTransitionInput): Promise<PaymentTender | null> {
+    const depositDate = input.date ?? new Date().toISOString().slice(0, 10);
+
+    return db.transaction(async (tx) => {
+      const found = await this.getChequeTender(tx, tenderId);
+      if (!found) {
+        return null;
+      }
+      if (found.tender.chequeStatus !== 'received') {
+        throw new Error(`A ${found.tender.chequeStatus ?? 'untracked'} cheque cannot be deposited.`);
+      }
+      await this.assertYearsOpen(tx, await this.getPaymentYears(tx, found.payment));
+
+      const [updated] = await tx
+        .update(paymentTenders)
+        .set({ chequeStatus: 'deposited', depositDate })
+        .where(eq(paymentTenders.id, tenderId))
+        .returning();
+      return updated;
+    });
+  }
+
+  async clearCheque(tenderId: number, input: ChequeTransitionInput): Promise<{ tender: PaymentTender; payment: Payment; } | null> {
+    const clearanceDate = input.date ?? new Date().toISOString().slice(0, 10);
+
+    return db.transaction(async (tx) => {
+      const found = await this.getChequeTender(tx, tenderId);
+      if (!found) {
+        return null;
+      }
+      const { tender, payment } = found;
+      if (tender.chequeStatus !== 'received' && tender.chequeStatus !== 'deposited') {
+        throw new Error(`A ${tender.chequeStatus ?? 'untracked'} cheque cannot be cleared.`);
+      }
+      if (tender.depositDate && clearanceDate < tender.depositDate) {
+        throw new Error('Clearance date cannot be before the deposit date.');
+      }
+      await this.assertYearsOpen(tx, await this.getPaymentYears(tx, payment));
+
+      const [updatedTender] = await tx
+        .update(paymentTenders)
+        .set({
+          chequeStatus: 'cleared',
+          depositDate: tender.depositDate ?? clearanceDate,
+          clearanceDate,
+        })
+        .where(eq(paymentTenders.id, tenderId))
+        .returning();
+
+      const [{ uncleared }] = await tx
+        .select({ uncleared: count() })
+        .from(paymentTenders)
+        .where(and(
+          eq(paymentTenders.paymentId, payment.id),
+          inArray(paymentTenders.chequeStatus, ['received', 'deposited']),
+        ));
+
+      let updatedPayment = payment;
+      if (Number(uncleared) === 0 && payment.status === 'pending') {
+        [updatedPayment] = await tx
+          .update(payments)
+          .set({ status: 'paid', verifiedBy: input.actedBy ?? null, verifiedAt: new Date() })
+          .where(eq(payments.id, payment.id))
+          .returning();
+      }
+
+      return { tender: updatedTender, payment: updatedPayment };
+    });
+  }
+
+  async bounceCheque(tenderId: number, input: BounceChequeInput): Promise<{ tender: PaymentTender; payment: Payment; bounceCharge: StudentDue | null; summary: StudentFinanceSummary | null; } | null> {
+    const reason = input.reason?.trim();
+    if (!reason) {
+      throw new Error('A reason is required to bounce a cheque.');
+    }
+    const chargeAmount = Number(asNumber(input.bounceCharge, 0).toFixed(2));
+    if (chargeAmount < 0) {
+      throw new Error('Bounce charge cannot be negative.');
+    }
+    const bouncedAt = input.date ?? new Date().toISOString().slice(0, 10);
+
+    const result = await db.transaction(async (tx) => {
+      const found = await this.getChequeTender(tx, tenderId);
+      if (!found) {
+        return null;
+      }
+      const { tender, payment } = found;
+      if (tender.chequeStatus !== 'received' && tender.chequeStatus !== 'deposited') {
+        throw new Error(`A ${tender.chequeStatus ?? 'untracked'} cheque cannot bounce.`);
+      }
+      await this.assertYearsOpen(tx, await this.getPaymentYears(tx, payment));
+
+      const chequeLabel = tender.chequeNumber ? `Cheque ${tender.chequeNumber}` : `Cheque #${tender.id}`;
+      const note = `${chequeLabel} bounced`;
+      const chequePaise = toPaise(tender.amount);
+
+      const otherTenders = await tx
+        .select({ method: paymentTenders.method, chequeStatus: paymentTenders.chequeStatus })
+        .from(paymentTenders)
+        .where(and(eq(paymentTenders.paymentId, payment.id), ne(paymentTenders.id, tenderId)));
+      const liveTenders = otherTenders.filter((row) => row.chequeStatus !== 'bounced');
+
+      const remarks = [payment.remarks, `${note}: ${reason}`].filter(Boolean).join(' | ');
+      let paymentUpdate: Partial<InsertPayment>;
+
+      if (!liveTenders.length) {
+        // Nothing else was tendered on this receipt, so the whole payment fails.
+        await this.reversePaymentEffects(tx, payment, note);
+        paymentUpdate = { status: 'failed', remarks };
+      } else {
+        await this.reversePaymentPortion(tx, payment, chequePaise, note);
+        const stillUncleared = liveTenders.some((row) => row.chequeStatus === 'received' || row.chequeStatus === 'deposited');
+        const settles = payment.status === 'pending' && !stillUncleared;
+        paymentUpdate = {
+          amount: fromPaise(toPaise(payment.amount) - chequePaise),
+          remarks,
+          ...(settles ? { status: 'paid', verifiedBy: input.actedBy ?? null, verifiedAt: new Date() } : {}),
+        };
+      }
+
+      const [updatedPayment] = await tx
+        .update(payments)
+        .set(paymentUpdate)
+        .where(eq(payments.id, payment.id))
+        .returning();
+
+      let bounceCharge: StudentDue | null = null;
+      if (chargeAmount > 0.009) {
+        const chargeYear = payment.academicYear ?? await this.getCurrentAcademicYearCode();
+        const [accountRow] = await tx
+          .select({ id: studentAccounts.id })
+          .from(studentAccounts)
+          .where(and(eq(studentAccounts.studentId, payment.studentId), eq(studentAccounts.academicYear, chargeYear)))
+          .orderBy(desc(studentAccounts.openedAt))
+          .limit(1);
+        if (!accountRow) {
+          throw new Error('No student account found to levy the bounce charge.');
+        }
+
+        [bounceCharge] = await tx
+          .insert(studentDues)
+          .values({
+            studentId: payment.studentId,
+            accountId: accountRow.id,
+            dueType: 'one_time',
+            itemType: 'misc',
+            feeHeadId: await this.getFeeHeadId(tx, 'misc'),
+            academicYear: chargeYear,
+            dueDate: bouncedAt,
+            amount: toDecimalString(chargeAmount),
+            paidAmount: '0.00',
+            status: 'due',
+            notes: `Cheque bounce charge (${chequeLabel})`,
+          })
+          .returning();
+        await this.applyAccountCredit(tx, accountRow.id);
       }
 
-      const allocations: PaymentAllocationSummaryRecord[] = allocationRows.map((row) => ({
-        id: Number(row.id),
-        paymentId: Number(row.paymentId),
-        dueId: row.dueId !== null ? Number(row.dueId) : null,
-        label: row.label ?? null,
-        category: row.category ?? null,
-        amount: toDecimalString(asNumber(row.amount)),
-        notes: row.notes ?? null,
-      }));
+      const [updatedTender] = await tx
+        .update(paymentTenders)
+        .set({
+          chequeStatus: 'bounced',
+          bouncedAt,
+          bounceReason: reason,
+          bounceChargeDueId: bounceCharge?.id ?? null,
+        })
+        .where(eq(paymentTenders.id, tenderId))
+        .returning();
 
-      const student = studentRow
-        ? {
-            id: Number(studentRow.id),
-            name: studentRow.name,
-            admissionNumber: studentRow.admissionNumber,
-            guardianName: studentRow.guardianName,
-            isHosteller: studentRow.isHosteller,
-            className: studentRow.className,
-            classSection: studentRow.classSection,
-          }
-        : undefined;
+      return { tender: updatedTender, payment: updatedPayment, bounceCharge };
+    });
 
-      return {
-        payment,
-        allocations,
-        student,
-        summary: null,
-      };
-    } catch (error) {
-      console.error('Failed to fetch payment receipt:', error);
-      throw error;
+    if (!result) {
+      return null;
     }
+
+    const summary = await this.getStudentFinanceSummary(result.payment.studentId, result.payment.academicYear ?? undefined);
+    return { ...result, summary };
   }
 
-  async createPayment(payment: InsertPayment): Promise<Payment> {
-    const [result] = await db
-      .insert(payments)
-      .values(payment)
-      .returning();
-    return result;
+  // Charges each open due that is past its head's grace period a misc late-fee due. A due
+  // gets at most one late fee: reruns leave it alone, except that a per-day fee still
+  // unpaid is raised to the amount owed as of the run date.
+  async levyLateFees(input: LevyLateFeesInput = {}): Promise<LevyLateFeesResult> {
+    const asOf = input.asOf ?? new Date().toISOString().slice(0, 10);
+    const dryRun = input.dryRun ?? false;
+
+    return db.transaction(async (tx) => {
+      const lateDues = await tx
+        .select({
+          id: studentDues.id,
+          studentId: studentDues.studentId,
+          accountId: studentDues.accountId,
+          academicYear: studentDues.academicYear,
+          itemType: studentDues.itemType,
+          dueMonth: studentDues.dueMonth,
+          periodEndMonth: studentDues.periodEndMonth,
+          dueDate: studentDues.dueDate,
+          notes: studentDues.notes,
+          installmentNumber: studentDues.installmentNumber,
+          lateFeeType: feeHeads.lateFeeType,
+          lateFeeAmount: feeHeads.lateFeeAmount,
+          lateFeeCap: feeHeads.lateFeeCap,
+          lateFeeGraceDays: feeHeads.lateFeeGraceDays,
+        })
+        .from(studentDues)
+        .innerJoin(feeHeads, eq(feeHeads.id, studentDues.feeHeadId))
+        .leftJoin(academicYears, eq(academicYears.code, studentDues.academicYear))
+        .where(and(
+          inArray(studentDues.status, ['due', 'partial']),
+          sql`${studentDues.lateFeeForDueId} IS NULL`,
+          // Closed years are left as they were.
+          sql`${academicYears.closedAt} IS NULL`,
+          ne(feeHeads.lateFeeType, 'none'),
+          sql`${studentDues.dueDate} + ${feeHeads.lateFeeGraceDays} < ${asOf}::date`,
+        ))
+        .orderBy(asc(studentDues.id));
+
+      const existingFees = lateDues.length
+        ? await tx
+            .select()
+            .from(studentDues)
+            .where(inArray(studentDues.lateFeeForDueId, lateDues.map((due) => due.id)))
+            .orderBy(asc(studentDues.id))
+            .for('update')
+        : [];
+      const existingMap = new Map(existingFees.map((fee) => [fee.lateFeeForDueId!, fee]));
+
+      const headLabels = await this.getFeeHeadLabels(tx);
+      const miscHeadId = lateDues.length ? await this.getFeeHeadId(tx, 'misc') : null;
+      const touchedAccounts = new Set<number>();
+      const items: LateFeeLine[] = [];
+
+      for (const due of lateDues) {
+        const daysLate = daysBetween(due.dueDate!, asOf);
+        const amount = computeLateFee(due, daysLate);
+        if (amount <= 0) {
+          continue;
+        }
+
+        const label = buildDueLabel(due, headLabels);
+        const line: LateFeeLine = {
+          dueId: due.id,
+          lateFeeDueId: null,
+          studentId: due.studentId,
+          label,
+          dueDate: due.dueDate!,
+          daysLate,
+          amount,
+          action: 'unchanged',
+        };
+        items.push(line);
+
+        const existing = existingMap.get(due.id);
+        if (existing) {
+          line.lateFeeDueId = existing.id;
+          const grows = existing.status === 'due' || existing.status === 'partial';
+          if (!grows || toPaise(amount) <= toPaise(existing.amount)) {
+            line.amount = asNumber(existing.amount, 0);
+            continue;
+          }
+          line.action = 'updated';
+          if (dryRun) {
+            continue;
+          }
+          await tx
+            .update(studentDues)
+            .set({
+              amount: toDecimalString(amount),
+              status: resolveDueStatus(amount, asNumber(existing.paidAmount, 0)),
+              updatedAt: new Date(),
+            })
+            .where(eq(studentDues.id, existing.id));
+          touchedAccounts.add(existing.accountId);
+          continue;
+        }
+
+        line.action = 'created';
+        if (dryRun) {
+          continue;
+        }
+        const [lateFee] = await tx
+          .insert(studentDues)
+          .values({
+            studentId: due.studentId,
+            accountId: due.accountId,
+            dueType: 'one_time',
+            itemType: 'misc',
+            feeHeadId: miscHeadId,
+            academicYear: due.academicYear,
+            dueDate: asOf,
+            amount: toDecimalString(amount),
+            paidAmount: '0.00',
+            status: 'due',
+            notes: `Late fee: ${label}`,
+            lateFeeForDueId: due.id,
+          })
+          .onConflictDoNothing()
+          .returning({ id: studentDues.id });
+        if (!lateFee) {
+          // A concurrent run got there first.
+          line.action = 'unchanged';
+          continue;
+        }
+        line.lateFeeDueId = lateFee.id;
+        touchedAccounts.add(due.accountId);
+      }
+
+      for (const accountId of Array.from(touchedAccounts)) {
+        await this.applyAccountCredit(tx, accountId);
+      }
+
+      const countOf = (action: LateFeeLine['action']) => items.filter((item) => item.action === action).length;
+      return {
+        asOf,
+        dryRun,
+        created: countOf('created'),
+        updated: countOf('updated'),
+        unchanged: countOf('unchanged'),
+        total: Number(items
+          .filter((item) => item.action !== 'unchanged')
+          .reduce((sum, item) => sum + item.amount, 0)
+          .toFixed(2)),
+        items,
+      };
+    });
   }
 
-  async recordPayment(payload: RecordPaymentInput): Promise<{ payment: Payment; allocations: PaymentAllocation[]; summary: StudentFinanceSummary | null; }> {
-    if (!payload.allocations?.length) {
-      throw new Error('At least one fee component must be selected.');
+  // Only late fees can be waived. The unpaid balance moves to waivedAmount and the due
+  // closes at whatever had already been paid.
+  async waiveDue(id: number, input: WaiveDueInput): Promise<{ due: StudentDue; summary: StudentFinanceSummary | null; } | null> {
+    const reason = input.reason?.trim();
+    if (!reason) {
+      throw new Error('A reason is required to waive a due.');
     }
 
-    const paymentDate = new Date(payload.paymentDate);
-    if (Number.isNaN(paymentDate.getTime())) {
-      throw new Error('Invalid payment date provided.');
+    const waived = await db.transaction(async (tx) => {
+      const [due] = await tx.select().from(studentDues).where(eq(studentDues.id, id)).for('update');
+      if (!due) {
+        return null;
+      }
+      if (!due.lateFeeForDueId) {
+        throw new Error('Only late fees can be waived.');
+      }
+      await this.assertYearsOpen(tx, [due.academicYear]);
+      if (due.status !== 'due' && due.status !== 'partial') {
+        throw new Error(`This late fee is already ${due.status}.`);
+      }
+
+      const waivedPaise = toPaise(due.amount) - toPaise(due.paidAmount);
+      const [updated] = await tx
+        .update(studentDues)
+        .set({
+          amount: due.paidAmount,
+          waivedAmount: fromPaise(toPaise(due.waivedAmount) + waivedPaise),
+          status: 'waived',
+          waivedAt: new Date(),
+          waiverReason: reason,
+          updatedAt: new Date(),
+        })
+        .where(eq(studentDues.id, id))
+        .returning();
+      return updated;
+    });
+
+    if (!waived) {
+      return null;
     }
 
-    const totalAmount = payload.allocations.reduce((sum, item) => sum + asNumber(item.amount, 0), 0);
-    if (totalAmount <= 0) {
-      throw new Error('Payment amount must be greater than zero.');
+    const summary = await this.getStudentFinanceSummary(waived.studentId, waived.academicYear ?? undefined);
+    return { due: waived, summary };
+  }
+
+  // Replaces an open one-time due's unpaid balance with installment dues of its own head.
+  // The original keeps what was already paid against it (amount drops to paidAmount) and is
+  // marked 'split'; each installment is then paid, levied late fees and written off like any
+  // other due.
+  async splitDueIntoInstallments(id: number, input: InstallmentPlanInput): Promise<InstallmentPlanResult | null> {
+    const plan = input.installments;
+    if (plan.length < 2) {
+      throw new Error('An installment plan needs at least two installments.');
+    }
+    if (plan.some((item) => toPaise(item.amount) <= 0)) {
+      throw new Error('Every installment must be for a positive amount.');
+    }
+    if (plan.some((item, index) => index > 0 && item.dueDate < plan[index - 1].dueDate)) {
+      throw new Error('Installment dates must be in order.');
     }
 
-    const requestedAcademicYear = payload.academicYear?.trim() || getCurrentAcademicYear();
+    const result = await db.transaction(async (tx) => {
+      const [due] = await tx.select().from(studentDues).where(eq(studentDues.id, id)).for('update');
+      if (!due) {
+        return null;
+      }
+      if (due.dueType !== 'one_time') {
+        throw new Error('Only one-time dues can be paid in installments.');
+      }
+      if (due.lateFeeForDueId) {
+        throw new Error('Late fees cannot be paid in installments.');
+      }
+      if (due.installmentOfDueId) {
+        throw new Error('This due is already an installment.');
+      }
+      if (!isOpenDueStatus(due.status)) {
+        throw new Error(`Only open dues can be split into installments; this one is ${due.status}.`);
+      }
+      await this.assertYearsOpen(tx, [due.academicYear]);
 
-    const shared = sqlShared();
-    const [studentExists] = await shared`
-      SELECT id FROM students WHERE id = ${payload.studentId} LIMIT 1
-    ` as Array<{ id: number }>;
+      const balancePaise = toPaise(due.amount) - toPaise(due.paidAmount);
+      const plannedPaise = plan.reduce((sum, item) => sum + toPaise(item.amount), 0);
+      if (plannedPaise !== balancePaise) {
+        throw new Error(`Installments must add up to the outstanding ${fromPaise(balancePaise)}; they add up to ${fromPaise(plannedPaise)}.`);
+      }
 
-    if (!studentExists) {
-      throw new Error('Student not found.');
-    }
+      const installments: StudentDue[] = await tx
+        .insert(studentDues)
+        .values(plan.map((item, index) => ({
+          studentId: due.studentId,
+          accountId: due.accountId,
+          dueType: due.dueType,
+          itemType: due.itemType,
+          feeHeadId: due.feeHeadId,
+          academicYear: due.academicYear,
+          dueDate: item.dueDate,
+          amount: fromPaise(toPaise(item.amount)),
+          paidAmount: '0',
+          status: 'due' as const,
+          notes: due.notes,
+          installmentOfDueId: due.id,
+          installmentNumber: index + 1,
+        })))
+        .returning();
 
-    const accountSelection = {
-      id: studentAccounts.id,
-      ledgerNumber: studentAccounts.ledgerNumber,
-      academicYear: studentAccounts.academicYear,
-    } as const;
+      const [updated] = await tx
+        .update(studentDues)
+        .set({ amount: due.paidAmount, status: 'split', updatedAt: new Date() })
+        .where(eq(studentDues.id, id))
+        .returning();
 
-    let [accountRow] = await db
-      .select(accountSelection)
-      .from(studentAccounts)
-      .where(
-        and(
-          eq(studentAccounts.studentId, payload.studentId),
-          eq(studentAccounts.status, 'open'),
-          eq(studentAccounts.academicYear, requestedAcademicYear),
-        ),
-      )
-      .orderBy(desc(studentAccounts.openedAt))
-      .limit(1);
+      return { due: updated, installments };
+    });
 
-    if (!accountRow) {
-      const accountResult = await this.openStudentAccount(payload.studentId, { academicYear: requestedAcademicYear });
-      accountRow = {
-        id: accountResult.account.id,
-        ledgerNumber: accountResult.account.ledgerNumber,
-        academicYear: accountResult.account.academicYear,
-      };
+    if (!result) {
+      return null;
     }
 
-    const targetAcademicYear = accountRow.academicYear ?? requestedAcademicYear;
-    const verify = payload.verify ?? true;
+    const summary = await this.getStudentFinanceSummary(result.due.studentId, result.due.academicYear ?? undefined);
+    return { ...result, summary };
+  }
 
-    const result = await db.transaction(async (tx) => {
-      const dueAllocations = payload.allocations.filter((item) => item.dueId);
-      const miscAllocations = payload.allocations.filter((item) => !item.dueId);
+  private async toWriteOffRecords(rows: WriteOff[]): Promise<WriteOffRecord[]> {
+    if (!rows.length) {
+      return [];
+    }
+    const dueIds = rows.flatMap((row) => (row.dueId ? [row.dueId] : []));
+    const [studentMeta, userNames, headLabels, dues] = await Promise.all([
+      this.getStudentNames(rows.map((row) => row.studentId)),
+      this.getUserNames(rows.flatMap((row) => [row.requestedBy, row.decidedBy ?? 0])),
+      this.getFeeHeadLabels(),
+      dueIds.length ? db.select().from(studentDues).where(inArray(studentDues.id, dueIds)) : Promise.resolve([] as StudentDue[]),
+    ]);
+    const dueMap = new Map(dues.map((due) => [due.id, due]));
+
+    return rows.map((row) => {
+      const due = row.dueId ? dueMap.get(row.dueId) : undefined;
+      return {
+        ...row,
+        studentName: studentMeta.get(row.studentId)?.name,
+        className: studentMeta.get(row.studentId)?.className,
+        dueLabel: due ? buildDueLabel(due, headLabels) : undefined,
+        requestedByName: userNames.get(row.requestedBy),
+        decidedByName: row.decidedBy ? userNames.get(row.decidedBy) : undefined,
+      };
+    });
+  }
 
-      const dueIds = Array.from(new Set(dueAllocations.map((item) => Number(item.dueId)))).filter((id) => Number.isFinite(id));
+  async getWriteOffs(filters: WriteOffFilters = {}): Promise<WriteOffRecord[]> {
+    const whereClauses: any[] = [];
+    if (filters.status) {
+      whereClauses.push(eq(writeOffs.status, filters.status));
+    }
+    if (filters.studentId !== undefined) {
+      whereClauses.push(eq(writeOffs.studentId, filters.studentId));
+    }
 
-      const dueRows = dueIds.length
-        ? await tx
-            .select({
-              id: studentDues.id,
-              studentId: studentDues.studentId,
-              amount: studentDues.amount,
-              paidAmount: studentDues.paidAmount,
-              status: studentDues.status,
-              itemType: studentDues.itemType,
-              dueType: studentDues.dueType,
-              dueMonth: studentDues.dueMonth,
-              notes: studentDues.notes,
-            })
-            .from(studentDues)
-            .where(inArray(studentDues.id, dueIds))
-        : [];
+    const rows = await db
+      .select()
+      .from(writeOffs)
+      .where(whereClauses.length ? and(...whereClauses) : undefined)
+      .orderBy(desc(writeOffs.createdAt));
+    return this.toWriteOffRecords(rows);
+  }
 
-      const dueMap = new Map(dueRows.map((row) => [row.id, row]));
+  // Records the request against the balance outstanding now; nothing changes on the dues
+  // until someone else approves it. Returns null when the due does not exist.
+  async requestWriteOff(input: CreateWriteOffInput): Promise<WriteOffRecord | null> {
+    const reason = input.reason?.trim();
+    if (!reason) {
+      throw new Error('A reason is required to write off dues.');
+    }
+    const requesters = await this.getUserNames([input.requestedBy]);
+    if (!requesters.has(input.requestedBy)) {
+      throw new Error('Requesting user not found.');
+    }
 
-      for (const allocation of dueAllocations) {
-        const dueId = Number(allocation.dueId);
-        const dueRow = dueMap.get(dueId);
-        if (!dueRow) {
-          throw new Error(`Due entry ${dueId} not found for this student.`);
+    const created = await db.transaction(async (tx) => {
+      let target: { studentId: number; accountId: number; academicYear: string | null; openDues: StudentDue[] };
+      if (input.dueId !== undefined) {
+        const [due] = await tx.select().from(studentDues).where(eq(studentDues.id, input.dueId)).limit(1);
+        if (!due) {
+          return null;
         }
-        if (dueRow.studentId !== payload.studentId) {
-          throw new Error(`Due entry ${dueId} does not belong to the selected student.`);
+        if (!isOpenDueStatus(due.status)) {
+          throw new Error(`Only open dues can be written off; this one is ${due.status}.`);
         }
-
-        const outstanding = Number((asNumber(dueRow.amount, 0) - asNumber(dueRow.paidAmount, 0)).toFixed(2));
-        const payAmount = asNumber(allocation.amount, 0);
-        if (payAmount <= 0) {
-          throw new Error('Allocation amount must be positive.');
+        target = { studentId: due.studentId, accountId: due.accountId, academicYear: due.academicYear, openDues: [due] };
+      } else {
+        if (!input.studentId) {
+          throw new Error('Choose a due or a student to write off.');
         }
-        if (payAmount - outstanding > 0.01) {
-          throw new Error(`Allocation for due ${dueId} exceeds outstanding balance.`);
+        const [account] = await tx
+          .select()
+          .from(studentAccounts)
+          .where(eq(studentAccounts.studentId, input.studentId))
+          .orderBy(desc(studentAccounts.openedAt))
+          .limit(1);
+        if (!account) {
+          throw new Error('This student has no finance account.');
         }
+        const academicYear = input.academicYear?.trim() || null;
+        const openDues = await tx
+          .select()
+          .from(studentDues)
+          .where(and(
+            eq(studentDues.accountId, account.id),
+            inArray(studentDues.status, ['due', 'partial']),
+            academicYear ? eq(studentDues.academicYear, academicYear) : undefined,
+          ));
+        target = { studentId: account.studentId, accountId: account.id, academicYear, openDues };
       }
 
-      const paymentInsert: InsertPayment = {
-        studentId: payload.studentId,
-        amount: toDecimalString(totalAmount),
-        paymentMethod: payload.paymentMethod as Payment['paymentMethod'],
-        paymentDate,
-        status: verify ? 'paid' : 'pending',
-        transactionId: payload.referenceNumber ?? null,
-        remarks: payload.remarks ?? null,
-        verifiedBy: verify && payload.createdBy ? payload.createdBy : null,
-        verifiedAt: verify ? new Date() : null,
-        receiptUrl: null,
-        academicYear: targetAcademicYear,
-      } as InsertPayment;
-
-      const [paymentRow] = await tx.insert(payments).values(paymentInsert).returning();
-
-      const allocationRows: PaymentAllocation[] = [];
-
-      const labelFor = (item: typeof dueRows[number]) => {
-        const baseMap: Record<string, string> = {
-          admission: 'Admission Fee',
-          registration: 'Registration Fee',
-          uniform: 'Uniform Fee',
-          copy: 'Notebook Fee',
-          book: 'Book Fee',
-          hst_dress: 'Hostel Dress Fee',
-          monthly: 'Monthly Fee',
-          misc: 'Other Fee',
-        };
-        const base = baseMap[item.itemType] ?? item.itemType;
-        if (item.itemType === 'misc' && item.notes) {
-          return item.notes;
-        }
-        if (item.dueType === 'monthly' && item.dueMonth) {
-          const [y, m] = item.dueMonth.split('-');
-          const date = new Date(Number(y), Number(m) - 1, 1);
-          const formatted = Number.isNaN(date.getTime()) ? item.dueMonth : date.toLocaleDateString('en-IN', { month: 'short', year: 'numeric' });
-          return `${base} (${formatted})`;
-        }
-        return base;
-      };
+      const requestedPaise = target.openDues.reduce(
+        (sum, due) => sum + Math.max(0, toPaise(due.amount) - toPaise(due.paidAmount)),
+        0,
+      );
+      if (requestedPaise <= 0) {
+        throw new Error('There is no outstanding balance to write off.');
+      }
+
+      const pending = await tx
+        .select()
+        .from(writeOffs)
+        .where(and(eq(writeOffs.studentId, target.studentId), eq(writeOffs.status, 'pending')));
+      const clash = pending.find((row) => input.dueId === undefined || row.scope === 'account' || row.dueId === input.dueId);
+      if (clash) {
+        throw new Error(`Write-off #${clash.id} for this student is already awaiting approval.`);
+      }
 
-      for (const allocation of dueAllocations) {
-        const dueId = Number(allocation.dueId);
-        const dueRow = dueMap.get(dueId)!;
+      const [row] = await tx
+        .insert(writeOffs)
+        .values({
+          studentId: target.studentId,
+          accountId: target.accountId,
+          scope: input.dueId !== undefined ? 'due' : 'account',
+          dueId: input.dueId ?? null,
+          academicYear: target.academicYear,
+          requestedAmount: fromPaise(requestedPaise),
+          reason,
+          status: 'pending',
+          requestedBy: input.requestedBy,
+        })
+        .returning();
+      return row;
+    });
 
-        const paidSoFar = asNumber(dueRow.paidAmount, 0);
-        const payAmount = asNumber(allocation.amount, 0);
-        const newPaid = Number((paidSoFar + payAmount).toFixed(2));
-        const totalDue = asNumber(dueRow.amount, 0);
-        const status = newPaid >= totalDue - 0.01 ? 'paid' : 'partial';
+    if (!created) {
+      return null;
+    }
+    const [record] = await this.toWriteOffRecords([created]);
+    return record;
+  }
 
-        await tx
-          .update(studentDues)
+  // Approval needs a different user from the requester. It clears whatever is still unpaid on
+  // the covered dues at that moment: the balance moves to writtenOffAmount, amount drops to
+  // what was paid and the due is closed as written_off, so outstanding totals leave it out.
+  async decideWriteOff(id: number, decision: WriteOffDecision, input: WriteOffDecisionInput): Promise<WriteOffRecord | null> {
+    const deciders = await this.getUserNames([input.decidedBy]);
+    if (!deciders.has(input.decidedBy)) {
+      throw new Error('Approving user not found.');
+    }
+
+    const decided = await db.transaction(async (tx) => {
+      const [request] = await tx.select().from(writeOffs).where(eq(writeOffs.id, id)).for('update');
+      if (!request) {
+        return null;
+      }
+      if (request.status !== 'pending') {
+        throw new Error(`This write-off is already ${request.status}.`);
+      }
+
+      if (decision === 'reject') {
+        const [updated] = await tx
+          .update(writeOffs)
           .set({
-            paidAmount: toDecimalString(newPaid),
-            status,
+            status: 'rejected',
+            decidedBy: input.decidedBy,
+            decidedAt: new Date(),
+            decisionNote: input.note ?? null,
             updatedAt: new Date(),
           })
-          .where(eq(studentDues.id, dueId));
-
-        const allocationInsert: InsertPaymentAllocation = {
-          paymentId: paymentRow.id,
-          dueId,
-          label: allocation.label ?? labelFor(dueRow),
-          category: allocation.category ?? dueRow.itemType,
-          amount: toDecimalString(payAmount),
-          notes: allocation.notes ?? null,
-        };
-
-        const [insertedAllocation] = await tx
-          .insert(paymentAllocations)
-          .values(allocationInsert)
+          .where(eq(writeOffs.id, id))
           .returning();
+        return updated;
+      }
 
-        allocationRows.push(insertedAllocation);
+      if (request.requestedBy === input.decidedBy) {
+        throw new Error('A write-off must be approved by someone other than the person who requested it.');
       }
 
-      for (const allocation of miscAllocations) {
-        const payAmount = asNumber(allocation.amount, 0);
-        if (payAmount <= 0) {
-          throw new Error('Other charges must have a positive amount.');
+      const dues = await tx
+        .select()
+        .from(studentDues)
+        .where(request.scope === 'due'
+          ? eq(studentDues.id, request.dueId ?? 0)
+          : and(
+              eq(studentDues.accountId, request.accountId),
+              inArray(studentDues.status, ['due', 'partial']),
+              request.academicYear ? eq(studentDues.academicYear, request.academicYear) : undefined,
+            ))
+        .for('update');
+      await this.assertYearsOpen(tx, dues.map((due) => due.academicYear));
+
+      const now = new Date();
+      let writtenOffPaise = 0;
+      const lines: Array<{ writeOffId: number; dueId: number; amount: string }> = [];
+      for (const due of dues) {
+        const balancePaise = toPaise(due.amount) - toPaise(due.paidAmount);
+        if (!isOpenDueStatus(due.status) || balancePaise <= 0) {
+          continue;
         }
-
-        const notes = allocation.notes ?? allocation.label ?? allocation.category ?? 'Other Fee';
-
-        const [miscDue] = await tx
-          .insert(studentDues)
-          .values({
-            studentId: payload.studentId,
-            accountId: accountRow.id,
-            dueType: 'one_time',
-            itemType: 'misc',
-            academicYear: accountRow.academicYear,
-            amount: toDecimalString(payAmount),
-            paidAmount: verify ? toDecimalString(payAmount) : '0.00',
-            status: verify ? 'paid' : 'due',
-            notes,
-          })
-          .returning({ id: studentDues.id });
-
-        const [insertedAllocation] = await tx
-          .insert(paymentAllocations)
-          .values({
-            paymentId: paymentRow.id,
-            dueId: miscDue.id,
-            label: allocation.label ?? notes,
-            category: allocation.category ?? 'misc',
-            amount: toDecimalString(payAmount),
-            notes,
+        await tx
+          .update(studentDues)
+          .set({
+            amount: due.paidAmount,
+            writtenOffAmount: fromPaise(toPaise(due.writtenOffAmount) + balancePaise),
+            status: 'written_off',
+            updatedAt: now,
           })
-          .returning();
-
-        allocationRows.push(insertedAllocation);
+          .where(eq(studentDues.id, due.id));
+        lines.push({ writeOffId: request.id, dueId: due.id, amount: fromPaise(balancePaise) });
+        writtenOffPaise += balancePaise;
       }
-
-      return { payment: paymentRow, allocations: allocationRows };
+      if (!lines.length) {
+        throw new Error('These dues no longer have an outstanding balance; reject the request instead.');
+      }
+      await tx.insert(writeOffLines).values(lines);
+
+      const [updated] = await tx
+        .update(writeOffs)
+        .set({
+          status: 'approved',
+          writtenOffAmount: fromPaise(writtenOffPaise),
+          decidedBy: input.decidedBy,
+          decidedAt: now,
+          decisionNote: input.note ?? null,
+          updatedAt: now,
+        })
+        .where(eq(writeOffs.id, id))
+        .returning();
+      return updated;
     });
 
-    const summary = await this.getStudentFinanceSummary(payload.studentId, targetAcademicYear);
-
-    return {
-      payment: result.payment,
-      allocations: result.allocations,
-      summary,
-    };
-  }
-
-  async verifyPayment(id: number, verifiedBy: number): Promise<Payment | undefined> {
-    const [result] = await db
-      .update(payments)
-      .set({ 
-        status: 'paid', 
-        verifiedBy, 
-        verifiedAt: new Date() 
-      })
-      .where(eq(payments.id, id))
-      .returning();
-    return result || undefined;
+    if (!decided) {
+      return null;
+    }
+    const [record] = await this.toWriteOffRecords([decided]);
+    return record;
   }
 
   async getTransportFees(academicYear?: string): Promise<TransportFee[]> {
@@ -2018,6 +6543,36 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  // Per-class monthly fee from the structures' monthly components, used for expected collection.
+  private async getMonthlyFeeRates(academicYear: string): Promise<Map<number, { hosteller: number; dayScholar: number }>> {
+    const rows = await db
+      .select({
+        classId: feeStructures.classId,
+        hostellerAmount: feeStructureComponents.hostellerAmount,
+        dayScholarAmount: feeStructureComponents.dayScholarAmount,
+      })
+      .from(feeStructureComponents)
+      .innerJoin(feeStructures, eq(feeStructures.id, feeStructureComponents.feeStructureId))
+      .where(
+        and(
+          eq(feeStructures.feeType, 'tuition'),
+          eq(feeStructures.academicYear, academicYear),
+          eq(feeStructures.isActive, true),
+          eq(feeStructureComponents.frequency, 'monthly'),
+        ),
+      );
+
+    const rates = new Map<number, { hosteller: number; dayScholar: number }>();
+    rows.forEach((row) => {
+      const current = rates.get(row.classId) ?? { hosteller: 0, dayScholar: 0 };
+      rates.set(row.classId, {
+        hosteller: current.hosteller + asNumber(row.hostellerAmount),
+        dayScholar: current.dayScholar + asNumber(row.dayScholarAmount),
+      });
+    });
+    return rates;
+  }
+
   async getDashboardStats(academicYear: string): Promise<any> {
     try {
       const shared = sqlShared();
@@ -2042,28 +6597,7 @@ export class DatabaseStorage implements IStorage {
         GROUP BY class_id
       ` as Array<{ classId: number | null; hostellers: string | number | null; dayScholars: string | number | null }>;
 
-      const feeRows = await finance`
-        SELECT 
-          class_id as "classId",
-          hosteller_amount as "hostellerAmount",
-          day_scholar_amount as "dayScholarAmount"
-        FROM fee_structures
-        WHERE fee_type = 'tuition'
-          AND academic_year = ${academicYear}
-          AND is_active = true
-      ` as Array<{ classId: number | null; hostellerAmount: string | number | null; dayScholarAmount: string | number | null }>;
-
-      const feeMap = new Map<number, { hosteller: number; dayScholar: number }>();
-      feeRows.forEach((row) => {
-        const classId = row.classId !== null ? Number(row.classId) : null;
-        if (!classId) {
-          return;
-        }
-        feeMap.set(classId, {
-          hosteller: asNumber(row.hostellerAmount),
-          dayScholar: asNumber(row.dayScholarAmount),
-        });
-      });
+      const feeMap = await this.getMonthlyFeeRates(academicYear);
 
       let expectedMonthly = 0;
       perClassRows.forEach((row) => {
@@ -2092,6 +6626,28 @@ export class DatabaseStorage implements IStorage {
           AND payment_date < date_trunc('month', CURRENT_DATE) + interval '1 month'
       `;
 
+      const [refundResult] = await finance`
+        SELECT COALESCE(SUM(r.amount), 0) as "monthlyRefunds"
+        FROM payment_refunds r
+        JOIN payments p ON p.id = r.payment_id
+        WHERE p.status = 'paid'
+          AND r.academic_year = ${academicYear}
+          AND r.refunded_at >= date_trunc('month', CURRENT_DATE)
+          AND r.refunded_at < date_trunc('month', CURRENT_DATE) + interval '1 month'
+      `;
+
+      // Caution deposits are held for refund, not earned, so they come out of every income figure.
+      const [depositResult] = await finance`
+        SELECT COALESCE(SUM(d.amount), 0) as "monthlyDeposits"
+        FROM deposit_entries d
+        JOIN payments p ON p.id = d.payment_id
+        WHERE d.entry_type = 'collected'
+          AND p.status = 'paid'
+          AND p.academic_year = ${academicYear}
+          AND p.payment_date >= date_trunc('month', CURRENT_DATE)
+          AND p.payment_date < date_trunc('month', CURRENT_DATE) + interval '1 month'
+      `;
+
       // Get transport collection
       const transportStudentRows = await shared`
         SELECT id
@@ -2107,7 +6663,10 @@ export class DatabaseStorage implements IStorage {
         const transportIds = transportStudentRows.map((row) => Number(row.id));
         const [transportResult] = await finance`
           SELECT 
-            COALESCE(SUM(p.amount), 0) as "vanCollection",
+            COALESCE(SUM(p.amount - COALESCE((
+              SELECT SUM(d.amount) FROM deposit_entries d
+              WHERE d.payment_id = p.id AND d.entry_type = 'collected'
+            ), 0)), 0) as "vanCollection",
             COUNT(DISTINCT p.student_id) as "vanStudents"
           FROM payments p
           WHERE p.status = 'paid'
@@ -2121,7 +6680,10 @@ export class DatabaseStorage implements IStorage {
         transportStudents = asNumber(transportResult?.vanStudents);
       }
 
-      const monthlyCollection = asNumber(collectionResult?.monthlyCollection);
+      const monthlyDeposits = asNumber(depositResult?.monthlyDeposits);
+      const grossCollection = Number((asNumber(collectionResult?.monthlyCollection) - monthlyDeposits).toFixed(2));
+      const monthlyRefunds = asNumber(refundResult?.monthlyRefunds);
+      const monthlyCollection = Number((grossCollection - monthlyRefunds).toFixed(2));
       const computedDeficit = expectedMonthly > monthlyCollection ? expectedMonthly - monthlyCollection : 0;
 
       return {
@@ -2129,6 +6691,9 @@ export class DatabaseStorage implements IStorage {
         totalHostellers: asNumber(studentTotals?.totalHostellers),
         totalDayScholars: asNumber(studentTotals?.totalDayScholars),
         monthlyCollection,
+        grossCollection,
+        monthlyRefunds,
+        monthlyDeposits,
         expectedMonthly,
         vanCollection: transportCollection,
         vanStudents: transportStudents,
@@ -2143,6 +6708,9 @@ export class DatabaseStorage implements IStorage {
         totalHostellers: 0,
         totalDayScholars: 185,
         monthlyCollection: 0,
+        grossCollection: 0,
+        monthlyRefunds: 0,
+        monthlyDeposits: 0,
         expectedMonthly: 500900,
         vanCollection: 0,
         vanStudents: 0,
@@ -2317,28 +6885,7 @@ export class DatabaseStorage implements IStorage {
         classStats.set(classId, stats);
       });
 
-      const feeRows = await finance`
-        SELECT 
-          class_id as "classId",
-          hosteller_amount as "hostellerAmount",
-          day_scholar_amount as "dayScholarAmount"
-        FROM fee_structures
-        WHERE fee_type = 'tuition'
-          AND academic_year = ${academicYear}
-          AND is_active = true
-      ` as Array<{ classId: number | null; hostellerAmount: string | number | null; dayScholarAmount: string | number | null }>;
-
-      const feeMap = new Map<number, { hosteller: number; dayScholar: number }>();
-      feeRows.forEach((row) => {
-        const classId = row.classId !== null ? Number(row.classId) : null;
-        if (!classId) {
-          return;
-        }
-        feeMap.set(classId, {
-          hosteller: asNumber(row.hostellerAmount),
-          dayScholar: asNumber(row.dayScholarAmount),
-        });
-      });
+      const feeMap = await this.getMonthlyFeeRates(academicYear);
 
       const paymentRows = await finance`
         SELECT student_id as "studentId", SUM(amount::numeric) as "totalCollection"
@@ -2375,84 +6922,702 @@ export class DatabaseStorage implements IStorage {
         };
       });
 
-      const totals = items.reduce((acc, item) => ({
-        totalStudents: acc.totalStudents + item.totalStudents,
-        expectedMonthly: acc.expectedMonthly + item.expectedMonthly,
-        actualCollection: acc.actualCollection + item.actualCollection,
-        variance: acc.variance + item.variance,
-      }), { totalStudents: 0, expectedMonthly: 0, actualCollection: 0, variance: 0 });
+      const totals = items.reduce((acc, item) => ({
+        totalStudents: acc.totalStudents + item.totalStudents,
+        expectedMonthly: acc.expectedMonthly + item.expectedMonthly,
+        actualCollection: acc.actualCollection + item.actualCollection,
+        variance: acc.variance + item.variance,
+      }), { totalStudents: 0, expectedMonthly: 0, actualCollection: 0, variance: 0 });
+
+      return { items, totals };
+    } catch (error) {
+      console.error('Failed to fetch fee structure overview:', error);
+      // Return default structure if financial tables don't exist
+      return { items: [], totals: { totalStudents: 0, expectedMonthly: 0, actualCollection: 0, variance: 0 } };
+    }
+  }
+
+  async getPendingActions(): Promise<any> {
+    try {
+      // Use raw SQL to avoid schema mismatches
+      const sql = neon(process.env.DATABASE_URL!);
+
+      // Get payments requiring verification
+      const [verificationResult] = await sql`
+        SELECT COUNT(*) as count
+        FROM payments
+        WHERE status = 'pending'
+      `;
+
+      const finance = sqlFinance();
+
+      // Students with at least one open due past its due date
+      const [overdueResult] = await finance`
+        SELECT COUNT(DISTINCT student_id) as count
+        FROM student_dues
+        WHERE status IN ('due', 'partial') AND due_date < CURRENT_DATE
+      `;
+      const [chequeResult] = await finance`
+        SELECT COUNT(*) as count, COALESCE(SUM(t.amount), 0) as amount
+        FROM payment_tenders t
+        JOIN payments p ON p.id = t.payment_id
+        WHERE t.cheque_status IN ('received', 'deposited')
+          AND p.status <> 'voided'
+      `;
+      const [writeOffResult] = await finance`
+        SELECT COUNT(*) as count, COALESCE(SUM(requested_amount), 0) as amount
+        FROM write_offs
+        WHERE status = 'pending'
+      `;
+
+      return [
+        {
+          type: 'overdue',
+          title: 'Overdue Payments',
+          description: 'Students with dues past their due date',
+          count: parseInt(String(overdueResult?.count || '0')),
+          icon: 'fas fa-exclamation-triangle',
+          color: 'destructive',
+          action: '/dues'
+        },
+        {
+          type: 'verification',
+          title: 'Payments to Verify',
+          description: 'Require admin verification',
+          count: parseInt(String(verificationResult?.count || '0')),
+          icon: 'fas fa-clock',
+          color: 'accent',
+          action: '/payments?filter=pending'
+        },
+        {
+          type: 'cheques',
+          title: 'Cheques Pending Clearance',
+          description: `₹${asNumber(chequeResult?.amount).toLocaleString('en-IN')} awaiting deposit or clearance`,
+          count: parseInt(String(chequeResult?.count || '0')),
+          icon: 'fas fa-money-check',
+          color: 'accent',
+          action: '/cheques'
+        },
+        {
+          type: 'write_offs',
+          title: 'Write-offs to Approve',
+          description: `₹${asNumber(writeOffResult?.amount).toLocaleString('en-IN')} awaiting approval`,
+          count: parseInt(String(writeOffResult?.count || '0')),
+          icon: 'fas fa-file-signature',
+          color: 'accent',
+          action: '/write-offs'
+        },
+        {
+          type: 'import',
+          title: 'Excel Import Ready',
+          description: 'New data ready for import',
+          count: 1,
+          icon: 'fas fa-file-excel',
+          color: 'primary',
+          action: '/excel-import'
+        }
+      ];
+    } catch (error) {
+      console.error('Failed to fetch pending actions:', error);
+      // Return default actions if financial tables don't exist
+      return [
+        {
+          type: 'import',
+          title: 'Excel Import Ready',
+          description: 'New data ready for import',
+          count: 1,
+          icon: 'fas fa-file-excel',
+          color: 'primary',
+          action: '/excel-import'
+        }
+      ];
+    }
+  }
+
+  async getCollectionByTender(academicYear: string): Promise<TenderCollectionReport> {
+    const finance = sqlFinance();
+
+    // Payments recorded before tender lines existed fall back to their single method and amount.
+    const totalRows = await finance`
+      SELECT
+        COALESCE(t.method::text, p.payment_method::text) as "method",
+        SUM(COALESCE(t.amount, p.amount)::numeric) as "amount",
+        COUNT(DISTINCT p.id) as "payments"
+      FROM payments p
+      LEFT JOIN payment_tenders t ON t.payment_id = p.id AND t.cheque_status IS DISTINCT FROM 'bounced'
+      WHERE p.status = 'paid'
+        AND p.academic_year = ${academicYear}
+      GROUP BY 1
+      ORDER BY 2 DESC
+    ` as Array<{ method: string; amount: string | number; payments: string | number }>;
+
+    const monthlyRows = await finance`
+      SELECT
+        to_char(p.payment_date, 'YYYY-MM') as "month",
+        COALESCE(t.method::text, p.payment_method::text) as "method",
+        SUM(COALESCE(t.amount, p.amount)::numeric) as "amount"
+      FROM payments p
+      LEFT JOIN payment_tenders t ON t.payment_id = p.id AND t.cheque_status IS DISTINCT FROM 'bounced'
+      WHERE p.status = 'paid'
+        AND p.academic_year = ${academicYear}
+      GROUP BY 1, 2
+      ORDER BY 1, 2
+    ` as Array<{ month: string; method: string; amount: string | number }>;
+
+    const totals = totalRows.map((row) => ({
+      method: row.method,
+      amount: Number(asNumber(row.amount).toFixed(2)),
+      payments: asNumber(row.payments),
+    }));
+
+    return {
+      academicYear,
+      totals,
+      monthly: monthlyRows.map((row) => ({
+        month: row.month,
+        method: row.method,
+        amount: Number(asNumber(row.amount).toFixed(2)),
+      })),
+      grandTotal: Number(totals.reduce((sum, row) => sum + row.amount, 0).toFixed(2)),
+    };
+  }
+
+  // Approved and revoked grants with what they have taken off the year's dues; cancelled dues
+  // are left out.
+  async getConcessionRegister(academicYear: string): Promise<ConcessionRegisterReport> {
+    const finance = sqlFinance();
+    const grantRows = await finance`
+      SELECT
+        sc.id as "studentConcessionId",
+        sc.student_id as "studentId",
+        sc.status,
+        ct.code as "concessionCode",
+        ct.name as "concessionName",
+        ct.kind,
+        ct.value,
+        COUNT(d.id) as "dues",
+        COALESCE(SUM(CASE WHEN d.id IS NOT NULL THEN dc.amount::numeric ELSE 0 END), 0) as "amount"
+      FROM student_concessions sc
+      JOIN concession_types ct ON ct.id = sc.concession_type_id
+      LEFT JOIN due_concessions dc ON dc.student_concession_id = sc.id
+      LEFT JOIN student_dues d ON d.id = dc.due_id AND d.status <> 'cancelled'
+      WHERE sc.academic_year = ${academicYear}
+        AND sc.status IN ('approved', 'revoked')
+      GROUP BY sc.id, ct.id
+      ORDER BY ct.name, sc.student_id
+    ` as Array<{
+      studentConcessionId: number;
+      studentId: number;
+      status: StudentConcession['status'];
+      concessionCode: string;
+      concessionName: string;
+      kind: ConcessionType['kind'];
+      value: string;
+      dues: string | number;
+      amount: string | number;
+    }>;
+
+    const studentMeta = await this.getStudentNames(grantRows.map((row) => Number(row.studentId)));
+    const rows: ConcessionRegisterRow[] = grantRows.map((row) => ({
+      studentConcessionId: Number(row.studentConcessionId),
+      studentId: Number(row.studentId),
+      studentName: studentMeta.get(Number(row.studentId))?.name,
+      className: studentMeta.get(Number(row.studentId))?.className,
+      concessionCode: row.concessionCode,
+      concessionName: row.concessionName,
+      kind: row.kind,
+      value: asNumber(row.value),
+      status: row.status,
+      dues: asNumber(row.dues),
+      amount: Number(asNumber(row.amount).toFixed(2)),
+    }));
+
+    const byType = new Map<string, { code: string; name: string; students: Set<number>; amountPaise: number }>();
+    rows.forEach((row) => {
+      const entry = byType.get(row.concessionCode)
+        ?? { code: row.concessionCode, name: row.concessionName, students: new Set<number>(), amountPaise: 0 };
+      entry.students.add(row.studentId);
+      entry.amountPaise += toPaise(row.amount);
+      byType.set(row.concessionCode, entry);
+    });
+    const typeTotals = Array.from(byType.values()).map((entry) => ({
+      code: entry.code,
+      name: entry.name,
+      students: entry.students.size,
+      amount: entry.amountPaise / 100,
+    }));
+
+    return {
+      academicYear,
+      rows,
+      byType: typeTotals,
+      totalAmount: typeTotals.reduce((sum, entry) => sum + toPaise(entry.amount), 0) / 100,
+    };
+  }
+
+  // Approved write-offs with what they cleared from the year's dues, plus the requests still
+  // waiting for approval. An account-wide write-off spanning years is split by due year.
+  async getWriteOffRegister(academicYear: string): Promise<WriteOffRegisterReport> {
+    const finance = sqlFinance();
+    const lineRows = await finance`
+      SELECT l.write_off_id as "writeOffId", COUNT(l.id) as "dues", SUM(l.amount::numeric) as "amount"
+      FROM write_off_lines l
+      JOIN student_dues d ON d.id = l.due_id
+      WHERE d.academic_year = ${academicYear}
+      GROUP BY l.write_off_id
+    ` as Array<{ writeOffId: number; dues: string | number; amount: string | number }>;
+    const [pendingRow] = await finance`
+      SELECT COUNT(*) as "count", COALESCE(SUM(requested_amount::numeric), 0) as "amount"
+      FROM write_offs
+      WHERE status = 'pending'
+        AND (academic_year = ${academicYear} OR academic_year IS NULL)
+    ` as Array<{ count: string | number; amount: string | number }>;
+
+    const totals = new Map(lineRows.map((row) => [Number(row.writeOffId), row]));
+    const requests = totals.size
+      ? await db
+          .select()
+          .from(writeOffs)
+          .where(inArray(writeOffs.id, Array.from(totals.keys())))
+          .orderBy(desc(writeOffs.decidedAt))
+      : [];
+    const rows: WriteOffRegisterRow[] = (await this.toWriteOffRecords(requests)).map((record) => ({
+      ...record,
+      dues: asNumber(totals.get(record.id)?.dues),
+      amount: Number(asNumber(totals.get(record.id)?.amount).toFixed(2)),
+    }));
+
+    return {
+      academicYear,
+      rows,
+      totalAmount: rows.reduce((sum, row) => sum + toPaise(row.amount), 0) / 100,
+      pendingCount: asNumber(pendingRow?.count),
+      pendingAmount: Number(asNumber(pendingRow?.amount).toFixed(2)),
+    };
+  }
+
+  async getStudentDeposit(studentId: number): Promise<StudentDepositSummary | null> {
+    const [studentRow] = await sqlShared()`
+      SELECT id FROM students WHERE id = ${studentId}
+    ` as Array<{ id: number }>;
+    if (!studentRow) {
+      return null;
+    }
+
+    const entries = await db
+      .select()
+      .from(depositEntries)
+      .where(eq(depositEntries.studentId, studentId))
+      .orderBy(desc(depositEntries.createdAt), desc(depositEntries.id));
+    return { studentId, ...summarizeDepositEntries(entries), entries };
+  }
+
+  async deductDeposit(studentId: number, input: DepositDeductionInput): Promise<StudentDepositSummary | null> {
+    const reason = input.reason?.trim();
+    if (!reason) {
+      throw new Error('A reason is required to deduct from a deposit.');
+    }
+    return this.drawDownDeposit(studentId, toPaise(input.amount), {
+      entryType: 'deducted',
+      reason,
+      recordedBy: input.recordedBy ?? null,
+    });
+  }
+
+  async refundDeposit(studentId: number, input: DepositRefundInput): Promise<StudentDepositSummary | null> {
+    return this.drawDownDeposit(studentId, input.amount === undefined ? null : toPaise(input.amount), {
+      entryType: 'refunded',
+      reason: input.reason?.trim() || null,
+      refundMethod: input.refundMethod,
+      referenceNumber: input.referenceNumber?.trim() || null,
+      recordedBy: input.recordedBy ?? null,
+    });
+  }
+
+  // Deductions and refunds both take money out of the held balance; a null amount takes all of it.
+  private async drawDownDeposit(
+    studentId: number,
+    amountPaise: number | null,
+    entry: Pick<typeof depositEntries.$inferInsert, 'entryType' | 'reason' | 'refundMethod' | 'referenceNumber' | 'recordedBy'>,
+  ): Promise<StudentDepositSummary | null> {
+    if (!(await this.getStudentDeposit(studentId))) {
+      return null;
+    }
+    const academicYear = await this.getCurrentAcademicYearCode();
+
+    await db.transaction(async (tx) => {
+      const entries = await tx
+        .select()
+        .from(depositEntries)
+        .where(eq(depositEntries.studentId, studentId))
+        .for('update');
+      const heldPaise = toPaise(summarizeDepositEntries(entries).held);
+      const paise = amountPaise ?? heldPaise;
+      if (paise <= 0) {
+        throw new Error(amountPaise === null ? 'No deposit is held for this student.' : 'Amount must be greater than zero.');
+      }
+      if (paise > heldPaise) {
+        throw new Error(`Only ${fromPaise(heldPaise)} of deposit is held for this student.`);
+      }
+
+      await tx.insert(depositEntries).values({
+        ...entry,
+        studentId,
+        academicYear,
+        amount: fromPaise(paise),
+      });
+    });
+
+    return this.getStudentDeposit(studentId);
+  }
+
+  async getFamilies(): Promise<FamilyRecord[]> {
+    const familyRows = await db
+      .select()
+      .from(families)
+      .orderBy(asc(families.name), asc(families.id));
+    return this.withFamilyMembers(familyRows);
+  }
+
+  async getFamily(id: number): Promise<FamilyRecord | null> {
+    const [familyRow] = await db
+      .select()
+      .from(families)
+      .where(eq(families.id, id))
+      .limit(1);
+    if (!familyRow) {
+      return null;
+    }
+    const [record] = await this.withFamilyMembers([familyRow]);
+    return record;
+  }
+
+  async getStudentFamily(studentId: number): Promise<FamilyRecord | null> {
+    const [memberRow] = await db
+      .select({ familyId: familyMembers.familyId })
+      .from(familyMembers)
+      .where(eq(familyMembers.studentId, studentId))
+      .limit(1);
+    return memberRow ? this.getFamily(memberRow.familyId) : null;
+  }
+
+  async createFamily(input: FamilyInput): Promise<FamilyRecord> {
+    const students = await this.resolveFamilyStudents(input.studentIds);
+    const guardianName = input.guardianName?.trim() || students.find((row) => row.guardianName?.trim())?.guardianName?.trim() || null;
+    const guardianPhone = input.guardianPhone?.trim() || students.find((row) => row.guardianPhone?.trim())?.guardianPhone?.trim() || null;
+    const name = input.name?.trim() || `${guardianName ?? students[0].name} family`;
+
+    const familyId = await db.transaction(async (tx) => {
+      const [familyRow] = await tx
+        .insert(families)
+        .values({
+          name,
+          guardianName,
+          guardianPhone,
+          notes: input.notes?.trim() || null,
+          createdBy: input.createdBy ?? null,
+        })
+        .returning({ id: families.id });
+      await tx.insert(familyMembers).values(students.map((row) => ({ familyId: familyRow.id, studentId: row.id })));
+      return familyRow.id;
+    });
+
+    return (await this.getFamily(familyId))!;
+  }
+
+  // studentIds, when given, replaces the membership; students dropped from it are simply unlinked.
+  async updateFamily(id: number, input: FamilyUpdate): Promise<FamilyRecord | null> {
+    const existing = await this.getFamily(id);
+    if (!existing) {
+      return null;
+    }
+    const students = input.studentIds ? await this.resolveFamilyStudents(input.studentIds, id) : null;
+
+    const updates: Partial<typeof families.$inferInsert> = { updatedAt: new Date() };
+    if (input.name !== undefined) {
+      const name = input.name?.trim();
+      if (!name) {
+        throw new Error('Family name cannot be empty.');
+      }
+      updates.name = name;
+    }
+    if (input.guardianName !== undefined) {
+      updates.guardianName = input.guardianName?.trim() || null;
+    }
+    if (input.guardianPhone !== undefined) {
+      updates.guardianPhone = input.guardianPhone?.trim() || null;
+    }
+    if (input.notes !== undefined) {
+      updates.notes = input.notes?.trim() || null;
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.update(families).set(updates).where(eq(families.id, id));
+      if (!students) {
+        return;
+      }
+      const studentIds = students.map((row) => row.id);
+      await tx
+        .delete(familyMembers)
+        .where(and(eq(familyMembers.familyId, id), notInArray(familyMembers.studentId, studentIds)));
+      const current = new Set(existing.members.map((member) => member.studentId));
+      const added = studentIds.filter((studentId) => !current.has(studentId));
+      if (added.length) {
+        await tx.insert(familyMembers).values(added.map((studentId) => ({ familyId: id, studentId })));
+      }
+    });
+
+    return this.getFamily(id);
+  }
+
+  // Receipts already recorded are unaffected; only the grouping goes.
+  async deleteFamily(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(families)
+      .where(eq(families.id, id))
+      .returning({ id: families.id });
+    return deleted.length > 0;
+  }
+
+  // Each child's finance summary for the year, their combined totals, and every receipt
+  // recorded against a child or settling one of their dues (so sibling receipts are included).
+  async getFamilyStatement(id: number, academicYear?: string): Promise<FamilyStatement | null> {
+    const family = await this.getFamily(id);
+    if (!family) {
+      return null;
+    }
+    const year = academicYear ?? await this.getCurrentAcademicYearCode();
+    const studentIds = family.members.map((member) => member.studentId);
+
+    const children: StudentFinanceSummary[] = [];
+    for (const studentId of studentIds) {
+      const summary = await this.getStudentFinanceSummary(studentId, year);
+      if (summary) {
+        children.push(summary);
+      }
+    }
+
+    const sumPaise = (pick: (summary: StudentFinanceSummary) => number) =>
+      children.reduce((total, summary) => total + toPaise(pick(summary)), 0) / 100;
+
+    const paymentRows = studentIds.length
+      ? await db
+          .selectDistinct({
+            id: payments.id,
+            receiptNumber: payments.receiptNumber,
+            studentId: payments.studentId,
+            paymentDate: payments.paymentDate,
+            amount: payments.amount,
+            status: payments.status,
+          })
+          .from(payments)
+          .leftJoin(paymentAllocations, eq(paymentAllocations.paymentId, payments.id))
+          .leftJoin(studentDues, eq(studentDues.id, paymentAllocations.dueId))
+          .where(and(
+            or(inArray(payments.studentId, studentIds), inArray(studentDues.studentId, studentIds)),
+            eq(payments.academicYear, year),
+          ))
+          .orderBy(desc(payments.paymentDate), desc(payments.id))
+      : [];
+    const memberNames = new Map(family.members.map((member) => [member.studentId, member.name]));
+
+    return {
+      family,
+      children,
+      totals: {
+        outstanding: sumPaise((summary) => summary.totals.outstanding),
+        overdueCount: children.reduce((total, summary) => total + summary.totals.overdueCount, 0),
+        writtenOff: sumPaise((summary) => summary.totals.writtenOff),
+        refunded: sumPaise((summary) => summary.totals.refunded),
+        creditBalance: sumPaise((summary) => summary.totals.creditBalance),
+      },
+      payments: paymentRows.map((row) => ({
+        id: row.id,
+        receiptNumber: row.receiptNumber,
+        studentId: row.studentId,
+        studentName: memberNames.get(row.studentId),
+        paymentDate: new Date(row.paymentDate).toISOString(),
+        amount: asNumber(row.amount),
+        status: row.status ?? 'pending',
+      })),
+    };
+  }
+
+  // Groups of current students sharing a guardian phone number or, failing that, a guardian
+  // name, that are not already in one family together.
+  async getFamilySuggestions(): Promise<FamilySuggestion[]> {
+    const studentRows = await sqlShared()`
+      SELECT s.id, s.name, s.guardian_name as "guardianName", s.guardian_phone as "guardianPhone",
+             c.name as "className", c.section as "classSection"
+      FROM students s
+      LEFT JOIN classes c ON c.id = s.class_id
+      WHERE s.status IS NULL OR LOWER(s.status) NOT IN ('left', 'graduated')
+      ORDER BY s.id
+    ` as Array<{
+      id: number;
+      name: string;
+      guardianName: string | null;
+      guardianPhone: string | null;
+      className: string | null;
+      classSection: string | null;
+    }>;
+
+    const memberRows = await db
+      .select({ studentId: familyMembers.studentId, familyId: familyMembers.familyId })
+      .from(familyMembers);
+    const familyOf = new Map(memberRows.map((row) => [row.studentId, row.familyId]));
+
+    const byPhone = new Map<string, typeof studentRows>();
+    const byName = new Map<string, typeof studentRows>();
+    const phoneKeyOf = new Map<number, string>();
+    studentRows.forEach((row) => {
+      const phoneKey = normalizeGuardianPhone(row.guardianPhone);
+      if (phoneKey) {
+        phoneKeyOf.set(row.id, phoneKey);
+        byPhone.set(phoneKey, [...(byPhone.get(phoneKey) ?? []), row]);
+      }
+      const nameKey = normalizeGuardianName(row.guardianName);
+      if (nameKey) {
+        byName.set(nameKey, [...(byName.get(nameKey) ?? []), row]);
+      }
+    });
+
+    const suggestions: FamilySuggestion[] = [];
+    const suggest = (matchedOn: FamilySuggestion['matchedOn'], group: typeof studentRows) => {
+      const familyIds = new Set(group.map((row) => familyOf.get(row.id) ?? null));
+      if (familyIds.size === 1 && !familyIds.has(null)) {
+        return;
+      }
+      const existing = Array.from(familyIds).filter((familyId): familyId is number => familyId !== null);
+      suggestions.push({
+        matchedOn,
+        guardianName: group.find((row) => row.guardianName?.trim())?.guardianName ?? null,
+        guardianPhone: group.find((row) => row.guardianPhone?.trim())?.guardianPhone ?? null,
+        students: group.map((row) => ({
+          studentId: row.id,
+          name: row.name,
+          className: row.className ? `${row.className}${row.classSection ? ` - ${row.classSection}` : ''}` : undefined,
+          familyId: familyOf.get(row.id) ?? null,
+        })),
+        familyId: existing.length === 1 ? existing[0] : null,
+      });
+    };
+
+    byPhone.forEach((group) => {
+      if (group.length > 1) {
+        suggest('guardian_phone', group);
+      }
+    });
+    // A name match adds nothing when the same phone number already ties the children together.
+    byName.forEach((group) => {
+      const phoneKeys = new Set(group.map((row) => phoneKeyOf.get(row.id) ?? `none:${row.id}`));
+      if (group.length > 1 && phoneKeys.size > 1) {
+        suggest('guardian_name', group);
+      }
+    });
 
-      return { items, totals };
-    } catch (error) {
-      console.error('Failed to fetch fee structure overview:', error);
-      // Return default structure if financial tables don't exist
-      return { items: [], totals: { totalStudents: 0, expectedMonthly: 0, actualCollection: 0, variance: 0 } };
+    return suggestions;
+  }
+
+  private async withFamilyMembers(familyRows: Family[]): Promise<FamilyRecord[]> {
+    if (!familyRows.length) {
+      return [];
     }
+    const memberRows = await db
+      .select()
+      .from(familyMembers)
+      .where(inArray(familyMembers.familyId, familyRows.map((row) => row.id)))
+      .orderBy(asc(familyMembers.id));
+    const names = await this.getStudentNames(memberRows.map((row) => row.studentId));
+
+    return familyRows.map((row) => ({
+      ...row,
+      members: memberRows
+        .filter((member) => member.familyId === row.id)
+        .map((member) => ({
+          studentId: member.studentId,
+          name: names.get(member.studentId)?.name ?? `Student #${member.studentId}`,
+          className: names.get(member.studentId)?.className,
+        })),
+    }));
   }
 
-  async getPendingActions(): Promise<any> {
-    try {
-      // Use raw SQL to avoid schema mismatches
-      const sql = neon(process.env.DATABASE_URL!);
-      
-      // Get overdue payments count
-      const [overdueResult] = await sql`
-        SELECT COUNT(*) as count
-        FROM student_fees
-        WHERE status = 'pending' AND due_date < CURRENT_DATE
-      `;
+  // Checks the students exist and belong to no other family than familyId.
+  private async resolveFamilyStudents(studentIds: number[], familyId?: number) {
+    const ids = Array.from(new Set(studentIds));
+    if (!ids.length) {
+      throw new Error('A family needs at least one student.');
+    }
 
-      // Get payments requiring verification
-      const [verificationResult] = await sql`
-        SELECT COUNT(*) as count
-        FROM payments
-        WHERE status = 'pending'
-      `;
+    const rows = await sqlShared()`
+      SELECT id, name, guardian_name as "guardianName", guardian_phone as "guardianPhone"
+      FROM students
+      WHERE id = ANY(${ids})
+    ` as Array<{ id: number; name: string; guardianName: string | null; guardianPhone: string | null }>;
+    const byId = new Map(rows.map((row) => [row.id, row]));
+    const missing = ids.find((id) => !byId.has(id));
+    if (missing !== undefined) {
+      throw new Error(`Student ${missing} not found.`);
+    }
 
-      return [
-        {
-          type: 'overdue',
-          title: 'Overdue Payments',
-          description: 'Students with pending monthly fees',
-          count: parseInt(String(overdueResult?.count || '0')),
-          icon: 'fas fa-exclamation-triangle',
-          color: 'destructive',
-          action: '/payments?filter=overdue'
-        },
-        {
-          type: 'verification',
-          title: 'Payments to Verify',
-          description: 'Require admin verification',
-          count: parseInt(String(verificationResult?.count || '0')),
-          icon: 'fas fa-clock',
-          color: 'accent',
-          action: '/payments?filter=pending'
-        },
-        {
-          type: 'import',
-          title: 'Excel Import Ready',
-          description: 'New data ready for import',
-          count: 1,
-          icon: 'fas fa-file-excel',
-          color: 'primary',
-          action: '/excel-import'
-        }
-      ];
-    } catch (error) {
-      console.error('Failed to fetch pending actions:', error);
-      // Return default actions if financial tables don't exist
-      return [
-        {
-          type: 'import',
-          title: 'Excel Import Ready',
-          description: 'New data ready for import',
-          count: 1,
-          icon: 'fas fa-file-excel',
-          color: 'primary',
-          action: '/excel-import'
-        }
-      ];
+    const taken = await db
+      .select({ studentId: familyMembers.studentId, familyId: familyMembers.familyId })
+      .from(familyMembers)
+      .where(inArray(familyMembers.studentId, ids));
+    const conflict = taken.find((row) => row.familyId !== familyId);
+    if (conflict) {
+      throw new Error(`${byId.get(conflict.studentId)!.name} already belongs to another family.`);
     }
+
+    return ids.map((id) => byId.get(id)!);
+  }
+
+  async getDepositsHeldReport(): Promise<DepositsHeldReport> {
+    const finance = sqlFinance();
+    const totalsRows = await finance`
+      SELECT
+        student_id as "studentId",
+        COALESCE(SUM(amount::numeric) FILTER (WHERE entry_type = 'collected'), 0)
+          - COALESCE(SUM(amount::numeric) FILTER (WHERE entry_type = 'reversed'), 0) as "collected",
+        COALESCE(SUM(amount::numeric) FILTER (WHERE entry_type = 'deducted'), 0) as "deducted",
+        COALESCE(SUM(amount::numeric) FILTER (WHERE entry_type = 'refunded'), 0) as "refunded",
+        MAX(created_at) FILTER (WHERE entry_type = 'collected') as "lastCollectedAt"
+      FROM deposit_entries
+      GROUP BY student_id
+      ORDER BY student_id
+    ` as Array<{
+      studentId: number;
+      collected: string | number;
+      deducted: string | number;
+      refunded: string | number;
+      lastCollectedAt: string | null;
+    }>;
+
+    const studentMeta = await this.getStudentNames(totalsRows.map((row) => Number(row.studentId)));
+    const all: DepositsHeldRow[] = totalsRows.map((row) => {
+      const collectedPaise = toPaise(row.collected);
+      const deductedPaise = toPaise(row.deducted);
+      const refundedPaise = toPaise(row.refunded);
+      return {
+        studentId: Number(row.studentId),
+        studentName: studentMeta.get(Number(row.studentId))?.name,
+        className: studentMeta.get(Number(row.studentId))?.className,
+        collected: collectedPaise / 100,
+        deducted: deductedPaise / 100,
+        refunded: refundedPaise / 100,
+        held: (collectedPaise - deductedPaise - refundedPaise) / 100,
+        lastCollectedAt: row.lastCollectedAt,
+      };
+    });
+    const sum = (pick: (row: DepositsHeldRow) => number) => all.reduce((total, row) => total + toPaise(pick(row)), 0) / 100;
+
+    return {
+      rows: all.filter((row) => row.held > 0),
+      totalHeld: sum((row) => row.held),
+      totalCollected: sum((row) => row.collected),
+      totalDeducted: sum((row) => row.deducted),
+      totalRefunded: sum((row) => row.refunded),
+    };
   }
 
   async createExcelImport(excelImport: InsertExcelImport): Promise<ExcelImport> {
@@ -2467,8 +7632,8 @@ export class DatabaseStorage implements IStorage {
 // In-memory storage implementation with sample data
 export class MemStorage implements IStorage {
   private academicYearStore: AcademicYear[] = [
-    { code: '2024-25', name: '2024-25', startDate: null, endDate: null, isActive: true, isCurrent: true, createdAt: new Date(), updatedAt: new Date() },
-    { code: '2023-24', name: '2023-24', startDate: null, endDate: null, isActive: true, isCurrent: false, createdAt: new Date(), updatedAt: new Date() }
+    { code: '2024-25', name: '2024-25', startDate: null, endDate: null, isActive: true, isCurrent: true, closedAt: null, closedBy: null, createdAt: new Date(), updatedAt: new Date() },
+    { code: '2023-24', name: '2023-24', startDate: null, endDate: null, isActive: true, isCurrent: false, closedAt: null, closedBy: null, createdAt: new Date(), updatedAt: new Date() }
   ];
 
   private users: User[] = [
@@ -2598,6 +7763,8 @@ export class MemStorage implements IStorage {
       endDate: parseDate(input.endDate),
       isActive: input.isActive ?? true,
       isCurrent: input.isCurrent ?? false,
+      closedAt: null,
+      closedBy: null,
       createdAt: now,
       updatedAt: now,
     };
@@ -2606,6 +7773,38 @@ export class MemStorage implements IStorage {
     return newYear;
   }
 
+  async getCurrentAcademicYearCode(): Promise<string> {
+    return this.academicYearStore.find(year => year.isCurrent)?.code ?? getCurrentAcademicYear();
+  }
+
+  async updateAcademicYear(code: string, input: UpdateAcademicYearInput): Promise<AcademicYear | undefined> {
+    const year = this.academicYearStore.find(item => item.code === code);
+    if (!year) {
+      return undefined;
+    }
+    if (input.isCurrent) {
+      this.academicYearStore.forEach(item => { item.isCurrent = item.code === code; });
+    }
+    Object.assign(year, {
+      ...(input.name !== undefined ? { name: input.name } : {}),
+      ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+      updatedAt: new Date(),
+    });
+    return year;
+  }
+
+  async closeAcademicYear(): Promise<AcademicYear | undefined> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async reopenAcademicYear(): Promise<AcademicYear | undefined> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async rolloverAcademicYear(): Promise<YearRolloverResult> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
   async getUser(id: number): Promise<User | undefined> {
     return this.users.find(u => u.id === id);
   }
@@ -2627,6 +7826,10 @@ export class MemStorage implements IStorage {
     return newUser;
   }
 
+  async getStaffUsers(): Promise<StaffUser[]> {
+    return this.users.map((user) => ({ id: user.id, name: user.name, role: user.role }));
+  }
+
   async getStudents(academicYear?: string): Promise<Student[]> {
     return this.students
       .filter((student) => {
@@ -2693,6 +7896,26 @@ export class MemStorage implements IStorage {
     return student;
   }
 
+  async changeStudentStatus(): Promise<StudentStatusChangeResult | null> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async getStudentStatusChanges(): Promise<StudentStatusChange[]> {
+    return [];
+  }
+
+  async exitStudent(): Promise<StudentExitResult | null> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async getStudentExit(): Promise<StudentExitRecord | null> {
+    return null;
+  }
+
+  async issueClearanceCertificate(): Promise<StudentExitRecord | null> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
   async openStudentAccount(studentId: number): Promise<{ account: StudentAccount; duesCreated: number; }> {
     const student = this.students.find((s) => s.id === studentId);
     if (!student) {
@@ -2725,7 +7948,51 @@ export class MemStorage implements IStorage {
     return null;
   }
 
-  async getFeeStructures(): Promise<FeeStructure[]> {
+  async getStudentStatement(): Promise<StudentStatement | null> {
+    return null;
+  }
+
+  async getFeeHeads(): Promise<FeeHead[]> {
+    return [];
+  }
+
+  async createFeeHead(): Promise<FeeHead> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async updateFeeHead(): Promise<FeeHead | undefined> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async deleteFeeHead(): Promise<FeeHead | undefined> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async getConcessionTypes(): Promise<ConcessionType[]> {
+    return [];
+  }
+
+  async createConcessionType(): Promise<ConcessionType> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async updateConcessionType(): Promise<ConcessionType | undefined> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async getStudentConcessions(): Promise<StudentConcessionRecord[]> {
+    return [];
+  }
+
+  async createStudentConcession(): Promise<StudentConcession> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async decideStudentConcession(): Promise<StudentConcession | undefined> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async getFeeStructures(): Promise<FeeStructureWithComponents[]> {
     return [];
   }
 
@@ -2733,6 +8000,10 @@ export class MemStorage implements IStorage {
     throw new Error("Not implemented in MemStorage");
   }
 
+  async bulkUpsertFeeStructures(): Promise<FeeStructureBulkUpsertResult> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
   async getStudentFees(): Promise<StudentFee[]> {
     return [];
   }
@@ -2741,7 +8012,7 @@ export class MemStorage implements IStorage {
     throw new Error("Not implemented in MemStorage");
   }
 
-  async getPayments(_studentId?: number, _limit?: number, _academicYear?: string): Promise<any[]> {
+  async getPayments(_studentId?: number, _limit?: number, _academicYear?: string, _search?: string): Promise<any[]> {
     return this.payments.map(payment => {
       const student = this.students.find(s => s.id === payment.studentId);
       const className = this.classes.find(c => c.id === student?.classId)?.name;
@@ -2785,16 +8056,28 @@ export class MemStorage implements IStorage {
     return {
       payment: mappedPayment,
       allocations: [],
+      tenders: [],
+      refunds: [],
+      concessions: [],
+      advance: '0.00',
       student: studentPayload,
       summary: null,
     };
   }
 
+  async previewAllocation(): Promise<AllocationPreview> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
   async createPayment(): Promise<Payment> {
     throw new Error("Not implemented in MemStorage");
   }
 
-  async recordPayment(): Promise<{ payment: Payment; allocations: PaymentAllocation[]; summary: StudentFinanceSummary | null; }> {
+  async recordPayment(): Promise<RecordPaymentResult> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async findDuplicatePayments(): Promise<DuplicatePaymentSuspect[]> {
     throw new Error("Not implemented in MemStorage");
   }
 
@@ -2802,6 +8085,58 @@ export class MemStorage implements IStorage {
     throw new Error("Not implemented in MemStorage");
   }
 
+  async markReceiptPrinted(): Promise<boolean> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async voidPayment(): Promise<{ payment: Payment; summary: StudentFinanceSummary | null; } | null> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async refundPayment(): Promise<{ refund: PaymentRefund; summary: StudentFinanceSummary | null; } | null> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async getCheques(): Promise<ChequeRecord[]> {
+    return [];
+  }
+
+  async depositCheque(): Promise<PaymentTender | null> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async clearCheque(): Promise<{ tender: PaymentTender; payment: Payment; } | null> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async bounceCheque(): Promise<{ tender: PaymentTender; payment: Payment; bounceCharge: StudentDue | null; summary: StudentFinanceSummary | null; } | null> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async levyLateFees(): Promise<LevyLateFeesResult> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async waiveDue(): Promise<{ due: StudentDue; summary: StudentFinanceSummary | null; } | null> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async splitDueIntoInstallments(): Promise<InstallmentPlanResult | null> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async getWriteOffs(): Promise<WriteOffRecord[]> {
+    return [];
+  }
+
+  async requestWriteOff(): Promise<WriteOffRecord | null> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async decideWriteOff(): Promise<WriteOffRecord | null> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
   async getTransportFees(): Promise<TransportFee[]> {
     return [];
   }
@@ -2885,6 +8220,24 @@ export class MemStorage implements IStorage {
         color: 'accent',
         action: '/payments?filter=pending'
       },
+      {
+        type: 'cheques',
+        title: 'Cheques Pending Clearance',
+        description: '₹0 awaiting deposit or clearance',
+        count: 0,
+        icon: 'fas fa-money-check',
+        color: 'accent',
+        action: '/cheques'
+      },
+      {
+        type: 'write_offs',
+        title: 'Write-offs to Approve',
+        description: '₹0 awaiting approval',
+        count: 0,
+        icon: 'fas fa-file-signature',
+        color: 'accent',
+        action: '/write-offs'
+      },
       {
         type: 'import',
         title: 'Excel Import Ready',
@@ -2897,6 +8250,66 @@ export class MemStorage implements IStorage {
     ];
   }
 
+  async getCollectionByTender(academicYear: string): Promise<TenderCollectionReport> {
+    return { academicYear, totals: [], monthly: [], grandTotal: 0 };
+  }
+
+  async getConcessionRegister(academicYear: string): Promise<ConcessionRegisterReport> {
+    return { academicYear, rows: [], byType: [], totalAmount: 0 };
+  }
+
+  async getWriteOffRegister(academicYear: string): Promise<WriteOffRegisterReport> {
+    return { academicYear, rows: [], totalAmount: 0, pendingCount: 0, pendingAmount: 0 };
+  }
+
+  async getStudentDeposit(): Promise<StudentDepositSummary | null> {
+    return null;
+  }
+
+  async deductDeposit(): Promise<StudentDepositSummary | null> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async refundDeposit(): Promise<StudentDepositSummary | null> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async getFamilies(): Promise<FamilyRecord[]> {
+    return [];
+  }
+
+  async getFamily(): Promise<FamilyRecord | null> {
+    return null;
+  }
+
+  async getStudentFamily(): Promise<FamilyRecord | null> {
+    return null;
+  }
+
+  async createFamily(): Promise<FamilyRecord> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async updateFamily(): Promise<FamilyRecord | null> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async deleteFamily(): Promise<boolean> {
+    throw new Error("Not implemented in MemStorage");
+  }
+
+  async getFamilyStatement(): Promise<FamilyStatement | null> {
+    return null;
+  }
+
+  async getFamilySuggestions(): Promise<FamilySuggestion[]> {
+    return [];
+  }
+
+  async getDepositsHeldReport(): Promise<DepositsHeldReport> {
+    return { rows: [], totalHeld: 0, totalCollected: 0, totalDeducted: 0, totalRefunded: 0 };
+  }
+
   async createExcelImport(): Promise<ExcelImport> {
     throw new Error("Not implemented in MemStorage");
   }
@@ -12,6 +12,7 @@ import {
   uniqueIndex,
   jsonb,
   text,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -42,6 +43,33 @@ export const paymentStatusEnum = pgEnum("payment_status", [
   "paid",
   "failed",
   "partial",
+  "voided",
+]);
+
+export const refundMethodEnum = pgEnum("refund_method", [
+  "cash",
+  "bank",
+  "upi",
+]);
+
+export const chequeStatusEnum = pgEnum("cheque_status", [
+  "received",
+  "deposited",
+  "cleared",
+  "bounced",
+]);
+
+export const creditEntryTypeEnum = pgEnum("credit_entry_type", [
+  "credit",
+  "debit",
+]);
+
+export const depositEntryTypeEnum = pgEnum("deposit_entry_type", [
+  "collected",
+  "deducted",
+  "refunded",
+  // The collecting payment was voided or its cheque bounced.
+  "reversed",
 ]);
 
 export const accountStatusEnum = pgEnum("account_status", [
@@ -49,26 +77,57 @@ export const accountStatusEnum = pgEnum("account_status", [
   "closed",
 ]);
 
+// Billing schedules. Recurring dues carry the first and last month of the period they bill.
 export const dueTypeEnum = pgEnum("due_type", [
   "one_time",
   "monthly",
-]);
-
-export const dueItemEnum = pgEnum("due_item", [
-  "admission",
-  "registration",
-  "uniform",
-  "copy",
-  "book",
-  "hst_dress",
-  "monthly",
-  "misc",
+  "termly",
+  "quarterly",
+  "half_yearly",
+  "annual",
+  "custom",
 ]);
 
 export const dueStatusEnum = pgEnum("due_status", [
   "due",
   "partial",
   "paid",
+  "cancelled",
+  "waived",
+  "written_off",
+  // Replaced by an installment plan; the unpaid balance now sits on its installments.
+  "split",
+  // Moved to an arrears due on the next year's account at rollover.
+  "carried_forward",
+]);
+
+export const lateFeeTypeEnum = pgEnum("late_fee_type", [
+  "none",
+  "flat",
+  "per_day",
+]);
+
+export const concessionKindEnum = pgEnum("concession_kind", [
+  "percentage",
+  "fixed",
+]);
+
+export const concessionStatusEnum = pgEnum("concession_status", [
+  "pending",
+  "approved",
+  "rejected",
+  "revoked",
+]);
+
+export const writeOffScopeEnum = pgEnum("write_off_scope", [
+  "due",
+  "account",
+]);
+
+export const writeOffStatusEnum = pgEnum("write_off_status", [
+  "pending",
+  "approved",
+  "rejected",
 ]);
 
 export const academicYears = pgTable(
@@ -80,6 +139,9 @@ export const academicYears = pgTable(
     endDate: date("end_date"),
     isActive: boolean("is_active").default(true).notNull(),
     isCurrent: boolean("is_current").default(false).notNull(),
+    // A closed year takes no new payments and its dues cannot be changed until it is reopened.
+    closedAt: timestamp("closed_at"),
+    closedBy: integer("closed_by"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
@@ -114,6 +176,62 @@ export const feeStructures = pgTable(
   }),
 );
 
+// Admin-managed charge heads (admission, monthly, lab, ...). Fee structure components and
+// student dues refer to a head by code, so adding a new charge needs no schema change.
+export const feeHeads = pgTable(
+  "fee_heads",
+  {
+    id: serial("id").primaryKey(),
+    code: varchar("code", { length: 40 }).notNull(),
+    label: varchar("label", { length: 120 }).notNull(),
+    frequency: dueTypeEnum("frequency").default("one_time").notNull(),
+    // Calendar months (1-12) billed when the frequency is "custom", e.g. the months the bus runs.
+    billingMonths: jsonb("billing_months").$type<number[]>(),
+    // Day of the month each billing period falls due on (1-28).
+    dueDay: integer("due_day").default(1).notNull(),
+    // Late fee once a due is more than lateFeeGraceDays past its due date: a flat amount,
+    // or an amount per day beyond the grace period, never more than lateFeeCap when set.
+    lateFeeType: lateFeeTypeEnum("late_fee_type").default("none").notNull(),
+    lateFeeAmount: decimal("late_fee_amount", { precision: 10, scale: 2 }).default("0").notNull(),
+    lateFeeCap: decimal("late_fee_cap", { precision: 10, scale: 2 }),
+    lateFeeGraceDays: integer("late_fee_grace_days").default(0).notNull(),
+    appliesToHostellers: boolean("applies_to_hostellers").default(true).notNull(),
+    appliesToDayScholars: boolean("applies_to_day_scholars").default(true).notNull(),
+    sortOrder: integer("sort_order").default(0).notNull(),
+    glAccount: varchar("gl_account", { length: 40 }),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    uniq_fee_heads_code: uniqueIndex("uniq_fee_heads_code").on(t.code),
+  }),
+);
+
+// Per-component amounts for a fee structure (admission, monthly, uniform, ...); frequency
+// decides whether seeding creates one due or one per month of the academic year.
+export const feeStructureComponents = pgTable(
+  "fee_structure_components",
+  {
+    id: serial("id").primaryKey(),
+    feeStructureId: integer("fee_structure_id")
+      .notNull()
+      .references(() => feeStructures.id, { onDelete: "cascade" }),
+    componentCode: varchar("component_code", { length: 40 }).notNull(),
+    hostellerAmount: decimal("hosteller_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+    dayScholarAmount: decimal("day_scholar_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+    frequency: dueTypeEnum("frequency").default("one_time").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    uniq_fee_structure_components_code: uniqueIndex("uniq_fee_structure_components_code").on(
+      t.feeStructureId,
+      t.componentCode,
+    ),
+  }),
+);
+
 export const studentFees = pgTable(
   "student_fees",
   {
@@ -155,6 +273,11 @@ export const payments = pgTable("payments", {
   verifiedAt: timestamp("verified_at"),
   remarks: text("remarks"),
   receiptUrl: text("receipt_url"),
+  voidedAt: timestamp("voided_at"),
+  voidedBy: integer("voided_by"),
+  voidReason: text("void_reason"),
+  receiptNumber: varchar("receipt_number", { length: 40 }).unique(),
+  idempotencyKey: varchar("idempotency_key", { length: 80 }).unique(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -229,21 +352,238 @@ export const studentDues = pgTable(
     studentId: integer("student_id").notNull(),
     accountId: integer("account_id").notNull(),
     dueType: dueTypeEnum("due_type").notNull(),
-    itemType: dueItemEnum("item_type").notNull(),
+    itemType: varchar("item_type", { length: 40 }).notNull(),
+    feeHeadId: integer("fee_head_id").references(() => feeHeads.id, { onDelete: "restrict" }),
     academicYear: varchar("academic_year", { length: 20 })
       .references(() => academicYears.code, { onDelete: "restrict" }),
     dueMonth: varchar("due_month", { length: 20 }),
+    periodEndMonth: varchar("period_end_month", { length: 20 }),
+    dueDate: date("due_date"),
     amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
     paidAmount: decimal("paid_amount", { precision: 10, scale: 2 }).default("0").notNull(),
+    // amount is what the student owes: grossAmount less concessionAmount (see due_concessions).
+    // grossAmount is null on dues created before concessions existed.
+    grossAmount: decimal("gross_amount", { precision: 10, scale: 2 }),
+    concessionAmount: decimal("concession_amount", { precision: 10, scale: 2 }).default("0").notNull(),
     status: dueStatusEnum("status").default("due").notNull(),
     notes: text("notes"),
+    // Set on late-fee dues: the due whose lateness they charge for (at most one each).
+    lateFeeForDueId: integer("late_fee_for_due_id").references((): AnyPgColumn => studentDues.id, { onDelete: "cascade" }),
+    // Set on installments: the one-time due they were split from, and their place in the plan.
+    installmentOfDueId: integer("installment_of_due_id").references((): AnyPgColumn => studentDues.id, { onDelete: "cascade" }),
+    installmentNumber: integer("installment_number"),
+    // Set on misc dues recordPayment raises for a charge paid on the spot. Voiding or bouncing
+    // that receipt cancels them, since the receipt is the only reason they exist.
+    raisedByPaymentId: integer("raised_by_payment_id").references((): AnyPgColumn => payments.id, { onDelete: "set null" }),
+    // Waiving moves the unpaid balance here and lowers amount to what was paid.
+    waivedAmount: decimal("waived_amount", { precision: 10, scale: 2 }).default("0").notNull(),
+    waivedAt: timestamp("waived_at"),
+    waiverReason: text("waiver_reason"),
+    // An approved write-off moves the unpaid balance here the same way (see write_off_lines).
+    writtenOffAmount: decimal("written_off_amount", { precision: 10, scale: 2 }).default("0").notNull(),
+    // Year rollover moves the unpaid balance here and onto carriedToDueId, an arrears due
+    // whose arrearsFromYear names the year it came from.
+    carriedForwardAmount: decimal("carried_forward_amount", { precision: 10, scale: 2 }).default("0").notNull(),
+    carriedToDueId: integer("carried_to_due_id").references((): AnyPgColumn => studentDues.id, { onDelete: "set null" }),
+    arrearsFromYear: varchar("arrears_from_year", { length: 20 })
+      .references(() => academicYears.code, { onDelete: "restrict" }),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
   (t) => ({
     idx_student_dues_student: index("idx_student_dues_student").on(t.studentId),
+    uniq_student_dues_late_fee_for: uniqueIndex("uniq_student_dues_late_fee_for").on(t.lateFeeForDueId),
     idx_student_dues_account: index("idx_student_dues_account").on(t.accountId),
     idx_student_dues_status: index("idx_student_dues_status").on(t.status),
+    idx_student_dues_fee_head: index("idx_student_dues_fee_head").on(t.feeHeadId),
+    idx_student_dues_installment_of: index("idx_student_dues_installment_of").on(t.installmentOfDueId),
+  }),
+);
+
+// Discount schemes such as staff ward, sibling or merit scholarship. A percentage comes off
+// each matching due; a fixed amount comes off each matching due, never taking it below zero.
+export const concessionTypes = pgTable(
+  "concession_types",
+  {
+    id: serial("id").primaryKey(),
+    code: varchar("code", { length: 40 }).notNull(),
+    name: varchar("name", { length: 120 }).notNull(),
+    kind: concessionKindEnum("kind").notNull(),
+    value: decimal("value", { precision: 10, scale: 2 }).notNull(),
+    // Fee head codes the concession applies to; null applies it to every head.
+    feeHeadCodes: jsonb("fee_head_codes").$type<string[]>(),
+    // Only dues falling due within this window are discounted; either end may be open.
+    validFrom: date("valid_from"),
+    validTo: date("valid_to"),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    uniq_concession_types_code: uniqueIndex("uniq_concession_types_code").on(t.code),
+  }),
+);
+
+// A concession granted to a student for an academic year. Only approved grants are applied
+// when the year's dues are created.
+export const studentConcessions = pgTable(
+  "student_concessions",
+  {
+    id: serial("id").primaryKey(),
+    studentId: integer("student_id").notNull(),
+    concessionTypeId: integer("concession_type_id")
+      .notNull()
+      .references(() => concessionTypes.id, { onDelete: "restrict" }),
+    academicYear: varchar("academic_year", { length: 20 })
+      .notNull()
+      .references(() => academicYears.code, { onDelete: "restrict" }),
+    status: concessionStatusEnum("status").default("pending").notNull(),
+    reason: text("reason"),
+    requestedBy: integer("requested_by"),
+    decidedBy: integer("decided_by"),
+    decidedAt: timestamp("decided_at"),
+    decisionNote: text("decision_note"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    uniq_student_concessions_grant: uniqueIndex("uniq_student_concessions_grant").on(
+      t.studentId,
+      t.concessionTypeId,
+      t.academicYear,
+    ),
+    idx_student_concessions_year_status: index("idx_student_concessions_year_status").on(t.academicYear, t.status),
+  }),
+);
+
+// What each granted concession took off each due; receipts and the concession register read these.
+export const dueConcessions = pgTable(
+  "due_concessions",
+  {
+    id: serial("id").primaryKey(),
+    dueId: integer("due_id").notNull().references(() => studentDues.id, { onDelete: "cascade" }),
+    studentConcessionId: integer("student_concession_id")
+      .notNull()
+      .references(() => studentConcessions.id, { onDelete: "restrict" }),
+    amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    uniq_due_concessions_due_grant: uniqueIndex("uniq_due_concessions_due_grant").on(t.dueId, t.studentConcessionId),
+    idx_due_concessions_grant: index("idx_due_concessions_grant").on(t.studentConcessionId),
+  }),
+);
+
+// A request to stop chasing a balance that will not be collected: either one due or every
+// open due on the account (optionally limited to one year). Dues are only touched once a
+// different user approves it; requestedBy and decidedBy are ids from the shared users table.
+export const writeOffs = pgTable(
+  "write_offs",
+  {
+    id: serial("id").primaryKey(),
+    studentId: integer("student_id").notNull(),
+    accountId: integer("account_id").notNull().references(() => studentAccounts.id, { onDelete: "restrict" }),
+    scope: writeOffScopeEnum("scope").notNull(),
+    dueId: integer("due_id").references(() => studentDues.id, { onDelete: "cascade" }),
+    academicYear: varchar("academic_year", { length: 20 })
+      .references(() => academicYears.code, { onDelete: "restrict" }),
+    // The outstanding balance when requested; writtenOffAmount is what approval actually cleared.
+    requestedAmount: decimal("requested_amount", { precision: 10, scale: 2 }).notNull(),
+    writtenOffAmount: decimal("written_off_amount", { precision: 10, scale: 2 }).default("0").notNull(),
+    reason: text("reason").notNull(),
+    status: writeOffStatusEnum("status").default("pending").notNull(),
+    requestedBy: integer("requested_by").notNull(),
+    decidedBy: integer("decided_by"),
+    decidedAt: timestamp("decided_at"),
+    decisionNote: text("decision_note"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    idx_write_offs_status: index("idx_write_offs_status").on(t.status),
+    idx_write_offs_student: index("idx_write_offs_student").on(t.studentId),
+  }),
+);
+
+// The balance an approved write-off cleared on each due. A due can only be written off once.
+export const writeOffLines = pgTable(
+  "write_off_lines",
+  {
+    id: serial("id").primaryKey(),
+    writeOffId: integer("write_off_id").notNull().references(() => writeOffs.id, { onDelete: "cascade" }),
+    dueId: integer("due_id").notNull().references(() => studentDues.id, { onDelete: "cascade" }),
+    amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    uniq_write_off_lines_due: uniqueIndex("uniq_write_off_lines_due").on(t.dueId),
+    idx_write_off_lines_write_off: index("idx_write_off_lines_write_off").on(t.writeOffId),
+  }),
+);
+
+// A mid-year change of class or boarding status and how it repriced the account's dues:
+// from effectiveMonth on, unpaid structure dues were cancelled and billed again at the new
+// rate, part-paid ones adjusted in place. lines records each due touched.
+export const studentStatusChanges = pgTable(
+  "student_status_changes",
+  {
+    id: serial("id").primaryKey(),
+    studentId: integer("student_id").notNull(),
+    accountId: integer("account_id").notNull().references(() => studentAccounts.id, { onDelete: "cascade" }),
+    academicYear: varchar("academic_year", { length: 20 })
+      .references(() => academicYears.code, { onDelete: "restrict" }),
+    effectiveMonth: varchar("effective_month", { length: 7 }).notNull(),
+    fromClassId: integer("from_class_id").notNull(),
+    toClassId: integer("to_class_id").notNull(),
+    fromHosteller: boolean("from_hosteller").notNull(),
+    toHosteller: boolean("to_hosteller").notNull(),
+    reason: text("reason"),
+    changedBy: integer("changed_by"),
+    // Net of what was cancelled and what was billed in its place; negative when the change lowers fees.
+    amountChange: decimal("amount_change", { precision: 10, scale: 2 }).default("0").notNull(),
+    lines: jsonb("lines").$type<Array<{
+      dueId: number | null;
+      label: string;
+      action: "cancelled" | "adjusted" | "created";
+      previousAmount: string;
+      amount: string;
+    }>>().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    idx_student_status_changes_student: index("idx_student_status_changes_student").on(t.studentId),
+  }),
+);
+
+// A student's exit from the school: dues for periods after the leaving month were
+// cancelled (lines), and the account stays open until the balance is settled and the
+// no-dues certificate is issued, at which point clearedAt and certificateNumber are set.
+export const studentExits = pgTable(
+  "student_exits",
+  {
+    id: serial("id").primaryKey(),
+    studentId: integer("student_id").notNull(),
+    accountId: integer("account_id").notNull().unique().references(() => studentAccounts.id, { onDelete: "cascade" }),
+    academicYear: varchar("academic_year", { length: 20 })
+      .references(() => academicYears.code, { onDelete: "restrict" }),
+    leavingDate: date("leaving_date").notNull(),
+    reason: text("reason"),
+    processedBy: integer("processed_by"),
+    cancelledAmount: decimal("cancelled_amount", { precision: 10, scale: 2 }).default("0").notNull(),
+    lines: jsonb("lines").$type<Array<{
+      dueId: number;
+      label: string;
+      action: "cancelled" | "adjusted";
+      previousAmount: string;
+      amount: string;
+    }>>().notNull(),
+    certificateNumber: varchar("certificate_number", { length: 50 }).unique(),
+    clearedAt: timestamp("cleared_at"),
+    clearedBy: integer("cleared_by"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    idx_student_exits_student: index("idx_student_exits_student").on(t.studentId),
   }),
 );
 
@@ -258,6 +598,134 @@ export const paymentAllocations = pgTable("payment_allocations", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const paymentTenders = pgTable(
+  "payment_tenders",
+  {
+    id: serial("id").primaryKey(),
+    paymentId: integer("payment_id").notNull().references(() => payments.id, { onDelete: "cascade" }),
+    method: paymentMethodEnum("method").notNull(),
+    amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+    referenceNumber: varchar("reference_number", { length: 100 }),
+    bankName: varchar("bank_name", { length: 120 }),
+    chequeNumber: varchar("cheque_number", { length: 40 }),
+    chequeDate: date("cheque_date"),
+    chequeStatus: chequeStatusEnum("cheque_status"),
+    depositDate: date("deposit_date"),
+    clearanceDate: date("clearance_date"),
+    bouncedAt: date("bounced_at"),
+    bounceReason: text("bounce_reason"),
+    bounceChargeDueId: integer("bounce_charge_due_id").references(() => studentDues.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    idx_payment_tenders_payment: index("idx_payment_tenders_payment").on(t.paymentId),
+    idx_payment_tenders_cheque_status: index("idx_payment_tenders_cheque_status").on(t.chequeStatus),
+  }),
+);
+
+export const paymentRefunds = pgTable(
+  "payment_refunds",
+  {
+    id: serial("id").primaryKey(),
+    paymentId: integer("payment_id").notNull().references(() => payments.id, { onDelete: "cascade" }),
+    allocationId: integer("allocation_id").references(() => paymentAllocations.id, { onDelete: "set null" }),
+    studentId: integer("student_id").notNull(),
+    academicYear: varchar("academic_year", { length: 20 })
+      .references(() => academicYears.code, { onDelete: "restrict" }),
+    amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+    refundMethod: refundMethodEnum("refund_method").notNull(),
+    referenceNumber: varchar("reference_number", { length: 100 }),
+    reason: text("reason"),
+    refundedBy: integer("refunded_by"),
+    refundedAt: timestamp("refunded_at").defaultNow().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    idx_payment_refunds_payment: index("idx_payment_refunds_payment").on(t.paymentId),
+    idx_payment_refunds_student_year: index("idx_payment_refunds_student_year").on(t.studentId, t.academicYear),
+  }),
+);
+
+export const studentCredits = pgTable(
+  "student_credits",
+  {
+    id: serial("id").primaryKey(),
+    studentId: integer("student_id").notNull(),
+    accountId: integer("account_id").notNull().references(() => studentAccounts.id, { onDelete: "cascade" }),
+    paymentId: integer("payment_id").notNull().references(() => payments.id, { onDelete: "cascade" }),
+    dueId: integer("due_id").references(() => studentDues.id, { onDelete: "set null" }),
+    entryType: creditEntryTypeEnum("entry_type").notNull(),
+    amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+    notes: text("notes"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    idx_student_credits_account: index("idx_student_credits_account").on(t.accountId),
+    idx_student_credits_payment: index("idx_student_credits_payment").on(t.paymentId),
+  }),
+);
+
+// Refundable caution deposits. They are a liability held for the student, not fee income,
+// so they never touch dues or credits: the held balance is collected less deducted,
+// refunded and reversed, and it follows the student across academic years.
+export const depositEntries = pgTable(
+  "deposit_entries",
+  {
+    id: serial("id").primaryKey(),
+    studentId: integer("student_id").notNull(),
+    // Set on collections (and their reversals); deductions and refunds stand alone.
+    paymentId: integer("payment_id").references(() => payments.id, { onDelete: "cascade" }),
+    academicYear: varchar("academic_year", { length: 20 })
+      .references(() => academicYears.code, { onDelete: "restrict" }),
+    entryType: depositEntryTypeEnum("entry_type").notNull(),
+    amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+    reason: text("reason"),
+    refundMethod: refundMethodEnum("refund_method"),
+    referenceNumber: varchar("reference_number", { length: 100 }),
+    recordedBy: integer("recorded_by"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    idx_deposit_entries_student: index("idx_deposit_entries_student").on(t.studentId),
+    idx_deposit_entries_payment: index("idx_deposit_entries_payment").on(t.paymentId),
+  }),
+);
+
+// Siblings are separate students rows; a family groups them under one guardian so fees can be
+// reviewed and paid together. Each student belongs to at most one family.
+export const families = pgTable("families", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  guardianName: varchar("guardian_name", { length: 255 }),
+  guardianPhone: varchar("guardian_phone", { length: 20 }),
+  notes: text("notes"),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const familyMembers = pgTable(
+  "family_members",
+  {
+    id: serial("id").primaryKey(),
+    familyId: integer("family_id").notNull().references(() => families.id, { onDelete: "cascade" }),
+    studentId: integer("student_id").notNull().unique(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => ({
+    idx_family_members_family: index("idx_family_members_family").on(t.familyId),
+  }),
+);
+
+// One counter per academic year; recordPayment bumps it inside its transaction.
+export const receiptSequences = pgTable("receipt_sequences", {
+  academicYear: varchar("academic_year", { length: 20 })
+    .primaryKey()
+    .references(() => academicYears.code, { onDelete: "restrict" }),
+  lastNumber: integer("last_number").default(0).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const financeSchema = {
   academicYears,
   feeStructures,
@@ -273,6 +741,22 @@ export const extendedFinanceSchema = {
   studentAccounts,
   studentDues,
   paymentAllocations,
+  paymentTenders,
+  paymentRefunds,
+  studentCredits,
+  receiptSequences,
+  feeHeads,
+  feeStructureComponents,
+  concessionTypes,
+  studentConcessions,
+  dueConcessions,
+  writeOffs,
+  writeOffLines,
+  studentStatusChanges,
+  studentExits,
+  depositEntries,
+  families,
+  familyMembers,
 };
 
 export const insertFeeStructureSchema = createInsertSchema(feeStructures).omit({
@@ -312,6 +796,28 @@ export const insertAcademicYearSchema = createInsertSchema(academicYears).omit({
   updatedAt: true,
 });
 
+export const insertFeeHeadSchema = createInsertSchema(feeHeads, {
+  billingMonths: z.array(z.number().int().min(1).max(12)).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertConcessionTypeSchema = createInsertSchema(concessionTypes, {
+  feeHeadCodes: z.array(z.string()).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertStudentConcessionSchema = createInsertSchema(studentConcessions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertStudentAccountSchema = createInsertSchema(studentAccounts).omit({
   id: true,
   openedAt: true,
@@ -329,6 +835,22 @@ export const insertPaymentAllocationSchema = createInsertSchema(paymentAllocatio
   createdAt: true,
 });
 
+export const insertPaymentTenderSchema = createInsertSchema(paymentTenders).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPaymentRefundSchema = createInsertSchema(paymentRefunds).omit({
+  id: true,
+  refundedAt: true,
+  createdAt: true,
+});
+
+export const insertStudentCreditSchema = createInsertSchema(studentCredits).omit({
+  id: true,
+  createdAt: true,
+});
+
 export type FeeStructure = typeof feeStructures.$inferSelect;
 export type InsertFeeStructure = z.infer<typeof insertFeeStructureSchema>;
 
@@ -357,3 +879,25 @@ export type StudentDue = typeof studentDues.$inferSelect;
 export type InsertStudentDue = z.infer<typeof insertStudentDueSchema>;
 export type PaymentAllocation = typeof paymentAllocations.$inferSelect;
 export type InsertPaymentAllocation = z.infer<typeof insertPaymentAllocationSchema>;
+export type PaymentTender = typeof paymentTenders.$inferSelect;
+export type InsertPaymentTender = z.infer<typeof insertPaymentTenderSchema>;
+export type PaymentRefund = typeof paymentRefunds.$inferSelect;
+export type InsertPaymentRefund = z.infer<typeof insertPaymentRefundSchema>;
+export type StudentCredit = typeof studentCredits.$inferSelect;
+export type InsertStudentCredit = z.infer<typeof insertStudentCreditSchema>;
+export type ReceiptSequence = typeof receiptSequences.$inferSelect;
+export type FeeStructureComponent = typeof feeStructureComponents.$inferSelect;
+export type FeeHead = typeof feeHeads.$inferSelect;
+export type InsertFeeHead = z.infer<typeof insertFeeHeadSchema>;
+export type ConcessionType = typeof concessionTypes.$inferSelect;
+export type InsertConcessionType = z.infer<typeof insertConcessionTypeSchema>;
+export type StudentConcession = typeof studentConcessions.$inferSelect;
+export type InsertStudentConcession = z.infer<typeof insertStudentConcessionSchema>;
+export type DueConcession = typeof dueConcessions.$inferSelect;
+export type WriteOff = typeof writeOffs.$inferSelect;
+export type WriteOffLine = typeof writeOffLines.$inferSelect;
+export type StudentStatusChange = typeof studentStatusChanges.$inferSelect;
+export type StudentExit = typeof studentExits.$inferSelect;
+export type DepositEntry = typeof depositEntries.$inferSelect;
+export type Family = typeof families.$inferSelect;
+export type FamilyMember = typeof familyMembers.$inferSelect;
@@ -38,6 +38,8 @@ export const academicYears = pgTable("academic_years", {
   endDate: date("end_date"),
   isActive: boolean("is_active").default(true).notNull(),
   isCurrent: boolean("is_current").default(false).notNull(),
+  closedAt: timestamp("closed_at"),
+  closedBy: integer("closed_by"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
@@ -142,7 +144,8 @@ export const paymentStatusEnum = pgEnum("payment_status", [
   "pending", 
   "paid", 
   "failed", 
-  "partial"
+  "partial",
+  "voided"
 ]);
 
 // Fee structures by class and type
@@ -195,6 +198,11 @@ export const payments = pgTable("payments", {
   verifiedAt: timestamp("verified_at"),
   remarks: text("remarks"),
   receiptUrl: text("receipt_url"),
+  voidedAt: timestamp("voided_at"),
+  voidedBy: integer("voided_by").references(() => users.id, { onDelete: "set null" }),
+  voidReason: text("void_reason"),
+  receiptNumber: varchar("receipt_number", { length: 40 }).unique(),
+  idempotencyKey: varchar("idempotency_key", { length: 80 }).unique(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (t) => ({
   idx_student_date: index("idx_payments_student_date").on(t.studentId, t.paymentDate),